@@ -13,13 +13,28 @@ Production:
     flask run                        # serves API + React build
 """
 
+import json
+import mimetypes
 import os
+import re
+import shutil
+import threading
+import uuid
+import secrets
+from datetime import datetime, timedelta
 from functools import wraps
 
-from flask import Flask, jsonify, request, session, send_from_directory
+from flask import (
+    Flask, Response, jsonify, request, session, send_from_directory,
+    stream_with_context,
+)
 from flask_bcrypt import Bcrypt
+from flask_sock import Sock
 from dotenv import load_dotenv
 
+from lib.llm_service import LLMService, Message
+from lib.stt_service import STTService
+
 load_dotenv()
 
 # ─── App setup ────────────────────────────────────────────────────────────────
@@ -27,7 +42,14 @@ load_dotenv()
 app = Flask(__name__, static_folder=None)
 app.secret_key = os.environ.get('SECRET_KEY', 'change-me-in-production')
 
+# Sign-in lifetimes. "Remember me" keeps the cookie across browser restarts;
+# otherwise it lasts until the browser closes or SESSION_LIFETIME runs out.
+SESSION_LIFETIME = timedelta(hours=12)
+REMEMBER_LIFETIME = timedelta(days=30)
+app.permanent_session_lifetime = REMEMBER_LIFETIME
+
 bcrypt = Bcrypt(app)
+sock = Sock(app)
 
 # ─── Database ─────────────────────────────────────────────────────────────────
 
@@ -56,24 +78,226 @@ def login_required(f):
         return f(*args, **kwargs)
     return decorated
 
+
+# Each role includes everything the ones before it can do.
+# frontend/src/lib/roles.ts mirrors this order.
+ROLES = ('user', 'coach', 'admin')
+
+
+def has_role(role: str, required: str) -> bool:
+    return ROLES.index(role) >= ROLES.index(required)
+
+
+def role_required(required: str):
+    """Like login_required, but also 403s unless the user's role is at least `required`."""
+    def decorator(f):
+        @wraps(f)
+        def decorated(*args, **kwargs):
+            if 'user_id' not in session:
+                return jsonify({'error': 'Unauthorized'}), 401
+            # g.role is read fresh by check_session, so a demotion applies immediately.
+            if not has_role(g.role, required):
+                return jsonify({'error': 'You do not have access to this'}), 403
+            return f(*args, **kwargs)
+        return decorated
+    return decorator
+
+
+# Every sign-in is a row in user_sessions, so it can be listed and revoked.
+# The Flask cookie carries the row's random token; a cookie whose row is
+# gone (revoked, expired, account deleted or disabled) is cleared before the
+# request runs.
+
+LAST_SEEN_INTERVAL = timedelta(minutes=1)   # don't write last_seen_at on every request
+
+
+def start_session(user_id: int, username: str, remember: bool) -> None:
+    token = secrets.token_hex(32)
+    lifetime = REMEMBER_LIFETIME if remember else SESSION_LIFETIME
+    db = get_db()
+    cur = db.cursor()
+    cur.execute(
+        'INSERT INTO user_sessions (user_id, token, remember, user_agent, ip_address, expires_at) '
+        'VALUES (%s, %s, %s, %s, %s, NOW() + %s)',
+        (user_id, token, remember, request.headers.get('User-Agent'), request.remote_addr, lifetime),
+    )
+    db.commit()
+    cur.close()
+    session.clear()
+    session.permanent = remember
+    session['user_id'] = user_id
+    session['username'] = username
+    session['token'] = token
+
+
+def end_session() -> None:
+    token = session.get('token')
+    if token:
+        db = get_db()
+        cur = db.cursor()
+        cur.execute('DELETE FROM user_sessions WHERE token = %s', (token,))
+        db.commit()
+        cur.close()
+    session.clear()
+
+
+def find_session(cur):
+    """
+    The cookie's user_sessions row as (session_id, last_seen_at is stale, role),
+    or None if it has been revoked, has expired or the account is disabled.
+    """
+    cur.execute(
+        'SELECT s.session_id, s.last_seen_at < NOW() - %s, u.role '
+        'FROM user_sessions s JOIN users u ON u.user_id = s.user_id '
+        'WHERE s.token = %s AND s.user_id = %s AND s.expires_at > NOW() AND u.disabled_at IS NULL',
+        (LAST_SEEN_INTERVAL, session.get('token'), session['user_id']),
+    )
+    return cur.fetchone()
+
+
+@app.before_request
+def check_session():
+    if not request.path.startswith('/api/') or 'user_id' not in session:
+        return
+    db = get_db()
+    cur = db.cursor()
+    row = find_session(cur)
+    if row is None:
+        session.clear()
+    else:
+        g.session_id = row[0]
+        g.role = row[2]
+        if row[1]:
+            cur.execute('UPDATE user_sessions SET last_seen_at = NOW() WHERE session_id = %s', (row[0],))
+            db.commit()
+    cur.close()
+
+# ─── Streaming helpers ────────────────────────────────────────────────────────
+
+def wants_stream() -> bool:
+    """True if the client asked for a Server-Sent Events response."""
+    return 'text/event-stream' in request.headers.get('Accept', '')
+
+
+def sse_event(data: dict, event: str | None = None) -> str:
+    prefix = f'event: {event}\n' if event else ''
+    return f'{prefix}data: {json.dumps(data)}\n\n'
+
+
+def sse_response(chunks, done=None):
+    """
+    Stream an iterable of text chunks as SSE `{delta}` events, followed by a
+    `done` event whose payload is `done()` if given. An exception mid-stream
+    is reported as an `error` event, since the 200 status line has already
+    been sent.
+    """
+    def generate():
+        try:
+            for chunk in chunks:
+                yield sse_event({'delta': chunk})
+            payload = done() if done else {}
+        except Exception as exc:
+            app.logger.exception('Stream failed')
+            yield sse_event({'error': str(exc) or 'Stream failed'}, 'error')
+            return
+        yield sse_event(payload, 'done')
+
+    return Response(
+        stream_with_context(generate()),
+        mimetype='text/event-stream',
+        headers={'Cache-Control': 'no-cache', 'X-Accel-Buffering': 'no'},
+    )
+
 # ─── Auth routes ─────────────────────────────────────────────────────────────
 
+USER_COLUMNS = (
+    'user_id, username, display_name, bio, avatar_filename, role, theme, notification_preferences, locale'
+)
+
+
+def user_json(row) -> dict:
+    user_id, username, display_name, bio, avatar_filename, role, theme, preferences, locale = row
+    return {
+        'user_id': user_id,
+        'username': username,
+        'display_name': display_name,
+        'bio': bio,
+        # The filename changes with every new avatar, so it doubles as a cache buster.
+        'avatar_url': f'/api/users/{user_id}/avatar?v={avatar_filename}' if avatar_filename else None,
+        'role': role,
+        'theme': theme,
+        'notification_preferences': notification_preferences(preferences),
+        'locale': locale,
+    }
+
+
+def get_user(user_id):
+    cur = get_db().cursor()
+    cur.execute(f'SELECT {USER_COLUMNS} FROM users WHERE user_id = %s', (user_id,))
+    row = cur.fetchone()
+    cur.close()
+    return row
+
+
+# Registration rules. frontend/src/lib/password.ts mirrors these for live feedback.
+USERNAME_PATTERN = re.compile(r'[A-Za-z0-9_]{3,30}')
+MIN_PASSWORD_LENGTH = 8
+
+
+def username_problem(username: str) -> str | None:
+    if not USERNAME_PATTERN.fullmatch(username):
+        return 'Use 3-30 letters, numbers or underscores'
+    return None
+
+
+def password_problem(password: str, username: str = '') -> str | None:
+    if len(password) < MIN_PASSWORD_LENGTH:
+        return f'Must be at least {MIN_PASSWORD_LENGTH} characters'
+    if not re.search(r'[A-Za-z]', password) or not re.search(r'\d', password):
+        return 'Must include both letters and numbers'
+    if username and username.lower() in password.lower():
+        return 'Must not contain your username'
+    return None
+
+
+def username_taken(username: str) -> bool:
+    """Case-insensitive, so 'Alice' can't register next to 'alice'."""
+    cur = get_db().cursor()
+    cur.execute('SELECT 1 FROM users WHERE LOWER(username) = LOWER(%s)', (username,))
+    taken = cur.fetchone() is not None
+    cur.close()
+    return taken
+
+
+@app.get('/api/users/available')
+def username_available():
+    """Live check for the registration form: is `?username=` valid and free?"""
+    username = (request.args.get('username') or '').strip()
+    problem = username_problem(username)
+    if problem is None and username_taken(username):
+        problem = 'Username already taken'
+    return jsonify({'username': username, 'available': problem is None, 'error': problem})
+
+
 @app.post('/api/register')
 def register():
     data = request.get_json(silent=True) or {}
     username = (data.get('username') or '').strip()
     password = data.get('password') or ''
 
-    if not username or not password:
-        return jsonify({'error': 'Username and password are required'}), 400
+    fields = {}
+    if problem := username_problem(username):
+        fields['username'] = problem
+    if problem := password_problem(password, username):
+        fields['password'] = problem
+    if fields:
+        return jsonify({'error': 'Please fix the highlighted fields', 'fields': fields}), 400
+
+    if username_taken(username):
+        return jsonify({'error': 'Username already taken', 'fields': {'username': 'Username already taken'}}), 409
 
     db = get_db()
     cur = db.cursor()
-
-    cur.execute('SELECT user_id FROM users WHERE username = %s', (username,))
-    if cur.fetchone():
-        return jsonify({'error': 'Username already taken'}), 409
-
     hashed = bcrypt.generate_password_hash(password).decode('utf-8')
     cur.execute(
         'INSERT INTO users (username, password) VALUES (%s, %s) RETURNING user_id',
@@ -84,7 +308,9 @@ def register():
     db.commit()
     cur.close()
 
-    return jsonify({'user_id': user_id, 'username': username}), 201
+    # Signed in straight away — no detour through the login form.
+    start_session(user_id, username, remember=False)
+    return jsonify(user_json(get_user(user_id))), 201
 
 
 @app.post('/api/login')
@@ -92,27 +318,29 @@ def login():
     data = request.get_json(silent=True) or {}
     username = (data.get('username') or '').strip()
     password = data.get('password') or ''
+    remember = bool(data.get('remember'))
 
     if not username or not password:
         return jsonify({'error': 'Username and password are required'}), 400
 
     db = get_db()
     cur = db.cursor()
-    cur.execute('SELECT user_id, password FROM users WHERE username = %s', (username,))
+    cur.execute('SELECT user_id, password, disabled_at FROM users WHERE username = %s', (username,))
     row = cur.fetchone()
     cur.close()
 
     if not row or not bcrypt.check_password_hash(row[1], password):
         return jsonify({'error': 'Invalid username or password'}), 401
+    if row[2] is not None:
+        return jsonify({'error': 'This account has been disabled'}), 403
 
-    session['user_id'] = row[0]
-    session['username'] = username
-    return jsonify({'user_id': row[0], 'username': username})
+    start_session(row[0], username, remember)
+    return jsonify(user_json(get_user(row[0])))
 
 
 @app.post('/api/logout')
 def logout():
-    session.clear()
+    end_session()
     return jsonify({'ok': True})
 
 
@@ -120,66 +348,2739 @@ def logout():
 def me():
     if 'user_id' not in session:
         return jsonify({'error': 'Unauthorized'}), 401
-    return jsonify({'user_id': session['user_id'], 'username': session['username']})
+    row = get_user(session['user_id'])
+    if row is None:
+        # The account was deleted from another session.
+        session.clear()
+        return jsonify({'error': 'Unauthorized'}), 401
+    return jsonify(user_json(row))
+
+# ─── Session routes ───────────────────────────────────────────────────────────
+
+SESSION_COLUMNS = 'session_id, remember, user_agent, ip_address, created_at, last_seen_at, expires_at'
+
+
+def session_json(row) -> dict:
+    session_id, remember, user_agent, ip_address, created_at, last_seen_at, expires_at = row
+    return {
+        'session_id': session_id,
+        'remember': remember,
+        'user_agent': user_agent,
+        'ip_address': ip_address,
+        'created_at': iso(created_at),
+        'last_seen_at': iso(last_seen_at),
+        'expires_at': iso(expires_at),
+        'current': session_id == g.get('session_id'),
+    }
+
+
+def get_current_session():
+    cur = get_db().cursor()
+    cur.execute(f'SELECT {SESSION_COLUMNS} FROM user_sessions WHERE session_id = %s', (g.session_id,))
+    row = cur.fetchone()
+    cur.close()
+    return row
+
+
+@app.get('/api/sessions')
+@login_required
+def list_sessions():
+    """The current user's unexpired sign-ins, most recently active first."""
+    cur = get_db().cursor()
+    cur.execute(
+        f'SELECT {SESSION_COLUMNS} FROM user_sessions '
+        'WHERE user_id = %s AND expires_at > NOW() ORDER BY last_seen_at DESC',
+        (session['user_id'],),
+    )
+    rows = cur.fetchall()
+    cur.close()
+    return jsonify({'sessions': [session_json(row) for row in rows]})
+
+
+@app.get('/api/sessions/current')
+@login_required
+def current_session():
+    """Polled by the client to notice revocation and warn before expiry."""
+    return jsonify(session_json(get_current_session()))
+
+
+@app.post('/api/sessions/current/refresh')
+@login_required
+def refresh_session():
+    """Restart the current session's lifetime ("stay signed in")."""
+    db = get_db()
+    cur = db.cursor()
+    cur.execute(
+        'UPDATE user_sessions SET expires_at = NOW() + '
+        'CASE WHEN remember THEN %s ELSE %s END, last_seen_at = NOW() WHERE session_id = %s',
+        (REMEMBER_LIFETIME, SESSION_LIFETIME, g.session_id),
+    )
+    db.commit()
+    cur.close()
+    return jsonify(session_json(get_current_session()))
+
+
+@app.delete('/api/sessions/<int:session_id>')
+@login_required
+def revoke_session(session_id: int):
+    """Sign out one device. Revoking the current session signs this browser out too."""
+    db = get_db()
+    cur = db.cursor()
+    cur.execute(
+        'DELETE FROM user_sessions WHERE session_id = %s AND user_id = %s RETURNING session_id',
+        (session_id, session['user_id']),
+    )
+    deleted = cur.fetchone()
+    db.commit()
+    cur.close()
+    if deleted is None:
+        return jsonify({'error': 'Session not found'}), 404
+    if session_id == g.session_id:
+        session.clear()
+    return '', 204
+
+
+@app.post('/api/sessions/revoke-all')
+@login_required
+def revoke_all_sessions():
+    """Sign out everywhere, or with {keep_current: true} everywhere else."""
+    data = request.get_json(silent=True) or {}
+    keep_current = bool(data.get('keep_current'))
+    db = get_db()
+    cur = db.cursor()
+    cur.execute(
+        'DELETE FROM user_sessions WHERE user_id = %s AND (NOT %s OR session_id <> %s)',
+        (session['user_id'], keep_current, g.session_id),
+    )
+    db.commit()
+    cur.close()
+    if not keep_current:
+        session.clear()
+    return '', 204
 
 # ─── Chat routes ──────────────────────────────────────────────────────────────
 
+# How many earlier messages are sent to the model along with the new one.
+CHAT_CONTEXT_MESSAGES = 20
+
+
+# Text attachments are inlined into the prompt up to this many characters each.
+MAX_ATTACHMENT_CONTEXT_CHARS = 20_000
+
+
+def recent_context(conversation_id) -> list[Message]:
+    """The thread's latest messages, oldest first, as model context."""
+    cur = get_db().cursor()
+    cur.execute(
+        'SELECT message_id, sender_id, content FROM messages WHERE conversation_id = %s '
+        'ORDER BY message_id DESC LIMIT %s',
+        (conversation_id, CHAT_CONTEXT_MESSAGES),
+    )
+    rows = cur.fetchall()
+    cur.close()
+    attached = attachments_for([row[0] for row in rows])
+    return [
+        Message(
+            'assistant' if sender_id is None else 'user',
+            with_attachments(content, attached.get(message_id, [])),
+        )
+        for message_id, sender_id, content in reversed(rows)
+    ]
+
+
+def attachments_for(message_ids) -> dict:
+    """Map message id -> [(upload_id, filename, mime_type, size)], in attached order."""
+    if not message_ids:
+        return {}
+    cur = get_db().cursor()
+    cur.execute(
+        'SELECT a.message_id, u.upload_id, u.filename, u.mime_type, u.size '
+        'FROM message_attachments a JOIN uploads u ON u.upload_id = a.upload_id '
+        'WHERE a.message_id = ANY(%s) ORDER BY a.message_id, a.position',
+        (list(message_ids),),
+    )
+    attached = {}
+    for message_id, *upload in cur.fetchall():
+        attached.setdefault(message_id, []).append(tuple(upload))
+    cur.close()
+    return attached
+
+
+def owned_attachments(upload_ids):
+    """
+    The current user's attachment uploads for `upload_ids`, in that order, as
+    (upload_id, filename, mime_type, size); None if any id isn't one.
+    """
+    if not isinstance(upload_ids, list) or not all(isinstance(i, str) for i in upload_ids):
+        return None
+    if not upload_ids:
+        return []
+    cur = get_db().cursor()
+    cur.execute(
+        'SELECT upload_id, filename, mime_type, size FROM uploads '
+        'WHERE upload_id = ANY(%s) AND user_id = %s',
+        (upload_ids, session['user_id']),
+    )
+    # Chunked uploads (videos) share the table; only what /api/upload accepts counts.
+    found = {
+        row[0]: row for row in cur.fetchall()
+        if row[2] in ATTACHMENT_TYPES and row[3] <= MAX_ATTACHMENT_BYTES
+    }
+    cur.close()
+    if any(upload_id not in found for upload_id in upload_ids):
+        return None
+    return [found[upload_id] for upload_id in upload_ids]
+
+
+def with_attachments(content: str, uploads) -> str:
+    """
+    `content` plus a note per attachment for the (text-only) model. Text
+    files are inlined; for anything else the model only learns the name.
+    """
+    parts = [content] if content else []
+    for _, filename, mime_type, _ in uploads:
+        name = filename.split('_', 1)[-1]
+        text = None
+        if mime_type.startswith('text/') or mime_type == 'application/json':
+            try:
+                with open(os.path.join(UPLOAD_FOLDER, filename), encoding='utf-8', errors='replace') as fh:
+                    text = fh.read(MAX_ATTACHMENT_CONTEXT_CHARS)
+            except OSError:
+                pass
+        if text is None:
+            parts.append(f'[Attached {mime_type} file "{name}" — its contents are not available to you]')
+        else:
+            parts.append(f'[Attached file "{name}"]\n{text}')
+    return '\n\n'.join(parts)
+
+
+def history_from_request(items) -> list[Message]:
+    """Context supplied by the client for a chat that isn't saved as a thread."""
+    if not isinstance(items, list):
+        return []
+    history = [
+        Message(item['role'], str(item.get('content', '')))
+        for item in items
+        if isinstance(item, dict) and item.get('role') in ('user', 'assistant')
+    ]
+    return history[-CHAT_CONTEXT_MESSAGES:]
+
+
+def is_id(value) -> bool:
+    """True for a JSON integer (bools are ints in Python, but not ids)."""
+    return isinstance(value, int) and not isinstance(value, bool)
+
+
 @app.post('/api/chat')
 @login_required
 def chat():
+    """
+    Reply to `message`. With a `conversation_id` the thread's recent messages
+    are the context and both sides are saved; otherwise an optional `history`
+    list of `{role, content}` is used.
+
+    `regenerate: true` (with a `conversation_id`, no `message`) answers the
+    thread's last message again, which must be the user's — used after
+    branching a thread to retry a reply.
+
+    `attachment_ids` lists uploads from /api/upload to attach to the message;
+    they are saved with it and described to the model.
+
+    The reply metadata includes `user_message_id` and `message_id` of the
+    saved messages (null when nothing is saved).
+    """
     data = request.get_json(silent=True) or {}
-    message = (data.get('message') or '').strip()
+    message = data.get('message') or ''
+    regenerate = bool(data.get('regenerate'))
+    conversation_id = data.get('conversation_id')
+    attachment_ids = data.get('attachment_ids') or []
 
-    if not message:
+    if not isinstance(message, str):
+        return jsonify({'error': 'message must be a string'}), 400
+    if conversation_id is not None and not is_id(conversation_id):
+        return jsonify({'error': 'conversation_id must be an integer'}), 400
+    message = message.strip()
+    if regenerate and conversation_id is None:
+        return jsonify({'error': 'Regenerating needs a conversation_id'}), 400
+    if isinstance(attachment_ids, list) and len(attachment_ids) > MAX_ATTACHMENTS:
+        return jsonify({'error': f'Attach at most {MAX_ATTACHMENTS} files to a message'}), 400
+    uploads = [] if regenerate else owned_attachments(attachment_ids)
+    if uploads is None:
+        return jsonify({'error': 'Attachment not found'}), 404
+    if not message and not uploads and not regenerate:
         return jsonify({'error': 'Message is required'}), 400
 
-    # TODO: wire up LLMService from lib/llm_service.py
-    # from lib.llm_service import LLMService
-    # response = LLMService.instance().chat(session['user_id'], message)
+    # Before anything is saved: a misconfigured provider fails here, not mid-reply.
+    try:
+        llm = LLMService.instance()
+    except Exception:
+        app.logger.exception('LLM provider could not be created')
+        return jsonify({'error': 'The assistant is unavailable right now'}), 502
 
-    # Placeholder response until LLM is wired in.
-    response = f"(LLM not yet connected) You said: {message}"
+    prompt = with_attachments(message, uploads)
+    saved = {'user_message_id': None, 'message_id': None}
+    if conversation_id is not None:
+        if get_owned_conversation(conversation_id) is None:
+            return jsonify({'error': 'Conversation not found'}), 404
+        history = recent_context(conversation_id)
+        if regenerate:
+            if not history or history[-1].role != 'user':
+                return jsonify({'error': 'There is no message to reply to'}), 400
+            prompt = history.pop().content
+        else:
+            saved['user_message_id'] = save_message(conversation_id, session['user_id'], message, uploads)
+    else:
+        history = history_from_request(data.get('history'))
 
-    return jsonify({'response': response})
+    if wants_stream():
+        reply = llm.stream(history, prompt)
+        chunks = persist_reply(conversation_id, reply, saved) if conversation_id is not None else reply
+        return sse_response(chunks, done=lambda: {**reply.result.meta_json(), **saved})
+
+    try:
+        result = llm.chat(history, prompt)
+    except Exception:
+        app.logger.exception('LLM request failed')
+        return jsonify({'error': 'The assistant is unavailable right now'}), 502
+
+    if conversation_id is not None:
+        saved['message_id'] = save_message(conversation_id, None, result.content)
+    return jsonify({'response': result.content, **result.meta_json(), **saved})
+
+
+MAX_AUDIO_BYTES = 25 * 1024 * 1024
 
 
 @app.post('/api/transcribe')
 @login_required
 def transcribe():
+    """
+    JSON `{transcript}` saves a finished dictation to History. A multipart
+    `audio` file (plus optional `language`) is transcribed on the server and
+    the text returned unsaved — the client saves it like any other dictation.
+    """
+    if 'audio' in request.files:
+        return transcribe_audio(request.files['audio'])
+
     data = request.get_json(silent=True) or {}
     transcript = (data.get('transcript') or '').strip()
 
     if not transcript:
         return jsonify({'error': 'Transcript is required'}), 400
 
-    # TODO: store transcript, trigger further processing if needed
-    return jsonify({'ok': True, 'transcript': transcript})
+    db = get_db()
+    cur = db.cursor()
+    cur.execute(
+        'INSERT INTO transcripts (user_id, content) VALUES (%s, %s) RETURNING transcript_id',
+        (session['user_id'], transcript),
+    )
+    transcript_id = cur.fetchone()[0]
+    db.commit()
+    cur.close()
+    return jsonify({'ok': True, 'transcript_id': transcript_id, 'transcript': transcript})
+
 
-# ─── Upload / inbox routes ────────────────────────────────────────────────────
+def transcribe_audio(file):
+    audio = file.read(MAX_AUDIO_BYTES + 1)
+    if not audio:
+        return jsonify({'error': 'Audio is empty'}), 400
+    if len(audio) > MAX_AUDIO_BYTES:
+        return jsonify({'error': 'Recording is too long'}), 413
 
-UPLOAD_FOLDER = os.path.join(os.path.dirname(__file__), 'uploads')
-os.makedirs(UPLOAD_FOLDER, exist_ok=True)
+    language = request.form.get('language') or None
+    try:
+        result = STTService.instance().transcribe(audio, file.mimetype or 'audio/webm', language)
+    except Exception:
+        app.logger.exception('Transcription failed')
+        return jsonify({'error': 'Transcription is unavailable right now'}), 502
+    return jsonify({'ok': True, 'transcript': result.text, 'language': result.language})
 
-@app.post('/api/upload')
+# ─── Conversation routes ──────────────────────────────────────────────────────
+#
+# A chat thread with the assistant is a `conversations` row with
+# user1_id = the owner and user2_id = NULL. Assistant messages are stored
+# with sender_id = NULL.
+
+MESSAGE_PAGE_SIZE = 50
+
+
+def iso(dt):
+    return dt.isoformat() if dt is not None else None
+
+
+def conversation_json(row) -> dict:
+    conversation_id, title, started_at, last_message_at, branched_from_id = row
+    return {
+        'conversation_id': conversation_id,
+        'title': title,
+        'started_at': iso(started_at),
+        'last_message_at': iso(last_message_at),
+        'branched_from_id': branched_from_id,
+    }
+
+
+CONVERSATION_COLUMNS = """
+    c.conversation_id, c.title, c.started_at,
+    (SELECT MAX(m.created_at) FROM messages m WHERE m.conversation_id = c.conversation_id),
+    c.branched_from_id
+"""
+
+
+def get_owned_conversation(conversation_id):
+    """Return the assistant thread row if it belongs to the current user, else None."""
+    cur = get_db().cursor()
+    cur.execute(
+        f'SELECT {CONVERSATION_COLUMNS} FROM conversations c '
+        'WHERE c.conversation_id = %s AND c.user1_id = %s AND c.user2_id IS NULL',
+        (conversation_id, session['user_id']),
+    )
+    row = cur.fetchone()
+    cur.close()
+    return row
+
+
+def save_message(conversation_id, sender_id, content: str, uploads=()) -> int:
+    """
+    Append a message with its attachment `uploads` (rows from
+    owned_attachments); the first user message also titles an untitled thread.
+    """
+    db = get_db()
+    cur = db.cursor()
+    cur.execute(
+        'INSERT INTO messages (conversation_id, sender_id, content) '
+        'VALUES (%s, %s, %s) RETURNING message_id',
+        (conversation_id, sender_id, content),
+    )
+    message_id = cur.fetchone()[0]
+    for position, upload in enumerate(uploads):
+        cur.execute(
+            'INSERT INTO message_attachments (message_id, upload_id, position) VALUES (%s, %s, %s)',
+            (message_id, upload[0], position),
+        )
+    if sender_id is not None:
+        title = content or uploads[0][1].split('_', 1)[-1]
+        cur.execute(
+            'UPDATE conversations SET title = %s WHERE conversation_id = %s AND title IS NULL',
+            (title[:60], conversation_id),
+        )
+    db.commit()
+    cur.close()
+    return message_id
+
+
+def persist_reply(conversation_id, chunks, saved: dict):
+    """
+    Pass chunks through to the stream, saving the full reply once it
+    completes; its id goes in `saved['message_id']`. A reply cut short — the
+    client pressed Stop and disconnected, or the model failed mid-stream —
+    is saved as far as it got, so a reload shows what was on screen.
+    """
+    parts = []
+    finished = False
+    try:
+        for chunk in chunks:
+            parts.append(chunk)
+            yield chunk
+        finished = True
+    finally:
+        if finished or parts:
+            saved['message_id'] = save_message(conversation_id, None, ''.join(parts))
+
+
+@app.get('/api/conversations')
 @login_required
-def upload():
-    if 'file' not in request.files:
-        return jsonify({'error': 'No file provided'}), 400
-    f = request.files['file']
-    if not f.filename:
-        return jsonify({'error': 'Empty filename'}), 400
+def list_conversations():
+    cur = get_db().cursor()
+    cur.execute(
+        f'SELECT {CONVERSATION_COLUMNS} FROM conversations c '
+        'WHERE c.user1_id = %s AND c.user2_id IS NULL '
+        'ORDER BY COALESCE((SELECT MAX(m.created_at) FROM messages m '
+        '  WHERE m.conversation_id = c.conversation_id), c.started_at) DESC',
+        (session['user_id'],),
+    )
+    rows = cur.fetchall()
+    cur.close()
+    return jsonify({'conversations': [conversation_json(r) for r in rows]})
 
-    from werkzeug.utils import secure_filename
-    filename = secure_filename(f.filename)
-    f.save(os.path.join(UPLOAD_FOLDER, filename))
-    return jsonify({'filename': filename}), 201
 
+@app.post('/api/conversations')
+@login_required
+def create_conversation():
+    data = request.get_json(silent=True) or {}
+    title = (data.get('title') or '').strip() or None
 
-@app.get('/api/inbox/<username>')
+    db = get_db()
+    cur = db.cursor()
+    cur.execute(
+        'INSERT INTO conversations (user1_id, title) VALUES (%s, %s) '
+        'RETURNING conversation_id, title, started_at, NULL::timestamptz, branched_from_id',
+        (session['user_id'], title),
+    )
+    row = cur.fetchone()
+    db.commit()
+    cur.close()
+    return jsonify(conversation_json(row)), 201
+
+
+@app.put('/api/conversations/<int:conversation_id>')
 @login_required
-def inbox(username: str):
-    # TODO: fetch inbox videos for this user from the DB
-    return jsonify({'username': username, 'videos': []})
+def rename_conversation(conversation_id: int):
+    data = request.get_json(silent=True) or {}
+    title = (data.get('title') or '').strip()
+
+    if not title:
+        return jsonify({'error': 'Title is required'}), 400
+    if get_owned_conversation(conversation_id) is None:
+        return jsonify({'error': 'Conversation not found'}), 404
+
+    db = get_db()
+    cur = db.cursor()
+    cur.execute(
+        'UPDATE conversations SET title = %s WHERE conversation_id = %s',
+        (title, conversation_id),
+    )
+    db.commit()
+    cur.close()
+    return jsonify(conversation_json(get_owned_conversation(conversation_id)))
+
+
+@app.delete('/api/conversations/<int:conversation_id>')
+@login_required
+def delete_conversation(conversation_id: int):
+    if get_owned_conversation(conversation_id) is None:
+        return jsonify({'error': 'Conversation not found'}), 404
+
+    db = get_db()
+    cur = db.cursor()
+    cur.execute('DELETE FROM messages WHERE conversation_id = %s', (conversation_id,))
+    cur.execute('DELETE FROM conversations WHERE conversation_id = %s', (conversation_id,))
+    db.commit()
+    cur.close()
+    return '', 204
+
+
+@app.post('/api/conversations/<int:conversation_id>/branch')
+@login_required
+def branch_conversation(conversation_id: int):
+    """
+    Start a new thread holding copies of this one's messages before
+    `before_message_id`, so a message can be edited or a reply regenerated
+    without losing the original thread.
+    """
+    data = request.get_json(silent=True) or {}
+    before = data.get('before_message_id')
+    original = get_owned_conversation(conversation_id)
+    if original is None:
+        return jsonify({'error': 'Conversation not found'}), 404
+    if not isinstance(before, int):
+        return jsonify({'error': 'before_message_id is required'}), 400
+
+    db = get_db()
+    cur = db.cursor()
+    cur.execute(
+        'INSERT INTO conversations (user1_id, title, branched_from_id) VALUES (%s, %s, %s) '
+        'RETURNING conversation_id',
+        (session['user_id'], original[1], conversation_id),
+    )
+    branch_id = cur.fetchone()[0]
+    cur.execute(
+        'SELECT message_id, sender_id, content, created_at FROM messages '
+        'WHERE conversation_id = %s AND message_id < %s ORDER BY message_id',
+        (conversation_id, before),
+    )
+    # Copied in order, so the copies keep their order by message_id; the
+    # copies share the original's attachment files.
+    for message_id, sender_id, content, created_at in cur.fetchall():
+        cur.execute(
+            'INSERT INTO messages (conversation_id, sender_id, content, created_at) '
+            'VALUES (%s, %s, %s, %s) RETURNING message_id',
+            (branch_id, sender_id, content, created_at),
+        )
+        cur.execute(
+            'INSERT INTO message_attachments (message_id, upload_id, position) '
+            'SELECT %s, upload_id, position FROM message_attachments WHERE message_id = %s',
+            (cur.fetchone()[0], message_id),
+        )
+    db.commit()
+    cur.close()
+    return jsonify(conversation_json(get_owned_conversation(branch_id))), 201
+
+
+@app.delete('/api/conversations/<int:conversation_id>/messages/<int:message_id>')
+@login_required
+def delete_message(conversation_id: int, message_id: int):
+    if get_owned_conversation(conversation_id) is None:
+        return jsonify({'error': 'Conversation not found'}), 404
+
+    db = get_db()
+    cur = db.cursor()
+    cur.execute(
+        'DELETE FROM messages WHERE message_id = %s AND conversation_id = %s RETURNING message_id',
+        (message_id, conversation_id),
+    )
+    deleted = cur.fetchone()
+    db.commit()
+    cur.close()
+    if deleted is None:
+        return jsonify({'error': 'Message not found'}), 404
+    return '', 204
+
+
+@app.get('/api/conversations/<int:conversation_id>/messages')
+@login_required
+def list_messages(conversation_id: int):
+    """
+    Newest-first paging: returns up to `limit` messages older than `before`
+    (a message_id), in chronological order, plus whether more remain.
+    """
+    if get_owned_conversation(conversation_id) is None:
+        return jsonify({'error': 'Conversation not found'}), 404
+
+    rows, has_more = fetch_message_page(conversation_id)
+    attached = attachments_for([row[0] for row in rows])
+    messages = [
+        {
+            'message_id': message_id,
+            'conversation_id': conversation_id,
+            'role': 'assistant' if sender_id is None else 'user',
+            'content': content,
+            'created_at': iso(created_at),
+            'attachments': [attachment_json(*upload) for upload in attached.get(message_id, [])],
+        }
+        for message_id, sender_id, content, created_at, *_ in rows
+    ]
+    return jsonify({'messages': messages, 'has_more': has_more})
+
+
+def fetch_message_page(conversation_id):
+    """
+    Read the `limit`/`before` query args and return (rows, has_more), where
+    rows are (message_id, sender_id, content, created_at, delivered_at, read_at)
+    in chronological order.
+    """
+    limit = min(request.args.get('limit', MESSAGE_PAGE_SIZE, type=int), 200)
+    before = request.args.get('before', type=int)
+
+    cur = get_db().cursor()
+    cur.execute(
+        'SELECT message_id, sender_id, content, created_at, delivered_at, read_at '
+        'FROM messages WHERE conversation_id = %s AND (%s IS NULL OR message_id < %s) '
+        'ORDER BY message_id DESC LIMIT %s',
+        (conversation_id, before, before, limit + 1),
+    )
+    rows = cur.fetchall()
+    cur.close()
+    return list(reversed(rows[:limit])), len(rows) > limit
+
+# ─── Contact routes ───────────────────────────────────────────────────────────
+#
+# One `contacts` row per pair of users. A pending row is a request from
+# requester_id to addressee_id. A blocked row always has the blocker as
+# requester_id, and is invisible to the blocked user.
+
+CONTACT_COLUMNS = """
+    k.contact_id, k.requester_id, k.status, k.created_at, u.user_id, u.username
+"""
+
+# Joins the *other* user of each contact row, relative to the current user.
+CONTACT_FROM = """
+    FROM contacts k JOIN users u ON u.user_id =
+        CASE WHEN k.requester_id = %(me)s THEN k.addressee_id ELSE k.requester_id END
+    WHERE (k.requester_id = %(me)s OR k.addressee_id = %(me)s)
+      AND NOT (k.status = 'blocked' AND k.addressee_id = %(me)s)
+"""
+
+
+def contact_json(row) -> dict:
+    contact_id, requester_id, status, created_at, user_id, username = row
+    return {
+        'contact_id': contact_id,
+        'user_id': user_id,
+        'username': username,
+        'status': status,
+        'direction': 'outgoing' if requester_id == session['user_id'] else 'incoming',
+        'created_at': iso(created_at),
+    }
+
+
+def get_contact(contact_id):
+    """Return the contact row if visible to the current user, else None."""
+    cur = get_db().cursor()
+    cur.execute(
+        f'SELECT {CONTACT_COLUMNS} {CONTACT_FROM} AND k.contact_id = %(id)s',
+        {'me': session['user_id'], 'id': contact_id},
+    )
+    row = cur.fetchone()
+    cur.close()
+    return row
+
+
+def escape_like(value: str) -> str:
+    return value.replace('\\', '\\\\').replace('%', '\\%').replace('_', '\\_')
+
+
+@app.get('/api/users/search')
+@login_required
+def search_users():
+    """Username prefix search, annotated with any existing contact relationship."""
+    q = (request.args.get('q') or '').strip()
+    if not q:
+        return jsonify({'users': []})
+
+    me = session['user_id']
+    cur = get_db().cursor()
+    cur.execute(
+        """
+        SELECT u.user_id, u.username, k.contact_id, k.requester_id, k.status
+        FROM users u
+        LEFT JOIN contacts k ON
+            LEAST(k.requester_id, k.addressee_id) = LEAST(u.user_id, %(me)s)
+            AND GREATEST(k.requester_id, k.addressee_id) = GREATEST(u.user_id, %(me)s)
+        WHERE u.username ILIKE %(pattern)s AND u.user_id <> %(me)s
+          AND (k.contact_id IS NULL OR NOT (k.status = 'blocked' AND k.addressee_id = %(me)s))
+        ORDER BY u.username
+        LIMIT 20
+        """,
+        {'me': me, 'pattern': escape_like(q) + '%'},
+    )
+    rows = cur.fetchall()
+    cur.close()
+
+    users = [
+        {
+            'user_id': user_id,
+            'username': username,
+            'contact_id': contact_id,
+            'status': status,
+            'direction': None if requester_id is None
+                else 'outgoing' if requester_id == me else 'incoming',
+        }
+        for user_id, username, contact_id, requester_id, status in rows
+    ]
+    return jsonify({'users': users})
+
+
+@app.get('/api/contacts')
+@login_required
+def list_contacts():
+    cur = get_db().cursor()
+    cur.execute(
+        f'SELECT {CONTACT_COLUMNS} {CONTACT_FROM} ORDER BY k.status, u.username',
+        {'me': session['user_id']},
+    )
+    rows = cur.fetchall()
+    cur.close()
+    return jsonify({'contacts': [contact_json(r) for r in rows]})
+
+
+@app.post('/api/contacts')
+@login_required
+def request_contact():
+    """Send a contact request; accepts instead if they already asked us."""
+    data = request.get_json(silent=True) or {}
+    username = (data.get('username') or '').strip()
+
+    if not username:
+        return jsonify({'error': 'Username is required'}), 400
+
+    me = session['user_id']
+    db = get_db()
+    cur = db.cursor()
+    cur.execute('SELECT user_id FROM users WHERE username = %s', (username,))
+    row = cur.fetchone()
+    if not row:
+        cur.close()
+        return jsonify({'error': 'User not found'}), 404
+    other = row[0]
+    if other == me:
+        cur.close()
+        return jsonify({'error': 'You cannot add yourself'}), 400
+
+    cur.execute(
+        'SELECT contact_id, requester_id, status FROM contacts '
+        'WHERE (requester_id = %s AND addressee_id = %s) OR (requester_id = %s AND addressee_id = %s)',
+        (me, other, other, me),
+    )
+    existing = cur.fetchone()
+
+    if existing is None:
+        cur.execute(
+            'INSERT INTO contacts (requester_id, addressee_id) VALUES (%s, %s) RETURNING contact_id',
+            (me, other),
+        )
+        contact_id = cur.fetchone()[0]
+        status_code = 201
+        notice = f'{current_user_name()} wants to add you as a contact'
+    else:
+        contact_id, requester_id, status = existing
+        if status == 'blocked':
+            cur.close()
+            return jsonify({'error': 'You cannot add this user'}), 403
+        if status == 'accepted':
+            cur.close()
+            return jsonify({'error': 'Already in your contacts'}), 409
+        if requester_id == me:
+            cur.close()
+            return jsonify({'error': 'Request already sent'}), 409
+        cur.execute(
+            "UPDATE contacts SET status = 'accepted' WHERE contact_id = %s", (contact_id,)
+        )
+        status_code = 200
+        notice = f'{current_user_name()} accepted your contact request'
+
+    db.commit()
+    cur.close()
+    notify(other, 'contact', notice, link='/contacts')
+    return jsonify(contact_json(get_contact(contact_id))), status_code
+
+
+@app.post('/api/contacts/<int:contact_id>/accept')
+@login_required
+def accept_contact(contact_id: int):
+    row = get_contact(contact_id)
+    if row is None:
+        return jsonify({'error': 'Contact not found'}), 404
+    _, requester_id, status, *_ = row
+    if status != 'pending' or requester_id == session['user_id']:
+        return jsonify({'error': 'No pending request to accept'}), 409
+
+    db = get_db()
+    cur = db.cursor()
+    cur.execute("UPDATE contacts SET status = 'accepted' WHERE contact_id = %s", (contact_id,))
+    db.commit()
+    cur.close()
+    notify(requester_id, 'contact', f'{current_user_name()} accepted your contact request', link='/contacts')
+    return jsonify(contact_json(get_contact(contact_id)))
+
+
+@app.post('/api/contacts/<int:contact_id>/block')
+@login_required
+def block_contact(contact_id: int):
+    row = get_contact(contact_id)
+    if row is None:
+        return jsonify({'error': 'Contact not found'}), 404
+    other = row[4]
+
+    db = get_db()
+    cur = db.cursor()
+    cur.execute(
+        "UPDATE contacts SET status = 'blocked', requester_id = %s, addressee_id = %s "
+        'WHERE contact_id = %s',
+        (session['user_id'], other, contact_id),
+    )
+    db.commit()
+    cur.close()
+    return jsonify(contact_json(get_contact(contact_id)))
+
+
+@app.delete('/api/contacts/<int:contact_id>')
+@login_required
+def remove_contact(contact_id: int):
+    """Remove a contact, decline/cancel a request, or unblock."""
+    if get_contact(contact_id) is None:
+        return jsonify({'error': 'Contact not found'}), 404
+
+    db = get_db()
+    cur = db.cursor()
+    cur.execute('DELETE FROM contacts WHERE contact_id = %s', (contact_id,))
+    db.commit()
+    cur.close()
+    return '', 204
+
+
+@app.post('/api/contacts/<int:contact_id>/conversation')
+@login_required
+def start_direct_conversation(contact_id: int):
+    """Return the 1:1 conversation with an accepted contact, creating it if needed."""
+    row = get_contact(contact_id)
+    if row is None:
+        return jsonify({'error': 'Contact not found'}), 404
+    if row[2] != 'accepted':
+        return jsonify({'error': 'You can only message accepted contacts'}), 409
+
+    me, other = session['user_id'], row[4]
+    db = get_db()
+    cur = db.cursor()
+    cur.execute(
+        'SELECT conversation_id FROM conversations '
+        'WHERE (user1_id = %s AND user2_id = %s) OR (user1_id = %s AND user2_id = %s) '
+        'ORDER BY conversation_id LIMIT 1',
+        (me, other, other, me),
+    )
+    existing = cur.fetchone()
+    if existing:
+        conversation_id = existing[0]
+    else:
+        cur.execute(
+            'INSERT INTO conversations (user1_id, user2_id) VALUES (%s, %s) RETURNING conversation_id',
+            (me, other),
+        )
+        conversation_id = cur.fetchone()[0]
+        db.commit()
+    cur.close()
+    return jsonify(direct_conversation_json(get_direct_conversation(conversation_id)))
+
+# ─── Direct message routes ────────────────────────────────────────────────────
+#
+# 1:1 conversations between contacts: both user1_id and user2_id are set.
+
+def get_direct_conversation(conversation_id):
+    """
+    Return (conversation_id, started_at, other_user_id, other_username) if the
+    current user takes part in this 1:1 conversation, else None.
+    """
+    cur = get_db().cursor()
+    cur.execute(
+        """
+        SELECT c.conversation_id, c.started_at, u.user_id, u.username
+        FROM conversations c JOIN users u ON u.user_id =
+            CASE WHEN c.user1_id = %(me)s THEN c.user2_id ELSE c.user1_id END
+        WHERE c.conversation_id = %(id)s AND c.user2_id IS NOT NULL
+          AND (c.user1_id = %(me)s OR c.user2_id = %(me)s)
+        """,
+        {'me': session['user_id'], 'id': conversation_id},
+    )
+    row = cur.fetchone()
+    cur.close()
+    return row
+
+
+def direct_conversation_json(row) -> dict:
+    conversation_id, started_at, user_id, username = row
+    return {
+        'conversation_id': conversation_id,
+        'started_at': iso(started_at),
+        'user': {'user_id': user_id, 'username': username},
+    }
+
+
+DIRECT_MESSAGE_COLUMNS = 'message_id, sender_id, content, created_at, delivered_at, read_at'
+
+
+def direct_message_json(conversation_id, row) -> dict:
+    message_id, sender_id, content, created_at, delivered_at, read_at = row
+    return {
+        'message_id': message_id,
+        'conversation_id': conversation_id,
+        'sender_id': sender_id,
+        'content': content,
+        'created_at': iso(created_at),
+        'delivered_at': iso(delivered_at),
+        'read_at': iso(read_at),
+    }
+
+
+def are_contacts(user_a, user_b) -> bool:
+    cur = get_db().cursor()
+    cur.execute(
+        "SELECT 1 FROM contacts WHERE status = 'accepted' AND "
+        '((requester_id = %s AND addressee_id = %s) OR (requester_id = %s AND addressee_id = %s))',
+        (user_a, user_b, user_b, user_a),
+    )
+    found = cur.fetchone() is not None
+    cur.close()
+    return found
+
+
+@app.get('/api/direct/<int:conversation_id>')
+@login_required
+def get_direct(conversation_id: int):
+    row = get_direct_conversation(conversation_id)
+    if row is None:
+        return jsonify({'error': 'Conversation not found'}), 404
+    return jsonify(direct_conversation_json(row))
+
+
+@app.get('/api/direct/<int:conversation_id>/messages')
+@login_required
+def list_direct_messages(conversation_id: int):
+    if get_direct_conversation(conversation_id) is None:
+        return jsonify({'error': 'Conversation not found'}), 404
+
+    rows, has_more = fetch_message_page(conversation_id)
+    return jsonify({
+        'messages': [direct_message_json(conversation_id, r) for r in rows],
+        'has_more': has_more,
+    })
+
+
+@app.post('/api/direct/<int:conversation_id>/messages')
+@login_required
+def send_direct_message(conversation_id: int):
+    data = request.get_json(silent=True) or {}
+    content = (data.get('content') or '').strip()
+
+    if not content:
+        return jsonify({'error': 'Message is required'}), 400
+    row = get_direct_conversation(conversation_id)
+    if row is None:
+        return jsonify({'error': 'Conversation not found'}), 404
+    if not are_contacts(session['user_id'], row[2]):
+        return jsonify({'error': 'You can only message accepted contacts'}), 403
+
+    return jsonify(post_direct_message(conversation_id, row[2], content)), 201
+
+
+def post_direct_message(conversation_id, recipient_id, content: str) -> dict:
+    """
+    Store a message from the current user and push it to the recipient's open
+    sockets. If the recipient is online it is marked delivered immediately.
+    """
+    db = get_db()
+    cur = db.cursor()
+    cur.execute(
+        'INSERT INTO messages (conversation_id, sender_id, content) VALUES (%s, %s, %s) '
+        f'RETURNING {DIRECT_MESSAGE_COLUMNS}',
+        (conversation_id, session['user_id'], content),
+    )
+    row = cur.fetchone()
+    if is_online(recipient_id):
+        cur.execute(
+            f'UPDATE messages SET delivered_at = NOW() WHERE message_id = %s '
+            f'RETURNING {DIRECT_MESSAGE_COLUMNS}',
+            (row[0],),
+        )
+        row = cur.fetchone()
+    db.commit()
+    cur.close()
+
+    message = direct_message_json(conversation_id, row)
+    send_to_user(recipient_id, {'type': 'message', 'message': message})
+    send_to_user(recipient_id, unread_event(recipient_id))
+    notify(
+        recipient_id, 'message', f'New message from {current_user_name()}',
+        content[:NOTIFICATION_BODY_LENGTH], f'/messages/{conversation_id}',
+    )
+    return message
+
+# ─── Realtime (WebSocket) ─────────────────────────────────────────────────────
+#
+# /api/ws carries live 1:1 messaging. Frames are JSON objects with a `type`.
+#
+#   client → server: send {conversation_id, content, client_id}
+#                    typing {conversation_id, is_typing}
+#                    read {conversation_id, message_id}
+#   server → client: ack {client_id, message}      (your send was stored)
+#                    message {message}             (new incoming message)
+#                    typing {conversation_id, user_id, is_typing}
+#                    receipt {conversation_id, status, up_to, at}
+#                    unread {total, by_conversation}
+#                    notification {notification}   (see Notification routes)
+#                    error {error, client_id?}
+#
+# The socket is closed with 4401 once its sign-in is revoked or expires, or
+# the account is disabled; the client then stops reconnecting.
+#
+# Connections are tracked in process memory, so this assumes a single
+# server process (the Flask dev server, or one threaded worker).
+
+_connections: dict[int, set] = {}
+# Sockets are also written from other users' handler threads, so each has a
+# lock serializing its sends. _connections_lock guards both dicts and is never
+# held while sending: a stalled socket only holds up its own sends.
+_send_locks: dict = {}
+_connections_lock = threading.Lock()
+
+
+def is_online(user_id) -> bool:
+    with _connections_lock:
+        return bool(_connections.get(user_id))
+
+
+def send_raw(ws, payload: str) -> None:
+    with _connections_lock:
+        lock = _send_locks.get(ws) or threading.Lock()
+    with lock:
+        ws.send(payload)
+
+
+def send_json(ws, event: dict) -> None:
+    send_raw(ws, json.dumps(event))
+
+
+def send_to_user(user_id, event: dict) -> None:
+    """Send an event to every open socket of a user; dead sockets are dropped."""
+    payload = json.dumps(event)
+    with _connections_lock:
+        sockets = list(_connections.get(user_id, ()))
+    for ws in sockets:
+        try:
+            send_raw(ws, payload)
+        except Exception:
+            with _connections_lock:
+                _connections.get(user_id, set()).discard(ws)
+
+
+def unread_event(user_id) -> dict:
+    cur = get_db().cursor()
+    cur.execute(
+        """
+        SELECT m.conversation_id, COUNT(*)
+        FROM messages m JOIN conversations c ON c.conversation_id = m.conversation_id
+        WHERE c.user2_id IS NOT NULL AND (c.user1_id = %(me)s OR c.user2_id = %(me)s)
+          AND m.sender_id <> %(me)s AND m.read_at IS NULL
+        GROUP BY m.conversation_id
+        """,
+        {'me': user_id},
+    )
+    counts = {conversation_id: count for conversation_id, count in cur.fetchall()}
+    cur.close()
+    return {'type': 'unread', 'total': sum(counts.values()), 'by_conversation': counts}
+
+
+def mark_delivered_on_connect(user_id) -> None:
+    """Mark messages that arrived while offline as delivered and tell their senders."""
+    db = get_db()
+    cur = db.cursor()
+    cur.execute(
+        """
+        UPDATE messages m SET delivered_at = NOW()
+        FROM conversations c
+        WHERE c.conversation_id = m.conversation_id AND c.user2_id IS NOT NULL
+          AND (c.user1_id = %(me)s OR c.user2_id = %(me)s)
+          AND m.sender_id <> %(me)s AND m.delivered_at IS NULL
+        RETURNING m.conversation_id, m.sender_id, m.message_id, m.delivered_at
+        """,
+        {'me': user_id},
+    )
+    rows = cur.fetchall()
+    db.commit()
+    cur.close()
+
+    latest = {}
+    for conversation_id, sender_id, message_id, delivered_at in rows:
+        key = (conversation_id, sender_id)
+        if key not in latest or message_id > latest[key][0]:
+            latest[key] = (message_id, delivered_at)
+    for (conversation_id, sender_id), (message_id, delivered_at) in latest.items():
+        send_to_user(sender_id, {
+            'type': 'receipt', 'conversation_id': conversation_id,
+            'status': 'delivered', 'up_to': message_id, 'at': iso(delivered_at),
+        })
+
+
+def ws_invalid(ws, event):
+    """Reject a frame whose fields have the wrong types, before they reach SQL."""
+    send_json(ws, {'type': 'error', 'client_id': event.get('client_id'), 'error': 'Invalid event'})
+
+
+def ws_send(ws, user_id, event):
+    conversation_id = event.get('conversation_id')
+    content = event.get('content')
+    client_id = event.get('client_id')
+    if not is_id(conversation_id) or not isinstance(content, str):
+        ws_invalid(ws, event)
+        return
+    content = content.strip()
+
+    row = get_direct_conversation(conversation_id) if content else None
+    if row is None or not are_contacts(user_id, row[2]):
+        send_json(ws, {
+            'type': 'error', 'client_id': client_id, 'error': 'Message could not be sent',
+        })
+        return
+
+    message = post_direct_message(conversation_id, row[2], content)
+    send_json(ws, {'type': 'ack', 'client_id': client_id, 'message': message})
+
+
+def ws_typing(ws, user_id, event):
+    if not is_id(event.get('conversation_id')):
+        ws_invalid(ws, event)
+        return
+    row = get_direct_conversation(event.get('conversation_id'))
+    if row is None:
+        return
+    send_to_user(row[2], {
+        'type': 'typing', 'conversation_id': row[0],
+        'user_id': user_id, 'is_typing': bool(event.get('is_typing')),
+    })
+
+
+def ws_read(ws, user_id, event):
+    """Mark everything the other user sent up to `message_id` as read."""
+    if not is_id(event.get('conversation_id')) or not is_id(event.get('message_id')):
+        ws_invalid(ws, event)
+        return
+    row = get_direct_conversation(event.get('conversation_id'))
+    if row is None:
+        return
+
+    db = get_db()
+    cur = db.cursor()
+    cur.execute(
+        'UPDATE messages SET read_at = NOW(), delivered_at = COALESCE(delivered_at, NOW()) '
+        'WHERE conversation_id = %s AND sender_id = %s AND message_id <= %s AND read_at IS NULL '
+        'RETURNING message_id, read_at',
+        (row[0], row[2], event.get('message_id')),
+    )
+    updated = cur.fetchall()
+    db.commit()
+    cur.close()
+    if not updated:
+        return
+
+    message_id, read_at = max(updated)
+    send_to_user(row[2], {
+        'type': 'receipt', 'conversation_id': row[0],
+        'status': 'read', 'up_to': message_id, 'at': iso(read_at),
+    })
+    send_to_user(user_id, unread_event(user_id))
+
+
+WS_HANDLERS = {'send': ws_send, 'typing': ws_typing, 'read': ws_read}
+
+# How long an idle socket waits before re-checking that its sign-in still
+# exists; every incoming event is checked as well.
+SESSION_RECHECK_SECONDS = 30
+
+
+def session_active() -> bool:
+    db = get_db()
+    cur = db.cursor()
+    row = find_session(cur)
+    cur.close()
+    db.rollback()   # don't leave a transaction open while the socket idles
+    return row is not None
+
+
+@sock.route('/api/ws')
+def realtime(ws):
+    user_id = session.get('user_id')
+    if user_id is None:
+        ws.close(4401, 'Unauthorized')
+        return
+
+    with _connections_lock:
+        _connections.setdefault(user_id, set()).add(ws)
+        _send_locks[ws] = threading.Lock()
+    try:
+        mark_delivered_on_connect(user_id)
+        send_json(ws, unread_event(user_id))
+        while True:
+            data = ws.receive(timeout=SESSION_RECHECK_SECONDS)
+            if not session_active():
+                ws.close(4401, 'Session ended')
+                return
+            if data is None:
+                continue
+            try:
+                event = json.loads(data)
+            except ValueError:
+                continue
+            handler = WS_HANDLERS.get(event.get('type')) if isinstance(event, dict) else None
+            if handler:
+                handler(ws, user_id, event)
+    finally:
+        with _connections_lock:
+            _connections.get(user_id, set()).discard(ws)
+            _send_locks.pop(ws, None)
+
+# ─── Notification routes ──────────────────────────────────────────────────────
+#
+# Things that happen while the user is elsewhere: a direct message, a video
+# in their inbox, a contact request or acceptance. Each is stored for the
+# bell menu and pushed over /api/ws as `notification {notification}`;
+# whether it also pops up as a toast or a browser notification is decided
+# by the client from the user's per-category preferences.
+
+# frontend/src/lib/notifications.ts mirrors these.
+NOTIFICATION_CATEGORIES = ('message', 'video', 'contact')
+NOTIFICATION_CHANNELS = ('toast', 'browser')
+DEFAULT_NOTIFICATION_CHANNELS = {'toast': True, 'browser': False}
+NOTIFICATION_BODY_LENGTH = 140
+NOTIFICATION_PAGE_SIZE = 30
+
+NOTIFICATION_COLUMNS = 'notification_id, category, title, body, link, read_at, created_at'
+
+
+def notification_preferences(stored) -> dict:
+    """Stored preferences with defaults filled in for every category and channel."""
+    stored = stored or {}
+    return {
+        category: {**DEFAULT_NOTIFICATION_CHANNELS, **(stored.get(category) or {})}
+        for category in NOTIFICATION_CATEGORIES
+    }
+
+
+def parse_notification_preferences(value):
+    """Validate a `{category: {channel: bool}}` update; returns it, or None if malformed."""
+    if not isinstance(value, dict):
+        return None
+    for category, channels in value.items():
+        if category not in NOTIFICATION_CATEGORIES or not isinstance(channels, dict):
+            return None
+        for channel, enabled in channels.items():
+            if channel not in NOTIFICATION_CHANNELS or not isinstance(enabled, bool):
+                return None
+    return value
+
+
+def notification_json(row) -> dict:
+    notification_id, category, title, body, link, read_at, created_at = row
+    return {
+        'notification_id': notification_id,
+        'category': category,
+        'title': title,
+        'body': body,
+        'link': link,
+        'read': read_at is not None,
+        'created_at': iso(created_at),
+    }
+
+
+def current_user_name() -> str:
+    cur = get_db().cursor()
+    cur.execute(
+        'SELECT COALESCE(display_name, username) FROM users WHERE user_id = %s',
+        (session['user_id'],),
+    )
+    name = cur.fetchone()[0]
+    cur.close()
+    return name
+
+
+def notify(user_id, category: str, title: str, body=None, link=None) -> None:
+    """Store a notification for `user_id` and push it to their open sockets."""
+    db = get_db()
+    cur = db.cursor()
+    cur.execute(
+        'INSERT INTO notifications (user_id, category, title, body, link) '
+        f'VALUES (%s, %s, %s, %s, %s) RETURNING {NOTIFICATION_COLUMNS}',
+        (user_id, category, title, body, link),
+    )
+    row = cur.fetchone()
+    db.commit()
+    cur.close()
+    send_to_user(user_id, {'type': 'notification', 'notification': notification_json(row)})
+
+
+@app.get('/api/notifications')
+@login_required
+def list_notifications():
+    """The latest notifications, newest first, and how many are unread in all."""
+    cur = get_db().cursor()
+    cur.execute(
+        f'SELECT {NOTIFICATION_COLUMNS} FROM notifications WHERE user_id = %s '
+        'ORDER BY notification_id DESC LIMIT %s',
+        (session['user_id'], NOTIFICATION_PAGE_SIZE),
+    )
+    rows = cur.fetchall()
+    cur.execute(
+        'SELECT COUNT(*) FROM notifications WHERE user_id = %s AND read_at IS NULL',
+        (session['user_id'],),
+    )
+    unread = cur.fetchone()[0]
+    cur.close()
+    return jsonify({'notifications': [notification_json(r) for r in rows], 'unread': unread})
+
+
+@app.post('/api/notifications/<int:notification_id>/read')
+@login_required
+def mark_notification_read(notification_id: int):
+    db = get_db()
+    cur = db.cursor()
+    cur.execute(
+        'UPDATE notifications SET read_at = COALESCE(read_at, NOW()) '
+        f'WHERE notification_id = %s AND user_id = %s RETURNING {NOTIFICATION_COLUMNS}',
+        (notification_id, session['user_id']),
+    )
+    row = cur.fetchone()
+    db.commit()
+    cur.close()
+    if row is None:
+        return jsonify({'error': 'Notification not found'}), 404
+    return jsonify(notification_json(row))
+
+
+@app.post('/api/notifications/read-all')
+@login_required
+def mark_all_notifications_read():
+    db = get_db()
+    cur = db.cursor()
+    cur.execute(
+        'UPDATE notifications SET read_at = NOW() WHERE user_id = %s AND read_at IS NULL',
+        (session['user_id'],),
+    )
+    db.commit()
+    cur.close()
+    return '', 204
+
+# ─── History routes ───────────────────────────────────────────────────────────
+
+HISTORY_PAGE_SIZE = 20
+HISTORY_TYPES = ('conversation', 'transcript')
+
+# ts_headline() wraps matches in these private-use characters; the client
+# splits on them to render highlights without trusting any HTML.
+HIGHLIGHT_START = '\ue000'
+HIGHLIGHT_STOP = '\ue001'
+HEADLINE_OPTIONS = (
+    f'StartSel={HIGHLIGHT_START}, StopSel={HIGHLIGHT_STOP}, '
+    'MaxWords=30, MinWords=12, MaxFragments=1'
+)
+
+
+def parse_date_arg(name: str):
+    """Parse an optional YYYY-MM-DD query arg; raises ValueError if malformed."""
+    value = request.args.get(name)
+    return datetime.strptime(value, '%Y-%m-%d').date() if value else None
+
+
+@app.get('/api/history')
+@login_required
+def history():
+    """
+    Unified archive of the user's assistant threads and saved transcripts,
+    newest first. With `q`, matches individual messages/transcripts using
+    Postgres full-text search and returns highlighted snippets; without it,
+    lists one entry per thread plus every transcript.
+
+    Query args: q, type (conversation|transcript), from, to (YYYY-MM-DD,
+    inclusive), offset.
+    """
+    q = (request.args.get('q') or '').strip()
+    kind = request.args.get('type') or None
+    offset = max(request.args.get('offset', 0, type=int), 0)
+
+    if kind is not None and kind not in HISTORY_TYPES:
+        return jsonify({'error': f'type must be one of: {", ".join(HISTORY_TYPES)}'}), 400
+    try:
+        date_from = parse_date_arg('from')
+        date_to = parse_date_arg('to')
+    except ValueError:
+        return jsonify({'error': 'Dates must be formatted YYYY-MM-DD'}), 400
+
+    user_id = session['user_id']
+    parts, params = [], []
+
+    if kind in (None, 'conversation'):
+        if q:
+            parts.append("""
+                SELECT 'conversation', m.message_id, c.conversation_id, m.message_id, c.title,
+                       ts_headline('english', m.content, plainto_tsquery('english', %s), %s),
+                       m.created_at
+                FROM messages m JOIN conversations c ON c.conversation_id = m.conversation_id
+                WHERE c.user1_id = %s AND c.user2_id IS NULL
+                  AND to_tsvector('english', m.content) @@ plainto_tsquery('english', %s)
+            """)
+            params += [q, HEADLINE_OPTIONS, user_id, q]
+        else:
+            parts.append("""
+                SELECT 'conversation', c.conversation_id, c.conversation_id, NULL::int, c.title,
+                       COALESCE(LEFT(last.content, 200), ''),
+                       COALESCE(last.created_at, c.started_at)
+                FROM conversations c
+                LEFT JOIN LATERAL (
+                    SELECT content, created_at FROM messages
+                    WHERE conversation_id = c.conversation_id
+                    ORDER BY message_id DESC LIMIT 1
+                ) last ON TRUE
+                WHERE c.user1_id = %s AND c.user2_id IS NULL
+            """)
+            params += [user_id]
+
+    if kind in (None, 'transcript'):
+        if q:
+            parts.append("""
+                SELECT 'transcript', t.transcript_id, NULL::int, NULL::int, NULL,
+                       ts_headline('english', t.content, plainto_tsquery('english', %s), %s),
+                       t.created_at
+                FROM transcripts t
+                WHERE t.user_id = %s
+                  AND to_tsvector('english', t.content) @@ plainto_tsquery('english', %s)
+            """)
+            params += [q, HEADLINE_OPTIONS, user_id, q]
+        else:
+            parts.append("""
+                SELECT 'transcript', t.transcript_id, NULL::int, NULL::int, NULL,
+                       LEFT(t.content, 200), t.created_at
+                FROM transcripts t
+                WHERE t.user_id = %s
+            """)
+            params += [user_id]
+
+    where = []
+    if date_from:
+        where.append('r.created_at >= %s')
+        params.append(date_from)
+    if date_to:
+        where.append("r.created_at < %s + INTERVAL '1 day'")
+        params.append(date_to)
+
+    sql = (
+        'SELECT * FROM ('
+        + ' UNION ALL '.join(parts)
+        + ') AS r (type, id, conversation_id, message_id, title, snippet, created_at)'
+        + (' WHERE ' + ' AND '.join(where) if where else '')
+        + ' ORDER BY r.created_at DESC LIMIT %s OFFSET %s'
+    )
+    params += [HISTORY_PAGE_SIZE + 1, offset]
+
+    cur = get_db().cursor()
+    cur.execute(sql, params)
+    rows = cur.fetchall()
+    cur.close()
+
+    items = [
+        {
+            'type': type_,
+            'id': id_,
+            'conversation_id': conversation_id,
+            'message_id': message_id,
+            'title': title,
+            'snippet': snippet,
+            'created_at': iso(created_at),
+        }
+        for type_, id_, conversation_id, message_id, title, snippet, created_at
+        in rows[:HISTORY_PAGE_SIZE]
+    ]
+    has_more = len(rows) > HISTORY_PAGE_SIZE
+    return jsonify({
+        'items': items,
+        'next_offset': offset + HISTORY_PAGE_SIZE if has_more else None,
+    })
+
+# ─── Upload / inbox routes ────────────────────────────────────────────────────
+
+UPLOAD_FOLDER = os.path.join(os.path.dirname(__file__), 'uploads')
+os.makedirs(UPLOAD_FOLDER, exist_ok=True)
+
+# Chat attachments: one multipart `file` per request, up to MAX_ATTACHMENTS per
+# message. Mirrored in frontend/src/lib/attachments.ts.
+ATTACHMENT_TYPES = {
+    'image/png', 'image/jpeg', 'image/gif', 'image/webp',
+    'application/pdf', 'text/plain', 'text/markdown', 'text/csv', 'application/json',
+}
+MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024     # 10 MB
+MAX_ATTACHMENTS = 5
+
+
+def stored_filename(upload_id: str, filename: str) -> str:
+    """Name on disk: prefixed with the upload id so equal names never collide."""
+    return f'{upload_id}_{filename}'
+
+
+def attachment_json(upload_id, filename, mime_type, size) -> dict:
+    return {
+        'upload_id': upload_id,
+        'name': filename.split('_', 1)[-1],
+        'mime_type': mime_type,
+        'size': size,
+        'url': f'/api/upload/{upload_id}',
+    }
+
+
+@app.post('/api/upload')
+@login_required
+def upload():
+    """Store a multipart `file` for attaching to a chat message; returns its upload id."""
+    if 'file' not in request.files:
+        return jsonify({'error': 'No file provided'}), 400
+    f = request.files['file']
+    from werkzeug.utils import secure_filename
+    filename = secure_filename(f.filename or '')
+    if not filename:
+        return jsonify({'error': 'Empty filename'}), 400
+
+    # Browsers send no type for some text formats (e.g. .md); go by the extension then.
+    mime_type = f.mimetype
+    if mime_type in ('', 'application/octet-stream'):
+        mime_type = mimetypes.guess_type(filename)[0] or mime_type
+    if mime_type not in ATTACHMENT_TYPES:
+        return jsonify({'error': 'That file type can\'t be attached'}), 415
+    data = f.read(MAX_ATTACHMENT_BYTES + 1)
+    if not data:
+        return jsonify({'error': 'File is empty'}), 400
+    if len(data) > MAX_ATTACHMENT_BYTES:
+        return jsonify({'error': 'File is too large (10 MB max)'}), 413
+
+    upload_id = uuid.uuid4().hex
+    stored = stored_filename(upload_id, filename)
+    with open(os.path.join(UPLOAD_FOLDER, stored), 'wb') as out:
+        out.write(data)
+
+    db = get_db()
+    cur = db.cursor()
+    cur.execute(
+        'INSERT INTO uploads (upload_id, user_id, filename, mime_type, size) '
+        'VALUES (%s, %s, %s, %s, %s)',
+        (upload_id, session['user_id'], stored, mime_type, len(data)),
+    )
+    db.commit()
+    cur.close()
+    return jsonify(attachment_json(upload_id, stored, mime_type, len(data))), 201
+
+
+@app.get('/api/upload/<upload_id>')
+@login_required
+def upload_file(upload_id: str):
+    """Serve one of the current user's attachments."""
+    found = owned_upload(upload_id)
+    if found is None or found[1] not in ATTACHMENT_TYPES:
+        return jsonify({'error': 'File not found'}), 404
+    filename, mime_type = found
+    # Only images are shown inline; anything else downloads under its own name.
+    response = send_from_directory(
+        UPLOAD_FOLDER, filename, mimetype=mime_type,
+        as_attachment=not mime_type.startswith('image/'),
+        download_name=filename.split('_', 1)[-1],
+    )
+    response.headers['X-Content-Type-Options'] = 'nosniff'
+    return response
+
+
+# Resumable chunked uploads (used for in-browser video recordings):
+#   POST /api/uploads                          -> start a session
+#   PUT  /api/uploads/<id>/chunks/<index>      -> raw bytes of one chunk
+#   GET  /api/uploads/<id>                     -> which chunks have arrived
+#   POST /api/uploads/<id>/complete            -> assemble the file
+# Chunks live under uploads/.partial/<id>/ until completion, so a client whose
+# connection drops can ask for the session status and send only what's missing.
+
+CHUNK_FOLDER = os.path.join(UPLOAD_FOLDER, '.partial')
+DEFAULT_CHUNK_SIZE = 1024 * 1024            # 1 MB
+MAX_UPLOAD_SIZE = 500 * 1024 * 1024         # 500 MB
+
+# These files are served back from our origin, so only known-safe types are
+# accepted — an SVG "thumbnail", say, could run script.
+VIDEO_TYPES = {'video/webm', 'video/mp4'}
+THUMBNAIL_TYPES = {'image/jpeg', 'image/png', 'image/webp'}
+
+
+def upload_session_json(upload_id: str, meta: dict, chunk_dir: str) -> dict:
+    received = sorted(
+        int(name.split('.')[0]) for name in os.listdir(chunk_dir) if name.endswith('.part')
+    )
+    return {
+        'upload_id': upload_id,
+        'filename': meta['filename'],
+        'size': meta['size'],
+        'chunk_size': meta['chunk_size'],
+        'total_chunks': meta['total_chunks'],
+        'received': received,
+    }
+
+
+def load_upload_session(upload_id: str):
+    """Return (meta, chunk_dir) for the current user's upload session, else None."""
+    if not re.fullmatch(r'[0-9a-f]{32}', upload_id):
+        return None
+    chunk_dir = os.path.join(CHUNK_FOLDER, upload_id)
+    try:
+        with open(os.path.join(chunk_dir, 'meta.json')) as fh:
+            meta = json.load(fh)
+    except (OSError, ValueError):
+        return None
+    if meta.get('user_id') != session['user_id']:
+        return None
+    return meta, chunk_dir
+
+
+@app.post('/api/uploads')
+@login_required
+def start_chunked_upload():
+    data = request.get_json(silent=True) or {}
+    from werkzeug.utils import secure_filename
+    filename = secure_filename(data.get('filename') or '')
+    size = data.get('size')
+    # MediaRecorder types carry codec parameters, e.g. video/webm;codecs=vp9,opus.
+    mime_type = str(data.get('mime_type') or '').split(';')[0].strip().lower()
+
+    if not filename:
+        return jsonify({'error': 'Filename is required'}), 400
+    if not isinstance(size, int) or size <= 0:
+        return jsonify({'error': 'Size must be a positive integer'}), 400
+    if size > MAX_UPLOAD_SIZE:
+        return jsonify({'error': 'File is too large'}), 413
+    if mime_type not in VIDEO_TYPES | THUMBNAIL_TYPES:
+        return jsonify({'error': 'Only WebM or MP4 videos and JPEG, PNG or WebP images can be uploaded'}), 415
+
+    upload_id = uuid.uuid4().hex
+    chunk_dir = os.path.join(CHUNK_FOLDER, upload_id)
+    os.makedirs(chunk_dir)
+    meta = {
+        'user_id': session['user_id'],
+        'filename': filename,
+        'mime_type': mime_type,
+        'size': size,
+        'chunk_size': DEFAULT_CHUNK_SIZE,
+        'total_chunks': -(-size // DEFAULT_CHUNK_SIZE),   # ceil division
+    }
+    with open(os.path.join(chunk_dir, 'meta.json'), 'w') as fh:
+        json.dump(meta, fh)
+
+    return jsonify(upload_session_json(upload_id, meta, chunk_dir)), 201
+
+
+@app.get('/api/uploads/<upload_id>')
+@login_required
+def chunked_upload_status(upload_id: str):
+    found = load_upload_session(upload_id)
+    if found is None:
+        return jsonify({'error': 'Upload not found'}), 404
+    return jsonify(upload_session_json(upload_id, *found))
+
+
+@app.put('/api/uploads/<upload_id>/chunks/<int:index>')
+@login_required
+def upload_chunk(upload_id: str, index: int):
+    found = load_upload_session(upload_id)
+    if found is None:
+        return jsonify({'error': 'Upload not found'}), 404
+    meta, chunk_dir = found
+
+    if index >= meta['total_chunks']:
+        return jsonify({'error': 'Chunk index out of range'}), 400
+    expected = min(meta['chunk_size'], meta['size'] - index * meta['chunk_size'])
+    body = request.get_data(cache=False)
+    if len(body) != expected:
+        return jsonify({'error': f'Chunk {index} must be {expected} bytes'}), 400
+
+    # Write then rename, so a dropped request never leaves a truncated chunk.
+    path = os.path.join(chunk_dir, f'{index}.part')
+    with open(path + '.tmp', 'wb') as fh:
+        fh.write(body)
+    os.replace(path + '.tmp', path)
+    return jsonify({'received': index})
+
+
+@app.post('/api/uploads/<upload_id>/complete')
+@login_required
+def complete_chunked_upload(upload_id: str):
+    found = load_upload_session(upload_id)
+    if found is None:
+        return jsonify({'error': 'Upload not found'}), 404
+    meta, chunk_dir = found
+
+    status = upload_session_json(upload_id, meta, chunk_dir)
+    missing = sorted(set(range(meta['total_chunks'])) - set(status['received']))
+    if missing:
+        return jsonify({'error': 'Upload is incomplete', 'missing': missing}), 409
+
+    filename = stored_filename(upload_id, meta['filename'])
+    with open(os.path.join(UPLOAD_FOLDER, filename), 'wb') as out:
+        for index in range(meta['total_chunks']):
+            with open(os.path.join(chunk_dir, f'{index}.part'), 'rb') as part:
+                shutil.copyfileobj(part, out)
+    shutil.rmtree(chunk_dir, ignore_errors=True)
+
+    # Record ownership so the file can later be attached to e.g. a video message.
+    db = get_db()
+    cur = db.cursor()
+    cur.execute(
+        'INSERT INTO uploads (upload_id, user_id, filename, mime_type, size) '
+        'VALUES (%s, %s, %s, %s, %s)',
+        (upload_id, session['user_id'], filename, meta['mime_type'], meta['size']),
+    )
+    db.commit()
+    cur.close()
+
+    return jsonify({
+        'upload_id': upload_id,
+        'filename': filename,
+        'mime_type': meta['mime_type'],
+        'size': meta['size'],
+    }), 201
+
+
+# ─── Video message routes ─────────────────────────────────────────────────────
+#
+# A video message points at a completed chunked upload (and optionally a
+# thumbnail upload) owned by the sender, addressed to one of their contacts.
+
+VIDEO_COLUMNS = """
+    v.video_id, v.sender_id, s.username, v.recipient_id, r.username,
+    v.duration_ms, v.viewed, v.created_at, vu.mime_type, v.thumbnail_upload_id
+"""
+
+VIDEO_FROM = """
+    FROM videos v
+    JOIN users s ON s.user_id = v.sender_id
+    JOIN users r ON r.user_id = v.recipient_id
+    JOIN uploads vu ON vu.upload_id = v.upload_id
+"""
+
+
+def video_json(row) -> dict:
+    (video_id, sender_id, sender_name, recipient_id, recipient_name,
+     duration_ms, viewed, created_at, mime_type, thumbnail_upload_id) = row
+    return {
+        'video_id': video_id,
+        'sender': {'user_id': sender_id, 'username': sender_name},
+        'recipient': {'user_id': recipient_id, 'username': recipient_name},
+        'duration_ms': duration_ms,
+        'viewed': viewed,
+        'created_at': iso(created_at),
+        'mime_type': mime_type,
+        'url': f'/api/videos/{video_id}/file',
+        'thumbnail_url': f'/api/videos/{video_id}/thumbnail' if thumbnail_upload_id else None,
+    }
+
+
+def get_visible_video(video_id):
+    """Return the video row if the current user sent or received it, else None."""
+    cur = get_db().cursor()
+    cur.execute(
+        f'SELECT {VIDEO_COLUMNS} {VIDEO_FROM} '
+        'WHERE v.video_id = %(id)s AND (v.sender_id = %(me)s OR v.recipient_id = %(me)s)',
+        {'id': video_id, 'me': session['user_id']},
+    )
+    row = cur.fetchone()
+    cur.close()
+    return row
+
+
+def owned_upload(upload_id):
+    """Return (filename, mime_type) of a completed upload owned by the current user."""
+    cur = get_db().cursor()
+    cur.execute(
+        'SELECT filename, mime_type FROM uploads WHERE upload_id = %s AND user_id = %s',
+        (upload_id, session['user_id']),
+    )
+    row = cur.fetchone()
+    cur.close()
+    return row
+
+
+@app.post('/api/videos')
+@login_required
+def send_video():
+    data = request.get_json(silent=True) or {}
+    upload_id = data.get('upload_id')
+    thumbnail_upload_id = data.get('thumbnail_upload_id')
+    recipient = (data.get('recipient') or '').strip()
+    duration_ms = data.get('duration_ms')
+
+    if not upload_id or not recipient:
+        return jsonify({'error': 'upload_id and recipient are required'}), 400
+    if duration_ms is not None and (not isinstance(duration_ms, int) or duration_ms < 0):
+        return jsonify({'error': 'duration_ms must be a non-negative integer'}), 400
+
+    video = owned_upload(upload_id)
+    if video is None or video[1] not in VIDEO_TYPES:
+        return jsonify({'error': 'Video upload not found'}), 404
+    if thumbnail_upload_id is not None:
+        thumbnail = owned_upload(thumbnail_upload_id)
+        if thumbnail is None or thumbnail[1] not in THUMBNAIL_TYPES:
+            return jsonify({'error': 'Thumbnail upload not found'}), 404
+
+    db = get_db()
+    cur = db.cursor()
+    cur.execute('SELECT user_id FROM users WHERE username = %s', (recipient,))
+    row = cur.fetchone()
+    if row is None or not are_contacts(session['user_id'], row[0]):
+        cur.close()
+        return jsonify({'error': 'You can only send videos to your contacts'}), 403
+
+    cur.execute(
+        'INSERT INTO videos (sender_id, recipient_id, upload_id, thumbnail_upload_id, duration_ms) '
+        'VALUES (%s, %s, %s, %s, %s) RETURNING video_id',
+        (session['user_id'], row[0], upload_id, thumbnail_upload_id, duration_ms),
+    )
+    video_id = cur.fetchone()[0]
+    db.commit()
+    cur.close()
+    notify(row[0], 'video', f'{current_user_name()} sent you a video', link='/video')
+    return jsonify(video_json(get_visible_video(video_id))), 201
+
+
+def send_upload(video_id: int, column: str):
+    """Serve the upload a video row references in `column` (video or thumbnail)."""
+    cur = get_db().cursor()
+    cur.execute(
+        f'SELECT u.filename, u.mime_type FROM videos v JOIN uploads u ON u.upload_id = {column} '
+        'WHERE v.video_id = %s',
+        (video_id,),
+    )
+    row = cur.fetchone()
+    cur.close()
+    if row is None:
+        return jsonify({'error': 'File not found'}), 404
+    # conditional=True enables Range requests, so the player can seek.
+    response = send_from_directory(UPLOAD_FOLDER, row[0], mimetype=row[1], conditional=True)
+    response.headers['X-Content-Type-Options'] = 'nosniff'
+    return response
+
+
+@app.get('/api/videos/<int:video_id>/file')
+@login_required
+def video_file(video_id: int):
+    if get_visible_video(video_id) is None:
+        return jsonify({'error': 'Video not found'}), 404
+    return send_upload(video_id, 'v.upload_id')
+
+
+@app.get('/api/videos/<int:video_id>/thumbnail')
+@login_required
+def video_thumbnail(video_id: int):
+    if get_visible_video(video_id) is None:
+        return jsonify({'error': 'Video not found'}), 404
+    return send_upload(video_id, 'v.thumbnail_upload_id')
+
+
+@app.post('/api/videos/<int:video_id>/viewed')
+@login_required
+def mark_video_viewed(video_id: int):
+    row = get_visible_video(video_id)
+    if row is None or row[3] != session['user_id']:
+        return jsonify({'error': 'Video not found'}), 404
+
+    db = get_db()
+    cur = db.cursor()
+    cur.execute('UPDATE videos SET viewed = TRUE WHERE video_id = %s', (video_id,))
+    db.commit()
+    cur.close()
+    return jsonify(video_json(get_visible_video(video_id)))
+
+
+@app.get('/api/inbox/<username>')
+@login_required
+def inbox(username: str):
+    # Only your own inbox — the username is kept in the URL for compatibility.
+    if username != session['username']:
+        return jsonify({'error': 'You can only view your own inbox'}), 403
+
+    cur = get_db().cursor()
+    cur.execute(
+        f'SELECT {VIDEO_COLUMNS} {VIDEO_FROM} '
+        'WHERE v.recipient_id = %s ORDER BY v.created_at DESC LIMIT 200',
+        (session['user_id'],),
+    )
+    rows = cur.fetchall()
+    cur.close()
+    return jsonify({'username': username, 'videos': [video_json(r) for r in rows]})
+
+# ─── Coach routes ─────────────────────────────────────────────────────────────
+#
+# A coaching session walks the user through a fixed list of prompts for its
+# type. Answering the last prompt completes the session: the summary is
+# assembled from the labelled answers, and each line of the action-items
+# answer becomes a goal the user can track across sessions.
+
+COACH_SESSION_TYPES = {
+    'check_in': {
+        'label': 'Check-in',
+        'description': 'A quick look at how things are going and what to focus on next.',
+        'steps': [
+            {'prompt': 'How are you feeling right now, in a sentence or two?', 'label': 'Mood'},
+            {'prompt': 'What has gone well since your last check-in?', 'label': 'Wins'},
+            {'prompt': "What's been hard or is weighing on you?", 'label': 'Challenges'},
+            {'prompt': 'What are one to three things you want to do before your next check-in? '
+                       'Put each on its own line.', 'actions': True},
+        ],
+    },
+    'conflict_prep': {
+        'label': 'Conflict prep',
+        'description': 'Get ready for a difficult conversation.',
+        'steps': [
+            {'prompt': 'Who is the conversation with, and what is it about?', 'label': 'Situation'},
+            {'prompt': 'What outcome would you be happy with?', 'label': 'Goal'},
+            {'prompt': 'How do you think they see the situation?', 'label': 'Their view'},
+            {'prompt': "What's the first thing you want to say? Try phrasing it as an \"I\" statement.",
+             'label': 'Opening'},
+            {'prompt': 'What will you do to prepare or follow up? Put each step on its own line.',
+             'actions': True},
+        ],
+    },
+    'reflection': {
+        'label': 'Reflection',
+        'description': 'Look back on a recent experience and what you learned from it.',
+        'steps': [
+            {'prompt': 'What happened? Describe the experience you want to reflect on.', 'label': 'Experience'},
+            {'prompt': 'How did you feel during it, and how do you feel about it now?', 'label': 'Feelings'},
+            {'prompt': 'What did you learn about yourself or others?', 'label': 'Lessons'},
+            {'prompt': 'What would you like to do differently next time? Put each on its own line.',
+             'actions': True},
+        ],
+    },
+}
+
+MAX_ACTION_ITEMS = 5
+GOAL_STATUSES = ('open', 'done')
+
+COACH_SESSION_COLUMNS = 'session_id, session_type, summary, started_at, completed_at'
+GOAL_COLUMNS = 'goal_id, session_id, title, status, created_at, completed_at'
+
+
+def coach_session_json(row, responses=None, goals=None) -> dict:
+    session_id, session_type, summary, started_at, completed_at = row
+    steps = COACH_SESSION_TYPES[session_type]['steps']
+    data = {
+        'session_id': session_id,
+        'session_type': session_type,
+        'status': 'completed' if completed_at else 'active',
+        'summary': summary,
+        'started_at': iso(started_at),
+        'completed_at': iso(completed_at),
+        'step_count': len(steps),
+    }
+    if responses is not None:
+        data['responses'] = [
+            {'step': step, 'prompt': prompt, 'answer': answer, 'created_at': iso(created_at)}
+            for step, prompt, answer, created_at in responses
+        ]
+        step = len(responses)
+        data['current_step'] = step
+        data['prompt'] = steps[step]['prompt'] if not completed_at and step < len(steps) else None
+    if goals is not None:
+        data['goals'] = [goal_json(g) for g in goals]
+    return data
+
+
+def goal_json(row) -> dict:
+    goal_id, session_id, title, status, created_at, completed_at = row
+    return {
+        'goal_id': goal_id,
+        'session_id': session_id,
+        'title': title,
+        'status': status,
+        'created_at': iso(created_at),
+        'completed_at': iso(completed_at),
+    }
+
+
+def get_coach_session(session_id):
+    """Return the current user's coaching session row, or None."""
+    cur = get_db().cursor()
+    cur.execute(
+        f'SELECT {COACH_SESSION_COLUMNS} FROM coach_sessions '
+        'WHERE session_id = %s AND user_id = %s',
+        (session_id, session['user_id']),
+    )
+    row = cur.fetchone()
+    cur.close()
+    return row
+
+
+def coach_session_detail(row) -> dict:
+    """Session JSON including its answers and the goals it produced."""
+    cur = get_db().cursor()
+    cur.execute(
+        'SELECT step, prompt, answer, created_at FROM coach_responses '
+        'WHERE session_id = %s ORDER BY step',
+        (row[0],),
+    )
+    responses = cur.fetchall()
+    cur.execute(
+        f'SELECT {GOAL_COLUMNS} FROM coach_goals WHERE session_id = %s ORDER BY goal_id',
+        (row[0],),
+    )
+    goals = cur.fetchall()
+    cur.close()
+    return coach_session_json(row, responses, goals)
+
+
+def get_goal(goal_id):
+    cur = get_db().cursor()
+    cur.execute(
+        f'SELECT {GOAL_COLUMNS} FROM coach_goals WHERE goal_id = %s AND user_id = %s',
+        (goal_id, session['user_id']),
+    )
+    row = cur.fetchone()
+    cur.close()
+    return row
+
+
+def parse_action_items(answer: str) -> list[str]:
+    """One item per line, with any list markers ("-", "*", "1.") stripped."""
+    items = []
+    for line in answer.splitlines():
+        item = re.sub(r'^\s*(?:[-*•]|\d+[.)])\s*', '', line).strip()
+        if item:
+            items.append(item[:200])
+    return items[:MAX_ACTION_ITEMS]
+
+
+def summarize_session(session_type: str, answers: list[str]) -> tuple[str, list[str]]:
+    """Build (summary, action_items) from a completed session's answers."""
+    lines, actions = [], []
+    for step, answer in zip(COACH_SESSION_TYPES[session_type]['steps'], answers):
+        if step.get('actions'):
+            actions = parse_action_items(answer)
+        elif step.get('label'):
+            lines.append(f"{step['label']}: {answer}")
+    return '\n'.join(lines), actions
+
+
+@app.get('/api/coach/session-types')
+@login_required
+def coach_session_types():
+    return jsonify({'session_types': [
+        {
+            'session_type': key,
+            'label': spec['label'],
+            'description': spec['description'],
+            'step_count': len(spec['steps']),
+        }
+        for key, spec in COACH_SESSION_TYPES.items()
+    ]})
+
+
+@app.get('/api/coach/sessions')
+@login_required
+def list_coach_sessions():
+    cur = get_db().cursor()
+    cur.execute(
+        f'SELECT {COACH_SESSION_COLUMNS} FROM coach_sessions '
+        'WHERE user_id = %s ORDER BY started_at DESC LIMIT 100',
+        (session['user_id'],),
+    )
+    rows = cur.fetchall()
+    cur.close()
+    return jsonify({'sessions': [coach_session_json(r) for r in rows]})
+
+
+@app.post('/api/coach/sessions')
+@login_required
+def start_coach_session():
+    data = request.get_json(silent=True) or {}
+    session_type = data.get('session_type')
+
+    if session_type not in COACH_SESSION_TYPES:
+        return jsonify({'error': 'Unknown session type'}), 400
+
+    db = get_db()
+    cur = db.cursor()
+    cur.execute(
+        'INSERT INTO coach_sessions (user_id, session_type) VALUES (%s, %s) '
+        f'RETURNING {COACH_SESSION_COLUMNS}',
+        (session['user_id'], session_type),
+    )
+    row = cur.fetchone()
+    db.commit()
+    cur.close()
+    return jsonify(coach_session_json(row, [], [])), 201
+
+
+@app.get('/api/coach/sessions/<int:session_id>')
+@login_required
+def view_coach_session(session_id: int):
+    row = get_coach_session(session_id)
+    if row is None:
+        return jsonify({'error': 'Session not found'}), 404
+    return jsonify(coach_session_detail(row))
+
+
+@app.post('/api/coach/sessions/<int:session_id>/responses')
+@login_required
+def answer_coach_prompt(session_id: int):
+    """Answer the current prompt; answering the last one completes the session."""
+    data = request.get_json(silent=True) or {}
+    answer = (data.get('answer') or '').strip()
+
+    if not answer:
+        return jsonify({'error': 'Answer is required'}), 400
+    row = get_coach_session(session_id)
+    if row is None:
+        return jsonify({'error': 'Session not found'}), 404
+    _, session_type, _, _, completed_at = row
+    if completed_at is not None:
+        return jsonify({'error': 'Session is already complete'}), 409
+
+    steps = COACH_SESSION_TYPES[session_type]['steps']
+    db = get_db()
+    cur = db.cursor()
+    cur.execute(
+        'SELECT answer FROM coach_responses WHERE session_id = %s ORDER BY step',
+        (session_id,),
+    )
+    answers = [r[0] for r in cur.fetchall()]
+    step = len(answers)
+    cur.execute(
+        'INSERT INTO coach_responses (session_id, step, prompt, answer) VALUES (%s, %s, %s, %s)',
+        (session_id, step, steps[step]['prompt'], answer),
+    )
+
+    if step == len(steps) - 1:
+        summary, actions = summarize_session(session_type, answers + [answer])
+        cur.execute(
+            'UPDATE coach_sessions SET summary = %s, completed_at = NOW() WHERE session_id = %s',
+            (summary, session_id),
+        )
+        for title in actions:
+            cur.execute(
+                'INSERT INTO coach_goals (user_id, session_id, title) VALUES (%s, %s, %s)',
+                (session['user_id'], session_id, title),
+            )
+
+    db.commit()
+    cur.close()
+    return jsonify(coach_session_detail(get_coach_session(session_id)))
+
+
+@app.delete('/api/coach/sessions/<int:session_id>')
+@login_required
+def delete_coach_session(session_id: int):
+    """Delete a session and its answers. Goals it produced are kept."""
+    if get_coach_session(session_id) is None:
+        return jsonify({'error': 'Session not found'}), 404
+
+    db = get_db()
+    cur = db.cursor()
+    cur.execute('DELETE FROM coach_sessions WHERE session_id = %s', (session_id,))
+    db.commit()
+    cur.close()
+    return '', 204
+
+
+@app.get('/api/coach/goals')
+@login_required
+def list_goals():
+    status = request.args.get('status')
+    if status is not None and status not in GOAL_STATUSES:
+        return jsonify({'error': 'Invalid status'}), 400
+
+    cur = get_db().cursor()
+    cur.execute(
+        f'SELECT {GOAL_COLUMNS} FROM coach_goals '
+        'WHERE user_id = %s AND (%s IS NULL OR status = %s) '
+        "ORDER BY status = 'done', created_at DESC",
+        (session['user_id'], status, status),
+    )
+    rows = cur.fetchall()
+    cur.close()
+    return jsonify({'goals': [goal_json(r) for r in rows]})
+
+
+@app.post('/api/coach/goals')
+@login_required
+def create_goal():
+    data = request.get_json(silent=True) or {}
+    title = (data.get('title') or '').strip()
+
+    if not title:
+        return jsonify({'error': 'Title is required'}), 400
+
+    db = get_db()
+    cur = db.cursor()
+    cur.execute(
+        f'INSERT INTO coach_goals (user_id, title) VALUES (%s, %s) RETURNING {GOAL_COLUMNS}',
+        (session['user_id'], title[:200]),
+    )
+    row = cur.fetchone()
+    db.commit()
+    cur.close()
+    return jsonify(goal_json(row)), 201
+
+
+@app.put('/api/coach/goals/<int:goal_id>')
+@login_required
+def update_goal(goal_id: int):
+    data = request.get_json(silent=True) or {}
+    title = data.get('title')
+    status = data.get('status')
+
+    if title is not None and not str(title).strip():
+        return jsonify({'error': 'Title cannot be empty'}), 400
+    if status is not None and status not in GOAL_STATUSES:
+        return jsonify({'error': 'Invalid status'}), 400
+    if get_goal(goal_id) is None:
+        return jsonify({'error': 'Goal not found'}), 404
+
+    db = get_db()
+    cur = db.cursor()
+    if title is not None:
+        cur.execute(
+            'UPDATE coach_goals SET title = %s WHERE goal_id = %s',
+            (str(title).strip()[:200], goal_id),
+        )
+    if status is not None:
+        cur.execute(
+            'UPDATE coach_goals SET status = %s, '
+            "completed_at = CASE WHEN %s = 'done' THEN COALESCE(completed_at, NOW()) END "
+            'WHERE goal_id = %s',
+            (status, status, goal_id),
+        )
+    db.commit()
+    cur.close()
+    return jsonify(goal_json(get_goal(goal_id)))
+
+
+@app.delete('/api/coach/goals/<int:goal_id>')
+@login_required
+def delete_goal(goal_id: int):
+    if get_goal(goal_id) is None:
+        return jsonify({'error': 'Goal not found'}), 404
+
+    db = get_db()
+    cur = db.cursor()
+    cur.execute('DELETE FROM coach_goals WHERE goal_id = %s', (goal_id,))
+    db.commit()
+    cur.close()
+    return '', 204
+
+# ─── Account routes ───────────────────────────────────────────────────────────
+#
+# Profile edits, avatar, password change, data export and account deletion,
+# all for the signed-in user.
+
+MAX_DISPLAY_NAME_LENGTH = 50
+MAX_BIO_LENGTH = 500
+THEMES = ('system', 'light', 'dark', 'high-contrast')   # frontend/src/lib/theme.ts mirrors this
+LOCALES = ('en', 'es', 'ar', 'he')                      # frontend/src/lib/i18n.ts mirrors this
+MAX_AVATAR_BYTES = 2 * 1024 * 1024          # 2 MB; the client uploads a cropped square
+AVATAR_FOLDER = os.path.join(UPLOAD_FOLDER, 'avatars')
+os.makedirs(AVATAR_FOLDER, exist_ok=True)
+
+
+def avatar_extension(data: bytes) -> str | None:
+    """The file extension for PNG, JPEG or WebP bytes, judged by their signature; else None."""
+    if data.startswith(b'\x89PNG\r\n\x1a\n'):
+        return 'png'
+    if data.startswith(b'\xff\xd8\xff'):
+        return 'jpg'
+    if data[:4] == b'RIFF' and data[8:12] == b'WEBP':
+        return 'webp'
+    return None
+
+
+def remove_file(folder: str, filename: str | None) -> None:
+    if not filename:
+        return
+    try:
+        os.remove(os.path.join(folder, filename))
+    except FileNotFoundError:
+        pass
+
+
+def check_password(user_id, password: str) -> bool:
+    cur = get_db().cursor()
+    cur.execute('SELECT password FROM users WHERE user_id = %s', (user_id,))
+    row = cur.fetchone()
+    cur.close()
+    return row is not None and bcrypt.check_password_hash(row[0], password)
+
+
+@app.put('/api/me')
+@login_required
+def update_profile():
+    """
+    Update `display_name`, `bio`, `theme`, `locale` and/or
+    `notification_preferences` (only the categories and channels given
+    change); an empty string clears display_name or bio.
+    """
+    data = request.get_json(silent=True) or {}
+    changes = {}
+    fields = {}
+    for key, limit in (('display_name', MAX_DISPLAY_NAME_LENGTH), ('bio', MAX_BIO_LENGTH)):
+        if key not in data:
+            continue
+        if data[key] is not None and not isinstance(data[key], str):
+            fields[key] = 'Must be text'
+            continue
+        value = (data[key] or '').strip()
+        if len(value) > limit:
+            fields[key] = f'Must be at most {limit} characters'
+        changes[key] = value or None
+    if 'theme' in data:
+        if data['theme'] in THEMES:
+            changes['theme'] = data['theme']
+        else:
+            fields['theme'] = f'Must be one of: {", ".join(THEMES)}'
+    if 'locale' in data:
+        if data['locale'] in LOCALES:
+            changes['locale'] = data['locale']
+        else:
+            fields['locale'] = f'Must be one of: {", ".join(LOCALES)}'
+    if 'notification_preferences' in data:
+        update = parse_notification_preferences(data['notification_preferences'])
+        if update is None:
+            fields['notification_preferences'] = 'Must map categories to channels and true/false'
+        else:
+            current = notification_preferences(get_user(session['user_id'])[7])
+            for category, channels in update.items():
+                current[category].update(channels)
+            changes['notification_preferences'] = json.dumps(current)
+    if fields:
+        return jsonify({'error': 'Please fix the highlighted fields', 'fields': fields}), 400
+
+    if changes:
+        db = get_db()
+        cur = db.cursor()
+        assignments = ', '.join(f'{key} = %s' for key in changes)
+        cur.execute(
+            f'UPDATE users SET {assignments} WHERE user_id = %s',
+            (*changes.values(), session['user_id']),
+        )
+        db.commit()
+        cur.close()
+    return jsonify(user_json(get_user(session['user_id'])))
+
+
+@app.post('/api/me/avatar')
+@login_required
+def upload_avatar():
+    """Replace the avatar with a multipart `avatar` image."""
+    file = request.files.get('avatar')
+    if file is None:
+        return jsonify({'error': 'No image provided'}), 400
+    data = file.read(MAX_AVATAR_BYTES + 1)
+    if not data:
+        return jsonify({'error': 'Image is empty'}), 400
+    if len(data) > MAX_AVATAR_BYTES:
+        return jsonify({'error': 'Avatar is too large (2 MB max)'}), 413
+    # The bytes decide, not the client's Content-Type.
+    extension = avatar_extension(data)
+    if extension is None:
+        return jsonify({'error': 'Avatar must be a PNG, JPEG or WebP image'}), 400
+
+    user_id = session['user_id']
+    filename = f'{user_id}-{uuid.uuid4().hex}.{extension}'
+    with open(os.path.join(AVATAR_FOLDER, filename), 'wb') as out:
+        out.write(data)
+
+    db = get_db()
+    cur = db.cursor()
+    cur.execute('SELECT avatar_filename FROM users WHERE user_id = %s', (user_id,))
+    previous = cur.fetchone()[0]
+    cur.execute('UPDATE users SET avatar_filename = %s WHERE user_id = %s', (filename, user_id))
+    db.commit()
+    cur.close()
+    remove_file(AVATAR_FOLDER, previous)
+    return jsonify(user_json(get_user(user_id)))
+
+
+@app.delete('/api/me/avatar')
+@login_required
+def delete_avatar():
+    user_id = session['user_id']
+    db = get_db()
+    cur = db.cursor()
+    cur.execute('SELECT avatar_filename FROM users WHERE user_id = %s', (user_id,))
+    previous = cur.fetchone()[0]
+    cur.execute('UPDATE users SET avatar_filename = NULL WHERE user_id = %s', (user_id,))
+    db.commit()
+    cur.close()
+    remove_file(AVATAR_FOLDER, previous)
+    return jsonify(user_json(get_user(user_id)))
+
+
+@app.get('/api/users/<int:user_id>/avatar')
+@login_required
+def user_avatar(user_id: int):
+    row = get_user(user_id)
+    if row is None or row[4] is None:
+        return jsonify({'error': 'No avatar'}), 404
+    response = send_from_directory(AVATAR_FOLDER, row[4], max_age=60 * 60 * 24 * 365)
+    response.headers['X-Content-Type-Options'] = 'nosniff'
+    return response
+
+
+@app.post('/api/me/password')
+@login_required
+def change_password():
+    data = request.get_json(silent=True) or {}
+    current = data.get('current_password') or ''
+    new = data.get('new_password') or ''
+
+    fields = {}
+    if not check_password(session['user_id'], current):
+        fields['current_password'] = 'Current password is incorrect'
+    if problem := password_problem(new, session['username']):
+        fields['new_password'] = problem
+    elif new == current:
+        fields['new_password'] = 'Choose a password you are not already using'
+    if fields:
+        return jsonify({'error': 'Password not changed', 'fields': fields}), 400
+
+    hashed = bcrypt.generate_password_hash(new).decode('utf-8')
+    db = get_db()
+    cur = db.cursor()
+    cur.execute('UPDATE users SET password = %s WHERE user_id = %s', (hashed, session['user_id']))
+    # Anyone signed in with the old password is signed out.
+    cur.execute(
+        'DELETE FROM user_sessions WHERE user_id = %s AND session_id <> %s',
+        (session['user_id'], g.session_id),
+    )
+    db.commit()
+    cur.close()
+    return jsonify({'ok': True})
+
+
+def export_rows(cur, sql: str, params: tuple) -> list[dict]:
+    """Run a query and return its rows as dicts keyed by column name, dates as ISO strings."""
+    cur.execute(sql, params)
+    columns = [col.name for col in cur.description]
+    return [
+        {col: iso(value) if isinstance(value, datetime) else value for col, value in zip(columns, row)}
+        for row in cur.fetchall()
+    ]
+
+
+@app.get('/api/me/export')
+@login_required
+def export_data():
+    """Everything stored about the current user, as a JSON download."""
+    user_id = session['user_id']
+    cur = get_db().cursor()
+    data = {
+        'exported_at': iso(datetime.now().astimezone()),
+        'profile': user_json(get_user(user_id)),
+        'conversations': export_rows(
+            cur,
+            'SELECT conversation_id, title, user2_id IS NOT NULL AS is_direct, started_at '
+            'FROM conversations WHERE user1_id = %s OR user2_id = %s ORDER BY conversation_id',
+            (user_id, user_id),
+        ),
+        'messages': export_rows(
+            cur,
+            'SELECT m.message_id, m.conversation_id, m.sender_id, m.content, m.created_at '
+            'FROM messages m JOIN conversations c ON c.conversation_id = m.conversation_id '
+            'WHERE c.user1_id = %s OR c.user2_id = %s ORDER BY m.message_id',
+            (user_id, user_id),
+        ),
+        'transcripts': export_rows(
+            cur,
+            'SELECT transcript_id, content, created_at FROM transcripts '
+            'WHERE user_id = %s ORDER BY transcript_id',
+            (user_id,),
+        ),
+        'contacts': export_rows(
+            cur,
+            'SELECT c.contact_id, u.username, c.status, c.requester_id = %s AS outgoing, c.created_at '
+            'FROM contacts c JOIN users u ON u.user_id = '
+            'CASE WHEN c.requester_id = %s THEN c.addressee_id ELSE c.requester_id END '
+            'WHERE c.requester_id = %s OR c.addressee_id = %s ORDER BY c.contact_id',
+            (user_id, user_id, user_id, user_id),
+        ),
+        'notifications': export_rows(
+            cur,
+            f'SELECT {NOTIFICATION_COLUMNS} FROM notifications WHERE user_id = %s ORDER BY notification_id',
+            (user_id,),
+        ),
+        'videos': export_rows(
+            cur,
+            'SELECT video_id, sender_id, recipient_id, duration_ms, viewed, created_at FROM videos '
+            'WHERE sender_id = %s OR recipient_id = %s ORDER BY video_id',
+            (user_id, user_id),
+        ),
+        'coach_sessions': export_rows(
+            cur,
+            'SELECT session_id, session_type, summary, started_at, completed_at FROM coach_sessions '
+            'WHERE user_id = %s ORDER BY session_id',
+            (user_id,),
+        ),
+        'coach_responses': export_rows(
+            cur,
+            'SELECT r.session_id, r.step, r.prompt, r.answer, r.created_at FROM coach_responses r '
+            'JOIN coach_sessions s ON s.session_id = r.session_id '
+            'WHERE s.user_id = %s ORDER BY r.session_id, r.step',
+            (user_id,),
+        ),
+        'coach_goals': export_rows(
+            cur,
+            'SELECT goal_id, session_id, title, status, created_at, completed_at FROM coach_goals '
+            'WHERE user_id = %s ORDER BY goal_id',
+            (user_id,),
+        ),
+    }
+    cur.close()
+    return Response(
+        json.dumps(data, indent=2),
+        mimetype='application/json',
+        headers={'Content-Disposition': 'attachment; filename="unify-export.json"'},
+    )
+
+
+@app.delete('/api/me')
+@login_required
+def delete_account():
+    """Delete the account and everything it owns. Requires `password` to confirm."""
+    data = request.get_json(silent=True) or {}
+    user_id = session['user_id']
+    if not check_password(user_id, data.get('password') or ''):
+        return jsonify({'error': 'Password is incorrect', 'fields': {'password': 'Password is incorrect'}}), 400
+
+    db = get_db()
+    cur = db.cursor()
+    cur.execute('SELECT avatar_filename FROM users WHERE user_id = %s', (user_id,))
+    avatar = cur.fetchone()[0]
+    cur.execute('SELECT filename FROM uploads WHERE user_id = %s', (user_id,))
+    upload_files = [row[0] for row in cur.fetchall()]
+
+    cur.execute('DELETE FROM coach_goals WHERE user_id = %s', (user_id,))
+    cur.execute('DELETE FROM coach_sessions WHERE user_id = %s', (user_id,))
+    cur.execute('DELETE FROM videos WHERE sender_id = %s OR recipient_id = %s', (user_id, user_id))
+    cur.execute('DELETE FROM uploads WHERE user_id = %s', (user_id,))
+    cur.execute(
+        'DELETE FROM messages WHERE sender_id = %s OR conversation_id IN '
+        '(SELECT conversation_id FROM conversations WHERE user1_id = %s OR user2_id = %s)',
+        (user_id, user_id, user_id),
+    )
+    cur.execute('DELETE FROM conversations WHERE user1_id = %s OR user2_id = %s', (user_id, user_id))
+    cur.execute('DELETE FROM transcripts WHERE user_id = %s', (user_id,))
+    cur.execute('DELETE FROM contacts WHERE requester_id = %s OR addressee_id = %s', (user_id, user_id))
+    cur.execute('DELETE FROM users WHERE user_id = %s', (user_id,))
+    db.commit()
+    cur.close()
+
+    # Files go only once the rows referencing them are gone.
+    remove_file(AVATAR_FOLDER, avatar)
+    for filename in upload_files:
+        remove_file(UPLOAD_FOLDER, filename)
+    session.clear()
+    return '', 204
+
+# ─── Admin routes ─────────────────────────────────────────────────────────────
+#
+# The /admin console: user management and usage stats. Admins can't demote or
+# disable themselves, so there is always someone left to undo a mistake.
+
+STATS_DAYS = 14
+TEMPORARY_PASSWORD_BYTES = 9     # 12 URL-safe characters
+
+
+def admin_user_json(row) -> dict:
+    user_id, username, display_name, role, disabled_at, last_seen_at, message_count = row
+    return {
+        'user_id': user_id,
+        'username': username,
+        'display_name': display_name,
+        'role': role,
+        'disabled': disabled_at is not None,
+        'last_seen_at': iso(last_seen_at) if last_seen_at else None,
+        'message_count': message_count,
+    }
+
+
+ADMIN_USER_QUERY = """
+    SELECT u.user_id, u.username, u.display_name, u.role, u.disabled_at,
+           (SELECT MAX(last_seen_at) FROM user_sessions s WHERE s.user_id = u.user_id),
+           (SELECT COUNT(*) FROM messages m WHERE m.sender_id = u.user_id)
+    FROM users u
+"""
+
+
+def get_admin_user(cur, user_id: int):
+    cur.execute(ADMIN_USER_QUERY + ' WHERE u.user_id = %s', (user_id,))
+    return cur.fetchone()
+
+
+@app.get('/api/admin/users')
+@role_required('admin')
+def admin_list_users():
+    """All users, optionally filtered by `?q=` (username or display name)."""
+    q = (request.args.get('q') or '').strip()
+    cur = get_db().cursor()
+    cur.execute(
+        ADMIN_USER_QUERY + " WHERE %(q)s = '' OR u.username ILIKE %(pattern)s ESCAPE '\\' "
+        "OR u.display_name ILIKE %(pattern)s ESCAPE '\\' ORDER BY u.username",
+        {'q': q, 'pattern': '%' + escape_like(q) + '%'},
+    )
+    rows = cur.fetchall()
+    cur.close()
+    return jsonify({'users': [admin_user_json(row) for row in rows]})
+
+
+@app.put('/api/admin/users/<int:user_id>')
+@role_required('admin')
+def admin_update_user(user_id: int):
+    """Change `role` and/or `disabled`. Disabling signs the user out everywhere."""
+    data = request.get_json(silent=True) or {}
+    role = data.get('role')
+    disabled = data.get('disabled')
+
+    if role is not None and role not in ROLES:
+        return jsonify({'error': f'Role must be one of: {", ".join(ROLES)}'}), 400
+    if disabled is not None and not isinstance(disabled, bool):
+        return jsonify({'error': 'disabled must be true or false'}), 400
+    if user_id == session['user_id'] and (role not in (None, 'admin') or disabled):
+        return jsonify({'error': "You can't demote or disable your own account"}), 400
+
+    db = get_db()
+    cur = db.cursor()
+    if get_admin_user(cur, user_id) is None:
+        cur.close()
+        return jsonify({'error': 'User not found'}), 404
+    if role is not None:
+        cur.execute('UPDATE users SET role = %s WHERE user_id = %s', (role, user_id))
+    if disabled is not None:
+        cur.execute(
+            'UPDATE users SET disabled_at = CASE WHEN %s THEN COALESCE(disabled_at, NOW()) END '
+            'WHERE user_id = %s',
+            (disabled, user_id),
+        )
+        if disabled:
+            cur.execute('DELETE FROM user_sessions WHERE user_id = %s', (user_id,))
+    db.commit()
+    row = get_admin_user(cur, user_id)
+    cur.close()
+    return jsonify(admin_user_json(row))
+
+
+@app.post('/api/admin/users/<int:user_id>/reset-password')
+@role_required('admin')
+def admin_reset_password(user_id: int):
+    """
+    Replace the user's password with a random temporary one, returned once so
+    the admin can pass it on, and sign them out everywhere. Not for your own
+    account (use the Profile page) or another admin's.
+    """
+    if user_id == session['user_id']:
+        return jsonify({'error': "You can't reset your own password here; change it on your profile"}), 400
+    db = get_db()
+    cur = db.cursor()
+    cur.execute('SELECT role FROM users WHERE user_id = %s', (user_id,))
+    target = cur.fetchone()
+    if target is None:
+        cur.close()
+        return jsonify({'error': 'User not found'}), 404
+    if target[0] == 'admin':
+        cur.close()
+        return jsonify({'error': "You can't reset another admin's password"}), 403
+    temporary = secrets.token_urlsafe(TEMPORARY_PASSWORD_BYTES)
+    hashed = bcrypt.generate_password_hash(temporary).decode('utf-8')
+    cur.execute('UPDATE users SET password = %s WHERE user_id = %s', (hashed, user_id))
+    cur.execute('DELETE FROM user_sessions WHERE user_id = %s', (user_id,))
+    db.commit()
+    cur.close()
+    return jsonify({'temporary_password': temporary})
+
+
+@app.get('/api/admin/stats')
+@role_required('admin')
+def admin_stats():
+    """Totals plus daily message and upload counts for the last STATS_DAYS days."""
+    cur = get_db().cursor()
+    cur.execute(
+        'SELECT (SELECT COUNT(*) FROM users), '
+        '(SELECT COUNT(*) FROM users WHERE disabled_at IS NOT NULL), '
+        '(SELECT COUNT(*) FROM messages), '
+        '(SELECT COUNT(*) FROM uploads), '
+        '(SELECT COALESCE(SUM(size), 0) FROM uploads), '
+        "(SELECT COUNT(DISTINCT user_id) FROM user_sessions WHERE last_seen_at > NOW() - INTERVAL '1 day')"
+    )
+    users, disabled, messages, uploads, upload_bytes, active_today = cur.fetchone()
+
+    # One row per day, zero-filled, oldest first.
+    cur.execute(
+        """
+        SELECT d::date,
+               (SELECT COUNT(*) FROM messages WHERE created_at::date = d::date),
+               (SELECT COUNT(*) FROM uploads WHERE created_at::date = d::date),
+               (SELECT COALESCE(SUM(size), 0) FROM uploads WHERE created_at::date = d::date)
+        FROM generate_series(CURRENT_DATE - %s, CURRENT_DATE, INTERVAL '1 day') AS d
+        ORDER BY d
+        """,
+        (STATS_DAYS - 1,),
+    )
+    days = [
+        {'date': day.isoformat(), 'messages': day_messages, 'uploads': day_uploads, 'upload_bytes': int(day_bytes)}
+        for day, day_messages, day_uploads, day_bytes in cur.fetchall()
+    ]
+    cur.close()
+    return jsonify({
+        'totals': {
+            'users': users,
+            'disabled_users': disabled,
+            'active_today': active_today,
+            'messages': messages,
+            'uploads': uploads,
+            'upload_bytes': int(upload_bytes),
+        },
+        'days': days,
+    })
 
 # ─── Serve React SPA (production) ────────────────────────────────────────────
 
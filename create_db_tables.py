@@ -33,6 +33,164 @@ CREATE TABLE IF NOT EXISTS messages (
     content         TEXT NOT NULL,
     created_at      TIMESTAMPTZ DEFAULT NOW()
 );
+
+-- Assistant chat threads: user2_id IS NULL, assistant messages have sender_id IS NULL.
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS title TEXT;
+CREATE INDEX IF NOT EXISTS messages_conversation_idx ON messages (conversation_id, message_id);
+
+-- Voice transcripts saved through /api/transcribe.
+CREATE TABLE IF NOT EXISTS transcripts (
+    transcript_id SERIAL PRIMARY KEY,
+    user_id       INTEGER REFERENCES users(user_id),
+    content       TEXT NOT NULL,
+    created_at    TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Full-text search indexes for the History page.
+CREATE INDEX IF NOT EXISTS messages_content_fts
+    ON messages USING GIN (to_tsvector('english', content));
+CREATE INDEX IF NOT EXISTS transcripts_content_fts
+    ON transcripts USING GIN (to_tsvector('english', content));
+
+-- One row per pair of users. status: pending | accepted | blocked.
+-- A blocked row has the blocker as requester_id.
+CREATE TABLE IF NOT EXISTS contacts (
+    contact_id   SERIAL PRIMARY KEY,
+    requester_id INTEGER NOT NULL REFERENCES users(user_id),
+    addressee_id INTEGER NOT NULL REFERENCES users(user_id),
+    status       TEXT NOT NULL DEFAULT 'pending'
+                 CHECK (status IN ('pending', 'accepted', 'blocked')),
+    created_at   TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (requester_id <> addressee_id)
+);
+CREATE UNIQUE INDEX IF NOT EXISTS contacts_pair_idx
+    ON contacts (LEAST(requester_id, addressee_id), GREATEST(requester_id, addressee_id));
+
+-- Delivery/read receipts for 1:1 messages.
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMPTZ;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS read_at TIMESTAMPTZ;
+
+-- Uploaded files (chunked uploads and chat attachments) and who owns them.
+CREATE TABLE IF NOT EXISTS uploads (
+    upload_id  TEXT PRIMARY KEY,
+    user_id    INTEGER REFERENCES users(user_id),
+    filename   TEXT NOT NULL,
+    mime_type  TEXT NOT NULL,
+    size       BIGINT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Video messages sent to a contact's inbox.
+CREATE TABLE IF NOT EXISTS videos (
+    video_id            SERIAL PRIMARY KEY,
+    sender_id           INTEGER REFERENCES users(user_id),
+    recipient_id        INTEGER REFERENCES users(user_id),
+    upload_id           TEXT NOT NULL REFERENCES uploads(upload_id),
+    thumbnail_upload_id TEXT REFERENCES uploads(upload_id),
+    duration_ms         INTEGER,
+    viewed              BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at          TIMESTAMPTZ DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS videos_recipient_idx ON videos (recipient_id, created_at DESC);
+
+-- Guided coaching sessions. A session is complete once completed_at is set.
+CREATE TABLE IF NOT EXISTS coach_sessions (
+    session_id   SERIAL PRIMARY KEY,
+    user_id      INTEGER NOT NULL REFERENCES users(user_id),
+    session_type TEXT NOT NULL,
+    summary      TEXT,
+    started_at   TIMESTAMPTZ DEFAULT NOW(),
+    completed_at TIMESTAMPTZ
+);
+
+-- One answer per prompt; the prompt text is kept in case the script changes.
+CREATE TABLE IF NOT EXISTS coach_responses (
+    response_id SERIAL PRIMARY KEY,
+    session_id  INTEGER NOT NULL REFERENCES coach_sessions(session_id) ON DELETE CASCADE,
+    step        INTEGER NOT NULL,
+    prompt      TEXT NOT NULL,
+    answer      TEXT NOT NULL,
+    created_at  TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (session_id, step)
+);
+
+-- Goals from session action items (or added by hand). status: open | done.
+CREATE TABLE IF NOT EXISTS coach_goals (
+    goal_id      SERIAL PRIMARY KEY,
+    user_id      INTEGER NOT NULL REFERENCES users(user_id),
+    session_id   INTEGER REFERENCES coach_sessions(session_id) ON DELETE SET NULL,
+    title        TEXT NOT NULL,
+    status       TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'done')),
+    created_at   TIMESTAMPTZ DEFAULT NOW(),
+    completed_at TIMESTAMPTZ
+);
+CREATE INDEX IF NOT EXISTS coach_goals_user_idx ON coach_goals (user_id, status);
+
+-- Profile fields edited on the Profile page. The avatar file lives in uploads/avatars/.
+ALTER TABLE users ADD COLUMN IF NOT EXISTS display_name TEXT;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS bio TEXT;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS avatar_filename TEXT;
+
+-- One row per sign-in; the Flask session cookie holds the token.
+CREATE TABLE IF NOT EXISTS user_sessions (
+    session_id   SERIAL PRIMARY KEY,
+    user_id      INTEGER NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+    token        TEXT UNIQUE NOT NULL,
+    remember     BOOLEAN NOT NULL DEFAULT FALSE,
+    user_agent   TEXT,
+    ip_address   TEXT,
+    created_at   TIMESTAMPTZ DEFAULT NOW(),
+    last_seen_at TIMESTAMPTZ DEFAULT NOW(),
+    expires_at   TIMESTAMPTZ NOT NULL
+);
+CREATE INDEX IF NOT EXISTS user_sessions_user_idx ON user_sessions (user_id);
+
+-- Access levels: user < coach < admin. Disabled accounts can't sign in.
+ALTER TABLE users ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'user'
+    CHECK (role IN ('user', 'coach', 'admin'));
+ALTER TABLE users ADD COLUMN IF NOT EXISTS disabled_at TIMESTAMPTZ;
+
+-- Colour theme picked on the Profile page; 'system' follows the OS setting.
+ALTER TABLE users ADD COLUMN IF NOT EXISTS theme TEXT NOT NULL DEFAULT 'system'
+    CHECK (theme IN ('system', 'light', 'dark', 'high-contrast'));
+
+-- A thread forked from another by editing or regenerating a message; the
+-- original is kept unchanged.
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS branched_from_id INTEGER
+    REFERENCES conversations(conversation_id) ON DELETE SET NULL;
+
+-- Files attached to chat messages, uploaded through /api/upload. Branches
+-- share their original's uploads.
+CREATE TABLE IF NOT EXISTS message_attachments (
+    message_id INTEGER NOT NULL REFERENCES messages(message_id) ON DELETE CASCADE,
+    upload_id  TEXT NOT NULL REFERENCES uploads(upload_id) ON DELETE CASCADE,
+    position   INTEGER NOT NULL,
+    PRIMARY KEY (message_id, upload_id)
+);
+
+-- Bell-menu notifications (new direct messages, videos, contact requests).
+-- category: message | video | contact.
+CREATE TABLE IF NOT EXISTS notifications (
+    notification_id SERIAL PRIMARY KEY,
+    user_id         INTEGER NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+    category        TEXT NOT NULL,
+    title           TEXT NOT NULL,
+    body            TEXT,
+    link            TEXT,
+    read_at         TIMESTAMPTZ,
+    created_at      TIMESTAMPTZ DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS notifications_user_idx ON notifications (user_id, notification_id DESC);
+
+-- Which notifications pop up as toasts or browser notifications, per
+-- category, e.g. {"message": {"toast": true, "browser": false}}. Missing
+-- entries use the defaults in app.py.
+ALTER TABLE users ADD COLUMN IF NOT EXISTS notification_preferences JSONB NOT NULL DEFAULT '{}';
+
+-- Interface language picked on the Profile page; NULL until one is picked,
+-- meaning the browser's language.
+ALTER TABLE users ADD COLUMN IF NOT EXISTS locale TEXT
+    CHECK (locale IN ('en', 'es', 'ar', 'he'));
 """
 
 def main():
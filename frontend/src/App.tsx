@@ -1,39 +1,61 @@
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom'
 import { AuthProvider } from './contexts/AuthContext'
+import { RealtimeProvider } from './contexts/RealtimeContext'
 import { ProtectedRoute } from './components/ProtectedRoute'
 import Navbar from './components/Navbar'
+import SessionExpiryWarning from './components/SessionExpiryWarning'
+import Toaster from './components/Toaster'
+import { useI18n } from './hooks/useI18n'
 import Login from './pages/Login'
 import Register from './pages/Register'
 import Chat from './pages/Chat'
 import Profile from './pages/Profile'
 import AICoach from './pages/AICoach'
 import Contacts from './pages/Contacts'
+import Messages from './pages/Messages'
 import History from './pages/History'
 import Video from './pages/Video'
+import Admin from './pages/Admin'
+
+function SkipLink() {
+  const { t } = useI18n()
+  return <a href="#main" className="skip-link">{t('nav.skipToContent')}</a>
+}
 
 export default function App() {
   return (
     <AuthProvider>
-      <BrowserRouter>
-        <Navbar />
-        <Routes>
-          {/* Public routes */}
-          <Route path="/login" element={<Login />} />
-          <Route path="/register" element={<Register />} />
+      <RealtimeProvider>
+        <BrowserRouter>
+          <SkipLink />
+          <Navbar />
+          <SessionExpiryWarning />
+          <main id="main" tabIndex={-1}>
+            <Routes>
+              {/* Public routes */}
+              <Route path="/login" element={<Login />} />
+              <Route path="/register" element={<Register />} />
 
-          {/* Protected routes */}
-          <Route path="/chat" element={<ProtectedRoute><Chat /></ProtectedRoute>} />
-          <Route path="/profile" element={<ProtectedRoute><Profile /></ProtectedRoute>} />
-          <Route path="/ai-coach" element={<ProtectedRoute><AICoach /></ProtectedRoute>} />
-          <Route path="/contacts" element={<ProtectedRoute><Contacts /></ProtectedRoute>} />
-          <Route path="/history" element={<ProtectedRoute><History /></ProtectedRoute>} />
-          <Route path="/video" element={<ProtectedRoute><Video /></ProtectedRoute>} />
+              {/* Protected routes */}
+              <Route path="/chat" element={<ProtectedRoute><Chat /></ProtectedRoute>} />
+              <Route path="/chat/:conversationId" element={<ProtectedRoute><Chat /></ProtectedRoute>} />
+              <Route path="/profile" element={<ProtectedRoute><Profile /></ProtectedRoute>} />
+              <Route path="/ai-coach" element={<ProtectedRoute><AICoach /></ProtectedRoute>} />
+              <Route path="/ai-coach/:sessionId" element={<ProtectedRoute><AICoach /></ProtectedRoute>} />
+              <Route path="/contacts" element={<ProtectedRoute><Contacts /></ProtectedRoute>} />
+              <Route path="/messages/:conversationId" element={<ProtectedRoute><Messages /></ProtectedRoute>} />
+              <Route path="/history" element={<ProtectedRoute><History /></ProtectedRoute>} />
+              <Route path="/video" element={<ProtectedRoute><Video /></ProtectedRoute>} />
+              <Route path="/admin" element={<ProtectedRoute requiredRole="admin"><Admin /></ProtectedRoute>} />
 
-          {/* Default redirect */}
-          <Route path="/" element={<Navigate to="/chat" replace />} />
-          <Route path="*" element={<Navigate to="/chat" replace />} />
-        </Routes>
-      </BrowserRouter>
+              {/* Default redirect */}
+              <Route path="/" element={<Navigate to="/chat" replace />} />
+              <Route path="*" element={<Navigate to="/chat" replace />} />
+            </Routes>
+          </main>
+          <Toaster />
+        </BrowserRouter>
+      </RealtimeProvider>
     </AuthProvider>
   )
 }
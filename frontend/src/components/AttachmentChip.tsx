@@ -0,0 +1,84 @@
+import type { AttachmentDraft } from '../hooks/useAttachmentDrafts'
+import { useI18n } from '../hooks/useI18n'
+import { formatBytes } from '../lib/format'
+
+interface AttachmentChipProps {
+  draft: AttachmentDraft
+  onRetry: () => void
+  onRemove: () => void
+}
+
+const THUMBNAIL_SIZE = 36
+
+/** A file attached to the message being written: thumbnail, upload progress and a remove button. */
+export default function AttachmentChip({ draft, onRetry, onRemove }: AttachmentChipProps) {
+  const { t } = useI18n()
+  const percent = Math.round(draft.progress * 100)
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '0.5rem',
+        maxWidth: 240,
+        padding: '0.3rem 0.5rem',
+        borderRadius: 'var(--radius-md)',
+        border: `1px solid ${draft.status === 'failed' ? 'var(--color-error)' : 'var(--color-border)'}`,
+        backgroundColor: 'var(--color-surface)',
+        fontSize: '0.75rem',
+      }}
+    >
+      {draft.previewUrl ? (
+        <img
+          src={draft.previewUrl}
+          alt=""
+          style={{ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, objectFit: 'cover', borderRadius: 4, flexShrink: 0 }}
+        />
+      ) : (
+        <span aria-hidden="true" style={{ fontSize: '1.4rem', flexShrink: 0 }}>📄</span>
+      )}
+
+      <div style={{ flex: 1, minWidth: 0 }}>
+        <div title={draft.name} style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          {draft.name}
+        </div>
+        {draft.status === 'uploading' ? (
+          <div
+            role="progressbar"
+            aria-label={t('attachments.uploading', { name: draft.name })}
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={percent}
+            style={{ height: 4, marginTop: 4, borderRadius: 2, backgroundColor: 'var(--color-border)', overflow: 'hidden' }}
+          >
+            <div style={{ width: `${percent}%`, height: '100%', backgroundColor: 'var(--color-accent)', transition: 'width 0.2s' }} />
+          </div>
+        ) : draft.status === 'failed' ? (
+          <div className="form-error" style={{ fontSize: '0.7rem' }}>
+            {draft.error}{' '}
+            <button
+              type="button"
+              onClick={onRetry}
+              style={{ padding: 0, background: 'none', color: 'inherit', textDecoration: 'underline' }}
+            >
+              {t('common.retry')}
+            </button>
+          </div>
+        ) : (
+          <div style={{ color: 'var(--color-text-muted)' }}>{formatBytes(draft.size)}</div>
+        )}
+      </div>
+
+      <button
+        type="button"
+        onClick={onRemove}
+        aria-label={t('attachments.remove', { name: draft.name })}
+        title={t('common.remove')}
+        style={{ padding: '0 0.2rem', background: 'none', color: 'var(--color-text-muted)', flexShrink: 0 }}
+      >
+        <span aria-hidden="true">✕</span>
+      </button>
+    </div>
+  )
+}
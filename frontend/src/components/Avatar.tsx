@@ -0,0 +1,31 @@
+interface AvatarProps {
+  user: { username: string; display_name?: string | null; avatar_url?: string | null }
+  size?: number
+}
+
+/** The user's avatar image, or the first letter of their name in a circle. */
+export default function Avatar({ user, size = 32 }: AvatarProps) {
+  const name = user.display_name || user.username
+  const style = { width: size, height: size, borderRadius: '50%', flexShrink: 0 }
+
+  if (user.avatar_url) {
+    return <img src={user.avatar_url} alt="" style={{ ...style, objectFit: 'cover' }} />
+  }
+  return (
+    <span
+      aria-hidden="true"
+      style={{
+        ...style,
+        display: 'inline-flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: 'var(--color-accent-dark)',
+        color: 'var(--color-on-accent)',
+        fontSize: size * 0.45,
+        fontWeight: 600,
+      }}
+    >
+      {name.charAt(0).toUpperCase()}
+    </span>
+  )
+}
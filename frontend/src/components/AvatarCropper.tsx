@@ -0,0 +1,156 @@
+import { useEffect, useRef, useState } from 'react'
+import type { PointerEvent } from 'react'
+import { useI18n } from '../hooks/useI18n'
+
+interface AvatarCropperProps {
+  file: File
+  onCrop: (image: Blob) => void
+  onCancel: () => void
+}
+
+const VIEW_SIZE = 240     // on-screen crop area, px
+const OUTPUT_SIZE = 256   // uploaded image, px
+const MAX_ZOOM = 3
+
+interface Offset {
+  x: number
+  y: number
+}
+
+/** Scale that makes the image cover the crop square at zoom 1. */
+function coverScale(img: HTMLImageElement, size: number): number {
+  return Math.max(size / img.naturalWidth, size / img.naturalHeight)
+}
+
+/** Keep the image covering the whole square: it can't be dragged past an edge. */
+function clampOffset(img: HTMLImageElement, zoom: number, { x, y }: Offset): Offset {
+  const scale = coverScale(img, VIEW_SIZE) * zoom
+  const maxX = (img.naturalWidth * scale - VIEW_SIZE) / 2
+  const maxY = (img.naturalHeight * scale - VIEW_SIZE) / 2
+  return { x: Math.max(-maxX, Math.min(maxX, x)), y: Math.max(-maxY, Math.min(maxY, y)) }
+}
+
+/** Draw the cropped square onto a `size`×`size` canvas. Offsets are in view pixels. */
+function draw(canvas: HTMLCanvasElement, img: HTMLImageElement, zoom: number, offset: Offset, size: number) {
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return
+  const ratio = size / VIEW_SIZE
+  const scale = coverScale(img, size) * zoom
+  const width = img.naturalWidth * scale
+  const height = img.naturalHeight * scale
+  ctx.clearRect(0, 0, size, size)
+  ctx.drawImage(img, (size - width) / 2 + offset.x * ratio, (size - height) / 2 + offset.y * ratio, width, height)
+}
+
+/** Pick the square part of an image to use as an avatar: drag to move, slider to zoom. */
+export default function AvatarCropper({ file, onCrop, onCancel }: AvatarCropperProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [image, setImage] = useState<HTMLImageElement | null>(null)
+  const [error, setError] = useState('')
+  const { t } = useI18n()
+  const [zoom, setZoom] = useState(1)
+  const [offset, setOffset] = useState<Offset>({ x: 0, y: 0 })
+  const dragRef = useRef<{ pointerX: number; pointerY: number; start: Offset } | null>(null)
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file)
+    const img = new Image()
+    img.onload = () => {
+      setImage(img)
+      setZoom(1)
+      setOffset({ x: 0, y: 0 })
+    }
+    img.onerror = () => setError(t('avatar.unreadable'))
+    img.src = url
+    return () => URL.revokeObjectURL(url)
+  }, [file, t])
+
+  useEffect(() => {
+    if (image && canvasRef.current) draw(canvasRef.current, image, zoom, offset, VIEW_SIZE)
+  }, [image, zoom, offset])
+
+  function changeZoom(value: number) {
+    if (!image) return
+    setZoom(value)
+    setOffset((prev) => clampOffset(image, value, prev))
+  }
+
+  function handlePointerDown(e: PointerEvent<HTMLCanvasElement>) {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, start: offset }
+  }
+
+  function handlePointerMove(e: PointerEvent<HTMLCanvasElement>) {
+    const drag = dragRef.current
+    if (!drag || !image) return
+    setOffset(clampOffset(image, zoom, {
+      x: drag.start.x + e.clientX - drag.pointerX,
+      y: drag.start.y + e.clientY - drag.pointerY,
+    }))
+  }
+
+  function save() {
+    if (!image) return
+    const canvas = document.createElement('canvas')
+    canvas.width = OUTPUT_SIZE
+    canvas.height = OUTPUT_SIZE
+    draw(canvas, image, zoom, offset, OUTPUT_SIZE)
+    canvas.toBlob((blob) => {
+      if (blob) onCrop(blob)
+      else setError(t('avatar.cropFailed'))
+    }, 'image/png')
+  }
+
+  if (error) {
+    return (
+      <div>
+        <p className="form-error">{error}</p>
+        <button type="button" className="btn btn-ghost" onClick={onCancel} style={{ marginTop: '0.5rem' }}>
+          {t('common.cancel')}
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-start', gap: '0.75rem' }}>
+      <canvas
+        ref={canvasRef}
+        width={VIEW_SIZE}
+        height={VIEW_SIZE}
+        aria-label={t('avatar.drag')}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => { dragRef.current = null }}
+        style={{
+          borderRadius: '50%',
+          border: '1px solid var(--color-border)',
+          cursor: 'grab',
+          touchAction: 'none',
+          backgroundColor: 'var(--color-bg)',
+        }}
+      />
+      <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', margin: 0 }}>
+        {t('avatar.zoom')}
+        <input
+          type="range"
+          min={1}
+          max={MAX_ZOOM}
+          step={0.05}
+          value={zoom}
+          onChange={(e) => changeZoom(Number(e.target.value))}
+          disabled={!image}
+          style={{ width: 160 }}
+        />
+      </label>
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        <button type="button" className="btn btn-primary" onClick={save} disabled={!image}>
+          {t('avatar.use')}
+        </button>
+        <button type="button" className="btn btn-ghost" onClick={onCancel}>
+          {t('common.cancel')}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,134 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import { Link } from 'react-router-dom'
+import { useI18n } from '../hooks/useI18n'
+import type { Conversation } from '../lib/api'
+
+interface Props {
+  conversations: Conversation[]
+  activeId: number | null
+  onRename: (id: number, title: string) => void
+  onDelete: (id: number) => void
+}
+
+/**
+ * Thread list shown beside the chat. Purely presentational — the Chat page
+ * owns the conversation list and performs the API calls.
+ */
+export default function ConversationSidebar({ conversations, activeId, onRename, onDelete }: Props) {
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [draft, setDraft] = useState('')
+  const { t } = useI18n()
+
+  function startEditing(conv: Conversation) {
+    setEditingId(conv.conversation_id)
+    setDraft(conv.title ?? '')
+  }
+
+  function submitRename(e: FormEvent) {
+    e.preventDefault()
+    if (editingId !== null && draft.trim()) onRename(editingId, draft.trim())
+    setEditingId(null)
+  }
+
+  function confirmDelete(conv: Conversation) {
+    if (window.confirm(t('chat.sidebar.confirmDelete', { title: conv.title ?? t('chat.newConversation') }))) {
+      onDelete(conv.conversation_id)
+    }
+  }
+
+  return (
+    <aside
+      style={{
+        width: 240,
+        flexShrink: 0,
+        borderInlineEnd: '1px solid var(--color-border)',
+        backgroundColor: 'var(--color-surface)',
+        display: 'flex',
+        flexDirection: 'column',
+        overflowY: 'auto',
+      }}
+    >
+      <div style={{ padding: '0.75rem' }}>
+        <Link to="/chat" className="btn btn-primary" style={{ width: '100%', textDecoration: 'none' }}>
+          {t('chat.sidebar.newChat')}
+        </Link>
+      </div>
+
+      {conversations.length === 0 && (
+        <p style={{ color: 'var(--color-text-muted)', fontSize: '0.85rem', padding: '0 1rem' }}>
+          {t('chat.sidebar.empty')}
+        </p>
+      )}
+
+      {conversations.map((conv) => {
+        const isActive = conv.conversation_id === activeId
+
+        if (editingId === conv.conversation_id) {
+          return (
+            <form key={conv.conversation_id} onSubmit={submitRename} style={{ padding: '0.25rem 0.75rem' }}>
+              <input
+                autoFocus
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={submitRename}
+                onKeyDown={(e) => e.key === 'Escape' && setEditingId(null)}
+                style={{ fontSize: '0.85rem', padding: '0.3rem 0.5rem' }}
+              />
+            </form>
+          )
+        }
+
+        return (
+          <div
+            key={conv.conversation_id}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '0.25rem',
+              paddingBlock: '0.25rem',
+              paddingInline: '1rem 0.5rem',
+              backgroundColor: isActive ? 'var(--color-bg)' : undefined,
+            }}
+          >
+            <Link
+              to={`/chat/${conv.conversation_id}`}
+              style={{
+                flex: 1,
+                fontSize: '0.875rem',
+                color: isActive ? 'var(--color-accent)' : 'var(--color-text)',
+                textDecoration: 'none',
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                whiteSpace: 'nowrap',
+              }}
+            >
+              {conv.branched_from_id !== null && (
+                <span title={t('chat.sidebar.branched')} style={{ marginInlineEnd: '0.3rem' }}>↳</span>
+              )}
+              {conv.title ?? t('chat.newConversation')}
+            </Link>
+            <button
+              type="button"
+              className="btn btn-ghost"
+              title={t('common.rename')}
+              onClick={() => startEditing(conv)}
+              style={{ padding: '0.1rem 0.4rem', fontSize: '0.75rem', border: 'none' }}
+            >
+              ✎
+            </button>
+            <button
+              type="button"
+              className="btn btn-ghost"
+              title={t('common.delete')}
+              onClick={() => confirmDelete(conv)}
+              style={{ padding: '0.1rem 0.4rem', fontSize: '0.75rem', border: 'none' }}
+            >
+              ✕
+            </button>
+          </div>
+        )
+      })}
+    </aside>
+  )
+}
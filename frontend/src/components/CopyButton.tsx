@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react'
+import type { CSSProperties } from 'react'
+import { useI18n } from '../hooks/useI18n'
+
+interface CopyButtonProps {
+  text: string
+  /** What is being copied, for screen readers, e.g. "code". */
+  label?: string
+  className?: string
+  style?: CSSProperties
+}
+
+const COPIED_MS = 2000
+
+/** Copies `text` to the clipboard and says so for a moment. */
+export default function CopyButton({ text, label, className, style }: CopyButtonProps) {
+  const [status, setStatus] = useState<'idle' | 'copied' | 'failed'>('idle')
+  const { t } = useI18n()
+
+  useEffect(() => {
+    if (status === 'idle') return
+    const timer = setTimeout(() => setStatus('idle'), COPIED_MS)
+    return () => clearTimeout(timer)
+  }, [status])
+
+  function copy() {
+    navigator.clipboard.writeText(text)
+      .then(() => setStatus('copied'))
+      .catch(() => setStatus('failed'))
+  }
+
+  return (
+    <button
+      type="button"
+      className={className}
+      onClick={copy}
+      aria-label={label ? t('common.copyLabel', { label }) : undefined}
+      style={style}
+    >
+      <span aria-live="polite">
+        {status === 'copied' ? t('common.copied') : status === 'failed' ? t('common.copyFailed') : t('common.copy')}
+      </span>
+    </button>
+  )
+}
@@ -0,0 +1,88 @@
+import type { ReactNode } from 'react'
+import { useI18n } from '../hooks/useI18n'
+import { parseMarkdown } from '../lib/markdown'
+import type { Block, Inline } from '../lib/markdown'
+import { highlight } from '../lib/highlight'
+import CopyButton from './CopyButton'
+
+const HEADING_SIZES = ['1.25rem', '1.15rem', '1.05rem', '1rem', '0.95rem', '0.9rem']
+
+// Code reads left to right even on a right-to-left page.
+function CodeBlock({ code, language }: { code: string; language: string | null }) {
+  const { t } = useI18n()
+  return (
+    <div className="code-block" dir="ltr">
+      <div className="code-block-header">
+        <span>{language ?? t('markdown.code')}</span>
+        <CopyButton text={code} label={t('markdown.code')} className="code-block-copy" />
+      </div>
+      <pre>
+        <code>
+          {highlight(code, language).map((token, i) => (
+            token.kind === 'plain' ? token.text : <span key={i} className={`tok-${token.kind}`}>{token.text}</span>
+          ))}
+        </code>
+      </pre>
+    </div>
+  )
+}
+
+function renderInline(nodes: Inline[]): ReactNode[] {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return node.text
+      case 'code':
+        return <code key={i} className="inline-code">{node.text}</code>
+      case 'strong':
+        return <strong key={i}>{renderInline(node.children)}</strong>
+      case 'em':
+        return <em key={i}>{renderInline(node.children)}</em>
+      case 'del':
+        return <del key={i}>{renderInline(node.children)}</del>
+      case 'link':
+        return (
+          <a key={i} href={node.href} target="_blank" rel="noopener noreferrer nofollow">
+            {renderInline(node.children)}
+          </a>
+        )
+      case 'break':
+        return <br key={i} />
+    }
+  })
+}
+
+function renderBlock(block: Block, key: number): ReactNode {
+  switch (block.type) {
+    case 'paragraph':
+      return <p key={key}>{renderInline(block.children)}</p>
+    case 'heading': {
+      const Tag = `h${block.level}` as 'h1'
+      return (
+        <Tag key={key} style={{ fontSize: HEADING_SIZES[block.level - 1] }}>
+          {renderInline(block.children)}
+        </Tag>
+      )
+    }
+    case 'code':
+      return <CodeBlock key={key} code={block.code} language={block.language} />
+    case 'list': {
+      const items = block.items.map((item, i) => <li key={i}>{item.map(renderBlock)}</li>)
+      return block.ordered
+        ? <ol key={key} start={block.start === 1 ? undefined : block.start}>{items}</ol>
+        : <ul key={key}>{items}</ul>
+    }
+    case 'blockquote':
+      return <blockquote key={key}>{block.children.map(renderBlock)}</blockquote>
+    case 'rule':
+      return <hr key={key} />
+  }
+}
+
+/**
+ * Renders Markdown as React elements — see lib/markdown.ts for what is
+ * supported and why raw HTML in the source is always shown as text.
+ */
+export default function Markdown({ source }: { source: string }) {
+  return <div className="markdown">{parseMarkdown(source).map(renderBlock)}</div>
+}
@@ -0,0 +1,52 @@
+import type { Attachment } from '../lib/api'
+import { isImageType } from '../lib/attachments'
+import { formatBytes } from '../lib/format'
+
+const THUMBNAIL_SIZE = 120
+
+/** The files sent with a chat message: image thumbnails and links to everything else. */
+export default function MessageAttachments({ attachments }: { attachments: Attachment[] }) {
+  return (
+    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', marginBottom: '0.4rem' }}>
+      {attachments.map((attachment) => (
+        isImageType(attachment.mime_type) ? (
+          <a key={attachment.upload_id} href={attachment.url} target="_blank" rel="noreferrer" title={attachment.name}>
+            <img
+              src={attachment.url}
+              alt={attachment.name}
+              loading="lazy"
+              style={{
+                width: THUMBNAIL_SIZE,
+                height: THUMBNAIL_SIZE,
+                objectFit: 'cover',
+                borderRadius: 'var(--radius-md)',
+                display: 'block',
+              }}
+            />
+          </a>
+        ) : (
+          <a
+            key={attachment.upload_id}
+            href={attachment.url}
+            download={attachment.name}
+            style={{
+              display: 'inline-flex',
+              alignItems: 'center',
+              gap: '0.4rem',
+              padding: '0.3rem 0.6rem',
+              borderRadius: 'var(--radius-md)',
+              border: '1px solid currentColor',
+              color: 'inherit',
+              fontSize: '0.8rem',
+              textDecoration: 'none',
+            }}
+          >
+            <span aria-hidden="true">📄</span>
+            {attachment.name}
+            <span style={{ opacity: 0.75 }}>{formatBytes(attachment.size)}</span>
+          </a>
+        )
+      ))}
+    </div>
+  )
+}
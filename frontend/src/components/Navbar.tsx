@@ -1,23 +1,62 @@
 import { Link, useLocation } from 'react-router-dom'
+import type { KeyboardEvent } from 'react'
 import { useAuth } from '../contexts/AuthContext'
+import { useRealtime } from '../hooks/useRealtime'
+import { useI18n } from '../hooks/useI18n'
+import type { MessageKey } from '../lib/i18n'
+import { hasRole } from '../lib/roles'
+import Avatar from './Avatar'
+import NotificationBell from './NotificationBell'
 
-const NAV_LINKS = [
-  { to: '/chat', label: 'Chat' },
-  { to: '/ai-coach', label: 'AI Coach' },
-  { to: '/contacts', label: 'Contacts' },
-  { to: '/history', label: 'History' },
-  { to: '/video', label: 'Video' },
+const NAV_LINKS: { to: string; label: MessageKey }[] = [
+  { to: '/chat', label: 'nav.chat' },
+  { to: '/ai-coach', label: 'nav.aiCoach' },
+  { to: '/contacts', label: 'nav.contacts' },
+  { to: '/history', label: 'nav.history' },
+  { to: '/video', label: 'nav.video' },
 ]
 
+// Shown only to admins; the routes themselves are guarded too.
+const ADMIN_LINKS: { to: string; label: MessageKey }[] = [
+  { to: '/admin', label: 'nav.admin' },
+]
+
+/**
+ * Arrow keys, Home and End move between the nav links (Tab still works as
+ * usual). The arrows follow the reading direction, so they swap in RTL.
+ */
+function handleLinksKeyDown(e: KeyboardEvent<HTMLDivElement>) {
+  const links = Array.from(e.currentTarget.querySelectorAll('a'))
+  const index = links.indexOf(document.activeElement as HTMLAnchorElement)
+  if (index === -1) return
+  const isRtl = getComputedStyle(e.currentTarget).direction === 'rtl'
+  const forward = isRtl ? 'ArrowLeft' : 'ArrowRight'
+  const back = isRtl ? 'ArrowRight' : 'ArrowLeft'
+  const next =
+    e.key === forward ? links[(index + 1) % links.length]
+      : e.key === back ? links[(index - 1 + links.length) % links.length]
+        : e.key === 'Home' ? links[0]
+          : e.key === 'End' ? links[links.length - 1]
+            : null
+  if (!next) return
+  e.preventDefault()
+  next.focus()
+}
+
 export default function Navbar() {
   const { user, logout } = useAuth()
+  const { unread } = useRealtime()
+  const { t } = useI18n()
   const location = useLocation()
 
   // Don't render the navbar on auth pages
   if (!user) return null
 
+  const links = hasRole(user, 'admin') ? [...NAV_LINKS, ...ADMIN_LINKS] : NAV_LINKS
+
   return (
     <nav
+      aria-label={t('nav.main')}
       style={{
         height: 60,
         display: 'flex',
@@ -36,40 +75,72 @@ export default function Navbar() {
           fontSize: '1.1rem',
           color: 'var(--color-accent)',
           textDecoration: 'none',
-          marginRight: '0.5rem',
+          marginInlineEnd: '0.5rem',
         }}
       >
         Unify
       </Link>
 
       {/* Nav links */}
-      <div style={{ display: 'flex', gap: '1rem', flex: 1 }}>
-        {NAV_LINKS.map(({ to, label }) => (
-          <Link
-            key={to}
-            to={to}
-            style={{
-              fontSize: '0.9rem',
-              color: location.pathname === to ? 'var(--color-accent)' : 'var(--color-text-muted)',
-              textDecoration: 'none',
-              fontWeight: location.pathname === to ? 600 : 400,
-            }}
-          >
-            {label}
-          </Link>
-        ))}
+      <div style={{ display: 'flex', gap: '1rem', flex: 1 }} onKeyDown={handleLinksKeyDown}>
+        {links.map(({ to, label }) => {
+          // Nested routes (e.g. /chat/42) keep their parent link highlighted.
+          const isActive = location.pathname === to || location.pathname.startsWith(`${to}/`)
+          return (
+            <Link
+              key={to}
+              to={to}
+              aria-current={isActive ? 'page' : undefined}
+              style={{
+                fontSize: '0.9rem',
+                color: isActive ? 'var(--color-accent)' : 'var(--color-text-muted)',
+                textDecoration: 'none',
+                fontWeight: isActive ? 600 : 400,
+              }}
+            >
+              {t(label)}
+              {/* Unread 1:1 messages are reached through Contacts. */}
+              {to === '/contacts' && unread.total > 0 && (
+                <span
+                  aria-label={t('nav.unreadMessages', { count: unread.total })}
+                  style={{
+                    marginInlineStart: '0.35rem',
+                    padding: '0 0.4rem',
+                    borderRadius: 999,
+                    backgroundColor: 'var(--color-accent-dark)',
+                    color: 'var(--color-on-accent)',
+                    fontSize: '0.7rem',
+                    fontWeight: 600,
+                  }}
+                >
+                  {unread.total > 99 ? '99+' : unread.total}
+                </span>
+              )}
+            </Link>
+          )
+        })}
       </div>
 
-      {/* User + logout */}
+      {/* Notifications, user + logout */}
       <div style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
+        <NotificationBell />
         <Link
           to="/profile"
-          style={{ fontSize: '0.875rem', color: 'var(--color-text-muted)', textDecoration: 'none' }}
+          aria-current={location.pathname === '/profile' ? 'page' : undefined}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '0.5rem',
+            fontSize: '0.875rem',
+            color: 'var(--color-text-muted)',
+            textDecoration: 'none',
+          }}
         >
-          {user.username}
+          <Avatar user={user} size={28} />
+          {user.display_name || user.username}
         </Link>
         <button className="btn btn-ghost" style={{ fontSize: '0.85rem', padding: '0.3rem 0.9rem' }} onClick={logout}>
-          Sign out
+          {t('common.signOut')}
         </button>
       </div>
     </nav>
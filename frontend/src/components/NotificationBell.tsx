@@ -0,0 +1,234 @@
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react'
+import { Link, useLocation, useNavigate } from 'react-router-dom'
+import { useAuth } from '../contexts/AuthContext'
+import { useRealtime } from '../hooks/useRealtime'
+import { useI18n } from '../hooks/useI18n'
+import type { AppNotification } from '../lib/api'
+import { notificationStore, presentNotification, realtimeNotificationSource } from '../lib/notifications'
+import type { NotificationSource } from '../lib/notifications'
+
+interface NotificationBellProps {
+  /** Where new notifications come from; the realtime socket by default. */
+  source?: NotificationSource
+}
+
+/**
+ * The bell in the navbar and its menu of recent notifications. While
+ * mounted (i.e. while signed in) it also receives new notifications and
+ * pops them up according to the user's preferences.
+ */
+export default function NotificationBell({ source }: NotificationBellProps) {
+  const { user } = useAuth()
+  const { client, status } = useRealtime()
+  const { t, formatDate } = useI18n()
+  const navigate = useNavigate()
+  const location = useLocation()
+  const { notifications, unread, isLoaded } = useSyncExternalStore(
+    notificationStore.subscribe,
+    notificationStore.getSnapshot,
+  )
+  const [isOpen, setIsOpen] = useState(false)
+  const [error, setError] = useState('')
+  const rootRef = useRef<HTMLDivElement>(null)
+  const buttonRef = useRef<HTMLButtonElement>(null)
+
+  const activeSource = useMemo(
+    () => source ?? (client ? realtimeNotificationSource(client) : null),
+    [source, client],
+  )
+
+  const load = useCallback(() => {
+    notificationStore.load()
+      .then(() => setError(''))
+      .catch(() => setError(t('notifications.loadFailed')))
+  }, [t])
+
+  // Load on sign-in, and again whenever the socket (re)opens: anything
+  // pushed while it was down was missed.
+  useEffect(() => {
+    load()
+    return () => notificationStore.reset()
+  }, [load])
+
+  useEffect(() => {
+    if (status === 'open') load()
+  }, [status, load])
+
+  // The subscription outlives renders; it reads the latest preferences and location through a ref.
+  const receiveRef = useRef<(notification: AppNotification) => void>(() => {})
+  useEffect(() => {
+    receiveRef.current = (notification) => {
+      notificationStore.receive(notification)
+      if (!user) return
+      presentNotification(notification, user.notification_preferences[notification.category], {
+        currentPath: location.pathname,
+        open: navigate,
+      })
+    }
+  })
+
+  useEffect(() => {
+    if (!activeSource) return
+    return activeSource.subscribe((notification) => receiveRef.current(notification))
+  }, [activeSource])
+
+  // Close on Escape or a click outside the menu.
+  useEffect(() => {
+    if (!isOpen) return
+    function handlePointerDown(e: PointerEvent) {
+      if (!rootRef.current?.contains(e.target as Node)) setIsOpen(false)
+    }
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.key !== 'Escape') return
+      setIsOpen(false)
+      buttonRef.current?.focus()
+    }
+    document.addEventListener('pointerdown', handlePointerDown)
+    document.addEventListener('keydown', handleKeyDown)
+    return () => {
+      document.removeEventListener('pointerdown', handlePointerDown)
+      document.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [isOpen])
+
+  function openNotification(notification: AppNotification) {
+    setIsOpen(false)
+    if (!notification.read) {
+      notificationStore.markRead(notification.notification_id)
+        .catch((err) => console.error('Failed to mark notification read:', err))
+    }
+    if (notification.link) navigate(notification.link)
+  }
+
+  function markAllRead() {
+    notificationStore.markAllRead()
+      .catch(() => setError(t('notifications.markFailed')))
+  }
+
+  return (
+    <div ref={rootRef} style={{ position: 'relative' }}>
+      <button
+        ref={buttonRef}
+        type="button"
+        className="btn btn-ghost"
+        onClick={() => setIsOpen((v) => !v)}
+        aria-expanded={isOpen}
+        aria-controls="notification-menu"
+        aria-label={unread > 0 ? t('notifications.unreadLabel', { count: unread }) : t('notifications.title')}
+        title={t('notifications.title')}
+        style={{ position: 'relative', padding: '0.3rem 0.6rem', border: 'none' }}
+      >
+        <span aria-hidden="true">🔔</span>
+        {unread > 0 && (
+          <span
+            aria-hidden="true"
+            style={{
+              position: 'absolute',
+              top: -2,
+              insetInlineEnd: -4,
+              minWidth: 18,
+              padding: '0 0.3rem',
+              borderRadius: 999,
+              backgroundColor: 'var(--color-accent-dark)',
+              color: 'var(--color-on-accent)',
+              fontSize: '0.65rem',
+              fontWeight: 600,
+              lineHeight: '18px',
+            }}
+          >
+            {unread > 99 ? '99+' : unread}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div
+          id="notification-menu"
+          role="dialog"
+          aria-label={t('notifications.title')}
+          className="card"
+          style={{
+            position: 'absolute',
+            insetInlineEnd: 0,
+            top: 'calc(100% + 0.5rem)',
+            zIndex: 50,
+            width: 'min(340px, calc(100vw - 2rem))',
+            maxHeight: 420,
+            overflowY: 'auto',
+            padding: '0.75rem',
+          }}
+        >
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '0.5rem' }}>
+            <h2 style={{ fontSize: '0.95rem' }}>{t('notifications.title')}</h2>
+            <button
+              type="button"
+              onClick={markAllRead}
+              disabled={unread === 0}
+              style={{ padding: 0, background: 'none', color: 'var(--color-accent)', fontSize: '0.8rem' }}
+            >
+              {t('notifications.markAllRead')}
+            </button>
+          </div>
+
+          {error && <p className="form-error">{error}</p>}
+
+          {!isLoaded ? (
+            !error && <p style={{ color: 'var(--color-text-muted)', fontSize: '0.85rem' }}>{t('common.loading')}</p>
+          ) : notifications.length === 0 ? (
+            <p style={{ color: 'var(--color-text-muted)', fontSize: '0.85rem' }}>{t('notifications.empty')}</p>
+          ) : (
+            <ul style={{ listStyle: 'none', display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+              {notifications.map((n) => (
+                <li key={n.notification_id}>
+                  <button
+                    type="button"
+                    onClick={() => openNotification(n)}
+                    style={{
+                      display: 'block',
+                      width: '100%',
+                      padding: '0.5rem',
+                      borderRadius: 'var(--radius-md)',
+                      background: n.read ? 'none' : 'var(--color-bg)',
+                      color: 'var(--color-text)',
+                      textAlign: 'start',
+                      fontSize: '0.85rem',
+                    }}
+                  >
+                    <span style={{ display: 'block', fontWeight: n.read ? 400 : 600 }}>
+                      {!n.read && <span className="sr-only">{t('notifications.unread')}</span>}
+                      {n.title}
+                    </span>
+                    {n.body && (
+                      <span
+                        style={{
+                          display: 'block',
+                          color: 'var(--color-text-muted)',
+                          overflow: 'hidden',
+                          textOverflow: 'ellipsis',
+                          whiteSpace: 'nowrap',
+                        }}
+                      >
+                        {n.body}
+                      </span>
+                    )}
+                    <span style={{ display: 'block', color: 'var(--color-text-muted)', fontSize: '0.7rem' }}>
+                      {formatDate(n.created_at)}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <Link
+            to="/profile#notifications"
+            onClick={() => setIsOpen(false)}
+            style={{ display: 'block', marginTop: '0.5rem', fontSize: '0.8rem' }}
+          >
+            {t('notifications.settings')}
+          </Link>
+        </div>
+      )}
+    </div>
+  )
+}
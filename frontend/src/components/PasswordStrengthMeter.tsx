@@ -0,0 +1,61 @@
+import { useI18n } from '../hooks/useI18n'
+import { PASSWORD_RULES, passwordStrength, STRENGTH_LABELS } from '../lib/password'
+
+interface PasswordStrengthMeterProps {
+  password: string
+  /** Passwords containing the username are rejected. */
+  username?: string
+  id?: string
+}
+
+const STRENGTH_COLORS = [
+  'var(--color-error)', 'var(--color-error)', 'var(--color-warning)', 'var(--color-success)', 'var(--color-success)',
+]
+
+/** Strength bar plus a checklist of the rules the server enforces. */
+export default function PasswordStrengthMeter({ password, username = '', id }: PasswordStrengthMeterProps) {
+  const { t } = useI18n()
+  const strength = passwordStrength(password, username)
+
+  return (
+    <div id={id} style={{ marginTop: '0.35rem' }}>
+      <div
+        role="meter"
+        aria-label={t('password.strength')}
+        aria-valuemin={0}
+        aria-valuemax={4}
+        aria-valuenow={strength}
+        aria-valuetext={t(STRENGTH_LABELS[strength])}
+        style={{ display: 'flex', gap: 4 }}
+      >
+        {[1, 2, 3, 4].map((level) => (
+          <span
+            key={level}
+            style={{
+              flex: 1,
+              height: 4,
+              borderRadius: 2,
+              backgroundColor: password && strength >= level ? STRENGTH_COLORS[strength] : 'var(--color-border)',
+            }}
+          />
+        ))}
+      </div>
+      {password && (
+        <p style={{ fontSize: '0.75rem', color: 'var(--color-text-muted)', marginTop: '0.25rem' }}>
+          {t(STRENGTH_LABELS[strength])}
+        </p>
+      )}
+      <ul style={{ listStyle: 'none', fontSize: '0.75rem', marginTop: '0.25rem' }}>
+        {PASSWORD_RULES.map((rule) => {
+          const ok = rule.test(password, username)
+          return (
+            <li key={rule.label} style={{ color: ok ? 'var(--color-text)' : 'var(--color-text-muted)' }}>
+              <span aria-hidden="true">{ok ? '✓' : '○'}</span> {t(rule.label, rule.params)}
+              <span className="sr-only">{ok ? t('password.rule.met') : t('password.rule.notMet')}</span>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
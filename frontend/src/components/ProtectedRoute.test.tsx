@@ -0,0 +1,84 @@
+import { screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { Route } from 'react-router-dom'
+import { beforeEach, describe, expect, it } from 'vitest'
+import { ProtectedRoute } from './ProtectedRoute'
+import Login from '../pages/Login'
+import { apiError, installMockApi } from '../test/mockApi'
+import type { MockApi } from '../test/mockApi'
+import { renderRoutes } from '../test/render'
+
+let server: MockApi
+
+beforeEach(() => {
+  server = installMockApi()
+  server.addUser({ username: 'ada', password: 'correct horse' })
+  server.addUser({ username: 'root', password: 'hunter2', role: 'admin' })
+})
+
+function renderApp(url: string) {
+  return renderRoutes(
+    <>
+      <Route path="/login" element={<Login />} />
+      <Route path="/chat" element={<ProtectedRoute><h1>Chat page</h1></ProtectedRoute>} />
+      <Route path="/history" element={<ProtectedRoute><h1>History page</h1></ProtectedRoute>} />
+      <Route path="/admin" element={<ProtectedRoute requiredRole="admin"><h1>Admin page</h1></ProtectedRoute>} />
+    </>,
+    url,
+  )
+}
+
+function currentLocation() {
+  return screen.getByLabelText('Current location').textContent
+}
+
+describe('ProtectedRoute', () => {
+  it('renders nothing until the session check is done', async () => {
+    let answer: (response: Response) => void = () => {}
+    server.on('GET', '/api/me', () => new Promise((resolve) => { answer = resolve }))
+    renderApp('/history')
+
+    expect(screen.queryByRole('heading')).not.toBeInTheDocument()
+    expect(currentLocation()).toBe('/history')
+
+    answer(apiError(401, 'Unauthorized'))
+    expect(await screen.findByRole('heading', { name: 'Sign in to Unify' })).toBeInTheDocument()
+  })
+
+  it('shows the page to a signed-in user', async () => {
+    server.signIn('ada')
+    renderApp('/history')
+
+    expect(await screen.findByRole('heading', { name: 'History page' })).toBeInTheDocument()
+  })
+
+  it('sends a signed-out user to /login, and back after signing in', async () => {
+    const user = userEvent.setup()
+    renderApp('/history?q=standup')
+
+    await screen.findByRole('heading', { name: 'Sign in to Unify' })
+    expect(currentLocation()).toBe('/login')
+
+    await user.type(screen.getByLabelText('Username'), 'ada')
+    await user.type(screen.getByLabelText('Password'), 'correct horse')
+    await user.click(screen.getByRole('button', { name: 'Sign in' }))
+
+    expect(await screen.findByRole('heading', { name: 'History page' })).toBeInTheDocument()
+    expect(currentLocation()).toBe('/history?q=standup')
+  })
+
+  it('sends a user without the required role to /chat', async () => {
+    server.signIn('ada')
+    renderApp('/admin')
+
+    expect(await screen.findByRole('heading', { name: 'Chat page' })).toBeInTheDocument()
+    expect(currentLocation()).toBe('/chat')
+  })
+
+  it('lets a user with the required role in', async () => {
+    server.signIn('root')
+    renderApp('/admin')
+
+    expect(await screen.findByRole('heading', { name: 'Admin page' })).toBeInTheDocument()
+  })
+})
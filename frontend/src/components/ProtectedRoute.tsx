@@ -1,18 +1,24 @@
-import { Navigate } from 'react-router-dom'
+import { Navigate, useLocation } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
+import { hasRole } from '../lib/roles'
+import type { Role } from '../lib/api'
 import type { ReactNode } from 'react'
 
 interface Props {
   children: ReactNode
+  /** Also require at least this role; others are sent to /chat. */
+  requiredRole?: Role
 }
 
 /**
  * Wraps a route so only authenticated users can access it.
  * While the session is being restored (isLoading), renders nothing.
- * Once resolved, redirects unauthenticated users to /login.
+ * Once resolved, redirects unauthenticated users to /login, remembering
+ * where they were so Login can send them back.
  */
-export function ProtectedRoute({ children }: Props) {
+export function ProtectedRoute({ children, requiredRole }: Props) {
   const { user, isLoading } = useAuth()
+  const location = useLocation()
 
   if (isLoading) {
     // Avoid a flash-redirect while we check the session cookie.
@@ -20,7 +26,11 @@ export function ProtectedRoute({ children }: Props) {
   }
 
   if (!user) {
-    return <Navigate to="/login" replace />
+    return <Navigate to="/login" replace state={{ from: location.pathname + location.search }} />
+  }
+
+  if (requiredRole && !hasRole(user, requiredRole)) {
+    return <Navigate to="/chat" replace />
   }
 
   return <>{children}</>
@@ -0,0 +1,76 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useAuth } from '../contexts/AuthContext'
+import { useI18n } from '../hooks/useI18n'
+import { isApiError } from '../lib/api'
+
+/** Banner shown shortly before the session runs out, offering to extend it. */
+export default function SessionExpiryWarning() {
+  const { session, isSessionExpiring, extendSession, logout } = useAuth()
+  const navigate = useNavigate()
+  const { t } = useI18n()
+  const [now, setNow] = useState(() => Date.now())
+  const [error, setError] = useState('')
+  const [isExtending, setIsExtending] = useState(false)
+
+  // Tick so the countdown stays current while the banner is up.
+  useEffect(() => {
+    if (!isSessionExpiring) return
+    const timer = setInterval(() => setNow(Date.now()), 15_000)
+    return () => clearInterval(timer)
+  }, [isSessionExpiring])
+
+  if (!isSessionExpiring || !session) return null
+
+  const minutes = Math.max(1, Math.ceil((Date.parse(session.expires_at) - now) / 60_000))
+
+  async function handleExtend() {
+    setError('')
+    setIsExtending(true)
+    try {
+      await extendSession()
+    } catch (err) {
+      setError(isApiError(err) ? err.message : t('session.extendFailed'))
+    } finally {
+      setIsExtending(false)
+    }
+  }
+
+  async function handleLogout() {
+    await logout()
+    navigate('/login')
+  }
+
+  return (
+    <div
+      role="alert"
+      style={{
+        position: 'fixed',
+        bottom: '1rem',
+        left: '50%',
+        transform: 'translateX(-50%)',
+        zIndex: 100,
+        display: 'flex',
+        alignItems: 'center',
+        flexWrap: 'wrap',
+        gap: '0.75rem',
+        padding: '0.75rem 1rem',
+        backgroundColor: 'var(--color-surface)',
+        border: '1px solid var(--color-accent-dark)',
+        borderRadius: 'var(--radius-md)',
+        boxShadow: '0 4px 16px rgba(0, 0, 0, 0.4)',
+      }}
+    >
+      <span>
+        {t('session.expiresIn', { count: minutes })}
+        {error && <span className="form-error" style={{ marginInlineStart: '0.5rem' }}>{error}</span>}
+      </span>
+      <button type="button" className="btn btn-primary" onClick={handleExtend} disabled={isExtending}>
+        {isExtending ? t('session.extending') : t('session.extend')}
+      </button>
+      <button type="button" className="btn btn-ghost" onClick={handleLogout}>
+        {t('common.signOut')}
+      </button>
+    </div>
+  )
+}
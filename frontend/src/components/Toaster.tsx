@@ -0,0 +1,91 @@
+import { useSyncExternalStore } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useI18n } from '../hooks/useI18n'
+import { dismissToast, getToasts, holdToast, releaseToast, subscribeToasts } from '../lib/toast'
+import type { Toast } from '../lib/toast'
+
+const TONE_COLORS: Record<NonNullable<Toast['tone']>, string> = {
+  info: 'var(--color-accent)',
+  success: 'var(--color-success)',
+  error: 'var(--color-error)',
+}
+
+/** Renders the toasts from lib/toast.ts, newest at the bottom. */
+export default function Toaster() {
+  const toasts = useSyncExternalStore(subscribeToasts, getToasts)
+  const navigate = useNavigate()
+  const { t } = useI18n()
+
+  function open(toast: Toast) {
+    dismissToast(toast.id)
+    if (toast.link) navigate(toast.link)
+  }
+
+  return (
+    <div
+      role="region"
+      aria-label={t('notifications.title')}
+      style={{
+        position: 'fixed',
+        insetInlineEnd: '1rem',
+        bottom: '1rem',
+        zIndex: 100,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '0.5rem',
+        width: 'min(340px, calc(100vw - 2rem))',
+      }}
+    >
+      {toasts.map((toast) => (
+        <div
+          key={toast.id}
+          role={toast.tone === 'error' ? 'alert' : 'status'}
+          onMouseEnter={() => holdToast(toast.id)}
+          onMouseLeave={() => releaseToast(toast.id)}
+          onFocus={() => holdToast(toast.id)}
+          onBlur={() => releaseToast(toast.id)}
+          style={{
+            display: 'flex',
+            alignItems: 'flex-start',
+            gap: '0.5rem',
+            padding: '0.75rem 0.9rem',
+            borderRadius: 'var(--radius-md)',
+            border: '1px solid var(--color-border)',
+            borderInlineStart: `4px solid ${TONE_COLORS[toast.tone ?? 'info']}`,
+            backgroundColor: 'var(--color-surface)',
+            boxShadow: '0 4px 16px rgba(0, 0, 0, 0.25)',
+            fontSize: '0.875rem',
+          }}
+        >
+          <div style={{ flex: 1, minWidth: 0 }}>
+            {toast.link ? (
+              <button
+                type="button"
+                onClick={() => open(toast)}
+                style={{ padding: 0, background: 'none', color: 'var(--color-text)', fontWeight: 600, textAlign: 'start' }}
+              >
+                {toast.title}
+              </button>
+            ) : (
+              <div style={{ fontWeight: 600 }}>{toast.title}</div>
+            )}
+            {toast.body && (
+              <div style={{ marginTop: '0.2rem', color: 'var(--color-text-muted)', overflowWrap: 'anywhere' }}>
+                {toast.body}
+              </div>
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={() => dismissToast(toast.id)}
+            aria-label={t('common.dismiss')}
+            title={t('common.dismiss')}
+            style={{ padding: '0 0.2rem', background: 'none', color: 'var(--color-text-muted)' }}
+          >
+            <span aria-hidden="true">✕</span>
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+}
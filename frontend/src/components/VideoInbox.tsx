@@ -0,0 +1,137 @@
+import { useState, useEffect } from 'react'
+import { useAuth } from '../contexts/AuthContext'
+import { useI18n } from '../hooks/useI18n'
+import { videosApi, isApiError } from '../lib/api'
+import type { VideoMessage } from '../lib/api'
+import { formatDuration } from '../lib/format'
+import type { MessageKey } from '../lib/i18n'
+
+type SortKey = 'newest' | 'oldest' | 'sender' | 'longest'
+
+const SORT_LABELS: Record<SortKey, MessageKey> = {
+  newest: 'video.inbox.sort.newest',
+  oldest: 'video.inbox.sort.oldest',
+  sender: 'video.inbox.sort.sender',
+  longest: 'video.inbox.sort.longest',
+}
+
+const SORTERS: Record<SortKey, (a: VideoMessage, b: VideoMessage) => number> = {
+  newest: (a, b) => b.created_at.localeCompare(a.created_at),
+  oldest: (a, b) => a.created_at.localeCompare(b.created_at),
+  sender: (a, b) => a.sender.username.localeCompare(b.sender.username),
+  longest: (a, b) => (b.duration_ms ?? 0) - (a.duration_ms ?? 0),
+}
+
+/** Videos sent to the signed-in user; playing one marks it viewed. */
+export default function VideoInbox() {
+  const { user } = useAuth()
+  const { t, formatDate } = useI18n()
+  const [videos, setVideos] = useState<VideoMessage[]>([])
+  const [sort, setSort] = useState<SortKey>('newest')
+  const [playingId, setPlayingId] = useState<number | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (!user) return
+    videosApi.inbox(user.username)
+      .then((data) => setVideos(data.videos))
+      .catch((err) => setError(isApiError(err) ? err.message : t('video.inbox.loadFailed')))
+  }, [user, t])
+
+  async function play(video: VideoMessage) {
+    setPlayingId(video.video_id)
+    if (video.viewed) return
+    try {
+      const updated = await videosApi.markViewed(video.video_id)
+      setVideos((prev) => prev.map((v) => (v.video_id === updated.video_id ? updated : v)))
+    } catch (err) {
+      console.error('Failed to mark video viewed:', err)
+    }
+  }
+
+  const sorted = [...videos].sort(SORTERS[sort])
+
+  return (
+    <section className="card" style={{ maxWidth: 720, marginTop: '1.5rem' }}>
+      <div style={{ display: 'flex', alignItems: 'center', marginBottom: '1rem' }}>
+        <h2 style={{ fontSize: '1.1rem', flex: 1 }}>{t('video.inbox')}</h2>
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as SortKey)}
+          aria-label={t('video.inbox.sort')}
+          style={{ width: 'auto' }}
+        >
+          {(Object.keys(SORT_LABELS) as SortKey[]).map((key) => (
+            <option key={key} value={key}>{t(SORT_LABELS[key])}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && <p className="form-error">{error}</p>}
+
+      {!error && videos.length === 0 && (
+        <p style={{ color: 'var(--color-text-muted)', fontSize: '0.9rem' }}>{t('video.inbox.empty')}</p>
+      )}
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+        {sorted.map((video) => (
+          <div key={video.video_id} style={{ borderBottom: '1px solid var(--color-border)', paddingBottom: '0.75rem' }}>
+            {playingId === video.video_id ? (
+              <video
+                src={video.url}
+                poster={video.thumbnail_url ?? undefined}
+                controls
+                autoPlay
+                playsInline
+                style={{ width: '100%', borderRadius: 'var(--radius-sm)', backgroundColor: '#000' }}
+              />
+            ) : (
+              <button
+                type="button"
+                onClick={() => play(video)}
+                style={{
+                  width: '100%',
+                  padding: 0,
+                  justifyContent: 'flex-start',
+                  gap: '1rem',
+                  backgroundColor: 'transparent',
+                  color: 'var(--color-text)',
+                  textAlign: 'start',
+                }}
+              >
+                <span
+                  style={{
+                    width: 128,
+                    aspectRatio: '16 / 9',
+                    flexShrink: 0,
+                    borderRadius: 'var(--radius-sm)',
+                    backgroundColor: '#000',
+                    backgroundImage: video.thumbnail_url ? `url(${video.thumbnail_url})` : undefined,
+                    backgroundSize: 'cover',
+                    backgroundPosition: 'center',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    color: '#fff',
+                  }}
+                >
+                  ▶
+                </span>
+                <span style={{ flex: 1 }}>
+                  <span style={{ display: 'block', fontWeight: video.viewed ? 400 : 700 }}>
+                    {!video.viewed && <span style={{ color: 'var(--color-accent)', marginInlineEnd: '0.4rem' }}>●</span>}
+                    {video.sender.username}
+                  </span>
+                  <span style={{ fontSize: '0.8rem', color: 'var(--color-text-muted)' }}>
+                    {formatDate(video.created_at)}
+                    {video.duration_ms !== null && ` · ${formatDuration(video.duration_ms)}`}
+                  </span>
+                </span>
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </section>
+  )
+}
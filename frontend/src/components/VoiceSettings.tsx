@@ -0,0 +1,66 @@
+import { useI18n } from '../hooks/useI18n'
+import type { SpeechSynthesisOptions } from '../hooks/useSpeechSynthesis'
+
+interface VoiceSettingsProps {
+  voices: SpeechSynthesisVoice[]
+  settings: SpeechSynthesisOptions
+  onChange: (settings: SpeechSynthesisOptions) => void
+  /** Only voices for this language (by primary subtag) are listed, when any exist. */
+  language?: string
+}
+
+const labelStyle = { display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.8rem' }
+
+/** Voice, rate and pitch controls for reading replies aloud. */
+export default function VoiceSettings({ voices, settings, onChange, language }: VoiceSettingsProps) {
+  const { t, formatNumber } = useI18n()
+  const primary = language?.split('-')[0]
+  const matching = voices.filter((v) => v.lang.split('-')[0] === primary)
+  const listed = matching.length > 0 ? matching : voices
+  const rate = settings.rate ?? 1
+  const pitch = settings.pitch ?? 1
+
+  return (
+    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '1rem', alignItems: 'center' }}>
+      <label style={labelStyle}>
+        {t('voice.voice')}
+        <select
+          value={settings.voiceURI ?? ''}
+          onChange={(e) => onChange({ ...settings, voiceURI: e.target.value || undefined })}
+          style={{ width: 'auto', fontSize: '0.8rem' }}
+        >
+          <option value="">{t('voice.default')}</option>
+          {listed.map((v) => (
+            <option key={v.voiceURI} value={v.voiceURI}>{v.name} ({v.lang})</option>
+          ))}
+        </select>
+      </label>
+      <label style={labelStyle}>
+        {t('voice.rate')}
+        <input
+          type="range"
+          min={0.5}
+          max={2}
+          step={0.1}
+          value={rate}
+          onChange={(e) => onChange({ ...settings, rate: Number(e.target.value) })}
+          style={{ width: 100 }}
+        />
+        <span style={{ width: '2.5em', color: 'var(--color-text-muted)' }}>{formatNumber(rate, { minimumFractionDigits: 1, maximumFractionDigits: 1 })}×</span>
+      </label>
+      <label style={labelStyle}>
+        {t('voice.pitch')}
+        <input
+          type="range"
+          min={0}
+          max={2}
+          step={0.1}
+          value={pitch}
+          onChange={(e) => onChange({ ...settings, pitch: Number(e.target.value) })}
+          style={{ width: 100 }}
+        />
+        <span style={{ width: '2.5em', color: 'var(--color-text-muted)' }}>{formatNumber(pitch, { minimumFractionDigits: 1, maximumFractionDigits: 1 })}</span>
+      </label>
+    </div>
+  )
+}
@@ -0,0 +1,122 @@
+import { act, renderHook, waitFor } from '@testing-library/react'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { AuthProvider, useAuth } from './AuthContext'
+import { outbox } from '../lib/outbox'
+import { installMockApi } from '../test/mockApi'
+import type { MockApi } from '../test/mockApi'
+
+let server: MockApi
+
+beforeEach(() => {
+  server = installMockApi()
+  server.addUser({ username: 'ada', password: 'correct horse' })
+})
+
+async function renderAuth() {
+  const rendered = renderHook(() => useAuth(), { wrapper: AuthProvider })
+  await waitFor(() => expect(rendered.result.current.isLoading).toBe(false))
+  return rendered
+}
+
+describe('session restore', () => {
+  it('restores the signed-in user from the session cookie', async () => {
+    server.signIn('ada')
+    const { result } = renderHook(() => useAuth(), { wrapper: AuthProvider })
+
+    expect(result.current.isLoading).toBe(true)
+    await waitFor(() => expect(result.current.isLoading).toBe(false))
+    expect(result.current.user?.username).toBe('ada')
+    await waitFor(() => expect(result.current.session?.current).toBe(true))
+  })
+
+  it('stays signed out quietly when there is no session', async () => {
+    const consoleError = vi.spyOn(console, 'error')
+    const { result } = await renderAuth()
+
+    expect(result.current.user).toBeNull()
+    expect(result.current.sessionExpired).toBe(false)
+    expect(server.calls('/api/sessions/current')).toHaveLength(0)
+    expect(consoleError).not.toHaveBeenCalled()
+  })
+
+  it('logs anything other than a 401', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+    server.on('GET', '/api/me', () => new Response('Bad gateway', { status: 500 }))
+    const { result } = await renderAuth()
+
+    expect(result.current.user).toBeNull()
+    expect(consoleError).toHaveBeenCalledWith('Failed to restore session:', expect.anything())
+  })
+})
+
+describe('login', () => {
+  it('signs in and sends the credentials', async () => {
+    const { result } = await renderAuth()
+
+    await act(() => result.current.login('ada', 'correct horse', true))
+
+    expect(result.current.user?.username).toBe('ada')
+    expect(server.calls('/api/login')[0].body).toEqual({ username: 'ada', password: 'correct horse', remember: true })
+  })
+
+  it('rejects wrong credentials with the server message', async () => {
+    const { result } = await renderAuth()
+
+    await expect(result.current.login('ada', 'wrong')).rejects.toMatchObject({
+      status: 401,
+      message: 'Invalid username or password',
+    })
+    expect(result.current.user).toBeNull()
+  })
+})
+
+describe('logout', () => {
+  it('ends the session and forgets the user', async () => {
+    server.signIn('ada')
+    const { result } = await renderAuth()
+    expect(result.current.user).not.toBeNull()
+
+    await act(() => result.current.logout())
+
+    expect(result.current.user).toBeNull()
+    expect(server.calls('/api/logout', 'POST')).toHaveLength(1)
+    expect(server.currentUser).toBeNull()
+  })
+})
+
+describe('expired sessions', () => {
+  it('signs out and flags the session as expired on a 401', async () => {
+    server.signIn('ada')
+    const { result } = await renderAuth()
+    expect(result.current.user).not.toBeNull()
+
+    server.expireSession()
+    await act(() => result.current.refreshUser().catch(() => {}))
+
+    expect(result.current.user).toBeNull()
+    expect(result.current.sessionExpired).toBe(true)
+  })
+
+  it('drops messages queued for the expired session', async () => {
+    server.signIn('ada')
+    const { result } = await renderAuth()
+    await outbox.add(null, 'Sent while offline')
+
+    server.expireSession()
+    await act(() => result.current.refreshUser().catch(() => {}))
+
+    await waitFor(async () => expect(await outbox.list()).toEqual([]))
+  })
+
+  it('clears the flag on the next login', async () => {
+    server.signIn('ada')
+    const { result } = await renderAuth()
+    server.expireSession()
+    await act(() => result.current.refreshUser().catch(() => {}))
+
+    await act(() => result.current.login('ada', 'correct horse'))
+
+    expect(result.current.sessionExpired).toBe(false)
+    expect(result.current.user?.username).toBe('ada')
+  })
+})
@@ -1,19 +1,43 @@
-import { createContext, useContext, useEffect, useState } from 'react'
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react'
 import type { ReactNode } from 'react'
-import { api, isApiError } from '../lib/api'
+import { addInterceptor, call, endpoints, isApiError } from '../lib/api'
+import type { SessionInfo, User } from '../lib/api'
+import { applyLocale } from '../lib/i18n'
+import { clearOfflineData } from '../lib/offline'
+import { applyTheme } from '../lib/theme'
 
-// ─── Types ────────────────────────────────────────────────────────────────────
+// Re-check the session this often (and whenever the tab becomes visible), so
+// a sign-out from another device is noticed before the next failed request.
+const SESSION_POLL_MS = 5 * 60_000
+// Warn this long before the session runs out.
+const EXPIRY_WARNING_MS = 5 * 60_000
+// setTimeout overflows past ~24.8 days; later expiries are left to polling.
+const MAX_TIMER_MS = 2 ** 31 - 1
 
-export interface User {
-  user_id: number
-  username: string
-}
+// ─── Types ────────────────────────────────────────────────────────────────────
 
 interface AuthContextValue {
   user: User | null
   isLoading: boolean
-  login: (username: string, password: string) => Promise<void>
+  /** True after a request was rejected with 401 while signed in. Cleared on login. */
+  sessionExpired: boolean
+  /** This browser's sign-in, once loaded. */
+  session: SessionInfo | null
+  /** The session runs out within EXPIRY_WARNING_MS; see extendSession. */
+  isSessionExpiring: boolean
+  /** `remember` picks the long session lifetime and keeps the cookie across browser restarts. */
+  login: (username: string, password: string, remember?: boolean) => Promise<void>
+  /** Create an account; the server signs the new user in. */
+  register: (username: string, password: string) => Promise<void>
   logout: () => Promise<void>
+  /** Restart the session's lifetime ("stay signed in"). */
+  extendSession: () => Promise<void>
+  /** Revoke every session, or every other one with `keepCurrent`. */
+  signOutEverywhere: (keepCurrent?: boolean) => Promise<void>
+  /** Re-read the user from the server, or apply one an account endpoint already returned. */
+  refreshUser: (updated?: User) => Promise<void>
+  /** Permanently delete the account (password required) and sign out. */
+  deleteAccount: (password: string) => Promise<void>
 }
 
 // ─── Context ──────────────────────────────────────────────────────────────────
@@ -25,31 +49,153 @@ const AuthContext = createContext<AuthContextValue | null>(null)
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null)
   const [isLoading, setIsLoading] = useState(true)
+  const [sessionExpired, setSessionExpired] = useState(false)
+  const [session, setSession] = useState<SessionInfo | null>(null)
+  // The expiry time the warning was raised for; a refreshed session has a new one.
+  const [warnedFor, setWarnedFor] = useState<string | null>(null)
+  const userRef = useRef(user)
+
+  useEffect(() => {
+    userRef.current = user
+  })
+
+  // Any 401 while signed in means the session is gone: drop the user and
+  // what was cached for them, and ProtectedRoute sends them to /login.
+  useEffect(() => addInterceptor({
+    onError: (error) => {
+      if (error.code !== 'unauthorized' || !userRef.current) return
+      userRef.current = null
+      setUser(null)
+      setSessionExpired(true)
+      clearOfflineData().catch((err) => console.error('Failed to clear offline data:', err))
+    },
+  }), [])
 
   // On mount, restore session from the Flask session cookie.
   useEffect(() => {
-    api.get<User>('/api/me')
+    call(endpoints.me)
       .then(setUser)
       .catch((err) => {
-        // 401 just means not logged in — not an error worth logging.
-        if (isApiError(err) && err.status === 401) return
+        // 401 just means not logged in — not an error worth logging. Whatever
+        // an earlier session left cached is not for whoever is here now.
+        if (isApiError(err) && err.status === 401) {
+          clearOfflineData().catch((error) => console.error('Failed to clear offline data:', error))
+          return
+        }
         console.error('Failed to restore session:', err)
       })
       .finally(() => setIsLoading(false))
   }, [])
 
-  async function login(username: string, password: string) {
-    const data = await api.post<User>('/api/login', { username, password })
+  // Once signed in, the account's theme replaces whatever this device had.
+  const accountTheme = user?.theme
+  useEffect(() => {
+    if (accountTheme) applyTheme(accountTheme)
+  }, [accountTheme])
+
+  // Likewise the account's language, once one has been picked.
+  const accountLocale = user?.locale
+  useEffect(() => {
+    if (accountLocale) applyLocale(accountLocale)
+  }, [accountLocale])
+
+  const userId = user?.user_id ?? null
+  const activeSession = userId !== null && session ? session : null
+  const expiresAt = activeSession?.expires_at ?? null
+
+  // A 401 from here goes through the interceptor above like any other.
+  const checkSession = useCallback(() => {
+    call(endpoints.currentSession)
+      .then(setSession)
+      .catch((err) => {
+        if (!isApiError(err) || err.code !== 'unauthorized') console.error('Failed to check session:', err)
+      })
+  }, [])
+
+  useEffect(() => {
+    if (userId === null) return
+    checkSession()
+    const timer = setInterval(checkSession, SESSION_POLL_MS)
+    const onVisible = () => {
+      if (document.visibilityState === 'visible') checkSession()
+    }
+    document.addEventListener('visibilitychange', onVisible)
+    return () => {
+      clearInterval(timer)
+      document.removeEventListener('visibilitychange', onVisible)
+    }
+  }, [userId, checkSession])
+
+  // Warn ahead of expiry, then ask the server once it's due: a 401 signs the
+  // user out, while a session extended elsewhere just comes back renewed.
+  useEffect(() => {
+    if (expiresAt === null) return
+    const remaining = Date.parse(expiresAt) - Date.now()
+    if (remaining > MAX_TIMER_MS) return
+    const warnTimer = setTimeout(() => setWarnedFor(expiresAt), Math.max(0, remaining - EXPIRY_WARNING_MS))
+    const expireTimer = setTimeout(checkSession, Math.max(0, remaining))
+    return () => {
+      clearTimeout(warnTimer)
+      clearTimeout(expireTimer)
+    }
+  }, [expiresAt, checkSession])
+
+  async function login(username: string, password: string, remember = false) {
+    const data = await call(endpoints.login, { body: { username, password, remember } })
+    setSessionExpired(false)
+    setUser(data)
+  }
+
+  async function register(username: string, password: string) {
+    const data = await call(endpoints.register, { body: { username, password } })
+    setSessionExpired(false)
     setUser(data)
   }
 
   async function logout() {
-    await api.post('/api/logout', {})
+    await call(endpoints.logout)
+    setUser(null)
+    clearOfflineData().catch((err) => console.error('Failed to clear offline data:', err))
+  }
+
+  async function extendSession() {
+    setSession(await call(endpoints.refreshSession))
+  }
+
+  async function signOutEverywhere(keepCurrent = false) {
+    await call(endpoints.revokeAllSessions, { body: { keep_current: keepCurrent } })
+    if (keepCurrent) return
+    setUser(null)
+    clearOfflineData().catch((err) => console.error('Failed to clear offline data:', err))
+  }
+
+  async function refreshUser(updated?: User) {
+    setUser(updated ?? await call(endpoints.me))
+  }
+
+  async function deleteAccount(password: string) {
+    await call(endpoints.deleteAccount, { body: { password } })
     setUser(null)
+    clearOfflineData().catch((err) => console.error('Failed to clear offline data:', err))
   }
 
   return (
-    <AuthContext.Provider value={{ user, isLoading, login, logout }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        isLoading,
+        sessionExpired,
+        session: activeSession,
+        isSessionExpiring: expiresAt !== null && warnedFor === expiresAt,
+        login,
+        register,
+        logout,
+        extendSession,
+        signOutEverywhere,
+        refreshUser,
+        deleteAccount,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   )
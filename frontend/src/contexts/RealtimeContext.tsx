@@ -0,0 +1,49 @@
+import { useEffect, useMemo, useState } from 'react'
+import type { ReactNode } from 'react'
+import { useAuth } from './AuthContext'
+import { RealtimeContext } from '../hooks/useRealtime'
+import type { UnreadCounts } from '../hooks/useRealtime'
+import { createRealtimeClient } from '../lib/realtime'
+import type { ConnectionStatus } from '../lib/realtime'
+
+const NO_UNREAD: UnreadCounts = { total: 0, byConversation: {} }
+
+// ─── Provider ─────────────────────────────────────────────────────────────────
+
+/** Holds one WebSocket connection for as long as a user is signed in. */
+export function RealtimeProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth()
+  const userId = user?.user_id
+  const client = useMemo(
+    () => (userId === undefined ? null : createRealtimeClient()),
+    [userId],
+  )
+  const [status, setStatus] = useState<ConnectionStatus>('closed')
+  const [unread, setUnread] = useState<UnreadCounts>(NO_UNREAD)
+
+  useEffect(() => {
+    if (!client) return
+
+    const unsubscribeStatus = client.onStatusChange(setStatus)
+    const unsubscribe = client.subscribe((event) => {
+      if (event.type === 'unread') {
+        setUnread({ total: event.total, byConversation: event.by_conversation })
+      }
+    })
+    client.connect()
+
+    return () => {
+      unsubscribe()
+      unsubscribeStatus()
+      client.close()
+      setStatus('closed')
+      setUnread(NO_UNREAD)
+    }
+  }, [client])
+
+  return (
+    <RealtimeContext.Provider value={{ client, status, unread }}>
+      {children}
+    </RealtimeContext.Provider>
+  )
+}
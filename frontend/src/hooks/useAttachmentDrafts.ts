@@ -0,0 +1,164 @@
+import { useState, useEffect, useRef } from 'react'
+import { isApiError, uploadAttachment } from '../lib/api'
+import type { Attachment } from '../lib/api'
+import { attachmentError, isImageType, MAX_ATTACHMENTS } from '../lib/attachments'
+import { getLocale, translate } from '../lib/i18n'
+
+export interface AttachmentDraft {
+  id: string
+  name: string
+  size: number
+  /** Object URL (or, once restored, the server URL) for image thumbnails. */
+  previewUrl: string | null
+  status: 'uploading' | 'done' | 'failed'
+  /** Fraction uploaded, 0 to 1. */
+  progress: number
+  error: string | null
+  /** Set once the upload is done. */
+  attachment: Attachment | null
+  /** Kept for retrying a failed upload. */
+  file: File | null
+}
+
+interface AttachmentDraftsResult {
+  drafts: AttachmentDraft[]
+  /** Why the last files added were turned away, if any were. */
+  rejected: string
+  isUploading: boolean
+  /** Check and start uploading `files`. */
+  add: (files: File[]) => void
+  retry: (id: string) => void
+  remove: (id: string) => void
+  /** The uploaded attachments, clearing the drafts; failed uploads are dropped. */
+  take: () => Attachment[]
+  /** Put attachments back, e.g. after a message with them couldn't be sent. */
+  restore: (attachments: Attachment[]) => void
+}
+
+/**
+ * useAttachmentDrafts
+ *
+ * Files attached to the message being written. Each one starts uploading as
+ * soon as it is added, so by the time the message is sent only the upload
+ * ids need to go with it.
+ */
+export function useAttachmentDrafts(): AttachmentDraftsResult {
+  const [drafts, setDrafts] = useState<AttachmentDraft[]>([])
+  const [rejected, setRejected] = useState('')
+  const controllersRef = useRef(new Map<string, AbortController>())
+  const draftsRef = useRef(drafts)
+
+  useEffect(() => {
+    draftsRef.current = drafts
+  })
+
+  // Leaving the page cancels uploads in flight and frees the thumbnails.
+  useEffect(() => {
+    const controllers = controllersRef.current
+    return () => {
+      controllers.forEach((controller) => controller.abort())
+      draftsRef.current.forEach(revokePreview)
+    }
+  }, [])
+
+  function update(id: string, changes: Partial<AttachmentDraft>) {
+    setDrafts((prev) => prev.map((d) => (d.id === id ? { ...d, ...changes } : d)))
+  }
+
+  function upload(id: string, file: File) {
+    const controller = new AbortController()
+    controllersRef.current.set(id, controller)
+    uploadAttachment(file, {
+      signal: controller.signal,
+      onProgress: (progress) => update(id, { progress }),
+    })
+      .then((attachment) => update(id, { status: 'done', progress: 1, attachment, file: null }))
+      .catch((err) => {
+        if (isApiError(err) && err.code === 'aborted') return
+        update(id, { status: 'failed', error: isApiError(err) ? err.message : translate(getLocale(), 'attachments.uploadFailed') })
+      })
+      .finally(() => controllersRef.current.delete(id))
+  }
+
+  function add(files: File[]) {
+    const problems: string[] = []
+    const accepted: AttachmentDraft[] = []
+    for (const file of files) {
+      const problem = attachmentError(file)
+      if (problem) {
+        problems.push(problem)
+      } else if (draftsRef.current.length + accepted.length >= MAX_ATTACHMENTS) {
+        problems.push(translate(getLocale(), 'attachments.tooMany', { count: MAX_ATTACHMENTS }))
+        break
+      } else {
+        accepted.push({
+          id: crypto.randomUUID(),
+          name: file.name,
+          size: file.size,
+          previewUrl: isImageType(file.type) ? URL.createObjectURL(file) : null,
+          status: 'uploading',
+          progress: 0,
+          error: null,
+          attachment: null,
+          file,
+        })
+      }
+    }
+    setRejected(problems.join(' · '))
+    setDrafts((prev) => [...prev, ...accepted])
+    for (const draft of accepted) upload(draft.id, draft.file!)
+  }
+
+  function retry(id: string) {
+    const draft = drafts.find((d) => d.id === id)
+    if (!draft?.file || draft.status !== 'failed') return
+    update(id, { status: 'uploading', progress: 0, error: null })
+    upload(id, draft.file)
+  }
+
+  function remove(id: string) {
+    controllersRef.current.get(id)?.abort()
+    const draft = drafts.find((d) => d.id === id)
+    if (draft) revokePreview(draft)
+    setDrafts((prev) => prev.filter((d) => d.id !== id))
+  }
+
+  function take(): Attachment[] {
+    drafts.forEach(revokePreview)
+    setDrafts([])
+    setRejected('')
+    return drafts.flatMap((d) => (d.attachment ? [d.attachment] : []))
+  }
+
+  function restore(attachments: Attachment[]) {
+    setDrafts((prev) => [
+      ...attachments.map((attachment): AttachmentDraft => ({
+        id: attachment.upload_id,
+        name: attachment.name,
+        size: attachment.size,
+        previewUrl: isImageType(attachment.mime_type) ? attachment.url : null,
+        status: 'done',
+        progress: 1,
+        error: null,
+        attachment,
+        file: null,
+      })),
+      ...prev,
+    ])
+  }
+
+  return {
+    drafts,
+    rejected,
+    isUploading: drafts.some((d) => d.status === 'uploading'),
+    add,
+    retry,
+    remove,
+    take,
+    restore,
+  }
+}
+
+function revokePreview(draft: AttachmentDraft) {
+  if (draft.previewUrl?.startsWith('blob:')) URL.revokeObjectURL(draft.previewUrl)
+}
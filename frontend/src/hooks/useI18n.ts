@@ -0,0 +1,64 @@
+import { useSyncExternalStore } from 'react'
+import { useAuth } from '../contexts/AuthContext'
+import { call, endpoints } from '../lib/api'
+import type { Locale } from '../lib/api'
+import {
+  applyLocale,
+  formatDate,
+  formatNumber,
+  getLocale,
+  localeDirection,
+  subscribeLocale,
+  translate,
+} from '../lib/i18n'
+import type { MessageKey, MessageParams, TextDirection } from '../lib/i18n'
+
+interface I18nResult {
+  locale: Locale
+  dir: TextDirection
+  /**
+   * Switch language right away; when signed in, also save it to the account.
+   * Rejects if saving fails (the language still applies on this device).
+   */
+  setLocale: (locale: Locale) => Promise<void>
+  /** The message for `key` in the current language; see lib/i18n.ts. */
+  t: typeof t
+  formatDate: typeof localFormatDate
+  formatNumber: typeof localFormatNumber
+}
+
+// These read the language when called, so they never change identity and
+// can sit in effect dependencies without re-running the effect. Components
+// still re-render on a switch, because useI18n subscribes to the language.
+function t(key: MessageKey, params?: MessageParams): string {
+  return translate(getLocale(), key, params)
+}
+
+function localFormatDate(value: Date | string | number, options?: Intl.DateTimeFormatOptions): string {
+  return formatDate(getLocale(), value, options)
+}
+
+function localFormatNumber(value: number, options?: Intl.NumberFormatOptions): string {
+  return formatNumber(getLocale(), value, options)
+}
+
+export function useI18n(): I18nResult {
+  const { user, refreshUser } = useAuth()
+  const locale = useSyncExternalStore(subscribeLocale, getLocale)
+
+  async function setLocale(next: Locale) {
+    applyLocale(next)
+    if (user && user.locale !== next) {
+      await refreshUser(await call(endpoints.updateProfile, { body: { locale: next } }))
+    }
+  }
+
+  return {
+    locale,
+    dir: localeDirection(locale),
+    setLocale,
+    t,
+    formatDate: localFormatDate,
+    formatNumber: localFormatNumber,
+  }
+}
@@ -0,0 +1,189 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { getLocale, translate } from '../lib/i18n'
+
+export type RecorderStatus = 'idle' | 'previewing' | 'recording' | 'paused' | 'stopped'
+
+interface MediaRecorderOptions {
+  /** Recording stops automatically after this long (paused time excluded). */
+  maxDurationMs?: number
+  constraints?: MediaStreamConstraints
+}
+
+interface MediaRecorderResult {
+  status: RecorderStatus
+  /** Live camera/mic stream, for the preview <video>. */
+  stream: MediaStream | null
+  /** The finished recording and an object URL for playing it back. */
+  recording: Blob | null
+  recordingUrl: string | null
+  durationMs: number
+  isSupported: boolean
+  error: string | null
+  startPreview: () => Promise<void>
+  stopPreview: () => void
+  startRecording: () => void
+  pauseRecording: () => void
+  resumeRecording: () => void
+  stopRecording: () => void
+  /** Discard the recording and go back to the live preview. */
+  retake: () => void
+}
+
+const DEFAULT_CONSTRAINTS: MediaStreamConstraints = { video: true, audio: true }
+
+// Preferred container/codec, falling back to whatever the browser supports (Safari: mp4).
+const MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4']
+
+function pickMimeType(): string | undefined {
+  return MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type))
+}
+
+/** Elapsed time = time banked before the current segment + time in it (if running). */
+function elapsedMs(bankedMs: number, segmentStart: number | null): number {
+  return bankedMs + (segmentStart !== null ? Date.now() - segmentStart : 0)
+}
+
+/**
+ * useMediaRecorder
+ *
+ * Wraps getUserMedia + MediaRecorder for camera/mic capture with pause/resume,
+ * a live duration counter, and an optional duration limit.
+ * `isSupported` is false where MediaRecorder or getUserMedia is unavailable.
+ */
+export function useMediaRecorder({
+  maxDurationMs,
+  constraints = DEFAULT_CONSTRAINTS,
+}: MediaRecorderOptions = {}): MediaRecorderResult {
+  const [status, setStatus] = useState<RecorderStatus>('idle')
+  const [stream, setStream] = useState<MediaStream | null>(null)
+  const [recording, setRecording] = useState<Blob | null>(null)
+  const [recordingUrl, setRecordingUrl] = useState<string | null>(null)
+  const [durationMs, setDurationMs] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+
+  const recorderRef = useRef<MediaRecorder | null>(null)
+  const chunksRef = useRef<Blob[]>([])
+  const bankedMsRef = useRef(0)
+  const segmentStartRef = useRef<number | null>(null)
+
+  const isSupported =
+    typeof window.MediaRecorder !== 'undefined' && Boolean(navigator.mediaDevices?.getUserMedia)
+
+  const startPreview = useCallback(async () => {
+    setError(null)
+    try {
+      const media = await navigator.mediaDevices.getUserMedia(constraints)
+      setStream(media)
+      setStatus('previewing')
+    } catch (err) {
+      setError(err instanceof DOMException && err.name === 'NotAllowedError'
+        ? translate(getLocale(), 'video.error.permissionDenied')
+        : translate(getLocale(), 'video.error.noCamera'))
+    }
+  }, [constraints])
+
+  const stopPreview = useCallback(() => {
+    if (recorderRef.current && recorderRef.current.state !== 'inactive') {
+      recorderRef.current.stop()
+    }
+    stream?.getTracks().forEach((track) => track.stop())
+    setStream(null)
+    setStatus('idle')
+  }, [stream])
+
+  const startRecording = useCallback(() => {
+    if (!stream) return
+    const mimeType = pickMimeType()
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined)
+    chunksRef.current = []
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunksRef.current.push(e.data)
+    }
+    recorder.onstop = () => {
+      bankedMsRef.current = elapsedMs(bankedMsRef.current, segmentStartRef.current)
+      segmentStartRef.current = null
+      const blob = new Blob(chunksRef.current, { type: recorder.mimeType })
+      setRecording(blob)
+      setRecordingUrl(URL.createObjectURL(blob))
+      setDurationMs(bankedMsRef.current)
+      setStatus('stopped')
+    }
+
+    bankedMsRef.current = 0
+    segmentStartRef.current = Date.now()
+    setDurationMs(0)
+    setError(null)
+    recorder.start(1000) // emit data every second so a long take isn't one giant buffer
+    recorderRef.current = recorder
+    setStatus('recording')
+  }, [stream])
+
+  const pauseRecording = useCallback(() => {
+    if (recorderRef.current?.state !== 'recording') return
+    recorderRef.current.pause()
+    bankedMsRef.current = elapsedMs(bankedMsRef.current, segmentStartRef.current)
+    segmentStartRef.current = null
+    setStatus('paused')
+  }, [])
+
+  const resumeRecording = useCallback(() => {
+    if (recorderRef.current?.state !== 'paused') return
+    recorderRef.current.resume()
+    segmentStartRef.current = Date.now()
+    setStatus('recording')
+  }, [])
+
+  const stopRecording = useCallback(() => {
+    if (recorderRef.current && recorderRef.current.state !== 'inactive') {
+      recorderRef.current.stop()
+    }
+  }, [])
+
+  const retake = useCallback(() => {
+    setRecording(null)
+    setRecordingUrl(null)
+    setDurationMs(0)
+    setStatus(stream ? 'previewing' : 'idle')
+  }, [stream])
+
+  // Tick the duration counter while recording and enforce the limit.
+  useEffect(() => {
+    if (status !== 'recording') return
+    const timer = setInterval(() => {
+      const ms = elapsedMs(bankedMsRef.current, segmentStartRef.current)
+      setDurationMs(ms)
+      if (maxDurationMs !== undefined && ms >= maxDurationMs) stopRecording()
+    }, 250)
+    return () => clearInterval(timer)
+  }, [status, maxDurationMs, stopRecording])
+
+  // Release the camera when the stream is replaced or the component unmounts.
+  useEffect(() => {
+    return () => stream?.getTracks().forEach((track) => track.stop())
+  }, [stream])
+
+  // Free the playback URL when the recording is discarded or replaced.
+  useEffect(() => {
+    return () => {
+      if (recordingUrl) URL.revokeObjectURL(recordingUrl)
+    }
+  }, [recordingUrl])
+
+  return {
+    status,
+    stream,
+    recording,
+    recordingUrl,
+    durationMs,
+    isSupported,
+    error,
+    startPreview,
+    stopPreview,
+    startRecording,
+    pauseRecording,
+    resumeRecording,
+    stopRecording,
+    retake,
+  }
+}
@@ -0,0 +1,96 @@
+import { act, renderHook, waitFor } from '@testing-library/react'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { useOutbox } from './useOutbox'
+import { outbox } from '../lib/outbox'
+
+interface Sent {
+  path: string
+  body: Record<string, unknown>
+}
+
+let sent: Sent[]
+let nextConversationId: number
+/** What POST /api/chat answers; a thrown error is a lost connection. */
+let chatReply: () => Response
+
+/** Queue messages oldest first; the outbox orders by creation time, to the millisecond. */
+async function queue(...messages: [conversationId: number | null, content: string][]) {
+  for (const [conversationId, content] of messages) {
+    await outbox.add(conversationId, content)
+    await new Promise((resolve) => setTimeout(resolve, 2))
+  }
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+}
+
+beforeEach(async () => {
+  await outbox.clear()
+  sent = []
+  nextConversationId = 100
+  chatReply = () => json({
+    response: 'Got it', model: 'mock-model', usage: null, finish_reason: 'stop', user_message_id: 1, message_id: 2,
+  })
+  vi.stubGlobal('fetch', vi.fn(async (path: string, init: RequestInit) => {
+    const body = JSON.parse(init.body as string) as Record<string, unknown>
+    sent.push({ path, body })
+    if (path === '/api/conversations') {
+      return json({
+        conversation_id: nextConversationId++, title: null, started_at: '2026-01-01T00:00:00',
+        last_message_at: null, branched_from_id: null,
+      }, 201)
+    }
+    return chatReply()
+  }))
+})
+
+describe('replaying queued messages', () => {
+  it('sends them in order on mount, starting one thread for the new-chat ones', async () => {
+    await queue([null, 'First'], [null, 'Second'], [7, 'To an old thread'])
+    const onSent = vi.fn()
+
+    renderHook(() => useOutbox({ onSent }))
+
+    await waitFor(() => expect(onSent).toHaveBeenCalledTimes(3))
+    expect(sent.map((s) => [s.path, s.body])).toEqual([
+      ['/api/conversations', {}],
+      ['/api/chat', { message: 'First', conversation_id: 100 }],
+      ['/api/chat', { message: 'Second', conversation_id: 100 }],
+      ['/api/chat', { message: 'To an old thread', conversation_id: 7 }],
+    ])
+    expect(onSent.mock.calls.map(([entry, conversationId]) => [entry.content, conversationId])).toEqual([
+      ['First', 100], ['Second', 100], ['To an old thread', 7],
+    ])
+    expect(await outbox.list()).toEqual([])
+  })
+
+  it('keeps messages queued, in order, while the server is unreachable', async () => {
+    chatReply = () => { throw new TypeError('Failed to fetch') }
+    await queue([7, 'First'], [7, 'Second'])
+
+    const { result } = renderHook(() => useOutbox())
+
+    // Stops at the first failure rather than trying the rest.
+    await waitFor(() => expect(result.current.entries.map((e) => [e.content, e.status, e.attempts])).toEqual([
+      ['First', 'pending', 1], ['Second', 'pending', 0],
+    ]))
+    expect(sent.filter((s) => s.path === '/api/chat')).toHaveLength(1)
+  })
+
+  it('marks a refused message failed, and sends it again on retry', async () => {
+    chatReply = () => json({ error: 'Message is too long' }, 400)
+    await queue([7, 'Too long'])
+    const { result } = renderHook(() => useOutbox())
+    await waitFor(() => expect(result.current.entries[0]?.status).toBe('failed'))
+    expect(result.current.entries[0].error).toBe('Message is too long')
+
+    chatReply = () => json({
+      response: 'Got it', model: 'mock-model', usage: null, finish_reason: 'stop', user_message_id: 1, message_id: 2,
+    })
+    act(() => result.current.retry(result.current.entries[0].id))
+
+    await waitFor(() => expect(result.current.entries).toEqual([]))
+    expect(sent.filter((s) => s.path === '/api/chat')).toHaveLength(2)
+  })
+})
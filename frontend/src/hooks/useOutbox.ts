@@ -0,0 +1,146 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { call, conversationsApi, endpoints, isApiError } from '../lib/api'
+import type { ChatResponse } from '../lib/api'
+import { getLocale, translate } from '../lib/i18n'
+import { outbox } from '../lib/outbox'
+import type { OutboxEntry } from '../lib/outbox'
+
+// Replies can take a while; only a lost connection puts a message back in the queue.
+const SEND_TIMEOUT_MS = 60_000
+// navigator.onLine can't tell when just the server is down, so keep trying.
+const RETRY_INTERVAL_MS = 30_000
+const STALE_CLAIM_MS = 2 * SEND_TIMEOUT_MS
+
+interface OutboxOptions {
+  /**
+   * Called after a queued message has been sent and answered, with the entry
+   * as it was queued and the conversation it went to.
+   */
+  onSent?: (entry: OutboxEntry, conversationId: number, reply: ChatResponse) => void
+}
+
+interface OutboxResult {
+  /** Queued messages, oldest first. */
+  entries: OutboxEntry[]
+  isOnline: boolean
+  enqueue: (conversationId: number | null, content: string) => Promise<void>
+  /** Send a failed message again. */
+  retry: (id: string) => void
+  discard: (id: string) => void
+}
+
+/**
+ * useOutbox
+ *
+ * Chat messages that couldn't be sent, stored in IndexedDB (see
+ * lib/outbox.ts) and sent one at a time, in order, when the browser comes
+ * back online, on mount, and every RETRY_INTERVAL_MS while any are waiting.
+ * Queued first messages of a new chat share one new conversation.
+ */
+export function useOutbox({ onSent }: OutboxOptions = {}): OutboxResult {
+  const [entries, setEntries] = useState<OutboxEntry[]>([])
+  const [isOnline, setIsOnline] = useState(navigator.onLine)
+  const flushingRef = useRef(false)
+  const onSentRef = useRef(onSent)
+
+  useEffect(() => {
+    onSentRef.current = onSent
+  })
+
+  const flush = useCallback(async () => {
+    if (flushingRef.current || !navigator.onLine) return
+    flushingRef.current = true
+    let newThreadId: number | null = null
+    try {
+      for (const queued of await outbox.list()) {
+        if (queued.status !== 'pending') continue
+        const claimed = await outbox.claim(queued.id)
+        if (!claimed) continue
+        let entry = claimed
+        try {
+          let conversationId: number | null = entry.conversation_id ?? newThreadId
+          if (conversationId === null) {
+            conversationId = (await conversationsApi.create()).conversation_id
+            newThreadId = conversationId
+          }
+          // Remember the thread so a retry doesn't start another one.
+          entry = { ...entry, conversation_id: conversationId }
+          const reply = await call(endpoints.chat, {
+            body: { message: entry.content, conversation_id: conversationId },
+            timeoutMs: SEND_TIMEOUT_MS,
+          })
+          await outbox.remove(entry.id)
+          onSentRef.current?.(claimed, conversationId, reply)
+        } catch (err) {
+          // A timeout may still have reached the server, so it fails rather than resending by itself.
+          const unreachable = isApiError(err) && err.code === 'network'
+          await outbox.update({
+            ...entry,
+            status: unreachable ? 'pending' : 'failed',
+            error: isApiError(err) ? err.message : translate(getLocale(), 'chat.outbox.sendFailed'),
+          })
+          if (unreachable) break
+        }
+      }
+    } catch (err) {
+      console.error('Failed to send queued messages:', err)
+    } finally {
+      flushingRef.current = false
+    }
+  }, [])
+
+  useEffect(() => {
+    const load = () => {
+      outbox.list()
+        .then(setEntries)
+        .catch((err) => console.error('Failed to load outbox:', err))
+    }
+    load()
+    return outbox.subscribe(load)
+  }, [])
+
+  useEffect(() => {
+    outbox.release(STALE_CLAIM_MS)
+      .catch((err) => console.error('Failed to release stale messages:', err))
+      .finally(flush)
+  }, [flush])
+
+  useEffect(() => {
+    const online = () => {
+      setIsOnline(true)
+      flush()
+    }
+    const offline = () => setIsOnline(false)
+    window.addEventListener('online', online)
+    window.addEventListener('offline', offline)
+    return () => {
+      window.removeEventListener('online', online)
+      window.removeEventListener('offline', offline)
+    }
+  }, [flush])
+
+  const hasPending = entries.some((e) => e.status === 'pending')
+  useEffect(() => {
+    if (!hasPending) return
+    const timer = setInterval(flush, RETRY_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [hasPending, flush])
+
+  const enqueue = useCallback(async (conversationId: number | null, content: string) => {
+    await outbox.add(conversationId, content)
+  }, [])
+
+  const retry = useCallback((id: string) => {
+    const entry = entries.find((e) => e.id === id)
+    if (!entry || entry.status !== 'failed') return
+    outbox.update({ ...entry, status: 'pending', error: null })
+      .then(flush)
+      .catch((err) => console.error('Failed to retry message:', err))
+  }, [entries, flush])
+
+  const discard = useCallback((id: string) => {
+    outbox.remove(id).catch((err) => console.error('Failed to discard message:', err))
+  }, [])
+
+  return { entries, isOnline, enqueue, retry, discard }
+}
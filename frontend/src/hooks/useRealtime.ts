@@ -0,0 +1,43 @@
+import { createContext, useContext, useEffect, useRef } from 'react'
+import type { ConnectionStatus, RealtimeClient, ServerEvent } from '../lib/realtime'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface UnreadCounts {
+  total: number
+  byConversation: Record<string, number>
+}
+
+export interface RealtimeContextValue {
+  client: RealtimeClient | null
+  status: ConnectionStatus
+  unread: UnreadCounts
+}
+
+// ─── Context ──────────────────────────────────────────────────────────────────
+
+/** Provided by RealtimeProvider (contexts/RealtimeContext.tsx). */
+export const RealtimeContext = createContext<RealtimeContextValue | null>(null)
+
+// ─── Hooks ────────────────────────────────────────────────────────────────────
+
+export function useRealtime(): RealtimeContextValue {
+  const ctx = useContext(RealtimeContext)
+  if (!ctx) throw new Error('useRealtime must be used inside <RealtimeProvider>')
+  return ctx
+}
+
+/** Subscribe to server events for the lifetime of the calling component. */
+export function useRealtimeEvents(listener: (event: ServerEvent) => void) {
+  const { client } = useRealtime()
+  const listenerRef = useRef(listener)
+
+  useEffect(() => {
+    listenerRef.current = listener
+  })
+
+  useEffect(() => {
+    if (!client) return
+    return client.subscribe((event) => listenerRef.current(event))
+  }, [client])
+}
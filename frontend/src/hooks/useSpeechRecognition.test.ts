@@ -0,0 +1,120 @@
+import { act, renderHook } from '@testing-library/react'
+import { beforeEach, describe, expect, it } from 'vitest'
+import { useSpeechRecognition } from './useSpeechRecognition'
+import type { SpeechRecognitionOptions } from './useSpeechRecognition'
+import { applyLocale } from '../lib/i18n'
+import { installFakeSpeechRecognition, lastRecognition } from '../test/fakeSpeechRecognition'
+
+function renderSpeech(options?: SpeechRecognitionOptions) {
+  const rendered = renderHook(() => useSpeechRecognition(options))
+  act(() => rendered.result.current.startListening())
+  return { ...rendered, recognition: lastRecognition() }
+}
+
+describe('without speech support', () => {
+  it('reports that neither engine is available', () => {
+    const { result } = renderHook(() => useSpeechRecognition())
+
+    expect(result.current.isSupported).toBe(false)
+    expect(result.current.engine).toBeNull()
+  })
+})
+
+describe('with the Web Speech API', () => {
+  beforeEach(() => {
+    installFakeSpeechRecognition()
+  })
+
+  it('starts the browser engine with the requested settings', () => {
+    const { result, recognition } = renderSpeech({ continuous: true, language: 'fr-FR' })
+
+    expect(result.current.engine).toBe('browser')
+    expect(result.current.isListening).toBe(true)
+    expect(recognition.isStarted).toBe(true)
+    expect(recognition).toMatchObject({ continuous: true, interimResults: true, lang: 'fr-FR' })
+  })
+
+  it('listens in the interface language by default', () => {
+    applyLocale('es')
+    const { recognition } = renderSpeech()
+
+    expect(recognition.lang).toBe('es-ES')
+  })
+
+  it('keeps interim text apart from final text', () => {
+    const { result, recognition } = renderSpeech()
+
+    act(() => recognition.hear({ transcript: 'hello wor', isFinal: false }))
+    expect(result.current.interimTranscript).toBe('hello wor')
+    expect(result.current.finalTranscript).toBe('')
+    expect(result.current.transcript).toBe('hello wor')
+
+    act(() => recognition.hear({ transcript: 'hello world', isFinal: true }))
+    expect(result.current.interimTranscript).toBe('')
+    expect(result.current.finalTranscript).toBe('hello world')
+
+    act(() => recognition.hear({ transcript: ' how are', isFinal: false }))
+    expect(result.current.finalTranscript).toBe('hello world')
+    expect(result.current.transcript).toBe('hello world how are')
+  })
+
+  it('drops interim text when the session ends', () => {
+    const { result, recognition } = renderSpeech()
+
+    act(() => recognition.hear({ transcript: 'hello', isFinal: true }, { transcript: ' there', isFinal: false }))
+    act(() => recognition.end())
+
+    expect(result.current.isListening).toBe(false)
+    expect(result.current.transcript).toBe('hello')
+    expect(result.current.accumulatedTranscript).toBe('hello')
+  })
+
+  it('carries on through browser restarts in continuous mode', () => {
+    const { result, recognition } = renderSpeech({ continuous: true })
+
+    act(() => recognition.hear({ transcript: 'first part', isFinal: true }))
+    act(() => recognition.end())
+
+    expect(recognition.startCount).toBe(2)
+    expect(result.current.isListening).toBe(true)
+    expect(result.current.finalTranscript).toBe('')
+    expect(result.current.accumulatedTranscript).toBe('first part')
+
+    act(() => recognition.hear({ transcript: 'second part', isFinal: true }))
+    act(() => result.current.stopListening())
+
+    expect(recognition.startCount).toBe(2)
+    expect(result.current.isListening).toBe(false)
+    expect(result.current.accumulatedTranscript).toBe('first part second part')
+  })
+
+  it('reports errors and stops for good after a fatal one', () => {
+    const { result, recognition } = renderSpeech({ continuous: true })
+
+    act(() => recognition.fail('not-allowed'))
+
+    expect(result.current.error).toBe('not-allowed')
+    expect(result.current.isListening).toBe(false)
+    expect(recognition.startCount).toBe(1)
+  })
+
+  it('ignores silence', () => {
+    const { result, recognition } = renderSpeech()
+
+    act(() => recognition.fail('no-speech'))
+
+    expect(result.current.error).toBeNull()
+    expect(result.current.isListening).toBe(false)
+  })
+
+  it('starts afresh each time', () => {
+    const { result, recognition } = renderSpeech()
+    act(() => recognition.hear({ transcript: 'old words', isFinal: true }))
+    act(() => recognition.end())
+
+    act(() => result.current.startListening())
+
+    expect(result.current.transcript).toBe('')
+    expect(result.current.isListening).toBe(true)
+  })
+})
@@ -1,84 +1,169 @@
-import { useState, useEffect, useCallback, useRef } from 'react'
+import { useState, useEffect, useCallback, useRef, useSyncExternalStore } from 'react'
+import { getLocale, speechLanguageFor, subscribeLocale } from '../lib/i18n'
+import {
+  createBrowserEngine,
+  createServerEngine,
+  isBrowserSpeechAvailable,
+  isServerSpeechAvailable,
+} from '../lib/speech'
+import type { SpeechEngine, SpeechEngineKind } from '../lib/speech'
+
+export interface SpeechRecognitionOptions {
+  /** Keep listening through pauses until stopped (restarting if the browser ends the session). */
+  continuous?: boolean
+  /** BCP 47 language tag, e.g. 'en-US'; defaults to the interface language's. */
+  language?: string
+  /** Report partial results while the user is still speaking (browser engine only). */
+  interimResults?: boolean
+  /** Stop automatically after this long without any speech. */
+  silenceTimeoutMs?: number
+  /** 'auto' uses the Web Speech API where available and server transcription otherwise. */
+  engine?: 'auto' | SpeechEngineKind
+}
 
 interface SpeechRecognitionResult {
+  /** Everything heard since startListening, including the current interim text. */
   transcript: string
+  /** Final text from the current recognition session. */
+  finalTranscript: string
+  /** Text that may still change. */
+  interimTranscript: string
+  /** Final text across every session since startListening (Chrome restarts included). */
+  accumulatedTranscript: string
+  /** True from startListening until the final transcript is in (including server transcription). */
   isListening: boolean
+  /** Recording has stopped and the server is transcribing it. */
+  isTranscribing: boolean
   isSupported: boolean
+  /** The engine in use, or null if neither is supported. */
+  engine: SpeechEngineKind | null
   startListening: () => void
   stopListening: () => void
   error: string | null
 }
 
+function joinText(...parts: string[]): string {
+  return parts.map((p) => p.trim()).filter(Boolean).join(' ')
+}
+
+function pickEngine(preference: 'auto' | SpeechEngineKind): SpeechEngineKind | null {
+  const browser = isBrowserSpeechAvailable()
+  const server = isServerSpeechAvailable()
+  if (preference === 'browser') return browser ? 'browser' : null
+  if (preference === 'server') return server ? 'server' : null
+  if (browser) return 'browser'
+  return server ? 'server' : null
+}
 
 /**
  * useSpeechRecognition
  *
- * Wraps the browser's Web Speech API (SpeechRecognition / webkitSpeechRecognition).
- * Returns a transcript string that updates in real time as the user speaks.
- * `isSupported` is false on browsers that don't implement the API (Firefox, Safari < 14.1).
+ * Speech-to-text through the browser's Web Speech API, falling back to
+ * recording audio and transcribing it on the server (see lib/speech.ts).
+ * Transcripts update in real time where the engine supports it. In
+ * continuous mode the session is restarted whenever the browser ends it,
+ * until stopListening. `isSupported` is false only if neither engine works.
  */
-export function useSpeechRecognition(): SpeechRecognitionResult {
-  const [transcript, setTranscript] = useState('')
+export function useSpeechRecognition({
+  continuous = false,
+  language: languageOption,
+  interimResults = true,
+  silenceTimeoutMs,
+  engine: enginePreference = 'auto',
+}: SpeechRecognitionOptions = {}): SpeechRecognitionResult {
+  const locale = useSyncExternalStore(subscribeLocale, getLocale)
+  const language = languageOption ?? speechLanguageFor(locale)
+  const [finalTranscript, setFinalTranscript] = useState('')
+  const [interimTranscript, setInterimTranscript] = useState('')
+  const [committed, setCommitted] = useState('')   // final text from earlier sessions
   const [isListening, setIsListening] = useState(false)
+  const [isTranscribing, setIsTranscribing] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const recognitionRef = useRef<SpeechRecognition | null>(null)
-
-  const SpeechRecognitionAPI =
-    window.SpeechRecognition ?? window.webkitSpeechRecognition
-
-  const isSupported = Boolean(SpeechRecognitionAPI)
+  const engineRef = useRef<SpeechEngine | null>(null)
+  const silenceTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined)
+  // Final text of the current session, so a restart can move it into `committed`.
+  const sessionFinalRef = useRef('')
+  const silenceTimeoutRef = useRef(silenceTimeoutMs)
 
   useEffect(() => {
-    if (!SpeechRecognitionAPI) return
+    silenceTimeoutRef.current = silenceTimeoutMs
+  })
 
-    const recognition = new SpeechRecognitionAPI()
-    recognition.continuous = false       // stop after first pause
-    recognition.interimResults = true    // stream partial results
-    recognition.lang = 'en-US'
+  const engine = pickEngine(enginePreference)
+  const isSupported = engine !== null
 
-    recognition.onresult = (event: SpeechRecognitionEvent) => {
-      let interim = ''
-      let final = ''
-      for (let i = event.resultIndex; i < event.results.length; i++) {
-        const text = event.results[i][0].transcript
-        if (event.results[i].isFinal) {
-          final += text
-        } else {
-          interim += text
-        }
-      }
-      setTranscript(final || interim)
-    }
-
-    recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
-      setError(event.error)
-      setIsListening(false)
-    }
+  const resetSilenceTimer = useCallback(() => {
+    clearTimeout(silenceTimerRef.current)
+    const timeout = silenceTimeoutRef.current
+    if (timeout === undefined) return
+    silenceTimerRef.current = setTimeout(() => engineRef.current?.stop(), timeout)
+  }, [])
 
-    recognition.onend = () => {
-      setIsListening(false)
-    }
+  useEffect(() => {
+    if (!engine) return
 
-    recognitionRef.current = recognition
+    const create = engine === 'browser' ? createBrowserEngine : createServerEngine
+    const instance = create({
+      onResult: (final, interim) => {
+        sessionFinalRef.current = final
+        setFinalTranscript(final)
+        setInterimTranscript(interim)
+      },
+      onRestart: () => {
+        const carried = sessionFinalRef.current
+        sessionFinalRef.current = ''
+        setCommitted((prev) => joinText(prev, carried))
+        setFinalTranscript('')
+        setInterimTranscript('')
+      },
+      onSpeech: resetSilenceTimer,
+      onProcessing: setIsTranscribing,
+      onError: setError,
+      onEnd: () => {
+        clearTimeout(silenceTimerRef.current)
+        setInterimTranscript('')
+        setIsListening(false)
+      },
+    })
+    engineRef.current = instance
 
     return () => {
-      recognition.abort()
+      clearTimeout(silenceTimerRef.current)
+      instance.abort()
+      engineRef.current = null
     }
-  }, [SpeechRecognitionAPI])
+  }, [engine, resetSilenceTimer])
 
   const startListening = useCallback(() => {
-    if (!recognitionRef.current) return
-    setTranscript('')
+    if (!engineRef.current) return
+    sessionFinalRef.current = ''
+    setCommitted('')
+    setFinalTranscript('')
+    setInterimTranscript('')
     setError(null)
     setIsListening(true)
-    recognitionRef.current.start()
-  }, [])
+    engineRef.current.start({ continuous, interimResults, language })
+    resetSilenceTimer()
+  }, [continuous, interimResults, language, resetSilenceTimer])
 
   const stopListening = useCallback(() => {
-    if (!recognitionRef.current) return
-    recognitionRef.current.stop()
-    setIsListening(false)
+    clearTimeout(silenceTimerRef.current)
+    engineRef.current?.stop()
   }, [])
 
-  return { transcript, isListening, isSupported, startListening, stopListening, error }
+  const accumulatedTranscript = joinText(committed, finalTranscript)
+
+  return {
+    transcript: joinText(accumulatedTranscript, interimTranscript),
+    finalTranscript,
+    interimTranscript,
+    accumulatedTranscript,
+    isListening,
+    isTranscribing,
+    isSupported,
+    engine,
+    startListening,
+    stopListening,
+    error,
+  }
 }
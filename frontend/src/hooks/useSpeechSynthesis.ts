@@ -0,0 +1,118 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+
+export interface SpeechSynthesisOptions {
+  /** `voiceURI` of the voice to use; the browser default if unset or not found. */
+  voiceURI?: string
+  /** 0.1 to 10, default 1. */
+  rate?: number
+  /** 0 to 2, default 1. */
+  pitch?: number
+  /** BCP 47 language tag used when no voice is chosen. */
+  language?: string
+}
+
+interface SpeakOptions {
+  /** Identifies what is being read, e.g. a message id, so the UI can mark it. */
+  id?: string
+  /** Called when the utterance finishes on its own (not when cancelled). */
+  onEnd?: () => void
+}
+
+interface SpeechSynthesisResult {
+  voices: SpeechSynthesisVoice[]
+  isSpeaking: boolean
+  /** The `id` passed to speak() for the utterance being read, if any. */
+  speakingId: string | null
+  isSupported: boolean
+  speak: (text: string, options?: SpeakOptions) => void
+  cancel: () => void
+  error: string | null
+}
+
+/**
+ * useSpeechSynthesis
+ *
+ * Wraps the browser's speechSynthesis API for reading text aloud.
+ * Speaking something new cancels whatever is currently being read.
+ * `isSupported` is false where the API is unavailable.
+ */
+export function useSpeechSynthesis({
+  voiceURI,
+  rate = 1,
+  pitch = 1,
+  language,
+}: SpeechSynthesisOptions = {}): SpeechSynthesisResult {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([])
+  const [speakingId, setSpeakingId] = useState<string | null>(null)
+  const [isSpeaking, setIsSpeaking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const utteranceRef = useRef<SpeechSynthesisUtterance | null>(null)
+
+  const isSupported = typeof window.speechSynthesis !== 'undefined'
+
+  // Voices load asynchronously in Chrome; `voiceschanged` fires when they're ready.
+  useEffect(() => {
+    if (!isSupported) return
+    const synth = window.speechSynthesis
+    const load = () => setVoices(synth.getVoices())
+    load()
+    synth.addEventListener('voiceschanged', load)
+    return () => synth.removeEventListener('voiceschanged', load)
+  }, [isSupported])
+
+  // Stop talking when the component using the hook unmounts.
+  useEffect(() => {
+    if (!isSupported) return
+    return () => window.speechSynthesis.cancel()
+  }, [isSupported])
+
+  const speak = useCallback((text: string, { id, onEnd }: SpeakOptions = {}) => {
+    if (!isSupported || !text.trim()) return
+    const synth = window.speechSynthesis
+    synth.cancel()
+
+    const utterance = new SpeechSynthesisUtterance(text)
+    const voice = voices.find((v) => v.voiceURI === voiceURI)
+    if (voice) {
+      utterance.voice = voice
+      utterance.lang = voice.lang
+    } else if (language) {
+      utterance.lang = language
+    }
+    utterance.rate = rate
+    utterance.pitch = pitch
+
+    const finish = () => {
+      // A cancelled utterance still fires end/error after the next one started.
+      if (utteranceRef.current !== utterance) return
+      utteranceRef.current = null
+      setIsSpeaking(false)
+      setSpeakingId(null)
+    }
+    utterance.onend = () => {
+      const wasCurrent = utteranceRef.current === utterance
+      finish()
+      if (wasCurrent) onEnd?.()
+    }
+    utterance.onerror = (event) => {
+      if (event.error !== 'canceled' && event.error !== 'interrupted') setError(event.error)
+      finish()
+    }
+
+    utteranceRef.current = utterance
+    setError(null)
+    setIsSpeaking(true)
+    setSpeakingId(id ?? null)
+    synth.speak(utterance)
+  }, [isSupported, voices, voiceURI, rate, pitch, language])
+
+  const cancel = useCallback(() => {
+    if (!isSupported) return
+    utteranceRef.current = null
+    window.speechSynthesis.cancel()
+    setIsSpeaking(false)
+    setSpeakingId(null)
+  }, [isSupported])
+
+  return { voices, isSpeaking, speakingId, isSupported, speak, cancel, error }
+}
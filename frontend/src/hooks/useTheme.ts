@@ -0,0 +1,28 @@
+import { useSyncExternalStore } from 'react'
+import { useAuth } from '../contexts/AuthContext'
+import { call, endpoints } from '../lib/api'
+import type { Theme } from '../lib/api'
+import { applyTheme, getTheme, subscribeTheme } from '../lib/theme'
+
+interface ThemeResult {
+  theme: Theme
+  /**
+   * Switch theme right away; when signed in, also save it to the account.
+   * Rejects if saving fails (the theme still applies on this device).
+   */
+  setTheme: (theme: Theme) => Promise<void>
+}
+
+export function useTheme(): ThemeResult {
+  const { user, refreshUser } = useAuth()
+  const theme = useSyncExternalStore(subscribeTheme, getTheme)
+
+  async function setTheme(next: Theme) {
+    applyTheme(next)
+    if (user && user.theme !== next) {
+      await refreshUser(await call(endpoints.updateProfile, { body: { theme: next } }))
+    }
+  }
+
+  return { theme, setTheme }
+}
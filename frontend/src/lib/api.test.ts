@@ -0,0 +1,65 @@
+import { describe, expect, it, vi } from 'vitest'
+import { addInterceptor, call, conversationsApi, endpoints } from './api'
+import type { ApiError } from './api'
+
+function respond(body: unknown, status = 200) {
+  const fetch = vi.fn(async () => new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  }))
+  vi.stubGlobal('fetch', fetch)
+  return fetch
+}
+
+describe('response checks', () => {
+  it('resolves with the checked response, without undeclared fields', async () => {
+    respond({ conversation_id: 7, title: null, started_at: '2026-01-01T00:00:00', last_message_at: null,
+      branched_from_id: null, owner_password_hash: 'x' })
+
+    const conversation = await conversationsApi.create()
+
+    expect(conversation).toEqual({
+      conversation_id: 7, title: null, started_at: '2026-01-01T00:00:00', last_message_at: null, branched_from_id: null,
+    })
+  })
+
+  it('rejects a response of the wrong shape with invalid_response, naming the field', async () => {
+    respond({ conversations: [{ conversation_id: '7', title: null }] })
+
+    await expect(conversationsApi.list()).rejects.toMatchObject({
+      name: 'ApiError',
+      code: 'invalid_response',
+      status: 200,
+      message: expect.stringContaining('GET /api/conversations — conversations[0].conversation_id: expected number'),
+    })
+  })
+
+  it('reports the failure to interceptors', async () => {
+    respond({ ok: 'yes' })
+    const errors: ApiError[] = []
+    const remove = addInterceptor({ onError: (error) => errors.push(error) })
+
+    await expect(call(endpoints.logout)).rejects.toMatchObject({ code: 'invalid_response' })
+    remove()
+
+    expect(errors.map((e) => e.code)).toEqual(['invalid_response'])
+  })
+
+  it('expects no body from a 204 endpoint', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(null, { status: 204 })))
+
+    await expect(conversationsApi.remove(7)).resolves.toBeUndefined()
+  })
+})
+
+describe('request checks', () => {
+  it('rejects a body that does not fit with validation, before sending anything', async () => {
+    const fetch = respond({})
+
+    await expect(call(endpoints.renameConversation, {
+      params: [7],
+      body: { title: 42 } as unknown as { title: string },
+    })).rejects.toMatchObject({ code: 'validation', status: 0, message: 'body.title: expected string, got number' })
+    expect(fetch).not.toHaveBeenCalled()
+  })
+})
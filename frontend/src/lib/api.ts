@@ -2,13 +2,35 @@
  * api.ts — thin fetch() wrapper for all Flask API calls.
  *
  * All requests go to /api/* which Vite proxies to Flask in dev,
- * and Flask serves directly in production.
+ * and Flask serves directly in production. Endpoints listed in the
+ * `endpoints` registry have their responses checked at runtime; call them
+ * with `call()`.
  */
 
+import { getLocale, translate } from './i18n'
+import { s, SchemaError } from './schema'
+import type { Infer, Schema } from './schema'
+
+// ─── Errors ───────────────────────────────────────────────────────────────────
+
+/**
+ * What went wrong, for callers that branch on it:
+ * `network` — no response at all; `timeout` — gave up waiting;
+ * `aborted` — the caller's signal fired; `validation` — 400/422, see fieldErrors;
+ * `unauthorized` — 401 (session missing or expired); `http` — any other status;
+ * `invalid_response` — a registry endpoint answered with the wrong shape.
+ */
+export type ApiErrorCode =
+  | 'network' | 'timeout' | 'aborted' | 'validation' | 'unauthorized' | 'http' | 'invalid_response'
+
 export interface ApiError {
   name: 'ApiError'
+  code: ApiErrorCode
+  /** HTTP status, or 0 when no response was received. */
   status: number
   message: string
+  /** Per-field messages from a validation error's `fields` object. */
+  fieldErrors?: Record<string, string>
 }
 
 export function isApiError(err: unknown): err is ApiError {
@@ -19,44 +41,1206 @@ export function isApiError(err: unknown): err is ApiError {
   )
 }
 
-function makeApiError(status: number, message: string): ApiError {
-  return { name: 'ApiError', status, message }
+function codeForStatus(status: number): ApiErrorCode {
+  if (status === 401) return 'unauthorized'
+  if (status === 400 || status === 422) return 'validation'
+  return 'http'
+}
+
+export function makeApiError(
+  status: number,
+  message: string,
+  code: ApiErrorCode = codeForStatus(status),
+  fieldErrors?: Record<string, string>,
+): ApiError {
+  return { name: 'ApiError', code, status, message, ...(fieldErrors && { fieldErrors }) }
+}
+
+/**
+ * Build an ApiError from a non-2xx response, preferring its JSON `error`
+ * field (and `fields` for validation errors), and report it to interceptors.
+ */
+export async function toApiError(res: Response, path = res.url): Promise<ApiError> {
+  let message = res.statusText
+  let fieldErrors: Record<string, string> | undefined
+  try {
+    const data = await res.json() as { error?: string; message?: string; fields?: Record<string, string> }
+    message = data.error ?? data.message ?? message
+    fieldErrors = data.fields
+  } catch {
+    // response wasn't JSON — use status text as-is
+  }
+  const error = makeApiError(res.status, message, codeForStatus(res.status), fieldErrors)
+  notifyError(error, path)
+  return error
+}
+
+// ─── Interceptors ─────────────────────────────────────────────────────────────
+
+export interface ApiInterceptor {
+  /** Called before every request; may add headers. */
+  onRequest?: (path: string, init: RequestInit & { headers: Headers }) => void
+  /** Called with every error a request fails with, before it is thrown. */
+  onError?: (error: ApiError, path: string) => void
+}
+
+const interceptors = new Set<ApiInterceptor>()
+
+/** Register an interceptor. Returns a function that removes it. */
+export function addInterceptor(interceptor: ApiInterceptor): () => void {
+  interceptors.add(interceptor)
+  return () => { interceptors.delete(interceptor) }
+}
+
+function notifyError(error: ApiError, path: string) {
+  for (const { onError } of interceptors) onError?.(error, path)
+}
+
+function prepareRequest(path: string, init: RequestInit): RequestInit {
+  const prepared = { ...init, credentials: 'include' as const, headers: new Headers(init.headers) }
+  for (const { onRequest } of interceptors) onRequest?.(path, prepared)
+  return prepared
+}
+
+// ─── Requests ─────────────────────────────────────────────────────────────────
+
+export interface RequestOptions {
+  /** Abort the request; it then rejects with code `aborted`. */
+  signal?: AbortSignal
+  /** Per-attempt time limit; 0 disables it. */
+  timeoutMs?: number
+  /**
+   * Extra attempts after a network error, timeout, or 502/503/504, with
+   * exponential backoff. Defaults to 2 for GET/PUT/DELETE and 0 for POST,
+   * which isn't safe to repeat.
+   */
+  retries?: number
+}
+
+const DEFAULT_TIMEOUT_MS = 15_000
+const DEFAULT_RETRIES = 2
+const RETRY_BASE_MS = 500
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'PUT', 'DELETE'])
+const RETRYABLE_STATUSES = new Set([502, 503, 504])
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(signal.reason)
+    }, { once: true })
+  })
+}
+
+/** One fetch attempt, honouring the caller's signal and the timeout. */
+async function attempt(path: string, init: RequestInit, signal?: AbortSignal, timeoutMs = 0): Promise<Response> {
+  const controller = new AbortController()
+  let timedOut = false
+  const onAbort = () => controller.abort()
+  if (signal?.aborted) controller.abort()
+  signal?.addEventListener('abort', onAbort, { once: true })
+  const timer = timeoutMs > 0
+    ? setTimeout(() => { timedOut = true; controller.abort() }, timeoutMs)
+    : undefined
+
+  try {
+    return await fetch(path, { ...init, signal: controller.signal })
+  } catch {
+    if (signal?.aborted) throw makeApiError(0, translate(getLocale(), 'api.aborted'), 'aborted')
+    if (timedOut) throw makeApiError(0, translate(getLocale(), 'api.timeout'), 'timeout')
+    throw makeApiError(0, translate(getLocale(), 'api.network'), 'network')
+  } finally {
+    clearTimeout(timer)
+    signal?.removeEventListener('abort', onAbort)
+  }
+}
+
+/** A single attempt for requests that can't be retried; failures are reported to interceptors. */
+async function send(path: string, init: RequestInit, signal?: AbortSignal, timeoutMs = 0): Promise<Response> {
+  try {
+    return await attempt(path, init, signal, timeoutMs)
+  } catch (err) {
+    notifyError(err as ApiError, path)
+    throw err
+  }
 }
 
-async function request<T>(
+async function request<T>(method: string, path: string, body?: unknown, options?: RequestOptions): Promise<T> {
+  const { data } = await requestWithStatus(method, path, body, options)
+  return data as T
+}
+
+/** Send a JSON request with retries; resolves with the parsed body and the final status. */
+async function requestWithStatus(
   method: string,
   path: string,
   body?: unknown,
-): Promise<T> {
-  const res = await fetch(path, {
+  { signal, timeoutMs = DEFAULT_TIMEOUT_MS, retries }: RequestOptions = {},
+): Promise<{ data: unknown; status: number }> {
+  const init = prepareRequest(path, {
     method,
     headers: {
       'Content-Type': 'application/json',
     },
-    credentials: 'include', // send session cookie with every request
     body: body !== undefined ? JSON.stringify(body) : undefined,
   })
+  const maxRetries = retries ?? (IDEMPOTENT_METHODS.has(method) ? DEFAULT_RETRIES : 0)
 
-  if (!res.ok) {
-    let message = res.statusText
+  for (let tries = 0; ; tries++) {
+    let res: Response
     try {
-      const data = await res.json() as Record<string, string>
-      message = data['error'] ?? data['message'] ?? message
-    } catch {
-      // response wasn't JSON — use status text as-is
+      res = await attempt(path, init, signal, timeoutMs)
+    } catch (err) {
+      const error = err as ApiError
+      if (error.code === 'aborted' || tries >= maxRetries) {
+        notifyError(error, path)
+        throw error
+      }
+      await backoff(tries, signal, path)
+      continue
+    }
+
+    if (RETRYABLE_STATUSES.has(res.status) && tries < maxRetries) {
+      await backoff(tries, signal, path)
+      continue
     }
-    throw makeApiError(res.status, message)
+    if (!res.ok) throw await toApiError(res, path)
+
+    // 204 No Content
+    if (res.status === 204) return { data: undefined, status: res.status }
+
+    return { data: await res.json(), status: res.status }
   }
+}
+
+/** Wait before retry number `tries + 1`: 0.5s, 1s, 2s… plus jitter. */
+async function backoff(tries: number, signal: AbortSignal | undefined, path: string) {
+  try {
+    await sleep(RETRY_BASE_MS * 2 ** tries * (1 + Math.random() / 2), signal)
+  } catch {
+    const error = makeApiError(0, translate(getLocale(), 'api.aborted'), 'aborted')
+    notifyError(error, path)
+    throw error
+  }
+}
 
-  // 204 No Content — return undefined cast to T
-  if (res.status === 204) return undefined as T
+// ─── Streaming ────────────────────────────────────────────────────────────────
 
-  return res.json() as Promise<T>
+export interface StreamOptions<TDone> {
+  /** Called with each text fragment as it arrives. */
+  onChunk: (chunk: string) => void
+  /** Called with the `done` event's payload (e.g. model and token usage). */
+  onDone?: (payload: TDone) => void
+  /** Checks the `done` payload; a mismatch rejects with `invalid_response`. */
+  done?: Schema<TDone>
+  /** Abort the request (e.g. from a Stop button). */
+  signal?: AbortSignal
+}
+
+/**
+ * POST `body` to `path` and consume the response incrementally.
+ *
+ * Server-Sent Events (`text/event-stream`) are parsed into events: each
+ * `data:` line is JSON `{ delta }`, an `error` event rejects with an ApiError,
+ * and a `done` event ends the stream, passing its payload to `onDone`. Any
+ * other content type is treated as plain chunked text. Resolves with the full
+ * concatenated text. If no response arrives at all, rejects with a `network`
+ * or `aborted` ApiError; there is no timeout or retry.
+ */
+async function stream<TDone = Record<string, never>>(
+  path: string,
+  body: unknown,
+  { onChunk, onDone, done: doneSchema, signal }: StreamOptions<TDone>,
+): Promise<string> {
+  const init = prepareRequest(path, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+    },
+    body: JSON.stringify(body),
+  })
+  const res = await send(path, init, signal)
+
+  if (!res.ok) throw await toApiError(res, path)
+  if (!res.body) throw makeApiError(res.status, 'Response has no body')
+
+  const isSse = (res.headers.get('Content-Type') ?? '').startsWith('text/event-stream')
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader()
+  let full = ''
+  let buffer = ''
+
+  function emit(text: string) {
+    if (!text) return
+    full += text
+    onChunk(text)
+  }
+
+  // Returns true once the `done` event has been seen.
+  function handleEvent(raw: string): boolean {
+    let event = 'message'
+    const data: string[] = []
+    for (const line of raw.split('\n')) {
+      if (line.startsWith('event:')) event = line.slice(6).trim()
+      else if (line.startsWith('data:')) data.push(line.slice(5).trimStart())
+    }
+    const payload = JSON.parse(data.join('\n') || '{}') as Record<string, string>
+    if (event === 'done') {
+      onDone?.(doneSchema ? validate(doneSchema, payload, 'POST', path, res.status) : payload as TDone)
+      return true
+    }
+    if (event === 'error') {
+      throw makeApiError(res.status, payload['error'] ?? 'Stream failed')
+    }
+    emit(payload['delta'] ?? '')
+    return false
+  }
+
+  try {
+    for (;;) {
+      const { value, done } = await reader.read()
+      if (done) break
+      if (!isSse) {
+        emit(value)
+        continue
+      }
+
+      buffer += value.replace(/\r\n/g, '\n')
+      let sep = buffer.indexOf('\n\n')
+      while (sep !== -1) {
+        const raw = buffer.slice(0, sep)
+        buffer = buffer.slice(sep + 2)
+        if (raw.trim() && handleEvent(raw)) return full
+        sep = buffer.indexOf('\n\n')
+      }
+    }
+    if (isSse && buffer.trim()) handleEvent(buffer)
+    return full
+  } finally {
+    // Drop the connection if we stopped early (done event, error, abort).
+    reader.cancel().catch(() => {})
+  }
 }
 
 export const api = {
-  get: <T>(path: string) => request<T>('GET', path),
-  post: <T>(path: string, body: unknown) => request<T>('POST', path, body),
-  put: <T>(path: string, body: unknown) => request<T>('PUT', path, body),
-  delete: <T>(path: string) => request<T>('DELETE', path),
+  get: <T>(path: string, options?: RequestOptions) => request<T>('GET', path, undefined, options),
+  post: <T>(path: string, body: unknown, options?: RequestOptions) => request<T>('POST', path, body, options),
+  put: <T>(path: string, body: unknown, options?: RequestOptions) => request<T>('PUT', path, body, options),
+  delete: <T>(path: string, options?: RequestOptions) => request<T>('DELETE', path, undefined, options),
+  stream,
+}
+
+// ─── Endpoint registry ────────────────────────────────────────────────────────
+
+/** Another user, as embedded in e.g. a video message. */
+const userRefSchema = s.object({ user_id: s.number(), username: s.string() })
+
+/** Access level; see lib/roles.ts. */
+const roleSchema = s.literal('user', 'coach', 'admin')
+export type Role = Infer<typeof roleSchema>
+
+/** Colour theme preference; see lib/theme.ts. */
+const themeSchema = s.literal('system', 'light', 'dark', 'high-contrast')
+export type Theme = Infer<typeof themeSchema>
+
+/** Interface language; see lib/i18n.ts. */
+const localeSchema = s.literal('en', 'es', 'ar', 'he')
+export type Locale = Infer<typeof localeSchema>
+
+/** What a notification is about; see lib/notifications.ts. */
+const notificationCategorySchema = s.literal('message', 'video', 'contact')
+export type NotificationCategory = Infer<typeof notificationCategorySchema>
+
+/** Whether a category's notifications pop up in the app and as browser notifications. */
+const notificationChannelsSchema = s.object({ toast: s.boolean(), browser: s.boolean() })
+export type NotificationChannels = Infer<typeof notificationChannelsSchema>
+
+const notificationPreferencesSchema = s.object({
+  message: notificationChannelsSchema,
+  video: notificationChannelsSchema,
+  contact: notificationChannelsSchema,
+})
+export type NotificationPreferences = Infer<typeof notificationPreferencesSchema>
+
+/** The signed-in user. */
+export const userSchema = s.object({
+  user_id: s.number(),
+  username: s.string(),
+  display_name: s.nullable(s.string()),
+  bio: s.nullable(s.string()),
+  avatar_url: s.nullable(s.string()),
+  role: roleSchema,
+  theme: themeSchema,
+  notification_preferences: notificationPreferencesSchema,
+  /** Null until picked on the Profile page; the browser's language applies until then. */
+  locale: s.nullable(localeSchema),
+})
+export type User = Infer<typeof userSchema>
+
+const credentialsSchema = s.object({ username: s.string(), password: s.string() })
+
+/** One sign-in, as listed on the Profile page. */
+const sessionInfoSchema = s.object({
+  session_id: s.number(),
+  /** Signed in with "remember me" — the long lifetime. */
+  remember: s.boolean(),
+  user_agent: s.nullable(s.string()),
+  ip_address: s.nullable(s.string()),
+  created_at: s.string(),
+  last_seen_at: s.string(),
+  expires_at: s.string(),
+  /** This browser's session. */
+  current: s.boolean(),
+})
+export type SessionInfo = Infer<typeof sessionInfoSchema>
+
+/** A user as listed in the admin console. */
+const adminUserSchema = s.object({
+  user_id: s.number(),
+  username: s.string(),
+  display_name: s.nullable(s.string()),
+  role: roleSchema,
+  disabled: s.boolean(),
+  last_seen_at: s.nullable(s.string()),
+  message_count: s.number(),
+})
+export type AdminUser = Infer<typeof adminUserSchema>
+
+const adminStatsSchema = s.object({
+  totals: s.object({
+    users: s.number(),
+    disabled_users: s.number(),
+    active_today: s.number(),
+    messages: s.number(),
+    uploads: s.number(),
+    upload_bytes: s.number(),
+  }),
+  /** Oldest first, one entry per day including empty ones. */
+  days: s.array(s.object({ date: s.string(), messages: s.number(), uploads: s.number(), upload_bytes: s.number() })),
+})
+export type AdminStats = Infer<typeof adminStatsSchema>
+
+/** A bell-menu notification; also pushed live as a realtime `notification` event. */
+const appNotificationSchema = s.object({
+  notification_id: s.number(),
+  category: notificationCategorySchema,
+  title: s.string(),
+  body: s.nullable(s.string()),
+  /** In-app path to open, e.g. /messages/12. */
+  link: s.nullable(s.string()),
+  read: s.boolean(),
+  created_at: s.string(),
+})
+export type AppNotification = Infer<typeof appNotificationSchema>
+
+const notificationListSchema = s.object({
+  /** Newest first; only the latest page. */
+  notifications: s.array(appNotificationSchema),
+  unread: s.number(),
+})
+export type NotificationList = Infer<typeof notificationListSchema>
+
+const tokenUsageSchema = s.object({
+  prompt_tokens: s.number(),
+  completion_tokens: s.number(),
+  total_tokens: s.number(),
+})
+export type TokenUsage = Infer<typeof tokenUsageSchema>
+export type FinishReason = ChatResponseMeta['finish_reason']
+
+const chatMetaShape = {
+  model: s.string(),
+  usage: s.nullable(tokenUsageSchema),
+  finish_reason: s.literal('stop', 'length', 'error'),
+  /** Ids of the saved prompt and reply; null when the chat isn't saved to a thread. */
+  user_message_id: s.nullable(s.number()),
+  message_id: s.nullable(s.number()),
+}
+
+/** Reply metadata — the `done` event payload when streaming. */
+export const chatResponseMetaSchema = s.object(chatMetaShape)
+export type ChatResponseMeta = Infer<typeof chatResponseMetaSchema>
+
+/** Non-streaming POST /api/chat response. */
+const chatResponseSchema = s.object({ response: s.string(), ...chatMetaShape })
+export type ChatResponse = Infer<typeof chatResponseSchema>
+
+const chatRequestSchema = s.object({
+  message: s.string(),
+  conversation_id: s.optional(s.number()),
+  /** Context to use instead of the conversation's stored messages. */
+  history: s.optional(s.array(s.object({ role: s.literal('user', 'assistant'), content: s.string() }))),
+  /** Answer the thread's last (user) message again instead of `message`. */
+  regenerate: s.optional(s.boolean()),
+  /** Uploads from uploadAttachment() to attach to `message`. */
+  attachment_ids: s.optional(s.array(s.string())),
+})
+
+const uploadSessionSchema = s.object({
+  upload_id: s.string(),
+  filename: s.string(),
+  size: s.number(),
+  chunk_size: s.number(),
+  total_chunks: s.number(),
+  received: s.array(s.number()),
+})
+export type UploadSession = Infer<typeof uploadSessionSchema>
+
+const uploadResultSchema = s.object({
+  upload_id: s.string(),
+  filename: s.string(),
+  mime_type: s.string(),
+  size: s.number(),
+})
+export type UploadResult = Infer<typeof uploadResultSchema>
+
+/** A file attached to a chat message; `url` serves it to its owner. */
+const attachmentSchema = s.object({
+  upload_id: s.string(),
+  name: s.string(),
+  mime_type: s.string(),
+  size: s.number(),
+  url: s.string(),
+})
+export type Attachment = Infer<typeof attachmentSchema>
+
+const videoMessageSchema = s.object({
+  video_id: s.number(),
+  sender: userRefSchema,
+  recipient: userRefSchema,
+  duration_ms: s.nullable(s.number()),
+  viewed: s.boolean(),
+  created_at: s.string(),
+  mime_type: s.string(),
+  url: s.string(),
+  thumbnail_url: s.nullable(s.string()),
+})
+export type VideoMessage = Infer<typeof videoMessageSchema>
+
+const inboxSchema = s.object({ username: s.string(), videos: s.array(videoMessageSchema) })
+export type InboxResponse = Infer<typeof inboxSchema>
+
+const sendVideoSchema = s.object({
+  upload_id: s.string(),
+  thumbnail_upload_id: s.optional(s.string()),
+  recipient: s.string(),
+  duration_ms: s.optional(s.number()),
+})
+export type SendVideoRequest = Infer<typeof sendVideoSchema>
+
+const conversationSchema = s.object({
+  conversation_id: s.number(),
+  title: s.nullable(s.string()),
+  started_at: s.string(),
+  last_message_at: s.nullable(s.string()),
+  /** The thread this one was branched from by an edit or regenerate, if any. */
+  branched_from_id: s.nullable(s.number()),
+})
+export type Conversation = Infer<typeof conversationSchema>
+
+const chatMessageSchema = s.object({
+  message_id: s.number(),
+  conversation_id: s.number(),
+  role: s.literal('user', 'assistant'),
+  content: s.string(),
+  created_at: s.string(),
+  attachments: s.array(attachmentSchema),
+})
+export type ChatMessage = Infer<typeof chatMessageSchema>
+
+const messagePageSchema = s.object({ messages: s.array(chatMessageSchema), has_more: s.boolean() })
+export type MessagePage = Infer<typeof messagePageSchema>
+
+const historyTypeSchema = s.literal('conversation', 'transcript')
+export type HistoryType = Infer<typeof historyTypeSchema>
+
+const historyItemSchema = s.object({
+  type: historyTypeSchema,
+  id: s.number(),
+  conversation_id: s.nullable(s.number()),
+  /** Set on search hits inside a conversation. */
+  message_id: s.nullable(s.number()),
+  title: s.nullable(s.string()),
+  snippet: s.string(),
+  created_at: s.string(),
+})
+export type HistoryItem = Infer<typeof historyItemSchema>
+
+const historyPageSchema = s.object({ items: s.array(historyItemSchema), next_offset: s.nullable(s.number()) })
+export type HistoryPage = Infer<typeof historyPageSchema>
+
+const contactStatusSchema = s.literal('pending', 'accepted', 'blocked')
+export type ContactStatus = Infer<typeof contactStatusSchema>
+
+/** `outgoing` if the current user sent the request (or did the blocking). */
+const contactDirectionSchema = s.literal('incoming', 'outgoing')
+export type ContactDirection = Infer<typeof contactDirectionSchema>
+
+const contactSchema = s.object({
+  contact_id: s.number(),
+  user_id: s.number(),
+  username: s.string(),
+  status: contactStatusSchema,
+  direction: contactDirectionSchema,
+  created_at: s.string(),
+})
+export type Contact = Infer<typeof contactSchema>
+
+const userSearchResultSchema = s.object({
+  user_id: s.number(),
+  username: s.string(),
+  contact_id: s.nullable(s.number()),
+  status: s.nullable(contactStatusSchema),
+  direction: s.nullable(contactDirectionSchema),
+})
+export type UserSearchResult = Infer<typeof userSearchResultSchema>
+
+const directConversationSchema = s.object({
+  conversation_id: s.number(),
+  started_at: s.string(),
+  user: userRefSchema,
+})
+export type DirectConversation = Infer<typeof directConversationSchema>
+
+const directMessageSchema = s.object({
+  message_id: s.number(),
+  conversation_id: s.number(),
+  sender_id: s.number(),
+  content: s.string(),
+  created_at: s.string(),
+  delivered_at: s.nullable(s.string()),
+  read_at: s.nullable(s.string()),
+})
+export type DirectMessage = Infer<typeof directMessageSchema>
+
+const coachSessionTypeSchema = s.literal('check_in', 'conflict_prep', 'reflection')
+export type CoachSessionType = Infer<typeof coachSessionTypeSchema>
+
+const coachSessionTypeInfoSchema = s.object({
+  session_type: coachSessionTypeSchema,
+  label: s.string(),
+  description: s.string(),
+  step_count: s.number(),
+})
+export type CoachSessionTypeInfo = Infer<typeof coachSessionTypeInfoSchema>
+
+const goalStatusSchema = s.literal('open', 'done')
+export type GoalStatus = Infer<typeof goalStatusSchema>
+
+const goalSchema = s.object({
+  goal_id: s.number(),
+  /** The session whose action items produced this goal; null if added by hand. */
+  session_id: s.nullable(s.number()),
+  title: s.string(),
+  status: goalStatusSchema,
+  created_at: s.string(),
+  completed_at: s.nullable(s.string()),
+})
+export type Goal = Infer<typeof goalSchema>
+
+const coachResponseSchema = s.object({
+  step: s.number(),
+  prompt: s.string(),
+  answer: s.string(),
+  created_at: s.string(),
+})
+export type CoachResponse = Infer<typeof coachResponseSchema>
+
+const coachSessionSummaryShape = {
+  session_id: s.number(),
+  session_type: coachSessionTypeSchema,
+  status: s.literal('active', 'completed'),
+  summary: s.nullable(s.string()),
+  started_at: s.string(),
+  completed_at: s.nullable(s.string()),
+  step_count: s.number(),
+}
+
+/** As returned by the sessions list. */
+const coachSessionSummarySchema = s.object(coachSessionSummaryShape)
+export type CoachSessionSummary = Infer<typeof coachSessionSummarySchema>
+
+/** A single session with its answers so far and, once complete, its goals. */
+const coachSessionSchema = s.object({
+  ...coachSessionSummaryShape,
+  responses: s.array(coachResponseSchema),
+  current_step: s.number(),
+  /** The prompt awaiting an answer; null once the session is complete. */
+  prompt: s.nullable(s.string()),
+  goals: s.array(goalSchema),
+})
+export type CoachSession = Infer<typeof coachSessionSchema>
+
+export interface HistoryQuery {
+  q?: string
+  type?: HistoryType
+  from?: string   // YYYY-MM-DD, inclusive
+  to?: string     // YYYY-MM-DD, inclusive
+  offset?: number
+}
+
+/** `?before=` for the paged message lists, when paging further back. */
+function beforeQuery(before?: number): string {
+  return before !== undefined ? `?before=${before}` : ''
+}
+
+function historyQuery(query: HistoryQuery): string {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== '') params.set(key, String(value))
+  }
+  return params.toString()
+}
+
+type Method = 'GET' | 'POST' | 'PUT' | 'DELETE'
+
+export interface Endpoint<P extends unknown[], B, R> {
+  method: Method
+  path: (...params: P) => string
+  /** Request body; `s.empty()` for none. */
+  body: Schema<B>
+  response: Schema<R>
+}
+
+function endpoint<P extends unknown[], B, R>(spec: Endpoint<P, B, R>): Endpoint<P, B, R> {
+  return spec
+}
+
+/**
+ * Every route whose response is checked at runtime, with its request and
+ * response schemas. Routes not listed here still go through `api` unchecked.
+ */
+export const endpoints = {
+  // Auth
+  me: endpoint({ method: 'GET', path: () => '/api/me', body: s.empty(), response: userSchema }),
+  login: endpoint({
+    method: 'POST',
+    path: () => '/api/login',
+    body: s.object({ username: s.string(), password: s.string(), remember: s.optional(s.boolean()) }),
+    response: userSchema,
+  }),
+  register: endpoint({ method: 'POST', path: () => '/api/register', body: credentialsSchema, response: userSchema }),
+  usernameAvailable: endpoint({
+    method: 'GET',
+    path: (username: string) => `/api/users/available?username=${encodeURIComponent(username)}`,
+    body: s.empty(),
+    response: s.object({ username: s.string(), available: s.boolean(), error: s.nullable(s.string()) }),
+  }),
+  logout: endpoint({
+    method: 'POST', path: () => '/api/logout', body: s.empty(), response: s.object({ ok: s.boolean() }),
+  }),
+
+  // Sessions
+  sessions: endpoint({
+    method: 'GET',
+    path: () => '/api/sessions',
+    body: s.empty(),
+    response: s.object({ sessions: s.array(sessionInfoSchema) }),
+  }),
+  currentSession: endpoint({
+    method: 'GET', path: () => '/api/sessions/current', body: s.empty(), response: sessionInfoSchema,
+  }),
+  refreshSession: endpoint({
+    method: 'POST', path: () => '/api/sessions/current/refresh', body: s.empty(), response: sessionInfoSchema,
+  }),
+  revokeSession: endpoint({
+    method: 'DELETE', path: (sessionId: number) => `/api/sessions/${sessionId}`, body: s.empty(), response: s.empty(),
+  }),
+  /** Sign out everywhere, or everywhere else with `keep_current`. */
+  revokeAllSessions: endpoint({
+    method: 'POST',
+    path: () => '/api/sessions/revoke-all',
+    body: s.object({ keep_current: s.optional(s.boolean()) }),
+    response: s.empty(),
+  }),
+
+  // Account
+  updateProfile: endpoint({
+    method: 'PUT',
+    path: () => '/api/me',
+    body: s.object({
+      display_name: s.optional(s.string()),
+      bio: s.optional(s.string()),
+      theme: s.optional(themeSchema),
+      locale: s.optional(localeSchema),
+      /** Only the categories and channels given change. */
+      notification_preferences: s.optional(s.object({
+        message: s.optional(notificationChannelsSchema),
+        video: s.optional(notificationChannelsSchema),
+        contact: s.optional(notificationChannelsSchema),
+      })),
+    }),
+    response: userSchema,
+  }),
+  removeAvatar: endpoint({ method: 'DELETE', path: () => '/api/me/avatar', body: s.empty(), response: userSchema }),
+  changePassword: endpoint({
+    method: 'POST',
+    path: () => '/api/me/password',
+    body: s.object({ current_password: s.string(), new_password: s.string() }),
+    response: s.object({ ok: s.boolean() }),
+  }),
+  deleteAccount: endpoint({
+    method: 'DELETE', path: () => '/api/me', body: s.object({ password: s.string() }), response: s.empty(),
+  }),
+
+  // Admin
+  adminUsers: endpoint({
+    method: 'GET',
+    path: (query: string) => `/api/admin/users?q=${encodeURIComponent(query)}`,
+    body: s.empty(),
+    response: s.object({ users: s.array(adminUserSchema) }),
+  }),
+  updateAdminUser: endpoint({
+    method: 'PUT',
+    path: (userId: number) => `/api/admin/users/${userId}`,
+    body: s.object({ role: s.optional(roleSchema), disabled: s.optional(s.boolean()) }),
+    response: adminUserSchema,
+  }),
+  /** Sets a random temporary password and returns it once. */
+  resetUserPassword: endpoint({
+    method: 'POST',
+    path: (userId: number) => `/api/admin/users/${userId}/reset-password`,
+    body: s.empty(),
+    response: s.object({ temporary_password: s.string() }),
+  }),
+  adminStats: endpoint({ method: 'GET', path: () => '/api/admin/stats', body: s.empty(), response: adminStatsSchema }),
+
+  // Notifications
+  notifications: endpoint({
+    method: 'GET', path: () => '/api/notifications', body: s.empty(), response: notificationListSchema,
+  }),
+  markNotificationRead: endpoint({
+    method: 'POST',
+    path: (notificationId: number) => `/api/notifications/${notificationId}/read`,
+    body: s.empty(),
+    response: appNotificationSchema,
+  }),
+  markAllNotificationsRead: endpoint({
+    method: 'POST', path: () => '/api/notifications/read-all', body: s.empty(), response: s.empty(),
+  }),
+
+  // Chat
+  chat: endpoint({ method: 'POST', path: () => '/api/chat', body: chatRequestSchema, response: chatResponseSchema }),
+
+  // Conversations
+  conversations: endpoint({
+    method: 'GET',
+    path: () => '/api/conversations',
+    body: s.empty(),
+    response: s.object({ conversations: s.array(conversationSchema) }),
+  }),
+  createConversation: endpoint({
+    method: 'POST',
+    path: () => '/api/conversations',
+    body: s.object({ title: s.optional(s.string()) }),
+    response: conversationSchema,
+  }),
+  renameConversation: endpoint({
+    method: 'PUT',
+    path: (conversationId: number) => `/api/conversations/${conversationId}`,
+    body: s.object({ title: s.string() }),
+    response: conversationSchema,
+  }),
+  deleteConversation: endpoint({
+    method: 'DELETE',
+    path: (conversationId: number) => `/api/conversations/${conversationId}`,
+    body: s.empty(),
+    response: s.empty(),
+  }),
+  /** One page of messages, oldest first; pass `before` to page further back. */
+  conversationMessages: endpoint({
+    method: 'GET',
+    path: (conversationId: number, before?: number) =>
+      `/api/conversations/${conversationId}/messages${beforeQuery(before)}`,
+    body: s.empty(),
+    response: messagePageSchema,
+  }),
+  /** A new thread with copies of the messages before `before_message_id`; the original is left as is. */
+  branchConversation: endpoint({
+    method: 'POST',
+    path: (conversationId: number) => `/api/conversations/${conversationId}/branch`,
+    body: s.object({ before_message_id: s.number() }),
+    response: conversationSchema,
+  }),
+  deleteMessage: endpoint({
+    method: 'DELETE',
+    path: (conversationId: number, messageId: number) => `/api/conversations/${conversationId}/messages/${messageId}`,
+    body: s.empty(),
+    response: s.empty(),
+  }),
+
+  // History
+  history: endpoint({
+    method: 'GET',
+    path: (query: HistoryQuery) => `/api/history?${historyQuery(query)}`,
+    body: s.empty(),
+    response: historyPageSchema,
+  }),
+  saveTranscript: endpoint({
+    method: 'POST',
+    path: () => '/api/transcribe',
+    body: s.object({ transcript: s.string() }),
+    response: s.object({ ok: s.boolean(), transcript_id: s.number(), transcript: s.string() }),
+  }),
+
+  // Contacts
+  contacts: endpoint({
+    method: 'GET',
+    path: () => '/api/contacts',
+    body: s.empty(),
+    response: s.object({ contacts: s.array(contactSchema) }),
+  }),
+  searchUsers: endpoint({
+    method: 'GET',
+    path: (q: string) => `/api/users/search?q=${encodeURIComponent(q)}`,
+    body: s.empty(),
+    response: s.object({ users: s.array(userSearchResultSchema) }),
+  }),
+  requestContact: endpoint({
+    method: 'POST', path: () => '/api/contacts', body: s.object({ username: s.string() }), response: contactSchema,
+  }),
+  acceptContact: endpoint({
+    method: 'POST',
+    path: (contactId: number) => `/api/contacts/${contactId}/accept`,
+    body: s.empty(),
+    response: contactSchema,
+  }),
+  blockContact: endpoint({
+    method: 'POST',
+    path: (contactId: number) => `/api/contacts/${contactId}/block`,
+    body: s.empty(),
+    response: contactSchema,
+  }),
+  /** Remove a contact, decline or cancel a request, or unblock. */
+  removeContact: endpoint({
+    method: 'DELETE', path: (contactId: number) => `/api/contacts/${contactId}`, body: s.empty(), response: s.empty(),
+  }),
+  /** Open (or create) the 1:1 conversation with an accepted contact. */
+  startDirectConversation: endpoint({
+    method: 'POST',
+    path: (contactId: number) => `/api/contacts/${contactId}/conversation`,
+    body: s.empty(),
+    response: directConversationSchema,
+  }),
+
+  // Direct messages
+  directConversation: endpoint({
+    method: 'GET',
+    path: (conversationId: number) => `/api/direct/${conversationId}`,
+    body: s.empty(),
+    response: directConversationSchema,
+  }),
+  directMessages: endpoint({
+    method: 'GET',
+    path: (conversationId: number, before?: number) => `/api/direct/${conversationId}/messages${beforeQuery(before)}`,
+    body: s.empty(),
+    response: s.object({ messages: s.array(directMessageSchema), has_more: s.boolean() }),
+  }),
+  sendDirectMessage: endpoint({
+    method: 'POST',
+    path: (conversationId: number) => `/api/direct/${conversationId}/messages`,
+    body: s.object({ content: s.string() }),
+    response: directMessageSchema,
+  }),
+
+  // Uploads
+  startUpload: endpoint({
+    method: 'POST',
+    path: () => '/api/uploads',
+    body: s.object({ filename: s.string(), size: s.number(), mime_type: s.string() }),
+    response: uploadSessionSchema,
+  }),
+  uploadStatus: endpoint({
+    method: 'GET',
+    path: (uploadId: string) => `/api/uploads/${uploadId}`,
+    body: s.empty(),
+    response: uploadSessionSchema,
+  }),
+  completeUpload: endpoint({
+    method: 'POST',
+    path: (uploadId: string) => `/api/uploads/${uploadId}/complete`,
+    body: s.empty(),
+    response: uploadResultSchema,
+  }),
+
+  // Videos
+  inbox: endpoint({
+    method: 'GET',
+    path: (username: string) => `/api/inbox/${encodeURIComponent(username)}`,
+    body: s.empty(),
+    response: inboxSchema,
+  }),
+  sendVideo: endpoint({ method: 'POST', path: () => '/api/videos', body: sendVideoSchema, response: videoMessageSchema }),
+  markVideoViewed: endpoint({
+    method: 'POST',
+    path: (videoId: number) => `/api/videos/${videoId}/viewed`,
+    body: s.empty(),
+    response: videoMessageSchema,
+  }),
+
+  // Coach
+  coachSessionTypes: endpoint({
+    method: 'GET',
+    path: () => '/api/coach/session-types',
+    body: s.empty(),
+    response: s.object({ session_types: s.array(coachSessionTypeInfoSchema) }),
+  }),
+  coachSessions: endpoint({
+    method: 'GET',
+    path: () => '/api/coach/sessions',
+    body: s.empty(),
+    response: s.object({ sessions: s.array(coachSessionSummarySchema) }),
+  }),
+  startCoachSession: endpoint({
+    method: 'POST',
+    path: () => '/api/coach/sessions',
+    body: s.object({ session_type: coachSessionTypeSchema }),
+    response: coachSessionSchema,
+  }),
+  coachSession: endpoint({
+    method: 'GET',
+    path: (sessionId: number) => `/api/coach/sessions/${sessionId}`,
+    body: s.empty(),
+    response: coachSessionSchema,
+  }),
+  /** Answer the current prompt; answering the last one completes the session. */
+  answerCoachSession: endpoint({
+    method: 'POST',
+    path: (sessionId: number) => `/api/coach/sessions/${sessionId}/responses`,
+    body: s.object({ answer: s.string() }),
+    response: coachSessionSchema,
+  }),
+  deleteCoachSession: endpoint({
+    method: 'DELETE',
+    path: (sessionId: number) => `/api/coach/sessions/${sessionId}`,
+    body: s.empty(),
+    response: s.empty(),
+  }),
+  goals: endpoint({
+    method: 'GET',
+    path: (status?: GoalStatus) => `/api/coach/goals${status ? `?status=${status}` : ''}`,
+    body: s.empty(),
+    response: s.object({ goals: s.array(goalSchema) }),
+  }),
+  addGoal: endpoint({
+    method: 'POST', path: () => '/api/coach/goals', body: s.object({ title: s.string() }), response: goalSchema,
+  }),
+  updateGoal: endpoint({
+    method: 'PUT',
+    path: (goalId: number) => `/api/coach/goals/${goalId}`,
+    body: s.object({ title: s.optional(s.string()), status: s.optional(goalStatusSchema) }),
+    response: goalSchema,
+  }),
+  deleteGoal: endpoint({
+    method: 'DELETE', path: (goalId: number) => `/api/coach/goals/${goalId}`, body: s.empty(), response: s.empty(),
+  }),
+}
+
+/** Download of everything stored about the signed-in user (served as an attachment). */
+export const EXPORT_DATA_URL = '/api/me/export'
+
+/** Replace the signed-in user's avatar with `image` (already cropped); resolves with the updated user. */
+export async function uploadAvatar(image: Blob): Promise<User> {
+  const path = '/api/me/avatar'
+  const form = new FormData()
+  form.append('avatar', image, 'avatar')
+  const res = await send(path, prepareRequest(path, { method: 'POST', body: form }), undefined, DEFAULT_TIMEOUT_MS)
+  if (!res.ok) throw await toApiError(res, path)
+  return validate(userSchema, await res.json(), 'POST', path, res.status)
+}
+
+export interface AttachmentUploadOptions {
+  /** Fraction of the file sent so far, 0 to 1. */
+  onProgress?: (fraction: number) => void
+  signal?: AbortSignal
+}
+
+/**
+ * Upload a file to attach to a chat message. Uses XMLHttpRequest, since
+ * fetch can't report upload progress.
+ */
+export function uploadAttachment(file: File, { onProgress, signal }: AttachmentUploadOptions = {}): Promise<Attachment> {
+  const path = '/api/upload'
+  const init = prepareRequest(path, { method: 'POST' })
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+    const fail = (error: ApiError) => {
+      notifyError(error, path)
+      reject(error)
+    }
+
+    xhr.open('POST', path)
+    xhr.withCredentials = true
+    new Headers(init.headers).forEach((value, name) => xhr.setRequestHeader(name, value))
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress?.(e.loaded / e.total)
+    }
+    xhr.onload = () => {
+      if (xhr.status < 200 || xhr.status >= 300) {
+        toApiError(new Response(xhr.responseText, { status: xhr.status, statusText: xhr.statusText }), path)
+          .then(reject)
+        return
+      }
+      try {
+        resolve(validate(attachmentSchema, JSON.parse(xhr.responseText), 'POST', path, xhr.status))
+      } catch (err) {
+        reject(isApiError(err) ? err : makeApiError(xhr.status, `Unexpected response from POST ${path}`, 'invalid_response'))
+      }
+    }
+    xhr.onerror = () => fail(makeApiError(0, translate(getLocale(), 'api.network'), 'network'))
+    xhr.onabort = () => fail(makeApiError(0, translate(getLocale(), 'api.aborted'), 'aborted'))
+
+    if (signal?.aborted) {
+      fail(makeApiError(0, translate(getLocale(), 'api.aborted'), 'aborted'))
+      return
+    }
+    signal?.addEventListener('abort', () => xhr.abort(), { once: true })
+    const form = new FormData()
+    form.append('file', file, file.name)
+    xhr.send(form)
+  })
+}
+
+type CallArgs<P extends unknown[], B> = RequestOptions
+  & (P extends [] ? { params?: [] } : { params: P })
+  & (undefined extends B ? { body?: B } : { body: B })
+
+/** Parse `value` or throw an `invalid_response` ApiError naming the endpoint and the bad field. */
+function validate<T>(schema: Schema<T>, value: unknown, method: string, path: string, status: number): T {
+  try {
+    return schema.parse(value)
+  } catch (err) {
+    if (!(err instanceof SchemaError)) throw err
+    const error = makeApiError(status, `Unexpected response from ${method} ${path} — ${err.message}`, 'invalid_response')
+    notifyError(error, path)
+    throw error
+  }
+}
+
+/**
+ * Call a registry endpoint: check the body, send it, and check the response
+ * against the endpoint's schema. A body that doesn't fit rejects with
+ * `validation` before anything is sent.
+ */
+export async function call<P extends unknown[], B, R>(
+  spec: Endpoint<P, B, R>,
+  ...[args]: object extends CallArgs<P, B> ? [CallArgs<P, B>?] : [CallArgs<P, B>]
+): Promise<R> {
+  const { params, body, ...options } = (args ?? {}) as { params?: P; body?: B } & RequestOptions
+  const path = spec.path(...(params ?? [] as unknown as P))
+  let checked: B
+  try {
+    checked = spec.body.parse(body, 'body')
+  } catch (err) {
+    if (!(err instanceof SchemaError)) throw err
+    throw makeApiError(0, err.message, 'validation')
+  }
+  // POSTs without a body still send `{}` — Flask's get_json() expects JSON.
+  const payload = checked === undefined && spec.method !== 'GET' && spec.method !== 'DELETE' ? {} : checked
+  const { data, status } = await requestWithStatus(spec.method, path, payload, options)
+  return validate(spec.response, data, spec.method, path, status)
+}
+
+// ─── Conversations ────────────────────────────────────────────────────────────
+
+export const conversationsApi = {
+  list: () =>
+    call(endpoints.conversations).then((data) => data.conversations),
+  create: (title?: string) =>
+    call(endpoints.createConversation, { body: { title } }),
+  rename: (id: number, title: string) =>
+    call(endpoints.renameConversation, { params: [id], body: { title } }),
+  remove: (id: number) =>
+    call(endpoints.deleteConversation, { params: [id] }),
+  /** One page of messages, oldest first; pass `before` to page further back. */
+  messages: (id: number, before?: number) =>
+    call(endpoints.conversationMessages, { params: [id, before] }),
+  /** A new thread with copies of the messages before `beforeMessageId`; the original is left as is. */
+  branch: (id: number, beforeMessageId: number) =>
+    call(endpoints.branchConversation, { params: [id], body: { before_message_id: beforeMessageId } }),
+  removeMessage: (id: number, messageId: number) =>
+    call(endpoints.deleteMessage, { params: [id, messageId] }),
+}
+
+// ─── History ──────────────────────────────────────────────────────────────────
+
+/** Delimiters the server wraps around search matches in `HistoryItem.snippet`. */
+export const HIGHLIGHT_START = '\uE000'
+export const HIGHLIGHT_STOP = '\uE001'
+
+export const historyApi = {
+  search: (query: HistoryQuery) =>
+    call(endpoints.history, { params: [query] }),
+  saveTranscript: (transcript: string) =>
+    call(endpoints.saveTranscript, { body: { transcript } }),
+}
+
+// ─── Contacts ─────────────────────────────────────────────────────────────────
+
+export const contactsApi = {
+  list: () =>
+    call(endpoints.contacts).then((data) => data.contacts),
+  searchUsers: (q: string) =>
+    call(endpoints.searchUsers, { params: [q] }).then((data) => data.users),
+  request: (username: string) =>
+    call(endpoints.requestContact, { body: { username } }),
+  accept: (contactId: number) =>
+    call(endpoints.acceptContact, { params: [contactId] }),
+  block: (contactId: number) =>
+    call(endpoints.blockContact, { params: [contactId] }),
+  /** Remove a contact, decline or cancel a request, or unblock. */
+  remove: (contactId: number) =>
+    call(endpoints.removeContact, { params: [contactId] }),
+  /** Open (or create) the 1:1 conversation with an accepted contact. */
+  startConversation: (contactId: number) =>
+    call(endpoints.startDirectConversation, { params: [contactId] }),
+}
+
+export const directApi = {
+  get: (conversationId: number) =>
+    call(endpoints.directConversation, { params: [conversationId] }),
+  messages: (conversationId: number, before?: number) =>
+    call(endpoints.directMessages, { params: [conversationId, before] }),
+  send: (conversationId: number, content: string) =>
+    call(endpoints.sendDirectMessage, { params: [conversationId], body: { content } }),
+}
+
+// ─── Videos ───────────────────────────────────────────────────────────────────
+
+export const videosApi = {
+  /** The server only returns the signed-in user's own inbox. */
+  inbox: (username: string) =>
+    call(endpoints.inbox, { params: [username] }),
+  send: (body: SendVideoRequest) =>
+    call(endpoints.sendVideo, { body }),
+  markViewed: (videoId: number) =>
+    call(endpoints.markVideoViewed, { params: [videoId] }),
+}
+
+// ─── Coach ────────────────────────────────────────────────────────────────────
+
+export const coachApi = {
+  sessionTypes: () =>
+    call(endpoints.coachSessionTypes).then((data) => data.session_types),
+  sessions: () =>
+    call(endpoints.coachSessions).then((data) => data.sessions),
+  start: (sessionType: CoachSessionType) =>
+    call(endpoints.startCoachSession, { body: { session_type: sessionType } }),
+  get: (sessionId: number) =>
+    call(endpoints.coachSession, { params: [sessionId] }),
+  /** Answer the current prompt; answering the last one completes the session. */
+  answer: (sessionId: number, answer: string) =>
+    call(endpoints.answerCoachSession, { params: [sessionId], body: { answer } }),
+  removeSession: (sessionId: number) =>
+    call(endpoints.deleteCoachSession, { params: [sessionId] }),
+  goals: (status?: GoalStatus) =>
+    call(endpoints.goals, { params: [status] }).then((data) => data.goals),
+  addGoal: (title: string) =>
+    call(endpoints.addGoal, { body: { title } }),
+  updateGoal: (goalId: number, changes: Partial<Pick<Goal, 'title' | 'status'>>) =>
+    call(endpoints.updateGoal, { params: [goalId], body: changes }),
+  removeGoal: (goalId: number) =>
+    call(endpoints.deleteGoal, { params: [goalId] }),
 }
@@ -0,0 +1,51 @@
+/**
+ * attachments.ts — limits for files attached to chat messages.
+ *
+ * Mirrors ATTACHMENT_TYPES, MAX_ATTACHMENT_BYTES and MAX_ATTACHMENTS in
+ * app.py, so a file the server would refuse is caught before uploading.
+ */
+
+import { formatBytes } from './format'
+import { getLocale, translate } from './i18n'
+
+export const ATTACHMENT_TYPES = [
+  'image/png', 'image/jpeg', 'image/gif', 'image/webp',
+  'application/pdf', 'text/plain', 'text/markdown', 'text/csv', 'application/json',
+]
+
+/** Extensions for types browsers often leave blank; the server goes by these too. */
+const EXTENSION_TYPES: Record<string, string> = {
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  csv: 'text/csv',
+  json: 'application/json',
+  txt: 'text/plain',
+}
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024
+export const MAX_ATTACHMENTS = 5
+
+/** For the file picker's `accept` attribute. */
+export const ATTACHMENT_ACCEPT = [...ATTACHMENT_TYPES, ...Object.keys(EXTENSION_TYPES).map((ext) => `.${ext}`)].join(',')
+
+export function attachmentType(file: File): string {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? ''
+  return file.type || EXTENSION_TYPES[extension] || ''
+}
+
+export function isImageType(mimeType: string): boolean {
+  return mimeType.startsWith('image/')
+}
+
+/** Why `file` can't be attached, in the current language, or null if it can. */
+export function attachmentError(file: File): string | null {
+  const locale = getLocale()
+  if (!ATTACHMENT_TYPES.includes(attachmentType(file))) {
+    return translate(locale, 'attachments.wrongType', { name: file.name })
+  }
+  if (file.size === 0) return translate(locale, 'attachments.empty', { name: file.name })
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return translate(locale, 'attachments.tooLarge', { name: file.name, max: formatBytes(MAX_ATTACHMENT_BYTES) })
+  }
+  return null
+}
@@ -0,0 +1,46 @@
+/**
+ * format.ts — small display formatting helpers shared across pages.
+ */
+
+import { getLocale, translate } from './i18n'
+
+/** Milliseconds as m:ss, e.g. 65000 → "1:05". */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = String(totalSeconds % 60).padStart(2, '0')
+  return `${minutes}:${seconds}`
+}
+
+/** A byte count in the largest sensible unit, e.g. 1536 → "1.5 KB". */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB']
+  let value = bytes
+  let unit = 0
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024
+    unit++
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`
+}
+
+/** A short device description from a User-Agent string, e.g. "Firefox on Windows". */
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return translate(getLocale(), 'device.unknown')
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+      : /OPR\//.test(userAgent) ? 'Opera'
+        : /Firefox\//.test(userAgent) ? 'Firefox'
+          : /Chrome\//.test(userAgent) ? 'Chrome'
+            : /Safari\//.test(userAgent) ? 'Safari'
+              : null
+  const os =
+    /iPhone|iPad/.test(userAgent) ? 'iOS'
+      : /Android/.test(userAgent) ? 'Android'
+        : /Windows/.test(userAgent) ? 'Windows'
+          : /Mac OS X/.test(userAgent) ? 'macOS'
+            : /Linux/.test(userAgent) ? 'Linux'
+              : null
+  if (browser && os) return translate(getLocale(), 'device.browserOnOs', { browser, os })
+  return browser ?? os ?? userAgent.slice(0, 60)
+}
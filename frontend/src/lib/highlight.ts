@@ -0,0 +1,138 @@
+/**
+ * highlight.ts — lightweight syntax highlighting for code blocks.
+ *
+ * Splits code into keyword, string, comment, number and plain tokens using
+ * per-language rules. It is deliberately approximate: enough colour to make
+ * code in replies easy to scan, without a parser per language.
+ */
+
+export type TokenKind = 'keyword' | 'string' | 'comment' | 'number' | 'plain'
+
+export interface Token {
+  kind: TokenKind
+  text: string
+}
+
+interface LanguageRules {
+  comments: RegExp[]
+  strings: RegExp[]
+  keywords: Set<string>
+  caseInsensitive?: boolean
+}
+
+function words(list: string): Set<string> {
+  return new Set(list.split(/\s+/).filter(Boolean))
+}
+
+const C_COMMENTS = [/\/\/[^\n]*/, /\/\*[\s\S]*?(?:\*\/|$)/]
+const HASH_COMMENTS = [/#[^\n]*/]
+const QUOTED = [/"(?:\\[\s\S]|[^"\\\n])*"?/, /'(?:\\[\s\S]|[^'\\\n])*'?/]
+
+const C_LIKE: LanguageRules = {
+  comments: C_COMMENTS,
+  strings: [...QUOTED, /`(?:\\[\s\S]|[^`\\])*`?/],
+  keywords: words(`
+    abstract as async await boolean break case catch char class const continue default delete do double else
+    enum export extends false final finally float fn for from func function go if impl implements import in
+    instanceof int interface let long match mut new nil null of package private protected pub public readonly
+    return self static string struct super switch this throw throws true try type typeof undefined use var
+    void while yield
+  `),
+}
+
+const PYTHON: LanguageRules = {
+  comments: HASH_COMMENTS,
+  strings: [/"""[\s\S]*?(?:"""|$)/, /'''[\s\S]*?(?:'''|$)/, ...QUOTED],
+  keywords: words(`
+    False None True and as assert async await break class continue def del elif else except finally for from
+    global if import in is lambda nonlocal not or pass raise return self try while with yield
+  `),
+}
+
+const SHELL: LanguageRules = {
+  comments: HASH_COMMENTS,
+  strings: QUOTED,
+  keywords: words('case cd do done echo elif else esac exit export fi for function if in local return then while'),
+}
+
+const SQL: LanguageRules = {
+  comments: [/--[^\n]*/, /\/\*[\s\S]*?(?:\*\/|$)/],
+  strings: [/'(?:''|[^'])*'?/],
+  keywords: words(`
+    add all alter and as asc between by case create default delete desc distinct drop else end exists from
+    group having in index inner insert into is join key left like limit not null offset on or order outer
+    primary references right select set table then union unique update values when where with
+  `),
+  caseInsensitive: true,
+}
+
+const JSON_RULES: LanguageRules = {
+  comments: [],
+  strings: [/"(?:\\[\s\S]|[^"\\\n])*"?/],
+  keywords: words('true false null'),
+}
+
+const CSS: LanguageRules = {
+  comments: [/\/\*[\s\S]*?(?:\*\/|$)/],
+  strings: QUOTED,
+  keywords: words('important inherit initial none auto'),
+}
+
+const LANGUAGES: Record<string, LanguageRules> = {
+  js: C_LIKE, jsx: C_LIKE, javascript: C_LIKE, ts: C_LIKE, tsx: C_LIKE, typescript: C_LIKE,
+  java: C_LIKE, c: C_LIKE, cpp: C_LIKE, 'c++': C_LIKE, cs: C_LIKE, csharp: C_LIKE,
+  go: C_LIKE, rust: C_LIKE, rs: C_LIKE, swift: C_LIKE, kotlin: C_LIKE, kt: C_LIKE, php: C_LIKE,
+  py: PYTHON, python: PYTHON, rb: PYTHON, ruby: PYTHON,
+  sh: SHELL, bash: SHELL, shell: SHELL, zsh: SHELL, yaml: SHELL, yml: SHELL, toml: SHELL,
+  sql: SQL, json: JSON_RULES, css: CSS, scss: CSS,
+}
+
+const NUMBER = /\b(?:0x[\da-f]+|\d+(?:\.\d+)?(?:e[+-]?\d+)?)\b/
+const WORD = /[A-Za-z_$][\w$]*/
+
+// One alternation per language, built on first use: comments, strings, numbers, words.
+const compiled = new Map<LanguageRules, RegExp>()
+
+function patternFor(rules: LanguageRules): RegExp {
+  let pattern = compiled.get(rules)
+  if (!pattern) {
+    const group = (list: RegExp[]) => (list.length ? list.map((r) => r.source).join('|') : '(?!)')
+    pattern = new RegExp(
+      `(${group(rules.comments)})|(${group(rules.strings)})|(${NUMBER.source})|(${WORD.source})`,
+      rules.caseInsensitive ? 'gi' : 'g',
+    )
+    compiled.set(rules, pattern)
+  }
+  return pattern
+}
+
+/** Tokens for `code`; an unknown or missing language gives a single plain token. */
+export function highlight(code: string, language: string | null): Token[] {
+  const rules = language ? LANGUAGES[language.toLowerCase()] : undefined
+  if (!rules) return [{ kind: 'plain', text: code }]
+
+  const tokens: Token[] = []
+  // Runs of plain text become one token.
+  const push = (kind: TokenKind, text: string) => {
+    const prev = tokens[tokens.length - 1]
+    if (kind === 'plain' && prev?.kind === 'plain') prev.text += text
+    else tokens.push({ kind, text })
+  }
+  let last = 0
+  for (const match of code.matchAll(patternFor(rules))) {
+    const [text, comment, string, number] = match
+    const index = match.index
+    if (index > last) push('plain', code.slice(last, index))
+    const word = rules.caseInsensitive ? text.toLowerCase() : text
+    const kind: TokenKind =
+      comment ? 'comment'
+        : string ? 'string'
+          : number ? 'number'
+            : rules.keywords.has(word) ? 'keyword'
+              : 'plain'
+    push(kind, text)
+    last = index + text.length
+  }
+  if (last < code.length) push('plain', code.slice(last))
+  return tokens
+}
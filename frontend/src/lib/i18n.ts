@@ -0,0 +1,119 @@
+/**
+ * i18n.ts — interface language: message catalogs, plurals, date and number
+ * formatting, and text direction.
+ *
+ * Messages live in lib/locales/, one catalog per language, keyed like
+ * 'chat.send'. en.ts is complete and defines the keys; the others may lag
+ * behind, and a missing message falls back to English. `{name}` in a
+ * message is replaced by the param of that name. A plural message has one
+ * form per Intl.PluralRules category (Arabic uses all six) and picks one by
+ * the `count` param.
+ *
+ * Like the theme, the choice is kept in localStorage so it applies before
+ * sign-in (the inline script in index.html sets `lang` and `dir` before
+ * first paint), and on the user's account. Until one is picked, the
+ * browser's language is used if there is a catalog for it.
+ * LOCALES in app.py mirrors the list below.
+ */
+
+import type { Locale } from './api'
+import ar from './locales/ar'
+import en from './locales/en'
+import es from './locales/es'
+import he from './locales/he'
+
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string }
+export type Message = string | PluralMessage
+export type MessageKey = keyof typeof en
+/** Every catalog but English may leave messages out. */
+export type Catalog = Partial<Record<MessageKey, Message>>
+export type MessageParams = Record<string, string | number>
+
+export type TextDirection = 'ltr' | 'rtl'
+
+const LOCALE_KEY = 'unify.locale'
+
+export const LOCALE_OPTIONS: { value: Locale; label: string; dir: TextDirection; speech: string }[] = [
+  { value: 'en', label: 'English', dir: 'ltr', speech: 'en-US' },
+  { value: 'es', label: 'Español', dir: 'ltr', speech: 'es-ES' },
+  { value: 'ar', label: 'العربية', dir: 'rtl', speech: 'ar-SA' },
+  { value: 'he', label: 'עברית', dir: 'rtl', speech: 'he-IL' },
+]
+
+const CATALOGS: Record<Locale, Catalog> = { en, es, ar, he }
+
+const listeners = new Set<() => void>()
+
+function isLocale(value: string | null): value is Locale {
+  return LOCALE_OPTIONS.some((option) => option.value === value)
+}
+
+function optionFor(locale: Locale) {
+  return LOCALE_OPTIONS.find((option) => option.value === locale) ?? LOCALE_OPTIONS[0]
+}
+
+/** The first of the browser's languages we have a catalog for, else English. */
+function browserLocale(): Locale {
+  for (const tag of navigator.languages) {
+    const primary = tag.split('-')[0].toLowerCase()
+    if (isLocale(primary)) return primary
+  }
+  return 'en'
+}
+
+export function getLocale(): Locale {
+  const stored = localStorage.getItem(LOCALE_KEY)
+  return isLocale(stored) ? stored : browserLocale()
+}
+
+/** Apply `locale` to the page and remember it on this device. */
+export function applyLocale(locale: Locale): void {
+  localStorage.setItem(LOCALE_KEY, locale)
+  document.documentElement.lang = locale
+  document.documentElement.dir = localeDirection(locale)
+  listeners.forEach((listener) => listener())
+}
+
+export function subscribeLocale(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
+
+export function localeDirection(locale: Locale): TextDirection {
+  return optionFor(locale).dir
+}
+
+/** The BCP 47 tag speech recognition and synthesis use for `locale`. */
+export function speechLanguageFor(locale: Locale): string {
+  return optionFor(locale).speech
+}
+
+function interpolate(text: string, locale: Locale, params: MessageParams): string {
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name]
+    if (value === undefined) return match
+    return typeof value === 'number' ? formatNumber(locale, value) : value
+  })
+}
+
+/** The message for `key` in `locale`, falling back to English. */
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+  const message: Message = CATALOGS[locale][key] ?? en[key]
+  if (typeof message === 'string') return interpolate(message, locale, params)
+  const count = typeof params.count === 'number' ? params.count : 0
+  const form = message[new Intl.PluralRules(locale).select(count)] ?? message.other
+  return interpolate(form, locale, params)
+}
+
+export function formatNumber(locale: Locale, value: number, options?: Intl.NumberFormatOptions): string {
+  return new Intl.NumberFormat(locale, options).format(value)
+}
+
+/** A date and time, or just what `options` asks for; ISO strings are accepted. */
+export function formatDate(
+  locale: Locale,
+  value: Date | string | number,
+  options: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' },
+): string {
+  return new Intl.DateTimeFormat(locale, options).format(new Date(value))
+}
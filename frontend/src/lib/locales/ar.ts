@@ -0,0 +1,400 @@
+/** Arabic messages. See lib/i18n.ts for the message format; plurals use all six forms. */
+
+import type { Catalog } from '../i18n'
+
+const ar: Catalog = {
+  // ─── Shared ─────────────────────────────────────────────────────────────────
+  'common.cancel': 'إلغاء',
+  'common.close': 'إغلاق',
+  'common.delete': 'حذف',
+  'common.dismiss': 'تجاهل',
+  'common.loading': 'جارٍ التحميل…',
+  'common.remove': 'إزالة',
+  'common.rename': 'إعادة تسمية',
+  'common.retry': 'إعادة المحاولة',
+  'common.save': 'حفظ',
+  'common.saving': 'جارٍ الحفظ…',
+  'common.send': 'إرسال',
+  'common.signOut': 'تسجيل الخروج',
+  'common.you': 'أنت',
+  'common.copy': 'نسخ',
+  'common.copyLabel': 'نسخ {label}',
+  'common.copied': 'تم النسخ',
+  'common.copyFailed': 'تعذّر النسخ',
+  'api.network': 'تعذّر الوصول إلى الخادم — تحقق من اتصالك',
+  'api.timeout': 'استغرق الخادم وقتًا طويلًا للرد',
+  'api.aborted': 'أُلغي الطلب',
+
+  // ─── Navigation ─────────────────────────────────────────────────────────────
+  'nav.main': 'الرئيسية',
+  'nav.skipToContent': 'انتقل إلى المحتوى الرئيسي',
+  'nav.chat': 'الدردشة',
+  'nav.aiCoach': 'المدرب الذكي',
+  'nav.contacts': 'جهات الاتصال',
+  'nav.history': 'السجل',
+  'nav.video': 'الفيديو',
+  'nav.admin': 'الإدارة',
+  'nav.unreadMessages': {
+    zero: 'لا توجد رسائل غير مقروءة',
+    one: 'رسالة واحدة غير مقروءة',
+    two: 'رسالتان غير مقروءتين',
+    few: '{count} رسائل غير مقروءة',
+    many: '{count} رسالة غير مقروءة',
+    other: '{count} رسالة غير مقروءة',
+  },
+
+  // ─── Notifications ──────────────────────────────────────────────────────────
+  'notifications.title': 'الإشعارات',
+  'notifications.unreadLabel': 'الإشعارات، {count} غير مقروءة',
+  'notifications.markAllRead': 'تعليم الكل كمقروء',
+  'notifications.unread': 'غير مقروء: ',
+  'notifications.empty': 'لا جديد لديك.',
+  'notifications.settings': 'إعدادات الإشعارات',
+  'notifications.loadFailed': 'تعذّر تحميل الإشعارات',
+  'notifications.markFailed': 'تعذّر تعليم الإشعارات كمقروءة',
+  'notifications.category.message': 'الرسائل',
+  'notifications.category.message.description': 'أرسل إليك أحد جهات الاتصال رسالة',
+  'notifications.category.video': 'مقاطع الفيديو',
+  'notifications.category.video.description': 'وصل مقطع فيديو إلى صندوق الوارد',
+  'notifications.category.contact': 'جهات الاتصال',
+  'notifications.category.contact.description': 'طلب أحدهم إضافتك أو قبل طلبك',
+  'notifications.channel.toast': 'تنبيه داخل التطبيق',
+  'notifications.channel.browser': 'إشعار المتصفح',
+  'notifications.permission.default':
+    'تظهر إشعارات المتصفح عندما يكون Unify في علامة تبويب في الخلفية. سيطلب متصفحك الإذن أولًا.',
+  'notifications.permission.granted': 'إشعارات المتصفح مسموح بها.',
+  'notifications.permission.denied':
+    'إشعارات المتصفح محظورة. اسمح بها من إعدادات الموقع في متصفحك لاستخدامها هنا.',
+  'notifications.permission.unsupported': 'هذا المتصفح لا يدعم الإشعارات.',
+  'notifications.saveFailed': 'تعذّر حفظ إعدادات الإشعارات',
+
+  // ─── Session ────────────────────────────────────────────────────────────────
+  'session.expiresIn': {
+    zero: 'تنتهي جلستك خلال أقل من دقيقة.',
+    one: 'تنتهي جلستك خلال دقيقة تقريبًا.',
+    two: 'تنتهي جلستك خلال دقيقتين تقريبًا.',
+    few: 'تنتهي جلستك خلال {count} دقائق تقريبًا.',
+    many: 'تنتهي جلستك خلال {count} دقيقة تقريبًا.',
+    other: 'تنتهي جلستك خلال {count} دقيقة تقريبًا.',
+  },
+  'session.extend': 'البقاء متصلًا',
+  'session.extending': 'جارٍ التمديد…',
+  'session.extendFailed': 'تعذّر تمديد جلستك',
+
+  // ─── Sign in and registration ───────────────────────────────────────────────
+  'auth.username': 'اسم المستخدم',
+  'auth.password': 'كلمة المرور',
+  'auth.usernamePlaceholder': 'your_username',
+  'login.title': 'تسجيل الدخول إلى Unify',
+  'login.sessionExpired': 'انتهت جلستك. سجّل الدخول مرة أخرى للمتابعة.',
+  'login.remember': 'تذكّرني لمدة 30 يومًا',
+  'login.submit': 'تسجيل الدخول',
+  'login.submitting': 'جارٍ تسجيل الدخول…',
+  'login.failed': 'تعذّر تسجيل الدخول',
+  'login.noAccount': 'ليس لديك حساب؟',
+  'login.createOne': 'أنشئ حسابًا',
+  'register.title': 'أنشئ حسابك',
+  'register.confirmPassword': 'تأكيد كلمة المرور',
+  'register.usernameRules': 'استخدم من 3 إلى 30 حرفًا أو رقمًا أو شرطة سفلية',
+  'register.usernameTaken': 'اسم المستخدم غير متاح',
+  'register.checking': 'جارٍ التحقق من التوفر…',
+  'register.available': '✓ متاح',
+  'register.passwordMismatch': 'كلمتا المرور غير متطابقتين',
+  'register.failed': 'تعذّر التسجيل',
+  'register.submit': 'إنشاء حساب',
+  'register.submitting': 'جارٍ إنشاء الحساب…',
+  'register.haveAccount': 'لديك حساب بالفعل؟',
+  'register.signIn': 'سجّل الدخول',
+
+  // ─── Passwords ──────────────────────────────────────────────────────────────
+  'password.strength': 'قوة كلمة المرور',
+  'password.rule.length': '{count} أحرف على الأقل',
+  'password.rule.variety': 'حروف وأرقام',
+  'password.rule.username': 'لا تحتوي على اسم المستخدم',
+  'password.rule.met': ' (مستوفى)',
+  'password.rule.notMet': ' (غير مستوفى)',
+  'password.strength.0': 'ضعيفة جدًا',
+  'password.strength.1': 'ضعيفة',
+  'password.strength.2': 'مقبولة',
+  'password.strength.3': 'جيدة',
+  'password.strength.4': 'قوية',
+
+  // ─── Chat ───────────────────────────────────────────────────────────────────
+  'chat.newConversation': 'محادثة جديدة',
+  'chat.sidebar.newChat': 'دردشة جديدة',
+  'chat.sidebar.empty': 'لا توجد محادثات بعد.',
+  'chat.sidebar.branched': 'محادثة متفرعة',
+  'chat.sidebar.confirmDelete': 'حذف "{title}"؟ لا يمكن التراجع عن ذلك.',
+  'chat.empty': 'ابدأ محادثة — اكتب رسالة أو اضغط على الميكروفون.',
+  'chat.loadEarlier': 'تحميل الرسائل السابقة',
+  'chat.branchedFrom': 'متفرعة من',
+  'chat.dropFiles': 'أفلت الملفات لإرفاقها',
+  'chat.thinking': 'يفكّر…',
+  'chat.assistantSaid': 'المساعد: {text}',
+  'chat.edit': 'تعديل',
+  'chat.editMessage': 'تعديل الرسالة',
+  'chat.editNotice': 'تُرسل في فرع جديد؛ وتبقى هذه المحادثة كما هي.',
+  'chat.sendAsBranch': 'إرسال كفرع جديد',
+  'chat.regenerate': 'إعادة التوليد',
+  'chat.regenerateTitle': 'احصل على رد مختلف في فرع جديد',
+  'chat.copyTarget': 'الرسالة',
+  'chat.confirmDeleteMessage': 'حذف هذه الرسالة؟ لا يمكن التراجع عن ذلك.',
+  'chat.readAloud': 'القراءة بصوت عالٍ',
+  'chat.stopReading': 'إيقاف القراءة بصوت عالٍ',
+  'chat.meta.tokens': {
+    zero: 'لا رموز',
+    one: 'رمز واحد',
+    two: 'رمزان',
+    few: '{count} رموز',
+    many: '{count} رمزًا',
+    other: '{count} رمز',
+  },
+  'chat.meta.cutOff': 'توقف عند حد الرموز',
+  'chat.meta.usage': 'الرموز: {prompt} للطلب + {completion} للرد',
+  'chat.outbox.pending': 'بانتظار الإرسال',
+  'chat.outbox.sending': 'جارٍ الإرسال…',
+  'chat.outbox.failed': 'لم تُرسل',
+  'chat.outbox.sendFailed': 'تعذّر الإرسال',
+  'chat.discard': 'تجاهل',
+  'chat.offline': 'أنت غير متصل — ستُرسل الرسائل عند عودة الاتصال.',
+  'chat.status.transcribing': 'جارٍ تحويل كلامك إلى نص',
+  'chat.status.listening': 'الميكروفون يعمل، جارٍ الاستماع',
+  'chat.voiceChat': 'دردشة صوتية',
+  'chat.endVoiceChat': 'إنهاء الدردشة الصوتية',
+  'chat.voiceChatTitle': 'تحدّث واستمع إلى الرد وواصل الحديث — يُفتح الميكروفون مجددًا بعد كل رد',
+  'chat.voiceSettings': 'إعدادات الصوت',
+  'chat.attach': 'إرفاق ملفات',
+  'chat.attachTitle': 'إرفاق ملفات (أو أفلتها أو الصقها هنا)',
+  'chat.messageLabel': 'الرسالة',
+  'chat.placeholder.type': 'اكتب رسالة…',
+  'chat.placeholder.listening': 'جارٍ الاستماع…',
+  'chat.placeholder.handsFree': 'جارٍ الاستماع — اضغط إيقاف عند الانتهاء…',
+  'chat.placeholder.transcribing': 'جارٍ التحويل إلى نص…',
+  'chat.speechLanguage': 'لغة الكلام',
+  'chat.handsFree': 'بدون استخدام اليدين',
+  'chat.handsFreeTitle': 'بدون استخدام اليدين: يستمر الاستماع خلال فترات التوقف حتى تضغط إيقاف',
+  'chat.mic.start': 'بدء الإدخال الصوتي',
+  'chat.mic.startServer': 'بدء الإدخال الصوتي (يُحوَّل إلى نص على الخادم)',
+  'chat.mic.stop': 'إيقاف الإدخال الصوتي',
+  'chat.mic.stopRecording': 'إيقاف التسجيل',
+  'chat.mic.transcribing': 'جارٍ تحويل الإدخال الصوتي إلى نص',
+  'chat.stop': 'إيقاف',
+  'chat.waitingForUploads': 'بانتظار رفع المرفقات',
+  'chat.error.loadMessages': 'تعذّر تحميل الرسائل',
+  'chat.error.queue': 'تعذّر الوصول إلى الخادم، وتعذّر حفظ الرسالة لإرسالها لاحقًا',
+  'chat.error.start': 'تعذّر بدء محادثة',
+  'chat.error.response': 'تعذّر الحصول على رد',
+  'chat.error.branch': 'تعذّر تفريع المحادثة',
+  'chat.error.deleteMessage': 'تعذّر حذف الرسالة',
+  'chat.error.rename': 'تعذّرت إعادة تسمية المحادثة',
+  'chat.error.deleteConversation': 'تعذّر حذف المحادثة',
+  'markdown.code': 'الشيفرة',
+
+  // ─── Attachments and voice ──────────────────────────────────────────────────
+  'attachments.uploading': 'جارٍ رفع {name}',
+  'attachments.remove': 'إزالة {name}',
+  'attachments.wrongType': '{name}: الصور وملفات PDF والملفات النصية فقط',
+  'attachments.empty': '{name} فارغ',
+  'attachments.tooLarge': '{name} كبير جدًا (الحد الأقصى {max})',
+  'attachments.tooMany': {
+    zero: 'لا يمكن إرفاق ملفات برسالة',
+    one: 'أرفق ملفًا واحدًا على الأكثر بالرسالة',
+    two: 'أرفق ملفين على الأكثر بالرسالة',
+    few: 'أرفق {count} ملفات على الأكثر بالرسالة',
+    many: 'أرفق {count} ملفًا على الأكثر بالرسالة',
+    other: 'أرفق {count} ملف على الأكثر بالرسالة',
+  },
+  'attachments.uploadFailed': 'تعذّر الرفع',
+  'voice.voice': 'الصوت',
+  'voice.default': 'الافتراضي',
+  'voice.rate': 'السرعة',
+  'voice.pitch': 'طبقة الصوت',
+
+  // ─── Profile ────────────────────────────────────────────────────────────────
+  'profile.title': 'الملف الشخصي',
+  'profile.savedToAccount': 'يُحفظ في حسابك، فيرافقك على أجهزتك الأخرى.',
+  'profile.details.title': 'الملف الشخصي',
+  'profile.details.displayName': 'الاسم المعروض',
+  'profile.details.bio': 'نبذة',
+  'profile.details.bioPlaceholder': 'بضع كلمات عنك',
+  'profile.details.save': 'حفظ الملف الشخصي',
+  'profile.details.saved': 'تم حفظ الملف الشخصي.',
+  'profile.details.saveFailed': 'تعذّر حفظ الملف الشخصي',
+  'profile.photo.change': 'تغيير الصورة',
+  'profile.photo.uploading': 'جارٍ الرفع…',
+  'profile.photo.notImage': 'اختر ملف صورة',
+  'profile.photo.uploadFailed': 'تعذّر رفع الصورة',
+  'profile.photo.removeFailed': 'تعذّرت إزالة الصورة',
+  'profile.password.title': 'تغيير كلمة المرور',
+  'profile.password.current': 'كلمة المرور الحالية',
+  'profile.password.new': 'كلمة المرور الجديدة',
+  'profile.password.confirm': 'تأكيد كلمة المرور الجديدة',
+  'profile.password.changing': 'جارٍ التغيير…',
+  'profile.password.changed': 'تم تغيير كلمة المرور.',
+  'profile.password.failed': 'تعذّر تغيير كلمة المرور',
+  'profile.theme.title': 'المظهر',
+  'profile.theme.saveFailed': 'لم يُحفظ المظهر في حسابك',
+  'profile.language.title': 'اللغة',
+  'profile.language.notice': 'تُستخدم أيضًا للإدخال الصوتي. تُحفظ في حسابك، فترافقك على أجهزتك الأخرى.',
+  'profile.language.saveFailed': 'لم تُحفظ اللغة في حسابك',
+  'profile.sessions.title': 'الأجهزة التي سجّلت الدخول منها',
+  'profile.sessions.thisDevice': 'هذا الجهاز',
+  'profile.sessions.unknownIp': 'عنوان IP غير معروف',
+  'profile.sessions.lastSeen': 'آخر نشاط {time}',
+  'profile.sessions.remembered': 'محفوظ',
+  'profile.sessions.signingOut': 'جارٍ تسجيل الخروج…',
+  'profile.sessions.signOutOthers': 'تسجيل الخروج من الأجهزة الأخرى',
+  'profile.sessions.signOutAll': 'تسجيل الخروج من جميع الأجهزة',
+  'profile.sessions.loadFailed': 'تعذّر تحميل الجلسات',
+  'profile.sessions.revokeFailed': 'تعذّر تسجيل الخروج من ذلك الجهاز',
+  'profile.sessions.revokeAllFailed': 'تعذّر تسجيل الخروج من الأجهزة',
+  'profile.data.title': 'بياناتك',
+  'profile.data.description': 'نزّل ملفك الشخصي ومحادثاتك ونصوصك وجهات اتصالك وجلسات التدريب في ملف JSON.',
+  'profile.data.export': 'تصدير بياناتي',
+  'profile.delete.title': 'حذف الحساب',
+  'profile.delete.description':
+    'يحذف حسابك ومحادثاتك وجهات اتصالك ومقاطع الفيديو وسجل التدريب نهائيًا. '
+    + 'لا يمكن التراجع عن ذلك — صدّر بياناتك أولًا إن أردت نسخة منها.',
+  'profile.delete.start': 'حذف حسابي…',
+  'profile.delete.confirmPassword': 'أدخل كلمة المرور للتأكيد',
+  'profile.delete.confirm': 'حذف الحساب نهائيًا',
+  'profile.delete.deleting': 'جارٍ الحذف…',
+  'profile.delete.failed': 'تعذّر حذف الحساب',
+  'theme.system': 'مطابقة النظام',
+  'theme.light': 'فاتح',
+  'theme.dark': 'داكن',
+  'theme.highContrast': 'تباين عالٍ',
+  'avatar.drag': 'اسحب لضبط موضع صورتك الرمزية',
+  'avatar.zoom': 'التكبير',
+  'avatar.use': 'استخدام هذه الصورة',
+  'avatar.unreadable': 'تعذّرت قراءة هذا الملف كصورة',
+  'avatar.cropFailed': 'تعذّر اقتصاص الصورة',
+  'device.unknown': 'جهاز غير معروف',
+  'device.browserOnOs': '{browser} على {os}',
+
+  // ─── AI Coach ───────────────────────────────────────────────────────────────
+  'coach.intro': 'جلسات موجّهة تنتهي بملخص ومهام يمكنك متابعتها كأهداف.',
+  'coach.start': {
+    zero: 'ابدأ · بلا خطوات',
+    one: 'ابدأ · خطوة واحدة',
+    two: 'ابدأ · خطوتان',
+    few: 'ابدأ · {count} خطوات',
+    many: 'ابدأ · {count} خطوة',
+    other: 'ابدأ · {count} خطوة',
+  },
+  'coach.goals': 'الأهداف',
+  'coach.goals.empty': 'أنهِ جلسة لتحويل مهامها إلى أهداف.',
+  'coach.goals.completed': 'المكتملة ({count})',
+  'coach.goal.placeholder': 'أضف هدفًا…',
+  'coach.goal.add': 'إضافة',
+  'coach.goal.markDone': 'تعليم "{title}" كمنجز',
+  'coach.goal.markOpen': 'تعليم "{title}" كمفتوح',
+  'coach.sessions': 'الجلسات',
+  'coach.inProgress': 'قيد التقدم',
+  'coach.confirmDeleteSession': 'حذف هذه الجلسة؟ ستبقى الأهداف التي أنشأتها.',
+  'coach.back': '→ المدرب الذكي',
+  'coach.complete': 'مكتملة',
+  'coach.step': 'الخطوة {step} من {total}',
+  'coach.openGoals': 'أهدافك المفتوحة',
+  'coach.answerPlaceholder': 'إجابتك…',
+  'coach.next': 'التالي',
+  'coach.finish': 'إنهاء الجلسة',
+  'coach.summary': 'الملخص',
+  'coach.actionItems': 'المهام',
+  'coach.noActionItems': 'لا توجد مهام.',
+  'coach.savedAsGoals': 'حُفظت كأهداف — علّمها كمنجزة هنا أو في صفحة المدرب الذكي.',
+  'coach.error.loadSessions': 'تعذّر تحميل الجلسات',
+  'coach.error.loadGoals': 'تعذّر تحميل الأهداف',
+  'coach.error.loadSession': 'تعذّر تحميل الجلسة',
+  'coach.error.start': 'تعذّر بدء الجلسة',
+  'coach.error.addGoal': 'تعذّرت إضافة الهدف',
+  'coach.error.updateGoal': 'تعذّر تحديث الهدف',
+  'coach.error.deleteGoal': 'تعذّر حذف الهدف',
+  'coach.error.deleteSession': 'تعذّر حذف الجلسة',
+  'coach.error.answer': 'تعذّر حفظ إجابتك',
+
+  // ─── Contacts ───────────────────────────────────────────────────────────────
+  'contacts.find': 'البحث عن أشخاص',
+  'contacts.searchPlaceholder': 'ابحث باسم المستخدم…',
+  'contacts.searchResults': 'نتائج البحث',
+  'contacts.noResults': 'لم يُعثر على مستخدمين.',
+  'contacts.add': 'إضافة جهة اتصال',
+  'contacts.acceptRequest': 'قبول الطلب',
+  'contacts.requestSent': 'تم إرسال الطلب',
+  'contacts.requestSentDetail': 'تم إرسال الطلب',
+  'contacts.inContacts': 'ضمن جهات اتصالك',
+  'contacts.blocked': 'المحظورون',
+  'contacts.requests': 'الطلبات',
+  'contacts.wantsToConnect': 'يريد التواصل معك',
+  'contacts.accept': 'قبول',
+  'contacts.decline': 'رفض',
+  'contacts.yours': 'جهات اتصالك',
+  'contacts.empty': 'ستظهر جهات اتصالك هنا.',
+  'contacts.message': 'مراسلة',
+  'contacts.block': 'حظر',
+  'contacts.unblock': 'إلغاء الحظر',
+  'contacts.pending': 'قيد الانتظار',
+  'contacts.confirmBlock': 'حظر {username}؟ لن يتمكن من العثور عليك أو مراسلتك.',
+  'contacts.error.load': 'تعذّر تحميل جهات الاتصال',
+  'contacts.error.search': 'تعذّر البحث',
+  'contacts.error.openConversation': 'تعذّر فتح المحادثة',
+  'contacts.error.generic': 'حدث خطأ ما',
+
+  // ─── History ────────────────────────────────────────────────────────────────
+  'history.search': 'البحث في السجل',
+  'history.searchPlaceholder': 'ابحث في المحادثات والنصوص…',
+  'history.type': 'النوع',
+  'history.type.all': 'كل الأنواع',
+  'history.type.conversation': 'المحادثات',
+  'history.type.transcript': 'النصوص',
+  'history.from': 'من تاريخ',
+  'history.to': 'إلى تاريخ',
+  'history.voiceTranscript': 'نص صوتي',
+  'history.noMatches': 'لم يُعثر على نتائج مطابقة.',
+  'history.empty': 'سيظهر سجل محادثاتك هنا.',
+  'history.error.load': 'تعذّر تحميل السجل',
+
+  // ─── Video ──────────────────────────────────────────────────────────────────
+  'video.unsupported': 'تسجيل الفيديو غير مدعوم في هذا المتصفح.',
+  'video.cameraOn': 'تشغيل الكاميرا',
+  'video.cameraOff': 'إيقاف الكاميرا',
+  'video.record': 'تسجيل',
+  'video.pause': 'إيقاف مؤقت',
+  'video.resume': 'استئناف',
+  'video.stop': 'إيقاف',
+  'video.retake': 'إعادة التسجيل',
+  'video.rec': 'تسجيل',
+  'video.paused': 'متوقف مؤقتًا',
+  'video.sendTo': 'إرسال إلى',
+  'video.sendToPlaceholder': 'إرسال إلى…',
+  'video.resumeSending': 'استئناف الإرسال',
+  'video.uploadProgress': 'تقدم الرفع',
+  'video.uploading': 'جارٍ الرفع… {percent}',
+  'video.sent': 'أُرسل إلى {recipient}',
+  'video.error.interrupted': 'انقطع الرفع — تحقق من اتصالك',
+  'video.error.permissionDenied': 'رُفض إذن الكاميرا أو الميكروفون',
+  'video.error.noCamera': 'تعذّر الوصول إلى الكاميرا أو الميكروفون',
+  'video.inbox': 'صندوق الوارد',
+  'video.inbox.sort': 'ترتيب مقاطع الفيديو',
+  'video.inbox.sort.newest': 'الأحدث أولًا',
+  'video.inbox.sort.oldest': 'الأقدم أولًا',
+  'video.inbox.sort.sender': 'المرسل',
+  'video.inbox.sort.longest': 'الأطول أولًا',
+  'video.inbox.empty': 'لا توجد مقاطع فيديو بعد.',
+  'video.inbox.loadFailed': 'تعذّر تحميل صندوق الوارد',
+
+  // ─── Direct messages ────────────────────────────────────────────────────────
+  'messages.back': '→ جهات الاتصال',
+  'messages.connecting': 'جارٍ الاتصال…',
+  'messages.offline': 'غير متصل — جارٍ إعادة الاتصال',
+  'messages.empty': 'قل مرحبًا لـ {username}.',
+  'messages.typing': '{username} يكتب…',
+  'messages.notSent': 'لم تُرسل',
+  'messages.receipt.sent': 'أُرسلت',
+  'messages.receipt.delivered': 'وصلت',
+  'messages.receipt.read': 'قُرئت',
+  'messages.error.loadConversation': 'تعذّر تحميل المحادثة',
+  'messages.error.loadMessages': 'تعذّر تحميل الرسائل',
+}
+
+export default ar
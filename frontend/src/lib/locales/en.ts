@@ -0,0 +1,375 @@
+/**
+ * English messages: the complete catalog, and the one that defines the keys.
+ * See lib/i18n.ts for the message format.
+ */
+
+import type { Message } from '../i18n'
+
+const en = {
+  // ─── Shared ─────────────────────────────────────────────────────────────────
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.delete': 'Delete',
+  'common.dismiss': 'Dismiss',
+  'common.loading': 'Loading…',
+  'common.remove': 'Remove',
+  'common.rename': 'Rename',
+  'common.retry': 'Retry',
+  'common.save': 'Save',
+  'common.saving': 'Saving…',
+  'common.send': 'Send',
+  'common.signOut': 'Sign out',
+  'common.you': 'You',
+  'common.copy': 'Copy',
+  'common.copyLabel': 'Copy {label}',
+  'common.copied': 'Copied',
+  'common.copyFailed': 'Copy failed',
+  'api.network': 'Could not reach the server — check your connection',
+  'api.timeout': 'The server took too long to respond',
+  'api.aborted': 'Request was cancelled',
+
+  // ─── Navigation ─────────────────────────────────────────────────────────────
+  'nav.main': 'Main',
+  'nav.skipToContent': 'Skip to main content',
+  'nav.chat': 'Chat',
+  'nav.aiCoach': 'AI Coach',
+  'nav.contacts': 'Contacts',
+  'nav.history': 'History',
+  'nav.video': 'Video',
+  'nav.admin': 'Admin',
+  'nav.unreadMessages': { one: '{count} unread message', other: '{count} unread messages' },
+
+  // ─── Notifications ──────────────────────────────────────────────────────────
+  'notifications.title': 'Notifications',
+  'notifications.unreadLabel': 'Notifications, {count} unread',
+  'notifications.markAllRead': 'Mark all as read',
+  'notifications.unread': 'Unread: ',
+  'notifications.empty': "You're all caught up.",
+  'notifications.settings': 'Notification settings',
+  'notifications.loadFailed': 'Failed to load notifications',
+  'notifications.markFailed': 'Failed to mark notifications read',
+  'notifications.category.message': 'Messages',
+  'notifications.category.message.description': 'A contact sends you a message',
+  'notifications.category.video': 'Videos',
+  'notifications.category.video.description': 'A video arrives in your inbox',
+  'notifications.category.contact': 'Contacts',
+  'notifications.category.contact.description': 'Someone asks to add you, or accepts your request',
+  'notifications.channel.toast': 'Pop-up in the app',
+  'notifications.channel.browser': 'Browser notification',
+  'notifications.permission.default':
+    'Browser notifications appear while Unify is in a background tab. Your browser will ask first.',
+  'notifications.permission.granted': 'Browser notifications are allowed.',
+  'notifications.permission.denied':
+    "Browser notifications are blocked. Allow them in your browser's site settings to use them here.",
+  'notifications.permission.unsupported': 'This browser does not support notifications.',
+  'notifications.saveFailed': 'Failed to save notification settings',
+
+  // ─── Session ────────────────────────────────────────────────────────────────
+  'session.expiresIn': {
+    one: 'Your session expires in about {count} minute.',
+    other: 'Your session expires in about {count} minutes.',
+  },
+  'session.extend': 'Stay signed in',
+  'session.extending': 'Extending…',
+  'session.extendFailed': 'Could not extend your session',
+
+  // ─── Sign in and registration ───────────────────────────────────────────────
+  'auth.username': 'Username',
+  'auth.password': 'Password',
+  'auth.usernamePlaceholder': 'your_username',
+  'login.title': 'Sign in to Unify',
+  'login.sessionExpired': 'Your session has expired. Sign in again to continue.',
+  'login.remember': 'Remember me for 30 days',
+  'login.submit': 'Sign in',
+  'login.submitting': 'Signing in…',
+  'login.failed': 'Login failed',
+  'login.noAccount': 'No account?',
+  'login.createOne': 'Create one',
+  'register.title': 'Create your account',
+  'register.confirmPassword': 'Confirm password',
+  'register.usernameRules': 'Use 3-30 letters, numbers or underscores',
+  'register.usernameTaken': 'Username not available',
+  'register.checking': 'Checking availability…',
+  'register.available': '✓ Available',
+  'register.passwordMismatch': 'Passwords do not match',
+  'register.failed': 'Registration failed',
+  'register.submit': 'Create account',
+  'register.submitting': 'Creating account…',
+  'register.haveAccount': 'Already have an account?',
+  'register.signIn': 'Sign in',
+
+  // ─── Passwords ──────────────────────────────────────────────────────────────
+  'password.strength': 'Password strength',
+  'password.rule.length': 'At least {count} characters',
+  'password.rule.variety': 'Letters and numbers',
+  'password.rule.username': "Doesn't contain your username",
+  'password.rule.met': ' (met)',
+  'password.rule.notMet': ' (not met)',
+  'password.strength.0': 'Too weak',
+  'password.strength.1': 'Weak',
+  'password.strength.2': 'Fair',
+  'password.strength.3': 'Good',
+  'password.strength.4': 'Strong',
+
+  // ─── Chat ───────────────────────────────────────────────────────────────────
+  'chat.newConversation': 'New conversation',
+  'chat.sidebar.newChat': 'New chat',
+  'chat.sidebar.empty': 'No conversations yet.',
+  'chat.sidebar.branched': 'Branched conversation',
+  'chat.sidebar.confirmDelete': 'Delete "{title}"? This cannot be undone.',
+  'chat.empty': 'Start a conversation — type a message or press the mic.',
+  'chat.loadEarlier': 'Load earlier messages',
+  'chat.branchedFrom': 'Branched from',
+  'chat.dropFiles': 'Drop files to attach',
+  'chat.thinking': 'Thinking…',
+  'chat.assistantSaid': 'Assistant: {text}',
+  'chat.edit': 'Edit',
+  'chat.editMessage': 'Edit message',
+  'chat.editNotice': 'Sends in a new branch; this conversation is kept as it is.',
+  'chat.sendAsBranch': 'Send as new branch',
+  'chat.regenerate': 'Regenerate',
+  'chat.regenerateTitle': 'Get a different reply in a new branch',
+  'chat.copyTarget': 'message',
+  'chat.confirmDeleteMessage': 'Delete this message? This cannot be undone.',
+  'chat.readAloud': 'Read aloud',
+  'chat.stopReading': 'Stop reading aloud',
+  'chat.meta.tokens': { one: '{count} token', other: '{count} tokens' },
+  'chat.meta.cutOff': 'cut off at token limit',
+  'chat.meta.usage': 'Prompt {prompt} + completion {completion} tokens',
+  'chat.outbox.pending': 'Waiting to send',
+  'chat.outbox.sending': 'Sending…',
+  'chat.outbox.failed': 'Not sent',
+  'chat.outbox.sendFailed': 'Failed to send',
+  'chat.discard': 'Discard',
+  'chat.offline': "You're offline — messages will be sent when you reconnect.",
+  'chat.status.transcribing': 'Transcribing your speech',
+  'chat.status.listening': 'Microphone on, listening',
+  'chat.voiceChat': 'Voice chat',
+  'chat.endVoiceChat': 'End voice chat',
+  'chat.voiceChatTitle': 'Speak, hear the reply, and keep talking — the mic reopens after each reply',
+  'chat.voiceSettings': 'Voice settings',
+  'chat.attach': 'Attach files',
+  'chat.attachTitle': 'Attach files (or drop or paste them here)',
+  'chat.messageLabel': 'Message',
+  'chat.placeholder.type': 'Type a message…',
+  'chat.placeholder.listening': 'Listening…',
+  'chat.placeholder.handsFree': 'Listening — press stop when done…',
+  'chat.placeholder.transcribing': 'Transcribing…',
+  'chat.speechLanguage': 'Speech language',
+  'chat.handsFree': 'Hands-free',
+  'chat.handsFreeTitle': 'Hands-free: keep listening through pauses until you press stop',
+  'chat.mic.start': 'Start voice input',
+  'chat.mic.startServer': 'Start voice input (transcribed on the server)',
+  'chat.mic.stop': 'Stop voice input',
+  'chat.mic.stopRecording': 'Stop recording',
+  'chat.mic.transcribing': 'Transcribing voice input',
+  'chat.stop': 'Stop',
+  'chat.waitingForUploads': 'Waiting for attachments to upload',
+  'chat.error.loadMessages': 'Failed to load messages',
+  'chat.error.queue': 'Could not reach the server, and the message could not be saved for later',
+  'chat.error.start': 'Failed to start a conversation',
+  'chat.error.response': 'Failed to get a response',
+  'chat.error.branch': 'Failed to branch the conversation',
+  'chat.error.deleteMessage': 'Failed to delete message',
+  'chat.error.rename': 'Failed to rename conversation',
+  'chat.error.deleteConversation': 'Failed to delete conversation',
+  'markdown.code': 'code',
+
+  // ─── Attachments and voice ──────────────────────────────────────────────────
+  'attachments.uploading': 'Uploading {name}',
+  'attachments.remove': 'Remove {name}',
+  'attachments.wrongType': '{name}: images, PDFs and text files only',
+  'attachments.empty': '{name} is empty',
+  'attachments.tooLarge': '{name} is too large ({max} max)',
+  'attachments.tooMany': {
+    one: 'Attach at most {count} file to a message',
+    other: 'Attach at most {count} files to a message',
+  },
+  'attachments.uploadFailed': 'Upload failed',
+  'voice.voice': 'Voice',
+  'voice.default': 'Default',
+  'voice.rate': 'Rate',
+  'voice.pitch': 'Pitch',
+
+  // ─── Profile ────────────────────────────────────────────────────────────────
+  'profile.title': 'Profile',
+  'profile.savedToAccount': 'Saved to your account, so it follows you to other devices.',
+  'profile.details.title': 'Profile',
+  'profile.details.displayName': 'Display name',
+  'profile.details.bio': 'Bio',
+  'profile.details.bioPlaceholder': 'A few words about yourself',
+  'profile.details.save': 'Save profile',
+  'profile.details.saved': 'Profile saved.',
+  'profile.details.saveFailed': 'Failed to save profile',
+  'profile.photo.change': 'Change photo',
+  'profile.photo.uploading': 'Uploading…',
+  'profile.photo.notImage': 'Choose an image file',
+  'profile.photo.uploadFailed': 'Failed to upload photo',
+  'profile.photo.removeFailed': 'Failed to remove photo',
+  'profile.password.title': 'Change password',
+  'profile.password.current': 'Current password',
+  'profile.password.new': 'New password',
+  'profile.password.confirm': 'Confirm new password',
+  'profile.password.changing': 'Changing…',
+  'profile.password.changed': 'Password changed.',
+  'profile.password.failed': 'Failed to change password',
+  'profile.theme.title': 'Theme',
+  'profile.theme.saveFailed': 'Theme not saved to your account',
+  'profile.language.title': 'Language',
+  'profile.language.notice': 'Also used for voice input. Saved to your account, so it follows you to other devices.',
+  'profile.language.saveFailed': 'Language not saved to your account',
+  'profile.sessions.title': "Where you're signed in",
+  'profile.sessions.thisDevice': 'This device',
+  'profile.sessions.unknownIp': 'Unknown IP',
+  'profile.sessions.lastSeen': 'last seen {time}',
+  'profile.sessions.remembered': 'remembered',
+  'profile.sessions.signingOut': 'Signing out…',
+  'profile.sessions.signOutOthers': 'Sign out other devices',
+  'profile.sessions.signOutAll': 'Sign out of all devices',
+  'profile.sessions.loadFailed': 'Failed to load sessions',
+  'profile.sessions.revokeFailed': 'Failed to sign out that device',
+  'profile.sessions.revokeAllFailed': 'Failed to sign out devices',
+  'profile.data.title': 'Your data',
+  'profile.data.description':
+    'Download your profile, conversations, transcripts, contacts and coaching sessions as a JSON file.',
+  'profile.data.export': 'Export my data',
+  'profile.delete.title': 'Delete account',
+  'profile.delete.description':
+    'Permanently deletes your account, conversations, contacts, videos and coaching history. '
+    + "This can't be undone — export your data first if you want a copy.",
+  'profile.delete.start': 'Delete my account…',
+  'profile.delete.confirmPassword': 'Enter your password to confirm',
+  'profile.delete.confirm': 'Permanently delete account',
+  'profile.delete.deleting': 'Deleting…',
+  'profile.delete.failed': 'Failed to delete account',
+  'theme.system': 'Match system',
+  'theme.light': 'Light',
+  'theme.dark': 'Dark',
+  'theme.highContrast': 'High contrast',
+  'avatar.drag': 'Drag to position your avatar',
+  'avatar.zoom': 'Zoom',
+  'avatar.use': 'Use this photo',
+  'avatar.unreadable': 'That file could not be read as an image',
+  'avatar.cropFailed': 'Could not crop the image',
+  'device.unknown': 'Unknown device',
+  'device.browserOnOs': '{browser} on {os}',
+
+  // ─── AI Coach ───────────────────────────────────────────────────────────────
+  'coach.intro': 'Guided sessions that end with a summary and action items you can track as goals.',
+  'coach.start': { one: 'Start · {count} step', other: 'Start · {count} steps' },
+  'coach.goals': 'Goals',
+  'coach.goals.empty': 'Finish a session to turn its action items into goals.',
+  'coach.goals.completed': 'Completed ({count})',
+  'coach.goal.placeholder': 'Add a goal…',
+  'coach.goal.add': 'Add',
+  'coach.goal.markDone': 'Mark "{title}" done',
+  'coach.goal.markOpen': 'Mark "{title}" open',
+  'coach.sessions': 'Sessions',
+  'coach.inProgress': 'in progress',
+  'coach.confirmDeleteSession': 'Delete this session? Goals it created are kept.',
+  'coach.back': '← AI Coach',
+  'coach.complete': 'Complete',
+  'coach.step': 'Step {step} of {total}',
+  'coach.openGoals': 'Your open goals',
+  'coach.answerPlaceholder': 'Your answer…',
+  'coach.next': 'Next',
+  'coach.finish': 'Finish session',
+  'coach.summary': 'Summary',
+  'coach.actionItems': 'Action items',
+  'coach.noActionItems': 'No action items.',
+  'coach.savedAsGoals': 'Saved as goals — tick them off here or on the AI Coach page.',
+  'coach.error.loadSessions': 'Failed to load sessions',
+  'coach.error.loadGoals': 'Failed to load goals',
+  'coach.error.loadSession': 'Failed to load session',
+  'coach.error.start': 'Failed to start session',
+  'coach.error.addGoal': 'Failed to add goal',
+  'coach.error.updateGoal': 'Failed to update goal',
+  'coach.error.deleteGoal': 'Failed to delete goal',
+  'coach.error.deleteSession': 'Failed to delete session',
+  'coach.error.answer': 'Failed to save your answer',
+
+  // ─── Contacts ───────────────────────────────────────────────────────────────
+  'contacts.find': 'Find people',
+  'contacts.searchPlaceholder': 'Search by username…',
+  'contacts.searchResults': 'Search results',
+  'contacts.noResults': 'No users found.',
+  'contacts.add': 'Add contact',
+  'contacts.acceptRequest': 'Accept request',
+  'contacts.requestSent': 'Request sent',
+  'contacts.requestSentDetail': 'request sent',
+  'contacts.inContacts': 'In your contacts',
+  'contacts.blocked': 'Blocked',
+  'contacts.requests': 'Requests',
+  'contacts.wantsToConnect': 'wants to connect',
+  'contacts.accept': 'Accept',
+  'contacts.decline': 'Decline',
+  'contacts.yours': 'Your contacts',
+  'contacts.empty': 'Your connections will appear here.',
+  'contacts.message': 'Message',
+  'contacts.block': 'Block',
+  'contacts.unblock': 'Unblock',
+  'contacts.pending': 'Pending',
+  'contacts.confirmBlock': "Block {username}? They won't be able to find or message you.",
+  'contacts.error.load': 'Failed to load contacts',
+  'contacts.error.search': 'Search failed',
+  'contacts.error.openConversation': 'Failed to open conversation',
+  'contacts.error.generic': 'Something went wrong',
+
+  // ─── History ────────────────────────────────────────────────────────────────
+  'history.search': 'Search history',
+  'history.searchPlaceholder': 'Search conversations and transcripts…',
+  'history.type': 'Type',
+  'history.type.all': 'All types',
+  'history.type.conversation': 'Conversations',
+  'history.type.transcript': 'Transcripts',
+  'history.from': 'From date',
+  'history.to': 'To date',
+  'history.voiceTranscript': 'Voice transcript',
+  'history.noMatches': 'No matches found.',
+  'history.empty': 'Your conversation history will appear here.',
+  'history.error.load': 'Failed to load history',
+
+  // ─── Video ──────────────────────────────────────────────────────────────────
+  'video.unsupported': "Video recording isn't supported in this browser.",
+  'video.cameraOn': 'Turn on camera',
+  'video.cameraOff': 'Turn off camera',
+  'video.record': 'Record',
+  'video.pause': 'Pause',
+  'video.resume': 'Resume',
+  'video.stop': 'Stop',
+  'video.retake': 'Retake',
+  'video.rec': 'REC',
+  'video.paused': 'PAUSED',
+  'video.sendTo': 'Send to',
+  'video.sendToPlaceholder': 'Send to…',
+  'video.resumeSending': 'Resume sending',
+  'video.uploadProgress': 'Upload progress',
+  'video.uploading': 'Uploading… {percent}',
+  'video.sent': 'Sent to {recipient}',
+  'video.error.interrupted': 'Upload interrupted — check your connection',
+  'video.error.permissionDenied': 'Camera or microphone permission was denied',
+  'video.error.noCamera': 'Could not access the camera or microphone',
+  'video.inbox': 'Inbox',
+  'video.inbox.sort': 'Sort videos',
+  'video.inbox.sort.newest': 'Newest first',
+  'video.inbox.sort.oldest': 'Oldest first',
+  'video.inbox.sort.sender': 'Sender',
+  'video.inbox.sort.longest': 'Longest first',
+  'video.inbox.empty': 'No videos yet.',
+  'video.inbox.loadFailed': 'Failed to load inbox',
+
+  // ─── Direct messages ────────────────────────────────────────────────────────
+  'messages.back': '← Contacts',
+  'messages.connecting': 'Connecting…',
+  'messages.offline': 'Offline — reconnecting',
+  'messages.empty': 'Say hello to {username}.',
+  'messages.typing': '{username} is typing…',
+  'messages.notSent': 'Not sent',
+  'messages.receipt.sent': 'Sent',
+  'messages.receipt.delivered': 'Delivered',
+  'messages.receipt.read': 'Read',
+  'messages.error.loadConversation': 'Failed to load conversation',
+  'messages.error.loadMessages': 'Failed to load messages',
+} satisfies Record<string, Message>
+
+export default en
@@ -0,0 +1,375 @@
+/** Spanish messages. See lib/i18n.ts for the message format. */
+
+import type { Catalog } from '../i18n'
+
+const es: Catalog = {
+  // ─── Shared ─────────────────────────────────────────────────────────────────
+  'common.cancel': 'Cancelar',
+  'common.close': 'Cerrar',
+  'common.delete': 'Eliminar',
+  'common.dismiss': 'Descartar',
+  'common.loading': 'Cargando…',
+  'common.remove': 'Quitar',
+  'common.rename': 'Renombrar',
+  'common.retry': 'Reintentar',
+  'common.save': 'Guardar',
+  'common.saving': 'Guardando…',
+  'common.send': 'Enviar',
+  'common.signOut': 'Cerrar sesión',
+  'common.you': 'Tú',
+  'common.copy': 'Copiar',
+  'common.copyLabel': 'Copiar {label}',
+  'common.copied': 'Copiado',
+  'common.copyFailed': 'No se pudo copiar',
+  'api.network': 'No se pudo contactar con el servidor: comprueba tu conexión',
+  'api.timeout': 'El servidor tardó demasiado en responder',
+  'api.aborted': 'Se canceló la solicitud',
+
+  // ─── Navigation ─────────────────────────────────────────────────────────────
+  'nav.main': 'Principal',
+  'nav.skipToContent': 'Saltar al contenido principal',
+  'nav.chat': 'Chat',
+  'nav.aiCoach': 'Coach IA',
+  'nav.contacts': 'Contactos',
+  'nav.history': 'Historial',
+  'nav.video': 'Vídeo',
+  'nav.admin': 'Administración',
+  'nav.unreadMessages': { one: '{count} mensaje sin leer', other: '{count} mensajes sin leer' },
+
+  // ─── Notifications ──────────────────────────────────────────────────────────
+  'notifications.title': 'Notificaciones',
+  'notifications.unreadLabel': 'Notificaciones, {count} sin leer',
+  'notifications.markAllRead': 'Marcar todas como leídas',
+  'notifications.unread': 'Sin leer: ',
+  'notifications.empty': 'Estás al día.',
+  'notifications.settings': 'Ajustes de notificaciones',
+  'notifications.loadFailed': 'No se pudieron cargar las notificaciones',
+  'notifications.markFailed': 'No se pudieron marcar las notificaciones como leídas',
+  'notifications.category.message': 'Mensajes',
+  'notifications.category.message.description': 'Un contacto te envía un mensaje',
+  'notifications.category.video': 'Vídeos',
+  'notifications.category.video.description': 'Llega un vídeo a tu bandeja de entrada',
+  'notifications.category.contact': 'Contactos',
+  'notifications.category.contact.description': 'Alguien quiere añadirte o acepta tu solicitud',
+  'notifications.channel.toast': 'Aviso en la aplicación',
+  'notifications.channel.browser': 'Notificación del navegador',
+  'notifications.permission.default':
+    'Las notificaciones del navegador aparecen mientras Unify está en una pestaña en segundo plano. '
+    + 'Tu navegador te pedirá permiso primero.',
+  'notifications.permission.granted': 'Las notificaciones del navegador están permitidas.',
+  'notifications.permission.denied':
+    'Las notificaciones del navegador están bloqueadas. Permítelas en la configuración del sitio de tu navegador para usarlas aquí.',
+  'notifications.permission.unsupported': 'Este navegador no admite notificaciones.',
+  'notifications.saveFailed': 'No se pudieron guardar los ajustes de notificaciones',
+
+  // ─── Session ────────────────────────────────────────────────────────────────
+  'session.expiresIn': {
+    one: 'Tu sesión caduca en aproximadamente {count} minuto.',
+    other: 'Tu sesión caduca en aproximadamente {count} minutos.',
+  },
+  'session.extend': 'Mantener la sesión',
+  'session.extending': 'Ampliando…',
+  'session.extendFailed': 'No se pudo ampliar tu sesión',
+
+  // ─── Sign in and registration ───────────────────────────────────────────────
+  'auth.username': 'Nombre de usuario',
+  'auth.password': 'Contraseña',
+  'auth.usernamePlaceholder': 'tu_usuario',
+  'login.title': 'Inicia sesión en Unify',
+  'login.sessionExpired': 'Tu sesión ha caducado. Vuelve a iniciar sesión para continuar.',
+  'login.remember': 'Recordarme durante 30 días',
+  'login.submit': 'Iniciar sesión',
+  'login.submitting': 'Iniciando sesión…',
+  'login.failed': 'No se pudo iniciar sesión',
+  'login.noAccount': '¿No tienes cuenta?',
+  'login.createOne': 'Crea una',
+  'register.title': 'Crea tu cuenta',
+  'register.confirmPassword': 'Confirmar contraseña',
+  'register.usernameRules': 'Usa de 3 a 30 letras, números o guiones bajos',
+  'register.usernameTaken': 'Nombre de usuario no disponible',
+  'register.checking': 'Comprobando disponibilidad…',
+  'register.available': '✓ Disponible',
+  'register.passwordMismatch': 'Las contraseñas no coinciden',
+  'register.failed': 'No se pudo completar el registro',
+  'register.submit': 'Crear cuenta',
+  'register.submitting': 'Creando cuenta…',
+  'register.haveAccount': '¿Ya tienes cuenta?',
+  'register.signIn': 'Inicia sesión',
+
+  // ─── Passwords ──────────────────────────────────────────────────────────────
+  'password.strength': 'Seguridad de la contraseña',
+  'password.rule.length': 'Al menos {count} caracteres',
+  'password.rule.variety': 'Letras y números',
+  'password.rule.username': 'No contiene tu nombre de usuario',
+  'password.rule.met': ' (cumplido)',
+  'password.rule.notMet': ' (no cumplido)',
+  'password.strength.0': 'Demasiado débil',
+  'password.strength.1': 'Débil',
+  'password.strength.2': 'Aceptable',
+  'password.strength.3': 'Buena',
+  'password.strength.4': 'Fuerte',
+
+  // ─── Chat ───────────────────────────────────────────────────────────────────
+  'chat.newConversation': 'Nueva conversación',
+  'chat.sidebar.newChat': 'Nuevo chat',
+  'chat.sidebar.empty': 'Aún no hay conversaciones.',
+  'chat.sidebar.branched': 'Conversación ramificada',
+  'chat.sidebar.confirmDelete': '¿Eliminar «{title}»? No se puede deshacer.',
+  'chat.empty': 'Empieza una conversación: escribe un mensaje o pulsa el micrófono.',
+  'chat.loadEarlier': 'Cargar mensajes anteriores',
+  'chat.branchedFrom': 'Ramificada de',
+  'chat.dropFiles': 'Suelta los archivos para adjuntarlos',
+  'chat.thinking': 'Pensando…',
+  'chat.assistantSaid': 'Asistente: {text}',
+  'chat.edit': 'Editar',
+  'chat.editMessage': 'Editar mensaje',
+  'chat.editNotice': 'Se envía en una nueva rama; esta conversación se mantiene tal como está.',
+  'chat.sendAsBranch': 'Enviar como nueva rama',
+  'chat.regenerate': 'Regenerar',
+  'chat.regenerateTitle': 'Obtener otra respuesta en una nueva rama',
+  'chat.copyTarget': 'mensaje',
+  'chat.confirmDeleteMessage': '¿Eliminar este mensaje? No se puede deshacer.',
+  'chat.readAloud': 'Leer en voz alta',
+  'chat.stopReading': 'Dejar de leer en voz alta',
+  'chat.meta.tokens': { one: '{count} token', other: '{count} tokens' },
+  'chat.meta.cutOff': 'cortado por el límite de tokens',
+  'chat.meta.usage': 'Tokens: {prompt} de entrada + {completion} de respuesta',
+  'chat.outbox.pending': 'Pendiente de envío',
+  'chat.outbox.sending': 'Enviando…',
+  'chat.outbox.failed': 'No enviado',
+  'chat.outbox.sendFailed': 'No se pudo enviar',
+  'chat.discard': 'Descartar',
+  'chat.offline': 'Estás sin conexión: los mensajes se enviarán cuando vuelvas a conectarte.',
+  'chat.status.transcribing': 'Transcribiendo lo que has dicho',
+  'chat.status.listening': 'Micrófono activado, escuchando',
+  'chat.voiceChat': 'Chat de voz',
+  'chat.endVoiceChat': 'Terminar chat de voz',
+  'chat.voiceChatTitle':
+    'Habla, escucha la respuesta y sigue hablando: el micrófono se vuelve a abrir tras cada respuesta',
+  'chat.voiceSettings': 'Ajustes de voz',
+  'chat.attach': 'Adjuntar archivos',
+  'chat.attachTitle': 'Adjuntar archivos (o suéltalos o pégalos aquí)',
+  'chat.messageLabel': 'Mensaje',
+  'chat.placeholder.type': 'Escribe un mensaje…',
+  'chat.placeholder.listening': 'Escuchando…',
+  'chat.placeholder.handsFree': 'Escuchando: pulsa detener cuando termines…',
+  'chat.placeholder.transcribing': 'Transcribiendo…',
+  'chat.speechLanguage': 'Idioma de voz',
+  'chat.handsFree': 'Manos libres',
+  'chat.handsFreeTitle': 'Manos libres: sigue escuchando durante las pausas hasta que pulses detener',
+  'chat.mic.start': 'Iniciar entrada de voz',
+  'chat.mic.startServer': 'Iniciar entrada de voz (transcrita en el servidor)',
+  'chat.mic.stop': 'Detener entrada de voz',
+  'chat.mic.stopRecording': 'Detener grabación',
+  'chat.mic.transcribing': 'Transcribiendo entrada de voz',
+  'chat.stop': 'Detener',
+  'chat.waitingForUploads': 'Esperando a que se suban los adjuntos',
+  'chat.error.loadMessages': 'No se pudieron cargar los mensajes',
+  'chat.error.queue': 'No se pudo contactar con el servidor ni guardar el mensaje para más tarde',
+  'chat.error.start': 'No se pudo iniciar una conversación',
+  'chat.error.response': 'No se pudo obtener una respuesta',
+  'chat.error.branch': 'No se pudo ramificar la conversación',
+  'chat.error.deleteMessage': 'No se pudo eliminar el mensaje',
+  'chat.error.rename': 'No se pudo renombrar la conversación',
+  'chat.error.deleteConversation': 'No se pudo eliminar la conversación',
+  'markdown.code': 'código',
+
+  // ─── Attachments and voice ──────────────────────────────────────────────────
+  'attachments.uploading': 'Subiendo {name}',
+  'attachments.remove': 'Quitar {name}',
+  'attachments.wrongType': '{name}: solo imágenes, PDF y archivos de texto',
+  'attachments.empty': '{name} está vacío',
+  'attachments.tooLarge': '{name} es demasiado grande (máximo {max})',
+  'attachments.tooMany': {
+    one: 'Adjunta como máximo {count} archivo por mensaje',
+    other: 'Adjunta como máximo {count} archivos por mensaje',
+  },
+  'attachments.uploadFailed': 'Error al subir',
+  'voice.voice': 'Voz',
+  'voice.default': 'Predeterminada',
+  'voice.rate': 'Velocidad',
+  'voice.pitch': 'Tono',
+
+  // ─── Profile ────────────────────────────────────────────────────────────────
+  'profile.title': 'Perfil',
+  'profile.savedToAccount': 'Se guarda en tu cuenta, así que te acompaña en otros dispositivos.',
+  'profile.details.title': 'Perfil',
+  'profile.details.displayName': 'Nombre visible',
+  'profile.details.bio': 'Biografía',
+  'profile.details.bioPlaceholder': 'Unas palabras sobre ti',
+  'profile.details.save': 'Guardar perfil',
+  'profile.details.saved': 'Perfil guardado.',
+  'profile.details.saveFailed': 'No se pudo guardar el perfil',
+  'profile.photo.change': 'Cambiar foto',
+  'profile.photo.uploading': 'Subiendo…',
+  'profile.photo.notImage': 'Elige un archivo de imagen',
+  'profile.photo.uploadFailed': 'No se pudo subir la foto',
+  'profile.photo.removeFailed': 'No se pudo quitar la foto',
+  'profile.password.title': 'Cambiar contraseña',
+  'profile.password.current': 'Contraseña actual',
+  'profile.password.new': 'Nueva contraseña',
+  'profile.password.confirm': 'Confirmar nueva contraseña',
+  'profile.password.changing': 'Cambiando…',
+  'profile.password.changed': 'Contraseña cambiada.',
+  'profile.password.failed': 'No se pudo cambiar la contraseña',
+  'profile.theme.title': 'Tema',
+  'profile.theme.saveFailed': 'El tema no se guardó en tu cuenta',
+  'profile.language.title': 'Idioma',
+  'profile.language.notice':
+    'También se usa para la entrada de voz. Se guarda en tu cuenta, así que te acompaña en otros dispositivos.',
+  'profile.language.saveFailed': 'El idioma no se guardó en tu cuenta',
+  'profile.sessions.title': 'Dónde has iniciado sesión',
+  'profile.sessions.thisDevice': 'Este dispositivo',
+  'profile.sessions.unknownIp': 'IP desconocida',
+  'profile.sessions.lastSeen': 'última actividad: {time}',
+  'profile.sessions.remembered': 'recordado',
+  'profile.sessions.signingOut': 'Cerrando sesión…',
+  'profile.sessions.signOutOthers': 'Cerrar sesión en otros dispositivos',
+  'profile.sessions.signOutAll': 'Cerrar sesión en todos los dispositivos',
+  'profile.sessions.loadFailed': 'No se pudieron cargar las sesiones',
+  'profile.sessions.revokeFailed': 'No se pudo cerrar la sesión en ese dispositivo',
+  'profile.sessions.revokeAllFailed': 'No se pudo cerrar la sesión en los dispositivos',
+  'profile.data.title': 'Tus datos',
+  'profile.data.description':
+    'Descarga tu perfil, conversaciones, transcripciones, contactos y sesiones de coaching en un archivo JSON.',
+  'profile.data.export': 'Exportar mis datos',
+  'profile.delete.title': 'Eliminar cuenta',
+  'profile.delete.description':
+    'Elimina para siempre tu cuenta, conversaciones, contactos, vídeos e historial de coaching. '
+    + 'No se puede deshacer: exporta tus datos antes si quieres una copia.',
+  'profile.delete.start': 'Eliminar mi cuenta…',
+  'profile.delete.confirmPassword': 'Introduce tu contraseña para confirmar',
+  'profile.delete.confirm': 'Eliminar la cuenta para siempre',
+  'profile.delete.deleting': 'Eliminando…',
+  'profile.delete.failed': 'No se pudo eliminar la cuenta',
+  'theme.system': 'Según el sistema',
+  'theme.light': 'Claro',
+  'theme.dark': 'Oscuro',
+  'theme.highContrast': 'Alto contraste',
+  'avatar.drag': 'Arrastra para colocar tu avatar',
+  'avatar.zoom': 'Zoom',
+  'avatar.use': 'Usar esta foto',
+  'avatar.unreadable': 'Ese archivo no se pudo leer como imagen',
+  'avatar.cropFailed': 'No se pudo recortar la imagen',
+  'device.unknown': 'Dispositivo desconocido',
+  'device.browserOnOs': '{browser} en {os}',
+
+  // ─── AI Coach ───────────────────────────────────────────────────────────────
+  'coach.intro': 'Sesiones guiadas que terminan con un resumen y tareas que puedes seguir como objetivos.',
+  'coach.start': { one: 'Empezar · {count} paso', other: 'Empezar · {count} pasos' },
+  'coach.goals': 'Objetivos',
+  'coach.goals.empty': 'Termina una sesión para convertir sus tareas en objetivos.',
+  'coach.goals.completed': 'Completados ({count})',
+  'coach.goal.placeholder': 'Añade un objetivo…',
+  'coach.goal.add': 'Añadir',
+  'coach.goal.markDone': 'Marcar «{title}» como hecho',
+  'coach.goal.markOpen': 'Marcar «{title}» como pendiente',
+  'coach.sessions': 'Sesiones',
+  'coach.inProgress': 'en curso',
+  'coach.confirmDeleteSession': '¿Eliminar esta sesión? Los objetivos que creó se conservan.',
+  'coach.back': '← Coach IA',
+  'coach.complete': 'Completada',
+  'coach.step': 'Paso {step} de {total}',
+  'coach.openGoals': 'Tus objetivos pendientes',
+  'coach.answerPlaceholder': 'Tu respuesta…',
+  'coach.next': 'Siguiente',
+  'coach.finish': 'Terminar sesión',
+  'coach.summary': 'Resumen',
+  'coach.actionItems': 'Tareas',
+  'coach.noActionItems': 'No hay tareas.',
+  'coach.savedAsGoals': 'Guardadas como objetivos: márcalas aquí o en la página del Coach IA.',
+  'coach.error.loadSessions': 'No se pudieron cargar las sesiones',
+  'coach.error.loadGoals': 'No se pudieron cargar los objetivos',
+  'coach.error.loadSession': 'No se pudo cargar la sesión',
+  'coach.error.start': 'No se pudo iniciar la sesión',
+  'coach.error.addGoal': 'No se pudo añadir el objetivo',
+  'coach.error.updateGoal': 'No se pudo actualizar el objetivo',
+  'coach.error.deleteGoal': 'No se pudo eliminar el objetivo',
+  'coach.error.deleteSession': 'No se pudo eliminar la sesión',
+  'coach.error.answer': 'No se pudo guardar tu respuesta',
+
+  // ─── Contacts ───────────────────────────────────────────────────────────────
+  'contacts.find': 'Buscar personas',
+  'contacts.searchPlaceholder': 'Busca por nombre de usuario…',
+  'contacts.searchResults': 'Resultados de búsqueda',
+  'contacts.noResults': 'No se encontraron usuarios.',
+  'contacts.add': 'Añadir contacto',
+  'contacts.acceptRequest': 'Aceptar solicitud',
+  'contacts.requestSent': 'Solicitud enviada',
+  'contacts.requestSentDetail': 'solicitud enviada',
+  'contacts.inContacts': 'En tus contactos',
+  'contacts.blocked': 'Bloqueados',
+  'contacts.requests': 'Solicitudes',
+  'contacts.wantsToConnect': 'quiere conectar contigo',
+  'contacts.accept': 'Aceptar',
+  'contacts.decline': 'Rechazar',
+  'contacts.yours': 'Tus contactos',
+  'contacts.empty': 'Tus contactos aparecerán aquí.',
+  'contacts.message': 'Mensaje',
+  'contacts.block': 'Bloquear',
+  'contacts.unblock': 'Desbloquear',
+  'contacts.pending': 'Pendientes',
+  'contacts.confirmBlock': '¿Bloquear a {username}? No podrá encontrarte ni enviarte mensajes.',
+  'contacts.error.load': 'No se pudieron cargar los contactos',
+  'contacts.error.search': 'La búsqueda falló',
+  'contacts.error.openConversation': 'No se pudo abrir la conversación',
+  'contacts.error.generic': 'Algo salió mal',
+
+  // ─── History ────────────────────────────────────────────────────────────────
+  'history.search': 'Buscar en el historial',
+  'history.searchPlaceholder': 'Busca en conversaciones y transcripciones…',
+  'history.type': 'Tipo',
+  'history.type.all': 'Todos los tipos',
+  'history.type.conversation': 'Conversaciones',
+  'history.type.transcript': 'Transcripciones',
+  'history.from': 'Desde',
+  'history.to': 'Hasta',
+  'history.voiceTranscript': 'Transcripción de voz',
+  'history.noMatches': 'No se encontraron coincidencias.',
+  'history.empty': 'Tu historial de conversaciones aparecerá aquí.',
+  'history.error.load': 'No se pudo cargar el historial',
+
+  // ─── Video ──────────────────────────────────────────────────────────────────
+  'video.unsupported': 'Este navegador no permite grabar vídeo.',
+  'video.cameraOn': 'Encender cámara',
+  'video.cameraOff': 'Apagar cámara',
+  'video.record': 'Grabar',
+  'video.pause': 'Pausar',
+  'video.resume': 'Reanudar',
+  'video.stop': 'Detener',
+  'video.retake': 'Repetir',
+  'video.rec': 'GRAB',
+  'video.paused': 'EN PAUSA',
+  'video.sendTo': 'Enviar a',
+  'video.sendToPlaceholder': 'Enviar a…',
+  'video.resumeSending': 'Reanudar envío',
+  'video.uploadProgress': 'Progreso de la subida',
+  'video.uploading': 'Subiendo… {percent}',
+  'video.sent': 'Enviado a {recipient}',
+  'video.error.interrupted': 'Subida interrumpida: comprueba tu conexión',
+  'video.error.permissionDenied': 'Se denegó el permiso de cámara o micrófono',
+  'video.error.noCamera': 'No se pudo acceder a la cámara o al micrófono',
+  'video.inbox': 'Bandeja de entrada',
+  'video.inbox.sort': 'Ordenar vídeos',
+  'video.inbox.sort.newest': 'Más recientes primero',
+  'video.inbox.sort.oldest': 'Más antiguos primero',
+  'video.inbox.sort.sender': 'Remitente',
+  'video.inbox.sort.longest': 'Más largos primero',
+  'video.inbox.empty': 'Aún no hay vídeos.',
+  'video.inbox.loadFailed': 'No se pudo cargar la bandeja de entrada',
+
+  // ─── Direct messages ────────────────────────────────────────────────────────
+  'messages.back': '← Contactos',
+  'messages.connecting': 'Conectando…',
+  'messages.offline': 'Sin conexión: reconectando',
+  'messages.empty': 'Saluda a {username}.',
+  'messages.typing': '{username} está escribiendo…',
+  'messages.notSent': 'No enviado',
+  'messages.receipt.sent': 'Enviado',
+  'messages.receipt.delivered': 'Entregado',
+  'messages.receipt.read': 'Leído',
+  'messages.error.loadConversation': 'No se pudo cargar la conversación',
+  'messages.error.loadMessages': 'No se pudieron cargar los mensajes',
+}
+
+export default es
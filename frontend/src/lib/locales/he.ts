@@ -0,0 +1,377 @@
+/** Hebrew messages. See lib/i18n.ts for the message format. */
+
+import type { Catalog } from '../i18n'
+
+const he: Catalog = {
+  // ─── Shared ─────────────────────────────────────────────────────────────────
+  'common.cancel': 'ביטול',
+  'common.close': 'סגירה',
+  'common.delete': 'מחיקה',
+  'common.dismiss': 'סגירה',
+  'common.loading': 'טוען…',
+  'common.remove': 'הסרה',
+  'common.rename': 'שינוי שם',
+  'common.retry': 'ניסיון חוזר',
+  'common.save': 'שמירה',
+  'common.saving': 'שומר…',
+  'common.send': 'שליחה',
+  'common.signOut': 'התנתקות',
+  'common.you': 'את/ה',
+  'common.copy': 'העתקה',
+  'common.copyLabel': 'העתקת {label}',
+  'common.copied': 'הועתק',
+  'common.copyFailed': 'ההעתקה נכשלה',
+  'api.network': 'לא ניתן להגיע לשרת — יש לבדוק את החיבור',
+  'api.timeout': 'השרת לא הגיב בזמן',
+  'api.aborted': 'הבקשה בוטלה',
+
+  // ─── Navigation ─────────────────────────────────────────────────────────────
+  'nav.main': 'ראשי',
+  'nav.skipToContent': 'דילוג לתוכן הראשי',
+  'nav.chat': 'צ׳אט',
+  'nav.aiCoach': 'מאמן AI',
+  'nav.contacts': 'אנשי קשר',
+  'nav.history': 'היסטוריה',
+  'nav.video': 'וידאו',
+  'nav.admin': 'ניהול',
+  'nav.unreadMessages': {
+    one: 'הודעה אחת שלא נקראה',
+    two: 'שתי הודעות שלא נקראו',
+    other: '{count} הודעות שלא נקראו',
+  },
+
+  // ─── Notifications ──────────────────────────────────────────────────────────
+  'notifications.title': 'התראות',
+  'notifications.unreadLabel': 'התראות, {count} שלא נקראו',
+  'notifications.markAllRead': 'סימון הכול כנקרא',
+  'notifications.unread': 'לא נקרא: ',
+  'notifications.empty': 'אין חדש.',
+  'notifications.settings': 'הגדרות התראות',
+  'notifications.loadFailed': 'טעינת ההתראות נכשלה',
+  'notifications.markFailed': 'סימון ההתראות כנקראו נכשל',
+  'notifications.category.message': 'הודעות',
+  'notifications.category.message.description': 'איש קשר שולח לך הודעה',
+  'notifications.category.video': 'סרטונים',
+  'notifications.category.video.description': 'סרטון מגיע לתיבת הדואר הנכנס שלך',
+  'notifications.category.contact': 'אנשי קשר',
+  'notifications.category.contact.description': 'מישהו מבקש להוסיף אותך או מאשר את בקשתך',
+  'notifications.channel.toast': 'חלונית קופצת באפליקציה',
+  'notifications.channel.browser': 'התראת דפדפן',
+  'notifications.permission.default':
+    'התראות דפדפן מופיעות כש-Unify פתוח בכרטיסייה ברקע. הדפדפן יבקש אישור תחילה.',
+  'notifications.permission.granted': 'התראות דפדפן מותרות.',
+  'notifications.permission.denied':
+    'התראות הדפדפן חסומות. אפשר אותן בהגדרות האתר בדפדפן כדי להשתמש בהן כאן.',
+  'notifications.permission.unsupported': 'הדפדפן הזה לא תומך בהתראות.',
+  'notifications.saveFailed': 'שמירת הגדרות ההתראות נכשלה',
+
+  // ─── Session ────────────────────────────────────────────────────────────────
+  'session.expiresIn': {
+    one: 'ההתחברות שלך תפוג בעוד כדקה.',
+    two: 'ההתחברות שלך תפוג בעוד כשתי דקות.',
+    other: 'ההתחברות שלך תפוג בעוד כ-{count} דקות.',
+  },
+  'session.extend': 'הישארות מחובר/ת',
+  'session.extending': 'מאריך…',
+  'session.extendFailed': 'לא ניתן היה להאריך את ההתחברות',
+
+  // ─── Sign in and registration ───────────────────────────────────────────────
+  'auth.username': 'שם משתמש',
+  'auth.password': 'סיסמה',
+  'auth.usernamePlaceholder': 'your_username',
+  'login.title': 'התחברות ל-Unify',
+  'login.sessionExpired': 'ההתחברות שלך פגה. יש להתחבר שוב כדי להמשיך.',
+  'login.remember': 'לזכור אותי ל-30 יום',
+  'login.submit': 'התחברות',
+  'login.submitting': 'מתחבר…',
+  'login.failed': 'ההתחברות נכשלה',
+  'login.noAccount': 'אין לך חשבון?',
+  'login.createOne': 'יצירת חשבון',
+  'register.title': 'יצירת חשבון',
+  'register.confirmPassword': 'אימות סיסמה',
+  'register.usernameRules': '3-30 אותיות, ספרות או קווים תחתונים',
+  'register.usernameTaken': 'שם המשתמש אינו זמין',
+  'register.checking': 'בודק זמינות…',
+  'register.available': '✓ זמין',
+  'register.passwordMismatch': 'הסיסמאות אינן תואמות',
+  'register.failed': 'ההרשמה נכשלה',
+  'register.submit': 'יצירת חשבון',
+  'register.submitting': 'יוצר חשבון…',
+  'register.haveAccount': 'כבר יש לך חשבון?',
+  'register.signIn': 'התחברות',
+
+  // ─── Passwords ──────────────────────────────────────────────────────────────
+  'password.strength': 'חוזק הסיסמה',
+  'password.rule.length': 'לפחות {count} תווים',
+  'password.rule.variety': 'אותיות וספרות',
+  'password.rule.username': 'לא מכילה את שם המשתמש שלך',
+  'password.rule.met': ' (מתקיים)',
+  'password.rule.notMet': ' (לא מתקיים)',
+  'password.strength.0': 'חלשה מדי',
+  'password.strength.1': 'חלשה',
+  'password.strength.2': 'סבירה',
+  'password.strength.3': 'טובה',
+  'password.strength.4': 'חזקה',
+
+  // ─── Chat ───────────────────────────────────────────────────────────────────
+  'chat.newConversation': 'שיחה חדשה',
+  'chat.sidebar.newChat': 'צ׳אט חדש',
+  'chat.sidebar.empty': 'אין עדיין שיחות.',
+  'chat.sidebar.branched': 'שיחה מפוצלת',
+  'chat.sidebar.confirmDelete': 'למחוק את "{title}"? לא ניתן לבטל פעולה זו.',
+  'chat.empty': 'התחל/י שיחה — הקלד/י הודעה או לחץ/י על המיקרופון.',
+  'chat.loadEarlier': 'טעינת הודעות קודמות',
+  'chat.branchedFrom': 'פוצלה מתוך',
+  'chat.dropFiles': 'שחרר/י קבצים כדי לצרף',
+  'chat.thinking': 'חושב…',
+  'chat.assistantSaid': 'העוזר: {text}',
+  'chat.edit': 'עריכה',
+  'chat.editMessage': 'עריכת הודעה',
+  'chat.editNotice': 'נשלחת בענף חדש; השיחה הזו נשמרת כפי שהיא.',
+  'chat.sendAsBranch': 'שליחה כענף חדש',
+  'chat.regenerate': 'יצירה מחדש',
+  'chat.regenerateTitle': 'קבלת תשובה אחרת בענף חדש',
+  'chat.copyTarget': 'ההודעה',
+  'chat.confirmDeleteMessage': 'למחוק את ההודעה? לא ניתן לבטל פעולה זו.',
+  'chat.readAloud': 'הקראה',
+  'chat.stopReading': 'עצירת ההקראה',
+  'chat.meta.tokens': { one: 'טוקן אחד', two: 'שני טוקנים', other: '{count} טוקנים' },
+  'chat.meta.cutOff': 'נקטע במגבלת הטוקנים',
+  'chat.meta.usage': 'טוקנים: {prompt} בקלט + {completion} בתשובה',
+  'chat.outbox.pending': 'ממתין לשליחה',
+  'chat.outbox.sending': 'שולח…',
+  'chat.outbox.failed': 'לא נשלחה',
+  'chat.outbox.sendFailed': 'השליחה נכשלה',
+  'chat.discard': 'ביטול',
+  'chat.offline': 'אין חיבור — ההודעות יישלחו כשהחיבור יחזור.',
+  'chat.status.transcribing': 'מתמלל את הדיבור שלך',
+  'chat.status.listening': 'המיקרופון פועל, מאזין',
+  'chat.voiceChat': 'צ׳אט קולי',
+  'chat.endVoiceChat': 'סיום הצ׳אט הקולי',
+  'chat.voiceChatTitle': 'דבר/י, הקשב/י לתשובה והמשך/י לדבר — המיקרופון נפתח מחדש אחרי כל תשובה',
+  'chat.voiceSettings': 'הגדרות קול',
+  'chat.attach': 'צירוף קבצים',
+  'chat.attachTitle': 'צירוף קבצים (או שחרור או הדבקה שלהם כאן)',
+  'chat.messageLabel': 'הודעה',
+  'chat.placeholder.type': 'הקלד/י הודעה…',
+  'chat.placeholder.listening': 'מאזין…',
+  'chat.placeholder.handsFree': 'מאזין — לחץ/י עצירה בסיום…',
+  'chat.placeholder.transcribing': 'מתמלל…',
+  'chat.speechLanguage': 'שפת הדיבור',
+  'chat.handsFree': 'ללא ידיים',
+  'chat.handsFreeTitle': 'ללא ידיים: ממשיך להאזין גם בהפסקות עד שתלחץ/י עצירה',
+  'chat.mic.start': 'התחלת קלט קולי',
+  'chat.mic.startServer': 'התחלת קלט קולי (מתומלל בשרת)',
+  'chat.mic.stop': 'עצירת קלט קולי',
+  'chat.mic.stopRecording': 'עצירת ההקלטה',
+  'chat.mic.transcribing': 'מתמלל קלט קולי',
+  'chat.stop': 'עצירה',
+  'chat.waitingForUploads': 'ממתין להעלאת הקבצים המצורפים',
+  'chat.error.loadMessages': 'טעינת ההודעות נכשלה',
+  'chat.error.queue': 'לא ניתן היה להגיע לשרת, וגם לא לשמור את ההודעה לשליחה מאוחרת',
+  'chat.error.start': 'פתיחת השיחה נכשלה',
+  'chat.error.response': 'קבלת התשובה נכשלה',
+  'chat.error.branch': 'פיצול השיחה נכשל',
+  'chat.error.deleteMessage': 'מחיקת ההודעה נכשלה',
+  'chat.error.rename': 'שינוי שם השיחה נכשל',
+  'chat.error.deleteConversation': 'מחיקת השיחה נכשלה',
+  'markdown.code': 'קוד',
+
+  // ─── Attachments and voice ──────────────────────────────────────────────────
+  'attachments.uploading': 'מעלה את {name}',
+  'attachments.remove': 'הסרת {name}',
+  'attachments.wrongType': '{name}: רק תמונות, קובצי PDF וקובצי טקסט',
+  'attachments.empty': '{name} ריק',
+  'attachments.tooLarge': '{name} גדול מדי (עד {max})',
+  'attachments.tooMany': {
+    one: 'אפשר לצרף קובץ אחד לכל היותר להודעה',
+    two: 'אפשר לצרף שני קבצים לכל היותר להודעה',
+    other: 'אפשר לצרף {count} קבצים לכל היותר להודעה',
+  },
+  'attachments.uploadFailed': 'ההעלאה נכשלה',
+  'voice.voice': 'קול',
+  'voice.default': 'ברירת מחדל',
+  'voice.rate': 'מהירות',
+  'voice.pitch': 'גובה צליל',
+
+  // ─── Profile ────────────────────────────────────────────────────────────────
+  'profile.title': 'פרופיל',
+  'profile.savedToAccount': 'נשמר בחשבון שלך, כך שהוא זמין גם במכשירים אחרים.',
+  'profile.details.title': 'פרופיל',
+  'profile.details.displayName': 'שם תצוגה',
+  'profile.details.bio': 'אודות',
+  'profile.details.bioPlaceholder': 'כמה מילים עליך',
+  'profile.details.save': 'שמירת הפרופיל',
+  'profile.details.saved': 'הפרופיל נשמר.',
+  'profile.details.saveFailed': 'שמירת הפרופיל נכשלה',
+  'profile.photo.change': 'החלפת תמונה',
+  'profile.photo.uploading': 'מעלה…',
+  'profile.photo.notImage': 'יש לבחור קובץ תמונה',
+  'profile.photo.uploadFailed': 'העלאת התמונה נכשלה',
+  'profile.photo.removeFailed': 'הסרת התמונה נכשלה',
+  'profile.password.title': 'שינוי סיסמה',
+  'profile.password.current': 'סיסמה נוכחית',
+  'profile.password.new': 'סיסמה חדשה',
+  'profile.password.confirm': 'אימות הסיסמה החדשה',
+  'profile.password.changing': 'משנה…',
+  'profile.password.changed': 'הסיסמה שונתה.',
+  'profile.password.failed': 'שינוי הסיסמה נכשל',
+  'profile.theme.title': 'ערכת נושא',
+  'profile.theme.saveFailed': 'ערכת הנושא לא נשמרה בחשבון שלך',
+  'profile.language.title': 'שפה',
+  'profile.language.notice': 'משמשת גם לקלט קולי. נשמרת בחשבון שלך, כך שהיא זמינה גם במכשירים אחרים.',
+  'profile.language.saveFailed': 'השפה לא נשמרה בחשבון שלך',
+  'profile.sessions.title': 'היכן את/ה מחובר/ת',
+  'profile.sessions.thisDevice': 'המכשיר הזה',
+  'profile.sessions.unknownIp': 'כתובת IP לא ידועה',
+  'profile.sessions.lastSeen': 'פעילות אחרונה {time}',
+  'profile.sessions.remembered': 'זכור',
+  'profile.sessions.signingOut': 'מנתק…',
+  'profile.sessions.signOutOthers': 'התנתקות ממכשירים אחרים',
+  'profile.sessions.signOutAll': 'התנתקות מכל המכשירים',
+  'profile.sessions.loadFailed': 'טעינת ההתחברויות נכשלה',
+  'profile.sessions.revokeFailed': 'הניתוק של המכשיר הזה נכשל',
+  'profile.sessions.revokeAllFailed': 'ניתוק המכשירים נכשל',
+  'profile.data.title': 'הנתונים שלך',
+  'profile.data.description': 'הורדת הפרופיל, השיחות, התמלולים, אנשי הקשר ומפגשי האימון שלך כקובץ JSON.',
+  'profile.data.export': 'ייצוא הנתונים שלי',
+  'profile.delete.title': 'מחיקת החשבון',
+  'profile.delete.description':
+    'מוחק לצמיתות את החשבון, השיחות, אנשי הקשר, הסרטונים והיסטוריית האימון שלך. '
+    + 'לא ניתן לבטל פעולה זו — כדאי לייצא את הנתונים קודם אם ברצונך לשמור עותק.',
+  'profile.delete.start': 'מחיקת החשבון שלי…',
+  'profile.delete.confirmPassword': 'יש להזין את הסיסמה לאישור',
+  'profile.delete.confirm': 'מחיקת החשבון לצמיתות',
+  'profile.delete.deleting': 'מוחק…',
+  'profile.delete.failed': 'מחיקת החשבון נכשלה',
+  'theme.system': 'לפי המערכת',
+  'theme.light': 'בהיר',
+  'theme.dark': 'כהה',
+  'theme.highContrast': 'ניגודיות גבוהה',
+  'avatar.drag': 'גרירה למיקום תמונת הפרופיל',
+  'avatar.zoom': 'זום',
+  'avatar.use': 'שימוש בתמונה הזו',
+  'avatar.unreadable': 'לא ניתן היה לקרוא את הקובץ כתמונה',
+  'avatar.cropFailed': 'חיתוך התמונה נכשל',
+  'device.unknown': 'מכשיר לא ידוע',
+  'device.browserOnOs': '{browser} ב-{os}',
+
+  // ─── AI Coach ───────────────────────────────────────────────────────────────
+  'coach.intro': 'מפגשים מודרכים שמסתיימים בסיכום ובמשימות שאפשר לעקוב אחריהן כיעדים.',
+  'coach.start': { one: 'התחלה · שלב אחד', two: 'התחלה · שני שלבים', other: 'התחלה · {count} שלבים' },
+  'coach.goals': 'יעדים',
+  'coach.goals.empty': 'סיום מפגש יהפוך את המשימות שלו ליעדים.',
+  'coach.goals.completed': 'הושלמו ({count})',
+  'coach.goal.placeholder': 'הוספת יעד…',
+  'coach.goal.add': 'הוספה',
+  'coach.goal.markDone': 'סימון "{title}" כהושלם',
+  'coach.goal.markOpen': 'סימון "{title}" כפתוח',
+  'coach.sessions': 'מפגשים',
+  'coach.inProgress': 'בתהליך',
+  'coach.confirmDeleteSession': 'למחוק את המפגש? היעדים שנוצרו בו יישמרו.',
+  'coach.back': '→ מאמן AI',
+  'coach.complete': 'הושלם',
+  'coach.step': 'שלב {step} מתוך {total}',
+  'coach.openGoals': 'היעדים הפתוחים שלך',
+  'coach.answerPlaceholder': 'התשובה שלך…',
+  'coach.next': 'הבא',
+  'coach.finish': 'סיום המפגש',
+  'coach.summary': 'סיכום',
+  'coach.actionItems': 'משימות',
+  'coach.noActionItems': 'אין משימות.',
+  'coach.savedAsGoals': 'נשמרו כיעדים — אפשר לסמן אותם כאן או בעמוד מאמן ה-AI.',
+  'coach.error.loadSessions': 'טעינת המפגשים נכשלה',
+  'coach.error.loadGoals': 'טעינת היעדים נכשלה',
+  'coach.error.loadSession': 'טעינת המפגש נכשלה',
+  'coach.error.start': 'התחלת המפגש נכשלה',
+  'coach.error.addGoal': 'הוספת היעד נכשלה',
+  'coach.error.updateGoal': 'עדכון היעד נכשל',
+  'coach.error.deleteGoal': 'מחיקת היעד נכשלה',
+  'coach.error.deleteSession': 'מחיקת המפגש נכשלה',
+  'coach.error.answer': 'שמירת התשובה נכשלה',
+
+  // ─── Contacts ───────────────────────────────────────────────────────────────
+  'contacts.find': 'חיפוש אנשים',
+  'contacts.searchPlaceholder': 'חיפוש לפי שם משתמש…',
+  'contacts.searchResults': 'תוצאות חיפוש',
+  'contacts.noResults': 'לא נמצאו משתמשים.',
+  'contacts.add': 'הוספת איש קשר',
+  'contacts.acceptRequest': 'אישור הבקשה',
+  'contacts.requestSent': 'הבקשה נשלחה',
+  'contacts.requestSentDetail': 'הבקשה נשלחה',
+  'contacts.inContacts': 'באנשי הקשר שלך',
+  'contacts.blocked': 'חסומים',
+  'contacts.requests': 'בקשות',
+  'contacts.wantsToConnect': 'רוצה להתחבר',
+  'contacts.accept': 'אישור',
+  'contacts.decline': 'דחייה',
+  'contacts.yours': 'אנשי הקשר שלך',
+  'contacts.empty': 'אנשי הקשר שלך יופיעו כאן.',
+  'contacts.message': 'הודעה',
+  'contacts.block': 'חסימה',
+  'contacts.unblock': 'ביטול חסימה',
+  'contacts.pending': 'ממתינות',
+  'contacts.confirmBlock': 'לחסום את {username}? לא תהיה לו אפשרות למצוא אותך או לשלוח לך הודעות.',
+  'contacts.error.load': 'טעינת אנשי הקשר נכשלה',
+  'contacts.error.search': 'החיפוש נכשל',
+  'contacts.error.openConversation': 'פתיחת השיחה נכשלה',
+  'contacts.error.generic': 'משהו השתבש',
+
+  // ─── History ────────────────────────────────────────────────────────────────
+  'history.search': 'חיפוש בהיסטוריה',
+  'history.searchPlaceholder': 'חיפוש בשיחות ובתמלולים…',
+  'history.type': 'סוג',
+  'history.type.all': 'כל הסוגים',
+  'history.type.conversation': 'שיחות',
+  'history.type.transcript': 'תמלולים',
+  'history.from': 'מתאריך',
+  'history.to': 'עד תאריך',
+  'history.voiceTranscript': 'תמלול קולי',
+  'history.noMatches': 'לא נמצאו התאמות.',
+  'history.empty': 'היסטוריית השיחות שלך תופיע כאן.',
+  'history.error.load': 'טעינת ההיסטוריה נכשלה',
+
+  // ─── Video ──────────────────────────────────────────────────────────────────
+  'video.unsupported': 'הקלטת וידאו אינה נתמכת בדפדפן הזה.',
+  'video.cameraOn': 'הפעלת המצלמה',
+  'video.cameraOff': 'כיבוי המצלמה',
+  'video.record': 'הקלטה',
+  'video.pause': 'השהיה',
+  'video.resume': 'המשך',
+  'video.stop': 'עצירה',
+  'video.retake': 'הקלטה מחדש',
+  'video.rec': 'מקליט',
+  'video.paused': 'מושהה',
+  'video.sendTo': 'שליחה אל',
+  'video.sendToPlaceholder': 'שליחה אל…',
+  'video.resumeSending': 'המשך השליחה',
+  'video.uploadProgress': 'התקדמות ההעלאה',
+  'video.uploading': 'מעלה… {percent}',
+  'video.sent': 'נשלח אל {recipient}',
+  'video.error.interrupted': 'ההעלאה נקטעה — יש לבדוק את החיבור',
+  'video.error.permissionDenied': 'ההרשאה למצלמה או למיקרופון נדחתה',
+  'video.error.noCamera': 'לא ניתן לגשת למצלמה או למיקרופון',
+  'video.inbox': 'דואר נכנס',
+  'video.inbox.sort': 'מיון סרטונים',
+  'video.inbox.sort.newest': 'החדשים קודם',
+  'video.inbox.sort.oldest': 'הישנים קודם',
+  'video.inbox.sort.sender': 'שולח',
+  'video.inbox.sort.longest': 'הארוכים קודם',
+  'video.inbox.empty': 'אין עדיין סרטונים.',
+  'video.inbox.loadFailed': 'טעינת הדואר הנכנס נכשלה',
+
+  // ─── Direct messages ────────────────────────────────────────────────────────
+  'messages.back': '→ אנשי קשר',
+  'messages.connecting': 'מתחבר…',
+  'messages.offline': 'אין חיבור — מתחבר מחדש',
+  'messages.empty': 'אמרו שלום ל-{username}.',
+  'messages.typing': '{username} מקליד/ה…',
+  'messages.notSent': 'לא נשלחה',
+  'messages.receipt.sent': 'נשלחה',
+  'messages.receipt.delivered': 'נמסרה',
+  'messages.receipt.read': 'נקראה',
+  'messages.error.loadConversation': 'טעינת השיחה נכשלה',
+  'messages.error.loadMessages': 'טעינת ההודעות נכשלה',
+}
+
+export default he
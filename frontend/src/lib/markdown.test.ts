@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { parseInline, parseMarkdown, safeHref } from './markdown'
+
+describe('safeHref', () => {
+  it.each([
+    'https://example.org/a?b=c',
+    'http://example.org',
+    'HTTPS://EXAMPLE.ORG',
+    'mailto:ada@example.org',
+    '/chat/12',
+  ])('keeps %s', (href) => {
+    expect(safeHref(href)).toBe(href)
+  })
+
+  it.each([
+    'javascript:alert(1)',
+    'JavaScript:alert(1)',
+    ' javascript:alert(1)',
+    'data:text/html,<script>alert(1)</script>',
+    'vbscript:msgbox(1)',
+    '//evil.example',
+    '/\\evil.example',
+    'chat/12',
+    '#top',
+  ])('refuses %s', (href) => {
+    expect(safeHref(href)).toBeNull()
+  })
+})
+
+describe('links', () => {
+  it('links safe targets', () => {
+    expect(parseInline('[docs](https://example.org/docs)')).toEqual([
+      { type: 'link', href: 'https://example.org/docs', children: [{ type: 'text', text: 'docs' }] },
+    ])
+  })
+
+  it('keeps the text of an unsafe link but not the link', () => {
+    expect(parseInline('[click me](javascript:alert(1))')).not.toContainEqual(
+      expect.objectContaining({ type: 'link' }),
+    )
+    expect(parseInline('[click me](javascript:alert(1))')[0]).toEqual({ type: 'text', text: 'click me' })
+  })
+
+  it('only autolinks http(s) and mailto', () => {
+    expect(parseInline('<javascript:alert(1)>')).toEqual([{ type: 'text', text: '<javascript:alert(1)>' }])
+    expect(parseInline('<mailto:ada@example.org>')[0]).toMatchObject({ type: 'link', href: 'mailto:ada@example.org' })
+  })
+
+  it('leaves sentence punctuation out of bare URLs', () => {
+    expect(parseInline('see https://example.org/a_(b)).')).toEqual([
+      { type: 'text', text: 'see ' },
+      { type: 'link', href: 'https://example.org/a_(b)', children: [{ type: 'text', text: 'https://example.org/a_(b)' }] },
+      { type: 'text', text: ').' },
+    ])
+  })
+})
+
+describe('raw HTML', () => {
+  it('stays text, in paragraphs and code alike', () => {
+    expect(parseMarkdown('<img src=x onerror="alert(1)">')).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', text: '<img src=x onerror="alert(1)">' }] },
+    ])
+    expect(parseMarkdown('```html\n<script>alert(1)</script>\n```')).toEqual([
+      { type: 'code', language: 'html', code: '<script>alert(1)</script>' },
+    ])
+  })
+
+  it('never turns into nodes other than the Markdown ones', () => {
+    const types = new Set<string>()
+    const visit = (node: { type: string; children?: unknown; items?: unknown }) => {
+      types.add(node.type)
+      for (const child of (node.children ?? []) as typeof node[]) visit(child)
+      for (const item of (node.items ?? []) as (typeof node)[][]) item.forEach(visit)
+    }
+    parseMarkdown('# <h1>x</h1>\n\n- <b>bold</b>\n- <a href="javascript:x">a</a>\n\n> <iframe src=x>').forEach(visit)
+
+    expect([...types].sort()).toEqual(['blockquote', 'heading', 'list', 'paragraph', 'text'])
+  })
+})
@@ -0,0 +1,298 @@
+/**
+ * markdown.ts — a small Markdown parser for assistant replies.
+ *
+ * Produces a tree that components/Markdown.tsx renders as React elements, so
+ * nothing from a reply ever reaches the DOM as HTML: raw tags show up as
+ * text, and links are kept only for http(s) and mailto URLs and same-site
+ * paths.
+ *
+ * Covers what chat models actually write: headings, paragraphs, nested
+ * lists, block quotes, fenced code, rules, and inline code, bold, italic,
+ * strikethrough, links and bare URLs. Unclosed fences run to the end, so a
+ * reply renders sensibly while it is still streaming in.
+ */
+
+export type Inline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: Inline[] }
+  | { type: 'link'; href: string; children: Inline[] }
+  | { type: 'break' }
+
+export type Block =
+  | { type: 'paragraph'; children: Inline[] }
+  | { type: 'heading'; level: number; children: Inline[] }
+  | { type: 'code'; language: string | null; code: string }
+  | { type: 'list'; ordered: boolean; start: number; items: Block[][] }
+  | { type: 'blockquote'; children: Block[] }
+  | { type: 'rule' }
+
+// ─── Links ────────────────────────────────────────────────────────────────────
+
+/** `href` if it is safe to link to, else null. */
+export function safeHref(href: string): string | null {
+  const trimmed = href.trim()
+  if (/^(https?:\/\/|mailto:)/i.test(trimmed)) return trimmed
+  if (/^\/(?![/\\])/.test(trimmed)) return trimmed   // same-site path; `//` and `/\` are protocol-relative
+  return null
+}
+
+/** Drop punctuation that ends a sentence rather than the URL, e.g. "see https://x.org)." */
+function trimUrl(url: string): string {
+  let end = url.length
+  while (end > 0) {
+    const ch = url[end - 1]
+    if ('.,;:!?\'"*_~'.includes(ch)) {
+      end--
+    } else if (ch === ')' && count(url.slice(0, end), '(') < count(url.slice(0, end), ')')) {
+      end--
+    } else {
+      break
+    }
+  }
+  return url.slice(0, end)
+}
+
+function count(text: string, ch: string): number {
+  return text.split(ch).length - 1
+}
+
+// ─── Inline ───────────────────────────────────────────────────────────────────
+
+const ESCAPE = /\\([\\`*_{}[\]()#+\-.!~>|])/y
+const CODE_SPAN = /(`+)([\s\S]*?[^`])\1(?!`)/y
+const AUTOLINK = /<((?:https?:\/\/|mailto:)[^\s<>]+)>/y
+const LINK = /\[([^\]]*)\]\(\s*<?([^\s<>)]+)>?(?:\s+"[^"]*")?\s*\)/y
+const BARE_URL = /https?:\/\/[^\s<>]+/y
+const HARD_BREAK = / {2,}\n|\\\n|\n/y
+
+// Delimited spans, tried in order: ** before *, so bold wins.
+const SPANS: { pattern: RegExp; type: 'strong' | 'em' | 'del'; wordBound: boolean }[] = [
+  { pattern: /\*\*(?=\S)([\s\S]*?\S)\*\*/y, type: 'strong', wordBound: false },
+  { pattern: /__(?=\S)([\s\S]*?\S)__(?!\w)/y, type: 'strong', wordBound: true },
+  { pattern: /~~(?=\S)([\s\S]*?\S)~~/y, type: 'del', wordBound: false },
+  { pattern: /\*(?=[^\s*])([\s\S]*?[^\s*])\*(?!\*)/y, type: 'em', wordBound: false },
+  { pattern: /_(?=\S)([\s\S]*?\S)_(?!\w)/y, type: 'em', wordBound: true },
+]
+
+function matchAt(pattern: RegExp, text: string, index: number): RegExpExecArray | null {
+  pattern.lastIndex = index
+  return pattern.exec(text)
+}
+
+function matchSpan(text: string, index: number, atWordStart: boolean) {
+  for (const span of SPANS) {
+    if (span.wordBound && !atWordStart) continue
+    const m = matchAt(span.pattern, text, index)
+    if (m) return Object.assign(m, { type: span.type })
+  }
+  return null
+}
+
+export function parseInline(text: string): Inline[] {
+  const nodes: Inline[] = []
+  let plain = ''
+  let i = 0
+
+  function push(node: Inline) {
+    if (plain) nodes.push({ type: 'text', text: plain })
+    plain = ''
+    nodes.push(node)
+  }
+
+  while (i < text.length) {
+    // Underscores and bare URLs only start a span at a word boundary ("snake_case_name" stays as is).
+    const atWordStart = i === 0 || !/\w/.test(text[i - 1])
+    let m: RegExpExecArray | null
+    let span: ReturnType<typeof matchSpan>
+
+    if ((m = matchAt(ESCAPE, text, i))) {
+      plain += m[1]
+    } else if ((m = matchAt(CODE_SPAN, text, i))) {
+      push({ type: 'code', text: m[2].replace(/^ (.*) $/, '$1') })
+    } else if ((m = matchAt(AUTOLINK, text, i))) {
+      push({ type: 'link', href: m[1], children: [{ type: 'text', text: m[1] }] })
+    } else if ((m = matchAt(LINK, text, i))) {
+      const href = safeHref(m[2])
+      const children = parseInline(m[1])
+      if (href) push({ type: 'link', href, children })
+      else children.forEach(push)
+    } else if (atWordStart && (m = matchAt(BARE_URL, text, i))) {
+      const url = trimUrl(m[0])
+      push({ type: 'link', href: url, children: [{ type: 'text', text: url }] })
+      i += url.length
+      continue
+    } else if ((m = matchAt(HARD_BREAK, text, i))) {
+      push({ type: 'break' })
+    } else if ((span = matchSpan(text, i, atWordStart))) {
+      push({ type: span.type, children: parseInline(span[1]) })
+      m = span
+    } else {
+      plain += text[i]
+      i++
+      continue
+    }
+    i += m[0].length
+  }
+  if (plain) nodes.push({ type: 'text', text: plain })
+  return nodes
+}
+
+// ─── Blocks ───────────────────────────────────────────────────────────────────
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/
+const HEADING = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/
+const QUOTE = /^ {0,3}> ?/
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])\s+(.*)$/
+
+function isBlank(line: string): boolean {
+  return line.trim() === ''
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length
+}
+
+/** Whether `line` starts a block that interrupts a paragraph. */
+function startsBlock(line: string): boolean {
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line)
+}
+
+export function parseMarkdown(source: string): Block[] {
+  return parseBlocks(source.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n'))
+}
+
+function parseBlocks(lines: string[]): Block[] {
+  const blocks: Block[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]
+    let m: RegExpMatchArray | null
+
+    if (isBlank(line)) {
+      i++
+    } else if ((m = line.match(FENCE))) {
+      const marker = m[1]
+      const indent = indentOf(line)
+      const code: string[] = []
+      i++
+      while (i < lines.length && !new RegExp(`^ {0,3}${marker[0]}{${marker.length},}\\s*$`).test(lines[i])) {
+        code.push(lines[i].slice(Math.min(indent, indentOf(lines[i]))))
+        i++
+      }
+      i++   // closing fence, if any
+      blocks.push({ type: 'code', language: m[2] || null, code: code.join('\n') })
+    } else if ((m = line.match(HEADING))) {
+      blocks.push({ type: 'heading', level: m[1].length, children: parseInline(m[2]) })
+      i++
+    } else if (RULE.test(line)) {
+      blocks.push({ type: 'rule' })
+      i++
+    } else if (QUOTE.test(line)) {
+      const quoted: string[] = []
+      while (i < lines.length && !isBlank(lines[i]) && (QUOTE.test(lines[i]) || !startsBlock(lines[i]))) {
+        quoted.push(lines[i].replace(QUOTE, ''))
+        i++
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoted) })
+    } else if (LIST_ITEM.test(line)) {
+      i = parseList(lines, i, blocks)
+    } else {
+      const para: string[] = []
+      while (i < lines.length && !isBlank(lines[i]) && (para.length === 0 || !startsBlock(lines[i]))) {
+        para.push(lines[i].trimStart())
+        i++
+      }
+      blocks.push({ type: 'paragraph', children: parseInline(para.join('\n')) })
+    }
+  }
+  return blocks
+}
+
+/** Parse the list starting at `lines[start]` into `blocks`; returns the index after it. */
+function parseList(lines: string[], start: number, blocks: Block[]): number {
+  const first = lines[start].match(LIST_ITEM)!
+  const ordered = /\d/.test(first[2])
+  const baseIndent = first[1].length
+  const items: Block[][] = []
+  let i = start
+
+  while (i < lines.length) {
+    const m = lines[i].match(LIST_ITEM)
+    if (!m || m[1].length !== baseIndent || /\d/.test(m[2]) !== ordered) break
+
+    // The item's own lines: its first line, then anything indented past the
+    // marker, lazy continuation lines, and blank lines inside the item.
+    const contentIndent = m[1].length + m[2].length + 1
+    const itemLines = [m[3]]
+    i++
+    while (i < lines.length) {
+      const next = lines[i]
+      if (isBlank(next)) {
+        const following = lines.slice(i + 1).find((l) => !isBlank(l))
+        if (following === undefined || indentOf(following) < contentIndent) break
+        itemLines.push('')
+      } else if (indentOf(next) >= Math.min(contentIndent, baseIndent + 2)) {
+        itemLines.push(next.slice(Math.min(contentIndent, indentOf(next))))
+      } else if (!startsBlock(next) && !isBlank(itemLines[itemLines.length - 1])) {
+        itemLines.push(next.trim())
+      } else {
+        break
+      }
+      i++
+    }
+    items.push(parseBlocks(itemLines))
+
+    // A blank line between items keeps the list going.
+    if (i < lines.length && isBlank(lines[i])) {
+      const nextIndex = lines.findIndex((l, j) => j > i && !isBlank(l))
+      const next = nextIndex === -1 ? null : lines[nextIndex].match(LIST_ITEM)
+      if (!next || next[1].length !== baseIndent) break
+      i = nextIndex
+    }
+  }
+
+  blocks.push({ type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items })
+  return i
+}
+
+// ─── Plain text ───────────────────────────────────────────────────────────────
+
+function inlineText(nodes: Inline[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+        case 'code':
+          return node.text
+        case 'break':
+          return '\n'
+        default:
+          return inlineText(node.children)
+      }
+    })
+    .join('')
+}
+
+function blockText(block: Block): string {
+  switch (block.type) {
+    case 'paragraph':
+    case 'heading':
+      return inlineText(block.children)
+    case 'code':
+      return block.code
+    case 'list':
+      return block.items.map((item) => item.map(blockText).join('\n')).join('\n')
+    case 'blockquote':
+      return block.children.map(blockText).join('\n')
+    case 'rule':
+      return ''
+  }
+}
+
+/** The reply without Markdown syntax — for reading aloud and screen reader announcements. */
+export function markdownToText(source: string): string {
+  return parseMarkdown(source).map(blockText).filter(Boolean).join('\n\n')
+}
@@ -0,0 +1,205 @@
+/**
+ * notifications.ts — the bell menu's notifications, where they come from,
+ * and how a new one is shown.
+ *
+ * Notifications arrive through a NotificationSource: the realtime socket
+ * in the app, or createFakeNotificationSource() in tests. A new one goes
+ * into `notificationStore` for the bell menu and, per the user's
+ * preferences for its category, pops up as a toast while the tab is
+ * visible or as a browser notification while it is hidden.
+ * NOTIFICATION_CATEGORIES in app.py mirrors the categories below.
+ */
+
+import { call, endpoints } from './api'
+import type { AppNotification, NotificationCategory, NotificationChannels } from './api'
+import type { MessageKey } from './i18n'
+import type { RealtimeClient } from './realtime'
+import { showToast } from './toast'
+
+export const NOTIFICATION_CATEGORIES: { value: NotificationCategory; label: MessageKey; description: MessageKey }[] = [
+  {
+    value: 'message',
+    label: 'notifications.category.message',
+    description: 'notifications.category.message.description',
+  },
+  {
+    value: 'video',
+    label: 'notifications.category.video',
+    description: 'notifications.category.video.description',
+  },
+  {
+    value: 'contact',
+    label: 'notifications.category.contact',
+    description: 'notifications.category.contact.description',
+  },
+]
+
+// ─── Sources ──────────────────────────────────────────────────────────────────
+
+export interface NotificationSource {
+  /** Listen for new notifications; returns an unsubscribe function. */
+  subscribe: (listener: (notification: AppNotification) => void) => () => void
+}
+
+/** Notifications pushed by the server over the realtime socket. */
+export function realtimeNotificationSource(client: RealtimeClient): NotificationSource {
+  return {
+    subscribe: (listener) => client.subscribe((event) => {
+      if (event.type === 'notification') listener(event.notification)
+    }),
+  }
+}
+
+export interface FakeNotificationSource extends NotificationSource {
+  /** Deliver a notification as if the server had pushed it; missing fields get defaults. */
+  emit: (notification?: Partial<AppNotification>) => AppNotification
+}
+
+/** A source that emits on demand, for tests. */
+export function createFakeNotificationSource(): FakeNotificationSource {
+  const listeners = new Set<(notification: AppNotification) => void>()
+  let nextId = 1
+
+  return {
+    subscribe(listener) {
+      listeners.add(listener)
+      return () => listeners.delete(listener)
+    },
+    emit(overrides = {}) {
+      const notification: AppNotification = {
+        notification_id: nextId++,
+        category: 'message',
+        title: 'New message',
+        body: null,
+        link: null,
+        read: false,
+        created_at: new Date().toISOString(),
+        ...overrides,
+      }
+      listeners.forEach((listener) => listener(notification))
+      return notification
+    },
+  }
+}
+
+// ─── Store ────────────────────────────────────────────────────────────────────
+
+export interface NotificationState {
+  /** Newest first. */
+  notifications: AppNotification[]
+  unread: number
+  isLoaded: boolean
+}
+
+// The bell menu shows at most this many.
+const MAX_KEPT = 50
+
+const EMPTY_STATE: NotificationState = { notifications: [], unread: 0, isLoaded: false }
+
+let state = EMPTY_STATE
+const listeners = new Set<() => void>()
+
+function setState(next: NotificationState) {
+  state = next
+  listeners.forEach((listener) => listener())
+}
+
+export const notificationStore = {
+  getSnapshot: (): NotificationState => state,
+
+  subscribe(listener: () => void): () => void {
+    listeners.add(listener)
+    return () => listeners.delete(listener)
+  },
+
+  /** Replace the list with the server's latest page. */
+  async load(): Promise<void> {
+    const list = await call(endpoints.notifications)
+    setState({ notifications: list.notifications, unread: list.unread, isLoaded: true })
+  },
+
+  /** Add a pushed notification; repeats (e.g. after a reload raced a push) are ignored. */
+  receive(notification: AppNotification): void {
+    if (state.notifications.some((n) => n.notification_id === notification.notification_id)) return
+    setState({
+      ...state,
+      notifications: [notification, ...state.notifications].slice(0, MAX_KEPT),
+      unread: state.unread + (notification.read ? 0 : 1),
+    })
+  },
+
+  /** Mark one read: shown at once, then saved. */
+  async markRead(notificationId: number): Promise<void> {
+    const target = state.notifications.find((n) => n.notification_id === notificationId)
+    if (target && !target.read) {
+      setState({
+        ...state,
+        notifications: state.notifications.map((n) => (n === target ? { ...n, read: true } : n)),
+        unread: Math.max(0, state.unread - 1),
+      })
+    }
+    await call(endpoints.markNotificationRead, { params: [notificationId] })
+  },
+
+  async markAllRead(): Promise<void> {
+    setState({ ...state, notifications: state.notifications.map((n) => ({ ...n, read: true })), unread: 0 })
+    await call(endpoints.markAllNotificationsRead)
+  },
+
+  /** Forget everything, e.g. on sign-out. */
+  reset(): void {
+    setState(EMPTY_STATE)
+  },
+}
+
+// ─── Browser notifications ────────────────────────────────────────────────────
+
+export type BrowserPermission = NotificationPermission | 'unsupported'
+
+export function browserPermission(): BrowserPermission {
+  return 'Notification' in window ? Notification.permission : 'unsupported'
+}
+
+/** Ask to show browser notifications; resolves with the answer. */
+export async function requestBrowserPermission(): Promise<BrowserPermission> {
+  if (!('Notification' in window)) return 'unsupported'
+  return Notification.requestPermission()
+}
+
+// ─── Presenting ───────────────────────────────────────────────────────────────
+
+interface PresentOptions {
+  /** The page the user is on; a toast linking to it would say nothing new. */
+  currentPath: string
+  /** Open an in-app path (a clicked browser notification focuses the tab first). */
+  open: (path: string) => void
+}
+
+/**
+ * Pop up a new notification through whichever channel applies: a toast if
+ * the tab is visible, a browser notification if it is hidden and allowed.
+ * Returns the channel used, if any.
+ */
+export function presentNotification(
+  notification: AppNotification,
+  channels: NotificationChannels,
+  { currentPath, open }: PresentOptions,
+): 'toast' | 'browser' | null {
+  if (document.visibilityState === 'visible') {
+    if (!channels.toast || notification.link === currentPath) return null
+    showToast({ title: notification.title, body: notification.body, link: notification.link })
+    return 'toast'
+  }
+
+  if (!channels.browser || browserPermission() !== 'granted') return null
+  const shown = new Notification(notification.title, {
+    body: notification.body ?? undefined,
+    tag: `unify-notification-${notification.notification_id}`,
+  })
+  shown.onclick = () => {
+    window.focus()
+    if (notification.link) open(notification.link)
+    shown.close()
+  }
+  return 'browser'
+}
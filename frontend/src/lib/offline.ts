@@ -0,0 +1,28 @@
+/**
+ * offline.ts — service worker registration and the data kept for offline use.
+ *
+ * The worker itself is sw.js at the frontend root, built into dist/ by
+ * vite.config.ts. It only runs in production builds; `npm run dev` never
+ * registers it, so stale caches can't get in the way of development.
+ */
+
+import { outbox } from './outbox'
+
+// Must match API_CACHE in sw.js.
+const API_CACHE = 'unify-api-v1'
+
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js')
+      .catch((err) => console.error('Service worker registration failed:', err))
+  })
+}
+
+/** Forget cached API responses and queued messages, e.g. on logout. */
+export async function clearOfflineData(): Promise<void> {
+  await Promise.all([
+    'caches' in window ? caches.delete(API_CACHE) : Promise.resolve(),
+    outbox.clear(),
+  ])
+}
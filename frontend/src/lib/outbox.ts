@@ -0,0 +1,150 @@
+/**
+ * outbox.ts — chat messages waiting to be sent, kept in IndexedDB.
+ *
+ * Messages typed while the server is unreachable are stored here so they
+ * survive a reload, and useOutbox sends them once the connection is back.
+ * Every change is broadcast to subscribers (and to other tabs), so the
+ * pending bubbles in Chat stay in sync with what's stored.
+ */
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** `pending` — waiting for a connection; `sending` — claimed by a tab; `failed` — the server refused it. */
+export type OutboxStatus = 'pending' | 'sending' | 'failed'
+
+export interface OutboxEntry {
+  id: string
+  /** null for the first message of a chat that doesn't exist yet. */
+  conversation_id: number | null
+  content: string
+  created_at: string
+  status: OutboxStatus
+  /** Why the last attempt failed, if it did. */
+  error: string | null
+  attempts: number
+  /** When the entry was last marked `sending`. */
+  claimed_at: string | null
+}
+
+// ─── Database ─────────────────────────────────────────────────────────────────
+
+const DB_NAME = 'unify'
+const DB_VERSION = 1
+const STORE = 'outbox'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION)
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(STORE, { keyPath: 'id' })
+    }
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => {
+      dbPromise = null
+      reject(req.error)
+    }
+  })
+  return dbPromise
+}
+
+/** Run `fn` in one transaction on the outbox store; resolves once it commits. */
+async function transact<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T> {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode)
+    const req = fn(tx.objectStore(STORE))
+    tx.oncomplete = () => resolve(req ? req.result : undefined as T)
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+// ─── Change notification ──────────────────────────────────────────────────────
+
+const listeners = new Set<() => void>()
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel('unify.outbox') : null
+
+channel?.addEventListener('message', () => {
+  for (const listener of listeners) listener()
+})
+
+function changed() {
+  for (const listener of listeners) listener()
+  channel?.postMessage('changed')
+}
+
+// ─── Outbox ───────────────────────────────────────────────────────────────────
+
+export const outbox = {
+  /** Every queued message, oldest first. */
+  list: async (): Promise<OutboxEntry[]> => {
+    const entries = await transact<OutboxEntry[]>('readonly', (store) => store.getAll())
+    return entries.sort((a, b) => a.created_at.localeCompare(b.created_at))
+  },
+
+  add: async (conversationId: number | null, content: string): Promise<OutboxEntry> => {
+    const entry: OutboxEntry = {
+      id: crypto.randomUUID(),
+      conversation_id: conversationId,
+      content,
+      created_at: new Date().toISOString(),
+      status: 'pending',
+      error: null,
+      attempts: 0,
+      claimed_at: null,
+    }
+    await transact('readwrite', (store) => store.put(entry))
+    changed()
+    return entry
+  },
+
+  /**
+   * Mark a pending entry as `sending` and return it, or null if it is gone or
+   * another tab got there first. Read and write share one transaction.
+   */
+  claim: async (id: string): Promise<OutboxEntry | null> => {
+    let claimed: OutboxEntry | null = null
+    await transact('readwrite', (store) => {
+      const req = store.get(id)
+      req.onsuccess = () => {
+        const entry = req.result as OutboxEntry | undefined
+        if (entry?.status !== 'pending') return
+        claimed = { ...entry, status: 'sending', attempts: entry.attempts + 1, claimed_at: new Date().toISOString() }
+        store.put(claimed)
+      }
+    })
+    if (claimed) changed()
+    return claimed
+  },
+
+  /** Put entries stuck in `sending` longer than `staleMs` (their tab closed mid-send) back to pending. */
+  release: async (staleMs: number): Promise<void> => {
+    const cutoff = new Date(Date.now() - staleMs).toISOString()
+    const stale = (await outbox.list()).filter((e) => e.status === 'sending' && (e.claimed_at ?? '') < cutoff)
+    for (const entry of stale) await outbox.update({ ...entry, status: 'pending' })
+  },
+
+  update: async (entry: OutboxEntry): Promise<void> => {
+    await transact('readwrite', (store) => store.put(entry))
+    changed()
+  },
+
+  remove: async (id: string): Promise<void> => {
+    await transact('readwrite', (store) => store.delete(id))
+    changed()
+  },
+
+  /** Drop everything — on logout, so the next user doesn't send someone else's messages. */
+  clear: async (): Promise<void> => {
+    await transact('readwrite', (store) => store.clear())
+    changed()
+  },
+
+  /** Called after any change, in this tab or another. Returns an unsubscribe function. */
+  subscribe: (listener: () => void): (() => void) => {
+    listeners.add(listener)
+    return () => { listeners.delete(listener) }
+  },
+}
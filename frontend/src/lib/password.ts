@@ -0,0 +1,64 @@
+/**
+ * password.ts — registration rules, mirrored from app.py for live feedback.
+ *
+ * The server has the final say; these only let forms show what's wrong
+ * before submitting. Keep them in step with username_problem() and
+ * password_problem() in app.py.
+ */
+
+import type { MessageKey, MessageParams } from './i18n'
+
+export const USERNAME_PATTERN = /^[A-Za-z0-9_]{3,30}$/
+export const MIN_PASSWORD_LENGTH = 8
+
+export interface PasswordRule {
+  label: MessageKey
+  params?: MessageParams
+  test: (password: string, username: string) => boolean
+}
+
+/** Every rule must pass for the server to accept a password. */
+export const PASSWORD_RULES: PasswordRule[] = [
+  {
+    label: 'password.rule.length',
+    params: { count: MIN_PASSWORD_LENGTH },
+    test: (pw) => pw.length >= MIN_PASSWORD_LENGTH,
+  },
+  { label: 'password.rule.variety', test: (pw) => /[A-Za-z]/.test(pw) && /\d/.test(pw) },
+  {
+    label: 'password.rule.username',
+    test: (pw, username) => !username || !pw.toLowerCase().includes(username.toLowerCase()),
+  },
+]
+
+export function meetsPasswordRules(password: string, username = ''): boolean {
+  return PASSWORD_RULES.every((rule) => rule.test(password, username))
+}
+
+export type PasswordStrength = 0 | 1 | 2 | 3 | 4
+
+export const STRENGTH_LABELS: Record<PasswordStrength, MessageKey> = {
+  0: 'password.strength.0',
+  1: 'password.strength.1',
+  2: 'password.strength.2',
+  3: 'password.strength.3',
+  4: 'password.strength.4',
+}
+
+/**
+ * Rough 0–4 score: length and character variety, capped at 1 while any rule
+ * fails. Not a substitute for a real estimator, but enough to nudge people
+ * past "password1".
+ */
+export function passwordStrength(password: string, username = ''): PasswordStrength {
+  if (!password) return 0
+  const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter((re) => re.test(password)).length
+  let score = 0
+  if (password.length >= MIN_PASSWORD_LENGTH) score++
+  if (password.length >= 12) score++
+  if (password.length >= 16) score++
+  if (classes >= 3) score++
+  if (/(.)\1\1/.test(password)) score--   // aaa, 111
+  if (!meetsPasswordRules(password, username)) score = Math.min(score, 1)
+  return Math.max(0, Math.min(4, score)) as PasswordStrength
+}
@@ -0,0 +1,139 @@
+/**
+ * realtime.ts — WebSocket client for live 1:1 messaging and notifications (/api/ws).
+ *
+ * Reconnects automatically with exponential backoff and jitter. Frames sent
+ * while disconnected are queued and flushed once the socket reopens, except
+ * typing indicators, which are only meaningful in the moment.
+ */
+
+import type { AppNotification, DirectMessage } from './api'
+
+// ─── Protocol ─────────────────────────────────────────────────────────────────
+
+export type ServerEvent =
+  | { type: 'ack'; client_id: string; message: DirectMessage }
+  | { type: 'message'; message: DirectMessage }
+  | { type: 'typing'; conversation_id: number; user_id: number; is_typing: boolean }
+  | { type: 'receipt'; conversation_id: number; status: 'delivered' | 'read'; up_to: number; at: string }
+  | { type: 'unread'; total: number; by_conversation: Record<string, number> }
+  | { type: 'notification'; notification: AppNotification }
+  | { type: 'error'; error: string; client_id?: string }
+
+export type ClientEvent =
+  | { type: 'send'; conversation_id: number; content: string; client_id: string }
+  | { type: 'typing'; conversation_id: number; is_typing: boolean }
+  | { type: 'read'; conversation_id: number; message_id: number }
+
+export type ConnectionStatus = 'connecting' | 'open' | 'closed'
+
+// ─── Client ───────────────────────────────────────────────────────────────────
+
+const BACKOFF_INITIAL_MS = 1_000
+const BACKOFF_MAX_MS = 30_000
+
+/** Close code the server uses when there is no session — don't retry. */
+const CLOSE_UNAUTHORIZED = 4401
+
+export interface RealtimeClient {
+  readonly status: ConnectionStatus
+  /** Open the socket (no-op if already open or connecting). */
+  connect: () => void
+  send: (event: ClientEvent) => void
+  /** Listen for server events; returns an unsubscribe function. */
+  subscribe: (listener: (event: ServerEvent) => void) => () => void
+  onStatusChange: (listener: (status: ConnectionStatus) => void) => () => void
+  /** Close and stop reconnecting until `connect()` is called again. */
+  close: () => void
+}
+
+function defaultUrl(): string {
+  const scheme = window.location.protocol === 'https:' ? 'wss:' : 'ws:'
+  return `${scheme}//${window.location.host}/api/ws`
+}
+
+export function createRealtimeClient(url: string = defaultUrl()): RealtimeClient {
+  const listeners = new Set<(event: ServerEvent) => void>()
+  const statusListeners = new Set<(status: ConnectionStatus) => void>()
+  const queue: ClientEvent[] = []
+
+  let socket: WebSocket | null = null
+  let status: ConnectionStatus = 'closed'
+  let attempt = 0
+  let retryTimer: ReturnType<typeof setTimeout> | undefined
+  let closedByUser = false
+
+  function setStatus(next: ConnectionStatus) {
+    status = next
+    statusListeners.forEach((listener) => listener(next))
+  }
+
+  function scheduleReconnect() {
+    // 1s, 2s, 4s … capped, with ±20% jitter so clients don't reconnect in lockstep.
+    const base = Math.min(BACKOFF_INITIAL_MS * 2 ** attempt, BACKOFF_MAX_MS)
+    const delay = base * (0.8 + Math.random() * 0.4)
+    attempt += 1
+    retryTimer = setTimeout(connect, delay)
+  }
+
+  function connect() {
+    if (socket) return
+    closedByUser = false
+    setStatus('connecting')
+    const ws = new WebSocket(url)
+    socket = ws
+
+    ws.onopen = () => {
+      attempt = 0
+      setStatus('open')
+      while (queue.length > 0 && ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify(queue.shift()))
+      }
+    }
+
+    ws.onmessage = (e: MessageEvent<string>) => {
+      let event: ServerEvent
+      try {
+        event = JSON.parse(e.data) as ServerEvent
+      } catch {
+        return
+      }
+      listeners.forEach((listener) => listener(event))
+    }
+
+    ws.onclose = (e) => {
+      if (socket !== ws) return   // superseded by close() + connect()
+      socket = null
+      setStatus('closed')
+      if (!closedByUser && e.code !== CLOSE_UNAUTHORIZED) scheduleReconnect()
+    }
+  }
+
+  return {
+    get status() {
+      return status
+    },
+    connect,
+    send(event) {
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(event))
+      } else if (event.type !== 'typing') {
+        queue.push(event)
+      }
+    },
+    subscribe(listener) {
+      listeners.add(listener)
+      return () => listeners.delete(listener)
+    },
+    onStatusChange(listener) {
+      statusListeners.add(listener)
+      return () => statusListeners.delete(listener)
+    },
+    close() {
+      closedByUser = true
+      clearTimeout(retryTimer)
+      socket?.close()
+      socket = null
+      setStatus('closed')
+    },
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * roles.ts — access levels, mirrored from ROLES in app.py.
+ *
+ * Each role can do everything the ones before it can. The server enforces
+ * this with @role_required; the client only uses it to hide what a user
+ * can't open anyway.
+ */
+
+import type { Role } from './api'
+
+export const ROLES: readonly Role[] = ['user', 'coach', 'admin']
+
+export const ROLE_LABELS: Record<Role, string> = {
+  user: 'User',
+  coach: 'Coach',
+  admin: 'Admin',
+}
+
+/** Whether `user` has at least the `required` role. */
+export function hasRole(user: { role: Role } | null, required: Role): boolean {
+  return user !== null && ROLES.indexOf(user.role) >= ROLES.indexOf(required)
+}
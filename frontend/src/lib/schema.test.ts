@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { s, SchemaError } from './schema'
+
+const message = s.object({
+  id: s.number(),
+  role: s.literal('user', 'assistant'),
+  read_at: s.nullable(s.string()),
+  tags: s.optional(s.array(s.string())),
+})
+
+describe('parsing', () => {
+  it('returns a value that fits, without keys the schema does not declare', () => {
+    expect(message.parse({ id: 1, role: 'user', read_at: null, secret: 'x' })).toEqual({
+      id: 1, role: 'user', read_at: null,
+    })
+  })
+
+  it('lets optional keys be absent and keeps them when present', () => {
+    expect(message.parse({ id: 1, role: 'user', read_at: null, tags: ['a'] }).tags).toEqual(['a'])
+  })
+})
+
+describe('failures', () => {
+  it.each([
+    ['a missing key', { role: 'user', read_at: null }, 'id: expected number, got undefined'],
+    ['a wrong type', { id: '1', role: 'user', read_at: null }, 'id: expected number, got string'],
+    ['an unknown literal', { id: 1, role: 'system', read_at: null }, 'role: expected "user" | "assistant", got string'],
+    ['a wrong type in a nullable key', { id: 1, role: 'user', read_at: 5 }, 'read_at: expected string, got number'],
+    ['a bad array item', { id: 1, role: 'user', read_at: null, tags: ['a', 2] }, 'tags[1]: expected string, got number'],
+  ])('names the path for %s', (_case, value, error) => {
+    expect(() => message.parse(value)).toThrow(SchemaError)
+    expect(() => message.parse(value)).toThrow(error)
+  })
+
+  it('rejects non-objects, arrays and NaN', () => {
+    expect(() => message.parse([])).toThrow('value: expected object, got array')
+    expect(() => message.parse(null)).toThrow('value: expected object, got null')
+    expect(() => s.number().parse(NaN, 'count')).toThrow('count: expected number, got number')
+  })
+
+  it("prefixes nested paths with the caller's", () => {
+    const page = s.object({ messages: s.array(message) })
+    expect(() => page.parse({ messages: [{ id: 1, role: 'bot', read_at: null }] }, 'body'))
+      .toThrow('body.messages[0].role')
+  })
+})
@@ -0,0 +1,83 @@
+/**
+ * schema.ts — minimal runtime schemas for checking API payloads.
+ *
+ * Each schema both validates a value and carries its TypeScript type, so a
+ * response shape is written once: `type User = Infer<typeof userSchema>`.
+ * Object schemas drop keys they don't declare.
+ */
+
+export interface Schema<T> {
+  /** Return the value typed as T, or throw a SchemaError naming the bad path. */
+  parse: (value: unknown, path?: string) => T
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never
+
+export class SchemaError extends Error {
+  readonly path: string
+
+  constructor(path: string, expected: string, value: unknown) {
+    const got = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value
+    super(`${path || 'value'}: expected ${expected}, got ${got}`)
+    this.name = 'SchemaError'
+    this.path = path
+  }
+}
+
+function primitive<T>(expected: string, check: (value: unknown) => boolean): Schema<T> {
+  return {
+    parse(value, path = '') {
+      if (!check(value)) throw new SchemaError(path, expected, value)
+      return value as T
+    },
+  }
+}
+
+// Optional object keys: a key whose schema accepts undefined may be absent.
+type OptionalKeys<S> = { [K in keyof S]: undefined extends Infer<S[K]> ? K : never }[keyof S]
+type ObjectType<S> =
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } &
+  { [K in OptionalKeys<S>]?: Infer<S[K]> }
+type Flatten<T> = { [K in keyof T]: T[K] }
+
+export const s = {
+  string: () => primitive<string>('string', (v) => typeof v === 'string'),
+  number: () => primitive<number>('number', (v) => typeof v === 'number' && Number.isFinite(v)),
+  boolean: () => primitive<boolean>('boolean', (v) => typeof v === 'boolean'),
+
+  /** One of a fixed set of strings. */
+  literal: <const T extends readonly string[]>(...values: T): Schema<T[number]> =>
+    primitive(values.map((v) => `"${v}"`).join(' | '), (v) => values.includes(v as string)),
+
+  nullable: <T>(inner: Schema<T>): Schema<T | null> => ({
+    parse: (value, path = '') => (value === null ? null : inner.parse(value, path)),
+  }),
+
+  optional: <T>(inner: Schema<T>): Schema<T | undefined> => ({
+    parse: (value, path = '') => (value === undefined ? undefined : inner.parse(value, path)),
+  }),
+
+  array: <T>(item: Schema<T>): Schema<T[]> => ({
+    parse(value, path = '') {
+      if (!Array.isArray(value)) throw new SchemaError(path, 'array', value)
+      return value.map((v, i) => item.parse(v, `${path}[${i}]`))
+    },
+  }),
+
+  object: <S extends Record<string, Schema<unknown>>>(shape: S): Schema<Flatten<ObjectType<S>>> => ({
+    parse(value, path = '') {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new SchemaError(path, 'object', value)
+      }
+      const out: Record<string, unknown> = {}
+      for (const [key, schema] of Object.entries(shape)) {
+        const parsed = schema.parse((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key)
+        if (parsed !== undefined) out[key] = parsed
+      }
+      return out as Flatten<ObjectType<S>>
+    },
+  }),
+
+  /** For 204 responses and requests without a body. */
+  empty: (): Schema<undefined> => ({ parse: () => undefined }),
+}
@@ -0,0 +1,239 @@
+/**
+ * speech.ts — speech-to-text engines behind useSpeechRecognition.
+ *
+ * The browser engine wraps the Web Speech API. The server engine is the
+ * fallback where that API is missing (Firefox, older Safari): it records
+ * with MediaRecorder and uploads the audio to /api/transcribe on stop.
+ * Both report through the same events, so the hook doesn't care which runs.
+ */
+
+import { makeApiError, toApiError } from './api'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type SpeechEngineKind = 'browser' | 'server'
+
+export interface SpeechSettings {
+  continuous: boolean
+  interimResults: boolean
+  language: string
+}
+
+export interface SpeechEngineEvents {
+  /** Text of the current session so far. */
+  onResult: (final: string, interim: string) => void
+  /** The browser ended a session by itself and a new one began. */
+  onRestart: () => void
+  /** Speech was heard — used to reset silence timeouts. */
+  onSpeech: () => void
+  /** Recorded audio is being transcribed (server engine only). */
+  onProcessing: (isProcessing: boolean) => void
+  /** Web Speech API error codes, e.g. 'not-allowed', 'network'. */
+  onError: (error: string) => void
+  onEnd: () => void
+}
+
+export interface SpeechEngine {
+  kind: SpeechEngineKind
+  start: (settings: SpeechSettings) => void
+  /** Finish listening; the server engine transcribes what it recorded. */
+  stop: () => void
+  /** Stop and discard. */
+  abort: () => void
+}
+
+// ─── Availability ─────────────────────────────────────────────────────────────
+
+function speechRecognitionApi() {
+  return window.SpeechRecognition ?? window.webkitSpeechRecognition
+}
+
+export function isBrowserSpeechAvailable(): boolean {
+  return Boolean(speechRecognitionApi())
+}
+
+export function isServerSpeechAvailable(): boolean {
+  return typeof window.MediaRecorder !== 'undefined' && Boolean(navigator.mediaDevices?.getUserMedia)
+}
+
+// ─── Browser engine ───────────────────────────────────────────────────────────
+
+// Errors after which restarting would just fail again.
+const FATAL_ERRORS = new Set(['not-allowed', 'service-not-allowed', 'audio-capture', 'language-not-supported'])
+
+export function createBrowserEngine(events: SpeechEngineEvents): SpeechEngine {
+  const SpeechRecognitionAPI = speechRecognitionApi()
+  if (!SpeechRecognitionAPI) throw new Error('Web Speech API is not available')
+
+  const recognition = new SpeechRecognitionAPI()
+  let wantListening = false
+
+  recognition.onresult = (event: SpeechRecognitionEvent) => {
+    let interim = ''
+    let final = ''
+    for (let i = 0; i < event.results.length; i++) {
+      const text = event.results[i][0].transcript
+      if (event.results[i].isFinal) {
+        final += text
+      } else {
+        interim += text
+      }
+    }
+    events.onSpeech()
+    events.onResult(final, interim)
+  }
+
+  recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
+    if (event.error === 'aborted' || event.error === 'no-speech') return
+    events.onError(event.error)
+    if (FATAL_ERRORS.has(event.error)) wantListening = false
+  }
+
+  recognition.onend = () => {
+    if (wantListening && recognition.continuous) {
+      // Chrome ends long sessions on its own — carry on in a new one.
+      events.onRestart()
+      recognition.start()
+      return
+    }
+    wantListening = false
+    events.onEnd()
+  }
+
+  return {
+    kind: 'browser',
+    start({ continuous, interimResults, language }) {
+      recognition.continuous = continuous
+      recognition.interimResults = interimResults
+      recognition.lang = language
+      wantListening = true
+      recognition.start()
+    },
+    stop() {
+      wantListening = false
+      recognition.stop()
+    },
+    abort() {
+      wantListening = false
+      recognition.abort()
+    },
+  }
+}
+
+// ─── Server engine ────────────────────────────────────────────────────────────
+
+const LEVEL_POLL_MS = 100
+const SPEECH_LEVEL = 0.02        // RMS above this counts as speech
+const END_OF_UTTERANCE_MS = 1_500 // non-continuous mode stops after this much quiet
+
+/** Upload a recording to the server recognizer and return the text. */
+export async function transcribeAudio(audio: Blob, language: string): Promise<string> {
+  const form = new FormData()
+  form.append('audio', audio, 'speech')
+  form.append('language', language)
+
+  const res = await fetch('/api/transcribe', { method: 'POST', credentials: 'include', body: form })
+  if (!res.ok) throw await toApiError(res)
+  const data = await res.json() as { transcript?: string }
+  if (typeof data.transcript !== 'string') throw makeApiError(res.status, 'No transcript returned')
+  return data.transcript
+}
+
+export function createServerEngine(events: SpeechEngineEvents): SpeechEngine {
+  let recorder: MediaRecorder | null = null
+  let stream: MediaStream | null = null
+  let audioContext: AudioContext | null = null
+  let levelTimer: ReturnType<typeof setInterval> | undefined
+  let discard = false
+
+  function release() {
+    clearInterval(levelTimer)
+    stream?.getTracks().forEach((track) => track.stop())
+    audioContext?.close().catch(() => {})
+    stream = null
+    audioContext = null
+  }
+
+  /** Poll the input level: report speech, and end the utterance after a pause if asked to. */
+  function watchLevel(media: MediaStream, stopAfterPause: boolean) {
+    audioContext = new AudioContext()
+    const analyser = audioContext.createAnalyser()
+    audioContext.createMediaStreamSource(media).connect(analyser)
+    const samples = new Float32Array(analyser.fftSize)
+    let lastSpeechAt: number | null = null
+
+    levelTimer = setInterval(() => {
+      analyser.getFloatTimeDomainData(samples)
+      const rms = Math.sqrt(samples.reduce((sum, x) => sum + x * x, 0) / samples.length)
+      if (rms > SPEECH_LEVEL) {
+        lastSpeechAt = Date.now()
+        events.onSpeech()
+      } else if (stopAfterPause && lastSpeechAt !== null && Date.now() - lastSpeechAt > END_OF_UTTERANCE_MS) {
+        engine.stop()
+      }
+    }, LEVEL_POLL_MS)
+  }
+
+  async function finish(chunks: Blob[], mimeType: string, language: string) {
+    release()
+    if (discard || chunks.length === 0) {
+      events.onEnd()
+      return
+    }
+    events.onProcessing(true)
+    try {
+      events.onResult(await transcribeAudio(new Blob(chunks, { type: mimeType }), language), '')
+    } catch {
+      events.onError('network')
+    } finally {
+      events.onProcessing(false)
+      events.onEnd()
+    }
+  }
+
+  const engine: SpeechEngine = {
+    kind: 'server',
+    start({ continuous, language }) {
+      discard = false
+      recorder = null
+      navigator.mediaDevices.getUserMedia({ audio: true })
+        .then((media) => {
+          if (discard) {
+            media.getTracks().forEach((track) => track.stop())
+            events.onEnd()
+            return
+          }
+          stream = media
+          const chunks: Blob[] = []
+          const rec = new MediaRecorder(media)
+          rec.ondataavailable = (e) => {
+            if (e.data.size > 0) chunks.push(e.data)
+          }
+          rec.onstop = () => finish(chunks, rec.mimeType || 'audio/webm', language)
+          rec.start()
+          recorder = rec
+          watchLevel(media, !continuous)
+        })
+        .catch((err) => {
+          events.onError(err instanceof DOMException && err.name === 'NotAllowedError' ? 'not-allowed' : 'audio-capture')
+          events.onEnd()
+        })
+    },
+    stop() {
+      if (recorder && recorder.state !== 'inactive') {
+        recorder.stop()
+      } else {
+        discard = true   // stopped before the microphone opened — nothing to transcribe
+      }
+    },
+    abort() {
+      discard = true
+      if (recorder && recorder.state !== 'inactive') {
+        recorder.stop()
+      } else {
+        release()
+      }
+    },
+  }
+  return engine
+}
@@ -0,0 +1,61 @@
+/**
+ * theme.ts — the colour theme, applied as `data-theme` on <html>.
+ *
+ * The choice is kept in localStorage so it applies before sign-in (an inline
+ * script in index.html sets it before first paint), and on the user's
+ * account so it follows them between devices. 'system' follows the OS
+ * colour scheme and contrast settings, live.
+ * THEMES in app.py mirrors the list below.
+ */
+
+import type { Theme } from './api'
+import type { MessageKey } from './i18n'
+
+const THEME_KEY = 'unify.theme'
+
+export const THEME_OPTIONS: { value: Theme; label: MessageKey }[] = [
+  { value: 'system', label: 'theme.system' },
+  { value: 'light', label: 'theme.light' },
+  { value: 'dark', label: 'theme.dark' },
+  { value: 'high-contrast', label: 'theme.highContrast' },
+]
+
+const prefersMoreContrast = window.matchMedia('(prefers-contrast: more)')
+const prefersLight = window.matchMedia('(prefers-color-scheme: light)')
+const listeners = new Set<() => void>()
+
+function isTheme(value: string | null): value is Theme {
+  return THEME_OPTIONS.some((option) => option.value === value)
+}
+
+/** The theme index.css actually has: 'system' resolved against the OS. */
+function resolveTheme(theme: Theme): Exclude<Theme, 'system'> {
+  if (theme !== 'system') return theme
+  if (prefersMoreContrast.matches) return 'high-contrast'
+  return prefersLight.matches ? 'light' : 'dark'
+}
+
+export function getTheme(): Theme {
+  const stored = localStorage.getItem(THEME_KEY)
+  return isTheme(stored) ? stored : 'system'
+}
+
+/** Apply `theme` to the page and remember it on this device. */
+export function applyTheme(theme: Theme): void {
+  if (theme === 'system') localStorage.removeItem(THEME_KEY)
+  else localStorage.setItem(THEME_KEY, theme)
+  document.documentElement.dataset.theme = resolveTheme(theme)
+  listeners.forEach((listener) => listener())
+}
+
+export function subscribeTheme(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
+
+function followSystem() {
+  if (getTheme() === 'system') applyTheme('system')
+}
+
+prefersMoreContrast.addEventListener('change', followSystem)
+prefersLight.addEventListener('change', followSystem)
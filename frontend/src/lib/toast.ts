@@ -0,0 +1,66 @@
+/**
+ * toast.ts — short-lived messages in the corner of the screen.
+ *
+ * A module-level store, so anything can show a toast without a provider;
+ * components/Toaster.tsx renders them. A toast stays while the pointer or
+ * focus is on it, so there is always time to read it.
+ */
+
+export interface Toast {
+  id: number
+  title: string
+  body?: string | null
+  /** In-app path to open when the toast is clicked. */
+  link?: string | null
+  tone?: 'info' | 'success' | 'error'
+}
+
+const TOAST_MS = 6_000
+const MAX_TOASTS = 4
+
+let toasts: Toast[] = []
+let nextId = 1
+const timers = new Map<number, ReturnType<typeof setTimeout>>()
+const listeners = new Set<() => void>()
+
+function setToasts(next: Toast[]) {
+  toasts = next
+  listeners.forEach((listener) => listener())
+}
+
+/** Show a toast; returns its id. The oldest goes once more than MAX_TOASTS are up. */
+export function showToast(toast: Omit<Toast, 'id'>): number {
+  const id = nextId++
+  const next = [...toasts, { ...toast, id }]
+  next.slice(0, -MAX_TOASTS).forEach((old) => clearTimeout(timers.get(old.id)))
+  setToasts(next.slice(-MAX_TOASTS))
+  releaseToast(id)
+  return id
+}
+
+export function dismissToast(id: number): void {
+  clearTimeout(timers.get(id))
+  timers.delete(id)
+  setToasts(toasts.filter((t) => t.id !== id))
+}
+
+/** Keep a toast up (while it is hovered or focused). */
+export function holdToast(id: number): void {
+  clearTimeout(timers.get(id))
+  timers.delete(id)
+}
+
+/** Start a toast's countdown again. */
+export function releaseToast(id: number): void {
+  clearTimeout(timers.get(id))
+  timers.set(id, setTimeout(() => dismissToast(id), TOAST_MS))
+}
+
+export function getToasts(): Toast[] {
+  return toasts
+}
+
+export function subscribeToasts(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
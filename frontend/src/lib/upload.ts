@@ -0,0 +1,94 @@
+/**
+ * upload.ts — resumable chunked uploads to /api/uploads.
+ *
+ * `request()` in api.ts only speaks JSON, so this sends raw chunk bytes
+ * itself. Each chunk is retried with backoff; if the upload still fails,
+ * pass the same `uploadId` back in to resume — chunks the server already
+ * has are skipped.
+ */
+
+import { call, endpoints, isApiError, makeApiError, toApiError } from './api'
+import type { UploadResult, UploadSession } from './api'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface ChunkedUploadOptions {
+  /** Resume an earlier session instead of starting a new one. */
+  uploadId?: string
+  /** Called once the session is known, so the caller can keep its id for resuming. */
+  onSession?: (session: UploadSession) => void
+  /** Fraction of bytes the server has acknowledged, 0 to 1. */
+  onProgress?: (fraction: number) => void
+  signal?: AbortSignal
+}
+
+// ─── Upload ───────────────────────────────────────────────────────────────────
+
+const CHUNK_ATTEMPTS = 4
+const RETRY_BASE_MS = 1_000
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(signal.reason)
+    }, { once: true })
+  })
+}
+
+async function putChunk(session: UploadSession, index: number, blob: Blob, signal?: AbortSignal) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const res = await fetch(`/api/uploads/${session.upload_id}/chunks/${index}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        credentials: 'include',
+        body: blob,
+        signal,
+      })
+      if (res.ok) return
+      // 4xx means the chunk itself is wrong — retrying won't help.
+      if (res.status < 500) throw await toApiError(res)
+      if (attempt >= CHUNK_ATTEMPTS) throw await toApiError(res)
+    } catch (err) {
+      if (signal?.aborted || isApiError(err) || attempt >= CHUNK_ATTEMPTS) throw err
+    }
+    await sleep(RETRY_BASE_MS * 2 ** (attempt - 1), signal)
+  }
+}
+
+export async function uploadChunked(
+  file: Blob,
+  filename: string,
+  { uploadId, onSession, onProgress, signal }: ChunkedUploadOptions = {},
+): Promise<UploadResult> {
+  const session = uploadId
+    ? await call(endpoints.uploadStatus, { params: [uploadId], signal })
+    : await call(endpoints.startUpload, {
+        body: { filename, size: file.size, mime_type: file.type },
+        signal,
+      })
+  if (session.size !== file.size) {
+    throw makeApiError(409, 'This upload belongs to a different file')
+  }
+  onSession?.(session)
+
+  const received = new Set(session.received)
+  let uploadedBytes = 0
+  for (const index of received) {
+    uploadedBytes += Math.min(session.chunk_size, file.size - index * session.chunk_size)
+  }
+  onProgress?.(uploadedBytes / file.size)
+
+  for (let index = 0; index < session.total_chunks; index++) {
+    if (received.has(index)) continue
+    const start = index * session.chunk_size
+    const chunk = file.slice(start, Math.min(start + session.chunk_size, file.size))
+    await putChunk(session, index, chunk, signal)
+    uploadedBytes += chunk.size
+    onProgress?.(uploadedBytes / file.size)
+  }
+
+  return call(endpoints.completeUpload, { params: [session.upload_id], signal })
+}
@@ -1,8 +1,434 @@
+import { useState, useEffect, useRef } from 'react'
+import type { FormEvent, KeyboardEvent } from 'react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import { useI18n } from '../hooks/useI18n'
+import { coachApi, isApiError } from '../lib/api'
+import type { CoachSession, CoachSessionSummary, CoachSessionTypeInfo, Goal } from '../lib/api'
+
+const smallButton = { fontSize: '0.8rem', padding: '0.3rem 0.75rem' }
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function labelFor(types: CoachSessionTypeInfo[], sessionType: string): string {
+  return types.find((t) => t.session_type === sessionType)?.label ?? sessionType
+}
+
+function Bubble({ from, children }: { from: 'coach' | 'user'; children: string }) {
+  const isUser = from === 'user'
+  return (
+    <div
+      style={{
+        alignSelf: isUser ? 'flex-end' : 'flex-start',
+        maxWidth: '80%',
+        padding: '0.6rem 1rem',
+        borderRadius: 'var(--radius-md)',
+        backgroundColor: isUser ? 'var(--color-accent-dark)' : 'var(--color-surface)',
+        border: isUser ? 'none' : '1px solid var(--color-border)',
+        lineHeight: 1.5,
+        whiteSpace: 'pre-wrap',
+      }}
+    >
+      {children}
+    </div>
+  )
+}
+
+function GoalRow({ goal, onToggle, onDelete }: {
+  goal: Goal
+  onToggle: (goal: Goal) => void
+  onDelete?: (goal: Goal) => void
+}) {
+  const { t } = useI18n()
+  const isDone = goal.status === 'done'
+  return (
+    <div
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '0.6rem',
+        padding: '0.5rem 0',
+        borderBottom: '1px solid var(--color-border)',
+      }}
+    >
+      <input
+        type="checkbox"
+        checked={isDone}
+        onChange={() => onToggle(goal)}
+        aria-label={t(isDone ? 'coach.goal.markOpen' : 'coach.goal.markDone', { title: goal.title })}
+        style={{ width: 'auto' }}
+      />
+      <span
+        style={{
+          flex: 1,
+          textDecoration: isDone ? 'line-through' : 'none',
+          color: isDone ? 'var(--color-text-muted)' : 'inherit',
+        }}
+      >
+        {goal.title}
+      </span>
+      {onDelete && (
+        <button type="button" className="btn btn-ghost" onClick={() => onDelete(goal)} style={smallButton}>
+          {t('common.delete')}
+        </button>
+      )}
+    </div>
+  )
+}
+
+/** Toggle a goal between open and done. */
+function toggledGoal(goal: Goal): Promise<Goal> {
+  return coachApi.updateGoal(goal.goal_id, { status: goal.status === 'done' ? 'open' : 'done' })
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+/** Guided coaching: pick a session type, answer its prompts, track the resulting goals. */
 export default function AICoach() {
+  const params = useParams()
+  const sessionId = params.sessionId ? Number(params.sessionId) : null
+  const [sessionTypes, setSessionTypes] = useState<CoachSessionTypeInfo[]>([])
+
+  useEffect(() => {
+    coachApi.sessionTypes()
+      .then(setSessionTypes)
+      .catch((err) => console.error('Failed to load session types:', err))
+  }, [])
+
+  return sessionId === null
+    ? <CoachHome sessionTypes={sessionTypes} />
+    : <SessionView key={sessionId} sessionId={sessionId} sessionTypes={sessionTypes} />
+}
+
+// ─── Home: start a session, goals, past sessions ──────────────────────────────
+
+function CoachHome({ sessionTypes }: { sessionTypes: CoachSessionTypeInfo[] }) {
+  const navigate = useNavigate()
+  const { t, formatDate } = useI18n()
+  const [sessions, setSessions] = useState<CoachSessionSummary[]>([])
+  const [goals, setGoals] = useState<Goal[]>([])
+  const [newGoal, setNewGoal] = useState('')
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    coachApi.sessions()
+      .then(setSessions)
+      .catch((err) => setError(isApiError(err) ? err.message : t('coach.error.loadSessions')))
+    coachApi.goals()
+      .then(setGoals)
+      .catch((err) => setError(isApiError(err) ? err.message : t('coach.error.loadGoals')))
+  }, [t])
+
+  async function start(info: CoachSessionTypeInfo) {
+    setError('')
+    try {
+      const session = await coachApi.start(info.session_type)
+      navigate(`/ai-coach/${session.session_id}`)
+    } catch (err) {
+      setError(isApiError(err) ? err.message : t('coach.error.start'))
+    }
+  }
+
+  async function addGoal(e: FormEvent) {
+    e.preventDefault()
+    const title = newGoal.trim()
+    if (!title) return
+    try {
+      const goal = await coachApi.addGoal(title)
+      setGoals((prev) => [goal, ...prev])
+      setNewGoal('')
+    } catch (err) {
+      setError(isApiError(err) ? err.message : t('coach.error.addGoal'))
+    }
+  }
+
+  async function toggleGoal(goal: Goal) {
+    try {
+      const updated = await toggledGoal(goal)
+      setGoals((prev) => prev.map((g) => (g.goal_id === updated.goal_id ? updated : g)))
+    } catch (err) {
+      setError(isApiError(err) ? err.message : t('coach.error.updateGoal'))
+    }
+  }
+
+  async function deleteGoal(goal: Goal) {
+    try {
+      await coachApi.removeGoal(goal.goal_id)
+      setGoals((prev) => prev.filter((g) => g.goal_id !== goal.goal_id))
+    } catch (err) {
+      setError(isApiError(err) ? err.message : t('coach.error.deleteGoal'))
+    }
+  }
+
+  async function deleteSession(session: CoachSessionSummary) {
+    if (!window.confirm(t('coach.confirmDeleteSession'))) return
+    try {
+      await coachApi.removeSession(session.session_id)
+      setSessions((prev) => prev.filter((s) => s.session_id !== session.session_id))
+    } catch (err) {
+      setError(isApiError(err) ? err.message : t('coach.error.deleteSession'))
+    }
+  }
+
+  const openGoals = goals.filter((g) => g.status === 'open')
+  const doneGoals = goals.filter((g) => g.status === 'done')
+
   return (
     <div className="page">
-      <h1 style={{ marginBottom: '0.5rem' }}>AI Coach</h1>
-      <p style={{ color: 'var(--color-text-muted)' }}>This feature is coming soon.</p>
+      <h1 style={{ marginBottom: '0.5rem' }}>{t('nav.aiCoach')}</h1>
+      <p style={{ color: 'var(--color-text-muted)', marginBottom: '1.5rem' }}>
+        {t('coach.intro')}
+      </p>
+
+      {error && <p className="form-error" style={{ marginBottom: '1rem' }}>{error}</p>}
+
+      {/* Session types */}
+      <div
+        style={{
+          display: 'grid',
+          gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))',
+          gap: '1rem',
+          marginBottom: '1.5rem',
+        }}
+      >
+        {sessionTypes.map((info) => (
+          <div key={info.session_type} className="card" style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+            <h2 style={{ fontSize: '1rem' }}>{info.label}</h2>
+            <p style={{ flex: 1, fontSize: '0.9rem', color: 'var(--color-text-muted)' }}>{info.description}</p>
+            <button className="btn btn-primary" onClick={() => start(info)}>
+              {t('coach.start', { count: info.step_count })}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {/* Goals */}
+      <section className="card" style={{ marginBottom: '1.5rem' }}>
+        <h2 style={{ fontSize: '1rem', marginBottom: '0.5rem' }}>{t('coach.goals')}</h2>
+        <form onSubmit={addGoal} style={{ display: 'flex', gap: '0.5rem', marginBottom: '0.5rem' }}>
+          <input
+            type="text"
+            value={newGoal}
+            onChange={(e) => setNewGoal(e.target.value)}
+            placeholder={t('coach.goal.placeholder')}
+            style={{ flex: 1 }}
+          />
+          <button type="submit" className="btn btn-primary" disabled={!newGoal.trim()}>{t('coach.goal.add')}</button>
+        </form>
+        {goals.length === 0 && (
+          <p style={{ color: 'var(--color-text-muted)', fontSize: '0.9rem' }}>
+            {t('coach.goals.empty')}
+          </p>
+        )}
+        {openGoals.map((goal) => (
+          <GoalRow key={goal.goal_id} goal={goal} onToggle={toggleGoal} onDelete={deleteGoal} />
+        ))}
+        {doneGoals.length > 0 && (
+          <details style={{ marginTop: '0.75rem' }}>
+            <summary style={{ cursor: 'pointer', fontSize: '0.9rem', color: 'var(--color-text-muted)' }}>
+              {t('coach.goals.completed', { count: doneGoals.length })}
+            </summary>
+            {doneGoals.map((goal) => (
+              <GoalRow key={goal.goal_id} goal={goal} onToggle={toggleGoal} onDelete={deleteGoal} />
+            ))}
+          </details>
+        )}
+      </section>
+
+      {/* Past sessions */}
+      {sessions.length > 0 && (
+        <section className="card">
+          <h2 style={{ fontSize: '1rem', marginBottom: '0.5rem' }}>{t('coach.sessions')}</h2>
+          {sessions.map((s) => (
+            <div
+              key={s.session_id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '0.5rem',
+                padding: '0.6rem 0',
+                borderBottom: '1px solid var(--color-border)',
+              }}
+            >
+              <Link to={`/ai-coach/${s.session_id}`} style={{ flex: 1 }}>
+                {labelFor(sessionTypes, s.session_type)}
+                <span style={{ marginInlineStart: '0.5rem', fontSize: '0.8rem', color: 'var(--color-text-muted)' }}>
+                  {formatDate(s.started_at, { dateStyle: 'medium' })}
+                  {s.status === 'active' && ` · ${t('coach.inProgress')}`}
+                </span>
+              </Link>
+              <button type="button" className="btn btn-ghost" onClick={() => deleteSession(s)} style={smallButton}>
+                {t('common.delete')}
+              </button>
+            </div>
+          ))}
+        </section>
+      )}
+    </div>
+  )
+}
+
+// ─── Session: answer prompts, then summary + action items ─────────────────────
+
+function SessionView({ sessionId, sessionTypes }: {
+  sessionId: number
+  sessionTypes: CoachSessionTypeInfo[]
+}) {
+  const { t } = useI18n()
+  const [session, setSession] = useState<CoachSession | null>(null)
+  const [openGoals, setOpenGoals] = useState<Goal[]>([])
+  const [answer, setAnswer] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState('')
+  const bottomRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    coachApi.get(sessionId)
+      .then((data) => { if (!cancelled) setSession(data) })
+      .catch((err) => {
+        if (!cancelled) setError(isApiError(err) ? err.message : t('coach.error.loadSession'))
+      })
+    // Existing goals are shown as a reminder during a check-in.
+    coachApi.goals('open')
+      .then((goals) => { if (!cancelled) setOpenGoals(goals) })
+      .catch((err) => console.error('Failed to load goals:', err))
+    return () => { cancelled = true }
+  }, [sessionId, t])
+
+  const responseCount = session?.responses.length ?? 0
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' })
+  }, [responseCount])
+
+  async function handleSubmit(e?: FormEvent) {
+    e?.preventDefault()
+    const text = answer.trim()
+    if (!text || !session || isSubmitting) return
+    setIsSubmitting(true)
+    setError('')
+    try {
+      setSession(await coachApi.answer(session.session_id, text))
+      setAnswer('')
+    } catch (err) {
+      setError(isApiError(err) ? err.message : t('coach.error.answer'))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  // Enter adds a newline (answers can be lists); Ctrl/Cmd+Enter submits.
+  function handleKeyDown(e: KeyboardEvent<HTMLTextAreaElement>) {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) handleSubmit()
+  }
+
+  async function toggleGoal(goal: Goal) {
+    try {
+      const updated = await toggledGoal(goal)
+      setSession((prev) => prev && {
+        ...prev,
+        goals: prev.goals.map((g) => (g.goal_id === updated.goal_id ? updated : g)),
+      })
+    } catch (err) {
+      setError(isApiError(err) ? err.message : t('coach.error.updateGoal'))
+    }
+  }
+
+  const isLastStep = session !== null && session.current_step === session.step_count - 1
+  const progress = session ? session.current_step / session.step_count : 0
+
+  return (
+    <div className="page" style={{ maxWidth: 720 }}>
+      <Link to="/ai-coach" style={{ fontSize: '0.85rem' }}>{t('coach.back')}</Link>
+
+      {session && (
+        <>
+          <div style={{ display: 'flex', alignItems: 'baseline', gap: '1rem', margin: '0.75rem 0' }}>
+            <h1 style={{ flex: 1 }}>{labelFor(sessionTypes, session.session_type)}</h1>
+            <span style={{ fontSize: '0.85rem', color: 'var(--color-text-muted)' }}>
+              {session.status === 'completed'
+                ? t('coach.complete')
+                : t('coach.step', { step: session.current_step + 1, total: session.step_count })}
+            </span>
+          </div>
+
+          <div
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={session.step_count}
+            aria-valuenow={session.current_step}
+            style={{ height: 4, borderRadius: 2, backgroundColor: 'var(--color-border)', overflow: 'hidden', marginBottom: '1.5rem' }}
+          >
+            <div style={{ width: `${progress * 100}%`, height: '100%', backgroundColor: 'var(--color-accent)', transition: 'width 0.2s' }} />
+          </div>
+
+          {session.session_type === 'check_in' && session.status === 'active' && openGoals.length > 0 && (
+            <div className="card" style={{ marginBottom: '1.5rem', fontSize: '0.9rem' }}>
+              <p style={{ color: 'var(--color-text-muted)', marginBottom: '0.35rem' }}>{t('coach.openGoals')}</p>
+              <ul style={{ paddingInlineStart: '1.25rem' }}>
+                {openGoals.map((g) => <li key={g.goal_id}>{g.title}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+            {session.responses.map((r) => (
+              <div key={r.step} style={{ display: 'contents' }}>
+                <Bubble from="coach">{r.prompt}</Bubble>
+                <Bubble from="user">{r.answer}</Bubble>
+              </div>
+            ))}
+
+            {session.prompt && (
+              <>
+                <Bubble from="coach">{session.prompt}</Bubble>
+                <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+                  <textarea
+                    value={answer}
+                    onChange={(e) => setAnswer(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    rows={4}
+                    placeholder={t('coach.answerPlaceholder')}
+                    disabled={isSubmitting}
+                    autoFocus
+                  />
+                  <button
+                    type="submit"
+                    className="btn btn-primary"
+                    disabled={isSubmitting || !answer.trim()}
+                    style={{ alignSelf: 'flex-end' }}
+                  >
+                    {isLastStep ? t('coach.finish') : t('coach.next')}
+                  </button>
+                </form>
+              </>
+            )}
+          </div>
+
+          {session.status === 'completed' && (
+            <section className="card" style={{ marginTop: '1.5rem' }}>
+              <h2 style={{ fontSize: '1rem', marginBottom: '0.5rem' }}>{t('coach.summary')}</h2>
+              <p style={{ whiteSpace: 'pre-wrap', lineHeight: 1.6, marginBottom: '1rem' }}>{session.summary}</p>
+
+              <h2 style={{ fontSize: '1rem', marginBottom: '0.25rem' }}>{t('coach.actionItems')}</h2>
+              {session.goals.length === 0 ? (
+                <p style={{ color: 'var(--color-text-muted)', fontSize: '0.9rem' }}>{t('coach.noActionItems')}</p>
+              ) : (
+                <>
+                  <p style={{ color: 'var(--color-text-muted)', fontSize: '0.85rem' }}>
+                    {t('coach.savedAsGoals')}
+                  </p>
+                  {session.goals.map((goal) => (
+                    <GoalRow key={goal.goal_id} goal={goal} onToggle={toggleGoal} />
+                  ))}
+                </>
+              )}
+            </section>
+          )}
+        </>
+      )}
+
+      {error && <p className="form-error" style={{ marginTop: '1rem' }}>{error}</p>}
+      <div ref={bottomRef} />
     </div>
   )
 }
@@ -0,0 +1,69 @@
+import { screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { Route } from 'react-router-dom'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import Admin from './Admin'
+import type { AdminUser } from '../lib/api'
+import { apiError, installMockApi, json } from '../test/mockApi'
+import type { MockApi } from '../test/mockApi'
+import { renderRoutes } from '../test/render'
+
+let server: MockApi
+let admin: AdminUser
+let otherAdmin: AdminUser
+let member: AdminUser
+
+function adminUser(user: { user_id: number; username: string; role: AdminUser['role'] }): AdminUser {
+  return { ...user, display_name: null, disabled: false, last_seen_at: null, message_count: 0 }
+}
+
+beforeEach(() => {
+  server = installMockApi()
+  admin = adminUser(server.addUser({ username: 'ada', role: 'admin' }))
+  otherAdmin = adminUser(server.addUser({ username: 'grace', role: 'admin' }))
+  member = adminUser(server.addUser({ username: 'linus' }))
+  server.signIn('ada')
+  server.on('GET', '/api/admin/stats', () => json({
+    totals: { users: 3, disabled_users: 0, active_today: 1, messages: 0, uploads: 0, upload_bytes: 0 },
+    days: [],
+  }))
+  server.on('GET', '/api/admin/users', () => json({ users: [admin, otherAdmin, member] }))
+})
+
+async function rowFor(username: string) {
+  const name = await screen.findByText(`@${username}`, { exact: false })
+  return within(name.closest('li')!)
+}
+
+describe('password reset', () => {
+  it('is only offered for other accounts that are not admins', async () => {
+    renderRoutes(<Route path="/admin" element={<Admin />} />, '/admin')
+
+    expect((await rowFor('ada')).getByRole('button', { name: 'Reset password' })).toBeDisabled()
+    expect((await rowFor('grace')).getByRole('button', { name: 'Reset password' })).toBeDisabled()
+    expect((await rowFor('linus')).getByRole('button', { name: 'Reset password' })).toBeEnabled()
+  })
+
+  it('shows the temporary password once', async () => {
+    vi.spyOn(window, 'confirm').mockReturnValue(true)
+    server.on('POST', '/api/admin/users/:id/reset-password', () => json({ temporary_password: 'tmp-secret' }))
+    renderRoutes(<Route path="/admin" element={<Admin />} />, '/admin')
+
+    await userEvent.click((await rowFor('linus')).getByRole('button', { name: 'Reset password' }))
+
+    expect(await screen.findByText('tmp-secret')).toBeInTheDocument()
+    expect(server.calls(`/api/admin/users/${member.user_id}/reset-password`)).toHaveLength(1)
+  })
+
+  it('shows why the server refused', async () => {
+    vi.spyOn(window, 'confirm').mockReturnValue(true)
+    server.on('POST', '/api/admin/users/:id/reset-password', () =>
+      apiError(403, "You can't reset another admin's password"))
+    renderRoutes(<Route path="/admin" element={<Admin />} />, '/admin')
+
+    await userEvent.click((await rowFor('linus')).getByRole('button', { name: 'Reset password' }))
+
+    expect(await screen.findByText("You can't reset another admin's password")).toBeInTheDocument()
+    expect(screen.queryByText(/Temporary password/)).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,258 @@
+import { useEffect, useState } from 'react'
+import { useAuth } from '../contexts/AuthContext'
+import { call, endpoints, isApiError } from '../lib/api'
+import type { AdminStats, AdminUser, Role } from '../lib/api'
+import { formatBytes } from '../lib/format'
+import { ROLE_LABELS, ROLES } from '../lib/roles'
+
+const SEARCH_DEBOUNCE_MS = 300
+const CHART_HEIGHT = 80
+
+const sectionTitleStyle = { fontSize: '1.1rem', marginBottom: '1rem' }
+const mutedStyle = { fontSize: '0.8rem', color: 'var(--color-text-muted)' }
+const smallButton = { fontSize: '0.8rem', padding: '0.3rem 0.75rem' }
+
+// ─── Usage stats ──────────────────────────────────────────────────────────────
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div style={{ minWidth: 110 }}>
+      <div style={{ fontSize: '1.4rem', fontWeight: 600 }}>{value}</div>
+      <div style={mutedStyle}>{label}</div>
+    </div>
+  )
+}
+
+/** A bar per day; the tallest bar fills the chart. */
+function DailyChart({ title, days, value }: {
+  title: string
+  days: AdminStats['days']
+  value: (day: AdminStats['days'][number]) => number
+}) {
+  const max = Math.max(1, ...days.map(value))
+  return (
+    <figure style={{ flex: 1, minWidth: 220 }}>
+      <figcaption style={{ ...mutedStyle, marginBottom: '0.5rem' }}>{title}</figcaption>
+      <div style={{ display: 'flex', alignItems: 'flex-end', gap: 3, height: CHART_HEIGHT }}>
+        {days.map((day) => (
+          <div
+            key={day.date}
+            title={`${day.date}: ${value(day)}`}
+            aria-label={`${day.date}: ${value(day)}`}
+            role="img"
+            style={{
+              flex: 1,
+              height: Math.max(2, (value(day) / max) * CHART_HEIGHT),
+              backgroundColor: value(day) ? 'var(--color-accent-dark)' : 'var(--color-border)',
+              borderRadius: 2,
+            }}
+          />
+        ))}
+      </div>
+      {days.length > 0 && (
+        <div style={{ ...mutedStyle, display: 'flex', justifyContent: 'space-between', marginTop: '0.25rem' }}>
+          <span>{days[0].date}</span>
+          <span>{days[days.length - 1].date}</span>
+        </div>
+      )}
+    </figure>
+  )
+}
+
+function StatsSection() {
+  const [stats, setStats] = useState<AdminStats | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    call(endpoints.adminStats)
+      .then(setStats)
+      .catch((err) => setError(isApiError(err) ? err.message : 'Failed to load stats'))
+  }, [])
+
+  return (
+    <section className="card">
+      <h2 style={sectionTitleStyle}>Usage</h2>
+      {error && <p className="form-error">{error}</p>}
+      {!stats && !error && <p style={mutedStyle}>Loading…</p>}
+      {stats && (
+        <>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '1.5rem', marginBottom: '1.5rem' }}>
+            <Stat label="Users" value={stats.totals.users} />
+            <Stat label="Active today" value={stats.totals.active_today} />
+            <Stat label="Disabled" value={stats.totals.disabled_users} />
+            <Stat label="Messages" value={stats.totals.messages} />
+            <Stat label="Uploads" value={stats.totals.uploads} />
+            <Stat label="Upload storage" value={formatBytes(stats.totals.upload_bytes)} />
+          </div>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '1.5rem' }}>
+            <DailyChart title="Messages per day" days={stats.days} value={(day) => day.messages} />
+            <DailyChart title="Uploads per day" days={stats.days} value={(day) => day.uploads} />
+          </div>
+        </>
+      )}
+    </section>
+  )
+}
+
+// ─── Users ────────────────────────────────────────────────────────────────────
+
+function UserRow({ user, isSelf, onChange }: {
+  user: AdminUser
+  isSelf: boolean
+  onChange: (updated: AdminUser) => void
+}) {
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState('')
+  const [temporaryPassword, setTemporaryPassword] = useState('')
+
+  async function update(body: { role?: Role; disabled?: boolean }) {
+    setError('')
+    setBusy(true)
+    try {
+      onChange(await call(endpoints.updateAdminUser, { params: [user.user_id], body }))
+    } catch (err) {
+      setError(isApiError(err) ? err.message : 'Failed to update user')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function resetPassword() {
+    if (!window.confirm(`Reset ${user.username}'s password? They will be signed out everywhere.`)) return
+    setError('')
+    setBusy(true)
+    try {
+      const result = await call(endpoints.resetUserPassword, { params: [user.user_id] })
+      setTemporaryPassword(result.temporary_password)
+    } catch (err) {
+      setError(isApiError(err) ? err.message : 'Failed to reset password')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <li style={{ padding: '0.75rem 0', borderBottom: '1px solid var(--color-border)' }}>
+      <div style={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: '0.75rem' }}>
+        <div style={{ flex: 1, minWidth: 160, opacity: user.disabled ? 0.6 : 1 }}>
+          <div style={{ fontWeight: 500 }}>
+            {user.display_name || user.username}
+            {user.disabled && <span style={{ ...mutedStyle, marginLeft: '0.5rem' }}>Disabled</span>}
+          </div>
+          <div style={mutedStyle}>
+            @{user.username} · {user.message_count} messages · last seen{' '}
+            {user.last_seen_at ? new Date(user.last_seen_at).toLocaleString() : 'never'}
+          </div>
+        </div>
+        <label className="sr-only" htmlFor={`role-${user.user_id}`}>Role for {user.username}</label>
+        <select
+          id={`role-${user.user_id}`}
+          value={user.role}
+          onChange={(e) => update({ role: e.target.value as Role })}
+          disabled={busy || isSelf}
+          style={{ width: 'auto' }}
+        >
+          {ROLES.map((role) => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+        </select>
+        <button
+          type="button"
+          className="btn btn-ghost"
+          style={smallButton}
+          onClick={() => update({ disabled: !user.disabled })}
+          disabled={busy || isSelf}
+        >
+          {user.disabled ? 'Enable' : 'Disable'}
+        </button>
+        {/* The server refuses both: your own password changes on the Profile page. */}
+        <button
+          type="button"
+          className="btn btn-ghost"
+          style={smallButton}
+          onClick={resetPassword}
+          disabled={busy || isSelf || user.role === 'admin'}
+        >
+          Reset password
+        </button>
+      </div>
+      {temporaryPassword && (
+        <p style={{ fontSize: '0.85rem', marginTop: '0.5rem' }}>
+          Temporary password: <code style={{ userSelect: 'all' }}>{temporaryPassword}</code>
+          <span style={{ ...mutedStyle, marginLeft: '0.5rem' }}>Shown once — pass it on securely.</span>
+        </p>
+      )}
+      {error && <p className="form-error">{error}</p>}
+    </li>
+  )
+}
+
+function UsersSection() {
+  const { user: me } = useAuth()
+  const [search, setSearch] = useState('')
+  const [users, setUsers] = useState<AdminUser[] | null>(null)
+  const [error, setError] = useState('')
+
+  // Debounced search; an empty query lists everyone.
+  useEffect(() => {
+    const controller = new AbortController()
+    const timer = setTimeout(() => {
+      call(endpoints.adminUsers, { params: [search.trim()], signal: controller.signal })
+        .then((data) => {
+          setUsers(data.users)
+          setError('')
+        })
+        .catch((err) => {
+          if (!(isApiError(err) && err.code === 'aborted')) {
+            setError(isApiError(err) ? err.message : 'Failed to load users')
+          }
+        })
+    }, SEARCH_DEBOUNCE_MS)
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [search])
+
+  function replaceUser(updated: AdminUser) {
+    setUsers((prev) => prev?.map((u) => (u.user_id === updated.user_id ? updated : u)) ?? null)
+  }
+
+  return (
+    <section className="card">
+      <h2 style={sectionTitleStyle}>Users</h2>
+      <div className="form-group">
+        <label htmlFor="admin-search">Search</label>
+        <input
+          id="admin-search"
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Username or display name"
+        />
+      </div>
+      {error && <p className="form-error">{error}</p>}
+      {users === null && !error && <p style={mutedStyle}>Loading…</p>}
+      {users?.length === 0 && <p style={mutedStyle}>No users match.</p>}
+      {users && users.length > 0 && (
+        <ul style={{ listStyle: 'none' }}>
+          {users.map((u) => (
+            <UserRow key={u.user_id} user={u} isSelf={u.user_id === me?.user_id} onChange={replaceUser} />
+          ))}
+        </ul>
+      )}
+    </section>
+  )
+}
+
+// ─── Page ─────────────────────────────────────────────────────────────────────
+
+export default function Admin() {
+  return (
+    <div className="page">
+      <h1 style={{ marginBottom: '1.5rem' }}>Admin</h1>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '1.5rem' }}>
+        <StatsSection />
+        <UsersSection />
+      </div>
+    </div>
+  )
+}
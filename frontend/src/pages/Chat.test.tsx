@@ -0,0 +1,126 @@
+import { screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { Route } from 'react-router-dom'
+import { beforeEach, describe, expect, it } from 'vitest'
+import Chat from './Chat'
+import { apiError, installMockApi, sse } from '../test/mockApi'
+import type { MockApi } from '../test/mockApi'
+import { renderRoutes } from '../test/render'
+
+let server: MockApi
+
+beforeEach(() => {
+  server = installMockApi()
+  server.addUser({ username: 'ada' })
+  server.signIn('ada')
+})
+
+function renderChat(url = '/chat') {
+  return renderRoutes(
+    <>
+      <Route path="/chat" element={<Chat />} />
+      <Route path="/chat/:conversationId" element={<Chat />} />
+    </>,
+    url,
+  )
+}
+
+function currentLocation() {
+  return screen.getByLabelText('Current location').textContent
+}
+
+async function send(text: string) {
+  const user = userEvent.setup()
+  await user.type(await screen.findByLabelText('Message'), text)
+  await user.click(screen.getByRole('button', { name: 'Send' }))
+}
+
+describe('sending a message', () => {
+  it('starts a thread for the first message and streams the reply into it', async () => {
+    server.setReply(['Hi Ada', ', how can I help?'])
+    renderChat()
+
+    await send('Hello')
+
+    expect(await screen.findByText('Hi Ada, how can I help?')).toBeInTheDocument()
+    const [thread] = server.conversations
+    // react-router navigates in a transition, which commits a moment later.
+    await waitFor(() => expect(currentLocation()).toBe(`/chat/${thread.conversation_id}`))
+    expect(server.calls('/api/chat')[0].body).toEqual({ message: 'Hello', conversation_id: thread.conversation_id })
+    expect(screen.getByLabelText('Message')).toHaveValue('')
+    // The sidebar picks up the title the server gave the thread.
+    expect(await screen.findByRole('link', { name: 'Hello' })).toHaveAttribute('href', `/chat/${thread.conversation_id}`)
+  })
+
+  it('sends follow-ups to the open thread', async () => {
+    const conversation = server.addConversation({}, [
+      { role: 'user', content: 'Earlier question' },
+      { role: 'assistant', content: 'Earlier answer' },
+    ])
+    renderChat(`/chat/${conversation.conversation_id}`)
+    expect(await screen.findByText('Earlier answer')).toBeInTheDocument()
+
+    await send('Next question')
+
+    expect(await screen.findByText('Hello there!')).toBeInTheDocument()
+    expect(server.calls('/api/conversations', 'POST')).toHaveLength(0)
+    expect(server.calls('/api/chat')[0].body).toMatchObject({ conversation_id: conversation.conversation_id })
+    expect(server.messagesIn(conversation.conversation_id).map((m) => m.content)).toEqual([
+      'Earlier question', 'Earlier answer', 'Next question', 'Hello there!',
+    ])
+  })
+
+  it('locks the composer and offers Stop while the reply is on its way', async () => {
+    let answer: (response: Response) => void = () => {}
+    server.on('POST', '/api/chat', () => new Promise((resolve) => { answer = resolve }))
+    renderChat()
+
+    await send('Hello')
+
+    expect(await screen.findByRole('button', { name: 'Stop' })).toBeInTheDocument()
+    expect(screen.getByLabelText('Message')).toBeDisabled()
+
+    answer(sse(['Done'], {
+      done: { model: 'mock-model', usage: null, finish_reason: 'stop', user_message_id: null, message_id: null },
+    }))
+
+    expect(await screen.findByText('Done')).toBeInTheDocument()
+    expect(screen.getByLabelText('Message')).toBeEnabled()
+    expect(screen.queryByRole('button', { name: 'Stop' })).not.toBeInTheDocument()
+  })
+})
+
+describe('when the reply fails', () => {
+  it('shows the server error and drops the empty reply', async () => {
+    server.on('POST', '/api/chat', () => apiError(502, 'The assistant is unavailable right now'))
+    renderChat()
+
+    await send('Hello')
+
+    expect(await screen.findByText('The assistant is unavailable right now')).toBeInTheDocument()
+    expect(screen.getByText('Hello')).toBeInTheDocument()
+    expect(screen.queryByText('Thinking…')).not.toBeInTheDocument()
+    expect(screen.getByLabelText('Message')).toBeEnabled()
+  })
+
+  it('keeps what arrived before an error mid-stream', async () => {
+    server.on('POST', '/api/chat', () => sse(['Partial answer'], { error: 'The model stopped responding' }))
+    renderChat()
+
+    await send('Hello')
+
+    expect(await screen.findByText('The model stopped responding')).toBeInTheDocument()
+    expect(screen.getByText('Partial answer')).toBeInTheDocument()
+  })
+
+  it('shows the server error when the thread cannot be created', async () => {
+    server.on('POST', '/api/conversations', () => apiError(500, 'Could not start a conversation'))
+    renderChat()
+
+    await send('Hello')
+
+    expect(await screen.findByText('Could not start a conversation')).toBeInTheDocument()
+    expect(server.calls('/api/chat')).toHaveLength(0)
+    expect(currentLocation()).toBe('/chat')
+  })
+})
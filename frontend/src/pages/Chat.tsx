@@ -1,64 +1,555 @@
-import { useState, useRef, useEffect } from 'react'
-import type { FormEvent } from 'react'
-import { api, isApiError } from '../lib/api'
+import { useState, useRef, useEffect, useCallback } from 'react'
+import type { ClipboardEvent, DragEvent, FormEvent } from 'react'
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom'
+import { api, chatResponseMetaSchema, conversationsApi, historyApi, isApiError } from '../lib/api'
+import type { Attachment, ChatMessage, ChatResponse, ChatResponseMeta, Conversation } from '../lib/api'
+import { ATTACHMENT_ACCEPT } from '../lib/attachments'
+import { speechLanguageFor } from '../lib/i18n'
+import type { MessageKey, MessageParams } from '../lib/i18n'
+import { markdownToText } from '../lib/markdown'
+import type { OutboxEntry } from '../lib/outbox'
 import { useSpeechRecognition } from '../hooks/useSpeechRecognition'
+import { useSpeechSynthesis } from '../hooks/useSpeechSynthesis'
+import { useOutbox } from '../hooks/useOutbox'
+import { useAttachmentDrafts } from '../hooks/useAttachmentDrafts'
+import { useI18n } from '../hooks/useI18n'
+import type { SpeechSynthesisOptions } from '../hooks/useSpeechSynthesis'
+import AttachmentChip from '../components/AttachmentChip'
+import ConversationSidebar from '../components/ConversationSidebar'
+import CopyButton from '../components/CopyButton'
+import Markdown from '../components/Markdown'
+import MessageAttachments from '../components/MessageAttachments'
+import VoiceSettings from '../components/VoiceSettings'
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
 interface Message {
+  message_id?: number   // absent until the message has been loaded from the server
   role: 'user' | 'assistant'
   content: string
+  attachments?: Attachment[]
+  meta?: ChatResponseMeta   // only for replies received in this session
 }
 
-interface ChatResponse {
-  response: string
+// How far back to page when opening a thread at a specific message (from History).
+const MAX_TARGET_PAGES = 20
+
+const SPEECH_LANGUAGES = [
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'en-GB', label: 'English (UK)' },
+  { code: 'es-ES', label: 'Español' },
+  { code: 'fr-FR', label: 'Français' },
+  { code: 'de-DE', label: 'Deutsch' },
+  { code: 'it-IT', label: 'Italiano' },
+  { code: 'pt-BR', label: 'Português (BR)' },
+  { code: 'hi-IN', label: 'हिन्दी' },
+  { code: 'ja-JP', label: '日本語' },
+  { code: 'zh-CN', label: '中文 (简体)' },
+  { code: 'ar-SA', label: 'العربية' },
+  { code: 'he-IL', label: 'עברית' },
+]
+// Set only when the user picks a speech language different from the interface's.
+const SPEECH_LANGUAGE_KEY = 'unify.speechLanguage'
+
+// Hands-free dictation runs until stopped; this only catches a forgotten mic.
+const HANDS_FREE_SILENCE_MS = 60_000
+
+const VOICE_SETTINGS_KEY = 'unify.voiceSettings'
+
+function loadVoiceSettings(): SpeechSynthesisOptions {
+  try {
+    return JSON.parse(localStorage.getItem(VOICE_SETTINGS_KEY) ?? '{}') as SpeechSynthesisOptions
+  } catch {
+    return {}
+  }
+}
+
+function toMessage({ message_id, role, content, attachments }: ChatMessage): Message {
+  return { message_id, role, content, attachments }
+}
+
+/** Whether a drag carries files (rather than, say, selected text). */
+function isFileDrag(e: DragEvent): boolean {
+  return e.dataTransfer.types.includes('Files')
+}
+
+function messageKey(msg: Message, index: number): string {
+  return msg.message_id !== undefined ? String(msg.message_id) : `local-${index}`
+}
+
+const OUTBOX_STATUS_LABELS: Record<OutboxEntry['status'], MessageKey> = {
+  pending: 'chat.outbox.pending',
+  sending: 'chat.outbox.sending',
+  failed: 'chat.outbox.failed',
+}
+
+const MESSAGE_ACTION_STYLE = { padding: 0, background: 'none', color: 'inherit', textDecoration: 'underline' }
+
+function describeMeta(
+  { model, usage, finish_reason }: ChatResponseMeta,
+  t: (key: MessageKey, params?: MessageParams) => string,
+): string {
+  const parts = [model]
+  if (usage) parts.push(t('chat.meta.tokens', { count: usage.total_tokens }))
+  if (finish_reason === 'length') parts.push(t('chat.meta.cutOff'))
+  return parts.join(' · ')
 }
 
 // ─── Component ────────────────────────────────────────────────────────────────
 
 export default function Chat() {
+  const params = useParams()
+  const conversationId = params.conversationId ? Number(params.conversationId) : null
+  const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
+  const targetMessageId = Number(searchParams.get('message')) || null
+  const { t, locale } = useI18n()
+
+  const [conversations, setConversations] = useState<Conversation[]>([])
   const [messages, setMessages] = useState<Message[]>([])
+  const [hasMore, setHasMore] = useState(false)
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false)
+  const [highlightId, setHighlightId] = useState<number | null>(null)
   const [input, setInput] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState('')
+  // Finished replies, read out by the live region below (streaming chunks aren't).
+  const [announcement, setAnnouncement] = useState('')
+  // The user message being edited, by index in `messages`.
+  const [editingIndex, setEditingIndex] = useState<number | null>(null)
+  const [editDraft, setEditDraft] = useState('')
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
   const bottomRef = useRef<HTMLDivElement>(null)
+  const abortRef = useRef<AbortController | null>(null)
+  // Set when sendMessage creates a thread, so the load effect below doesn't
+  // overwrite the messages that are already on screen.
+  const createdIdRef = useRef<number | null>(null)
+
+  const [speechLanguageChoice, setSpeechLanguageChoice] = useState(() => localStorage.getItem(SPEECH_LANGUAGE_KEY))
+  const speechLanguage = speechLanguageChoice ?? speechLanguageFor(locale)
+  const [isHandsFree, setIsHandsFree] = useState(false)
+  // Voice conversation: dictate → send → read the reply aloud → listen again.
+  const [isVoiceMode, setIsVoiceMode] = useState(false)
+  const [voiceSettings, setVoiceSettings] = useState(loadVoiceSettings)
+
+  const {
+    transcript, accumulatedTranscript, isListening, isTranscribing, startListening, stopListening, isSupported, engine,
+  } = useSpeechRecognition({
+    language: speechLanguage,
+    // Voice mode needs each turn to end at a pause.
+    continuous: isHandsFree && !isVoiceMode,
+    silenceTimeoutMs: isHandsFree && !isVoiceMode ? HANDS_FREE_SILENCE_MS : undefined,
+  })
 
-  const { transcript, isListening, startListening, stopListening, isSupported } =
-    useSpeechRecognition()
+  const { voices, speak, cancel: cancelSpeech, speakingId, isSupported: canSpeak } =
+    useSpeechSynthesis({ ...voiceSettings, language: speechLanguage })
 
   // When the speech recognition produces a transcript, put it in the input box.
   useEffect(() => {
     if (transcript) setInput(transcript)
   }, [transcript])
 
-  // Auto-scroll to the latest message.
+  // Save each finished dictation so it shows up in History; in voice mode, also send it.
+  const wasListeningRef = useRef(false)
+  const voiceTurnRef = useRef<(text: string) => void>(() => {})
   useEffect(() => {
-    bottomRef.current?.scrollIntoView({ behavior: 'smooth' })
-  }, [messages, isLoading])
+    if (wasListeningRef.current && !isListening && accumulatedTranscript) {
+      historyApi.saveTranscript(accumulatedTranscript)
+        .catch((err) => console.error('Failed to save transcript:', err))
+      voiceTurnRef.current(accumulatedTranscript)
+    }
+    wasListeningRef.current = isListening
+  }, [isListening, accumulatedTranscript])
 
-  async function sendMessage(text: string) {
-    if (!text.trim()) return
+  const refreshConversations = useCallback(() => {
+    conversationsApi.list()
+      .then(setConversations)
+      .catch((err) => console.error('Failed to load conversations:', err))
+  }, [])
+
+  // Messages typed while offline; sent for us when the connection is back.
+  const sentRef = useRef<(entry: OutboxEntry, conversationId: number, reply: ChatResponse) => void>(() => {})
+  const { entries: queued, isOnline, enqueue, retry, discard } = useOutbox({
+    onSent: (entry, sentTo, reply) => sentRef.current(entry, sentTo, reply),
+  })
+  const pending = queued.filter((e) => e.conversation_id === conversationId)
+
+  const attachments = useAttachmentDrafts()
+  const hasAttachments = attachments.drafts.some((d) => d.status === 'done')
+
+  useEffect(() => {
+    refreshConversations()
+  }, [refreshConversations])
+
+  // Load the latest page of messages whenever the selected thread changes.
+  // When opened at a specific message, keep paging back until it's loaded.
+  useEffect(() => {
+    if (conversationId !== null && createdIdRef.current === conversationId) {
+      createdIdRef.current = null
+      return
+    }
+
+    abortRef.current?.abort()
+    setMessages([])
+    setHasMore(false)
+    setHighlightId(null)
     setError('')
-    const userMessage: Message = { role: 'user', content: text.trim() }
-    setMessages((prev) => [...prev, userMessage])
-    setInput('')
+    if (conversationId === null) return
+
+    let cancelled = false
+
+    async function load(id: number) {
+      let page = await conversationsApi.messages(id)
+      let loaded = page.messages
+      const isTargetLoaded = () => loaded.some((m) => m.message_id === targetMessageId)
+      for (let pages = 1; pages < MAX_TARGET_PAGES; pages++) {
+        if (targetMessageId === null || !page.has_more || isTargetLoaded()) break
+        page = await conversationsApi.messages(id, loaded[0].message_id)
+        loaded = [...page.messages, ...loaded]
+      }
+      if (cancelled) return
+      setMessages(loaded.map(toMessage))
+      setHasMore(page.has_more)
+      setHighlightId(targetMessageId)
+    }
+
+    load(conversationId).catch((err) => {
+      if (!cancelled) setError(isApiError(err) ? err.message : t('chat.error.loadMessages'))
+    })
+    return () => { cancelled = true }
+  }, [conversationId, targetMessageId, t])
+
+  const branchedFromId = conversations.find((c) => c.conversation_id === conversationId)?.branched_from_id
+  const parentConversation = conversations.find((c) => c.conversation_id === branchedFromId)
+
+  // Auto-scroll to the latest message (but not when older pages are prepended),
+  // or to the highlighted message when one was requested.
+  const lastMessage = messages[messages.length - 1]
+  useEffect(() => {
+    if (highlightId !== null) {
+      document.getElementById(`message-${highlightId}`)?.scrollIntoView({ block: 'center' })
+    } else {
+      bottomRef.current?.scrollIntoView({ behavior: 'smooth' })
+    }
+  }, [lastMessage, isLoading, highlightId])
+
+  // Cancel any in-flight stream when leaving the page.
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  async function loadOlder() {
+    const oldest = messages[0]?.message_id
+    if (conversationId === null || oldest === undefined) return
+    setIsLoadingOlder(true)
+    try {
+      const page = await conversationsApi.messages(conversationId, oldest)
+      setMessages((prev) => [...page.messages.map(toMessage), ...prev])
+      setHasMore(page.has_more)
+    } catch (err) {
+      setError(isApiError(err) ? err.message : t('chat.error.loadMessages'))
+    } finally {
+      setIsLoadingOlder(false)
+    }
+  }
+
+  /** Keep a message in the outbox to send once the server is reachable again. */
+  async function queueMessage(threadId: number | null, text: string) {
+    try {
+      await enqueue(threadId, text.trim())
+      setInput('')
+    } catch (err) {
+      console.error('Failed to queue message:', err)
+      setError(t('chat.error.queue'))
+    }
+  }
+
+  /** A queued message went out: show it, and its reply, if its thread is open. */
+  function handleQueuedSent(entry: OutboxEntry, sentTo: number, reply: ChatResponse) {
+    refreshConversations()
+    if (entry.conversation_id === null && conversationId === null) {
+      navigate(`/chat/${sentTo}`)
+      return
+    }
+    if (sentTo !== conversationId) return
+    const { response, ...meta } = reply
+    setAnnouncement(t('chat.assistantSaid', { text: markdownToText(response) }))
+    setMessages((prev) => [
+      ...prev,
+      { role: 'user', content: entry.content, message_id: meta.user_message_id ?? undefined },
+      { role: 'assistant', content: response, meta, message_id: meta.message_id ?? undefined },
+    ])
+  }
+
+  /**
+   * Send a message and stream the reply. Resolves with the reply text, or null
+   * if none arrived. Offline, the message goes to the outbox instead.
+   */
+  async function sendMessage(text: string): Promise<string | null> {
+    if ((!text.trim() && !hasAttachments) || attachments.isUploading) return null
+    setError('')
+    setHighlightId(null)
+
+    // The outbox only keeps text, so a message with attachments waits for a connection.
+    if (!isOnline && !hasAttachments) {
+      await queueMessage(conversationId, text)
+      return null
+    }
+
+    // The first message of a new chat creates its thread.
+    let threadId = conversationId
+    if (threadId === null) {
+      try {
+        const conv = await conversationsApi.create()
+        threadId = conv.conversation_id
+        createdIdRef.current = threadId
+        navigate(`/chat/${threadId}`)
+      } catch (err) {
+        if (isApiError(err) && err.code === 'network' && !hasAttachments) {
+          await queueMessage(null, text)
+        } else {
+          setError(isApiError(err) ? err.message : t('chat.error.start'))
+        }
+        return null
+      }
+    }
+
+    return streamReply(threadId, text.trim(), attachments.take())
+  }
+
+  /**
+   * Stream the assistant's reply in `threadId`: to `text` and `attached`, or
+   * with `regenerate` to the thread's last message again.
+   */
+  async function streamReply(
+    threadId: number,
+    text: string,
+    attached: Attachment[] = [],
+    regenerate = false,
+  ): Promise<string | null> {
+    // The empty assistant message is filled in as chunks stream in.
+    const placeholders: Message[] = regenerate
+      ? [{ role: 'assistant', content: '' }]
+      : [{ role: 'user', content: text, attachments: attached }, { role: 'assistant', content: '' }]
+    setMessages((prev) => [...prev, ...placeholders])
+    if (!regenerate) setInput('')
     setIsLoading(true)
 
+    const controller = new AbortController()
+    abortRef.current = controller
+
+    const body = regenerate
+      ? { message: '', conversation_id: threadId, regenerate: true }
+      : {
+          message: text,
+          conversation_id: threadId,
+          ...(attached.length > 0 && { attachment_ids: attached.map((a) => a.upload_id) }),
+        }
     try {
-      const data = await api.post<ChatResponse>('/api/chat', { message: text.trim() })
-      setMessages((prev) => [...prev, { role: 'assistant', content: data.response }])
+      const reply = await api.stream('/api/chat', body, {
+        signal: controller.signal,
+        done: chatResponseMetaSchema,
+        onChunk: (chunk) => {
+          setMessages((prev) => {
+            const last = prev[prev.length - 1]
+            return [...prev.slice(0, -1), { ...last, content: last.content + chunk }]
+          })
+        },
+        onDone: (meta: ChatResponseMeta) => {
+          // Both messages are saved now; their ids enable the message actions.
+          setMessages((prev) => {
+            const next = [...prev]
+            const last = next[next.length - 1]
+            next[next.length - 1] = { ...last, meta, message_id: meta.message_id ?? undefined }
+            if (!regenerate && meta.user_message_id !== null) {
+              next[next.length - 2] = { ...next[next.length - 2], message_id: meta.user_message_id }
+            }
+            return next
+          })
+        },
+      })
+      if (reply) setAnnouncement(t('chat.assistantSaid', { text: markdownToText(reply) }))
+      return reply
     } catch (err) {
-      setError(isApiError(err) ? err.message : 'Failed to get a response')
+      if (isApiError(err) && err.code === 'network' && !regenerate) {
+        // Nothing reached the server — take the message back off the screen and
+        // queue it, or with attachments put it back in the composer.
+        setMessages((prev) => prev.slice(0, -2))
+        if (attached.length > 0) {
+          attachments.restore(attached)
+          setInput(text)
+          setError(err.message)
+        } else {
+          await queueMessage(threadId, text)
+        }
+        return null
+      }
+      const aborted = (err instanceof DOMException && err.name === 'AbortError') ||
+        (isApiError(err) && err.code === 'aborted')
+      if (!aborted) setError(isApiError(err) ? err.message : t('chat.error.response'))
+      return null
     } finally {
+      // Drop the assistant bubble if nothing arrived before stop/error.
+      setMessages((prev) => {
+        const last = prev[prev.length - 1]
+        return last?.role === 'assistant' && !last.content ? prev.slice(0, -1) : prev
+      })
+      abortRef.current = null
       setIsLoading(false)
+      refreshConversations()   // pick up the auto-title and new ordering
     }
   }
 
+  /**
+   * Copy the thread up to (not including) `messages[index]` into a new thread
+   * and open it. Resolves with the new thread's id, or null on failure.
+   */
+  async function branchBefore(index: number): Promise<number | null> {
+    const target = messages[index]
+    if (conversationId === null || target?.message_id === undefined) return null
+    setError('')
+    setHighlightId(null)
+    try {
+      const branch = await conversationsApi.branch(conversationId, target.message_id)
+      const page = await conversationsApi.messages(branch.conversation_id)
+      createdIdRef.current = branch.conversation_id
+      setMessages(page.messages.map(toMessage))
+      setHasMore(page.has_more)
+      navigate(`/chat/${branch.conversation_id}`)
+      refreshConversations()
+      return branch.conversation_id
+    } catch (err) {
+      setError(isApiError(err) ? err.message : t('chat.error.branch'))
+      return null
+    }
+  }
+
+  /** Send an edited version of a user message in a new branch; the original thread is kept. */
+  async function resendEdited(index: number, text: string) {
+    if (!text.trim()) return
+    setEditingIndex(null)
+    const attached = messages[index].attachments ?? []
+    const threadId = await branchBefore(index)
+    if (threadId !== null) await streamReply(threadId, text.trim(), attached)
+  }
+
+  /** Ask for a different reply in a new branch; the original reply stays in its thread. */
+  async function regenerateReply(index: number) {
+    const threadId = await branchBefore(index)
+    if (threadId !== null) await streamReply(threadId, '', [], true)
+  }
+
+  async function deleteMessage(index: number) {
+    const target = messages[index]
+    if (conversationId === null || target.message_id === undefined) return
+    if (!window.confirm(t('chat.confirmDeleteMessage'))) return
+    try {
+      await conversationsApi.removeMessage(conversationId, target.message_id)
+      setMessages((prev) => prev.filter((m) => m.message_id !== target.message_id))
+    } catch (err) {
+      setError(isApiError(err) ? err.message : t('chat.error.deleteMessage'))
+    }
+  }
+
+  async function renameConversation(id: number, title: string) {
+    try {
+      const updated = await conversationsApi.rename(id, title)
+      setConversations((prev) => prev.map((c) => (c.conversation_id === id ? updated : c)))
+    } catch (err) {
+      setError(isApiError(err) ? err.message : t('chat.error.rename'))
+    }
+  }
+
+  async function deleteConversation(id: number) {
+    try {
+      await conversationsApi.remove(id)
+      setConversations((prev) => prev.filter((c) => c.conversation_id !== id))
+      if (id === conversationId) navigate('/chat')
+    } catch (err) {
+      setError(isApiError(err) ? err.message : t('chat.error.deleteConversation'))
+    }
+  }
+
+  function stopStreaming() {
+    abortRef.current?.abort()
+  }
+
+  async function voiceTurn(text: string) {
+    if (!isVoiceMode) return
+    const reply = await sendMessage(text)
+    if (!reply) return
+    speak(reply, {
+      id: 'voice-reply',
+      onEnd: () => {
+        if (voiceModeRef.current) {
+          setInput('')
+          startListening()
+        }
+      },
+    })
+  }
+
+  // The dictation effect and speech callbacks outlive the render that created
+  // them, so they read the latest handler and mode through refs.
+  const voiceModeRef = useRef(isVoiceMode)
+  useEffect(() => {
+    voiceTurnRef.current = voiceTurn
+    voiceModeRef.current = isVoiceMode
+    sentRef.current = handleQueuedSent
+  })
+
+  function toggleVoiceMode() {
+    if (isVoiceMode) {
+      setIsVoiceMode(false)
+      cancelSpeech()
+      if (isListening) stopListening()
+      return
+    }
+    setIsVoiceMode(true)
+    cancelSpeech()
+    setInput('')
+    startListening()
+  }
+
+  function changeVoiceSettings(settings: SpeechSynthesisOptions) {
+    setVoiceSettings(settings)
+    localStorage.setItem(VOICE_SETTINGS_KEY, JSON.stringify(settings))
+  }
+
+  function toggleReadAloud(id: string, text: string) {
+    if (speakingId === id) cancelSpeech()
+    else speak(text, { id })
+  }
+
   function handleSubmit(e: FormEvent) {
     e.preventDefault()
     sendMessage(input)
   }
 
+  function handleDragOver(e: DragEvent) {
+    if (!isFileDrag(e)) return
+    e.preventDefault()
+    setIsDraggingFiles(true)
+  }
+
+  function handleDragLeave(e: DragEvent<HTMLDivElement>) {
+    // Moving onto a child element isn't leaving.
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFiles(false)
+  }
+
+  function handleDrop(e: DragEvent) {
+    if (!isFileDrag(e)) return
+    e.preventDefault()
+    setIsDraggingFiles(false)
+    attachments.add(Array.from(e.dataTransfer.files))
+  }
+
+  function handlePaste(e: ClipboardEvent) {
+    const files = Array.from(e.clipboardData.files)
+    if (files.length === 0) return
+    e.preventDefault()
+    attachments.add(files)
+  }
+
   function toggleMic() {
     if (isListening) {
       stopListening()
@@ -68,94 +559,447 @@ export default function Chat() {
     }
   }
 
+  function changeSpeechLanguage(code: string) {
+    // Picking the interface's own speech language goes back to following it.
+    const choice = code === speechLanguageFor(locale) ? null : code
+    setSpeechLanguageChoice(choice)
+    if (choice) localStorage.setItem(SPEECH_LANGUAGE_KEY, choice)
+    else localStorage.removeItem(SPEECH_LANGUAGE_KEY)
+  }
+
   return (
-    <div style={{ display: 'flex', flexDirection: 'column', height: 'calc(100vh - 60px)' }}>
-
-      {/* Message list */}
-      <div style={{ flex: 1, overflowY: 'auto', padding: '1.5rem 1rem' }}>
-        <div style={{ maxWidth: 720, margin: '0 auto', display: 'flex', flexDirection: 'column', gap: '1rem' }}>
-          {messages.length === 0 && (
-            <p style={{ color: 'var(--color-text-muted)', textAlign: 'center', marginTop: '4rem' }}>
-              Start a conversation — type a message or press the mic.
-            </p>
-          )}
+    <div style={{ display: 'flex', height: 'calc(100vh - 60px)' }}>
+      <ConversationSidebar
+        conversations={conversations}
+        activeId={conversationId}
+        onRename={renameConversation}
+        onDelete={deleteConversation}
+      />
+      <div
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+        style={{ flex: 1, display: 'flex', flexDirection: 'column', minWidth: 0, position: 'relative' }}
+      >
+        {isDraggingFiles && (
+          <div
+            aria-hidden="true"
+            style={{
+              position: 'absolute',
+              inset: '0.5rem',
+              zIndex: 1,
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              border: '2px dashed var(--color-accent)',
+              borderRadius: 'var(--radius-md)',
+              backgroundColor: 'var(--color-bg)',
+              opacity: 0.9,
+              pointerEvents: 'none',
+              fontSize: '1.1rem',
+            }}
+          >
+            {t('chat.dropFiles')}
+          </div>
+        )}
 
-          {messages.map((msg, i) => (
-            <div
-              key={i}
-              style={{
-                alignSelf: msg.role === 'user' ? 'flex-end' : 'flex-start',
-                maxWidth: '75%',
-                padding: '0.75rem 1rem',
-                borderRadius: 'var(--radius-md)',
-                backgroundColor:
-                  msg.role === 'user' ? 'var(--color-accent-dark)' : 'var(--color-surface)',
-                border: msg.role === 'assistant' ? '1px solid var(--color-border)' : 'none',
-                lineHeight: 1.5,
-                whiteSpace: 'pre-wrap',
-              }}
-            >
-              {msg.content}
-            </div>
-          ))}
-
-          {isLoading && (
-            <div
-              style={{
-                alignSelf: 'flex-start',
-                padding: '0.75rem 1rem',
-                borderRadius: 'var(--radius-md)',
-                backgroundColor: 'var(--color-surface)',
-                border: '1px solid var(--color-border)',
-                color: 'var(--color-text-muted)',
-                fontStyle: 'italic',
-              }}
-            >
-              Thinking…
+        {/* Message list */}
+        <div style={{ flex: 1, overflowY: 'auto', padding: '1.5rem 1rem' }}>
+          <div style={{ maxWidth: 720, margin: '0 auto', display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+            {hasMore && (
+              <button
+                type="button"
+                className="btn btn-ghost"
+                onClick={loadOlder}
+                disabled={isLoadingOlder}
+                style={{ alignSelf: 'center', fontSize: '0.85rem' }}
+              >
+                {isLoadingOlder ? t('common.loading') : t('chat.loadEarlier')}
+              </button>
+            )}
+
+            {parentConversation && (
+              <p style={{ fontSize: '0.8rem', color: 'var(--color-text-muted)', textAlign: 'center' }}>
+                {t('chat.branchedFrom')}{' '}
+                <Link to={`/chat/${parentConversation.conversation_id}`}>
+                  {parentConversation.title ?? t('chat.newConversation')}
+                </Link>
+              </p>
+            )}
+
+            {messages.length === 0 && pending.length === 0 && !isLoading && (
+              <p style={{ color: 'var(--color-text-muted)', textAlign: 'center', marginTop: '4rem' }}>
+                {t('chat.empty')}
+              </p>
+            )}
+
+            {messages.map((msg, i) => (msg.content || msg.attachments?.length) ? (
+              <div
+                key={messageKey(msg, i)}
+                id={msg.message_id !== undefined ? `message-${msg.message_id}` : undefined}
+                style={{
+                  alignSelf: msg.role === 'user' ? 'flex-end' : 'flex-start',
+                  maxWidth: '75%',
+                  padding: '0.75rem 1rem',
+                  borderRadius: 'var(--radius-md)',
+                  backgroundColor:
+                    msg.role === 'user' ? 'var(--color-accent-dark)' : 'var(--color-surface)',
+                  color: msg.role === 'user' ? 'var(--color-on-accent)' : undefined,
+                  border: msg.role === 'assistant' ? '1px solid var(--color-border)' : 'none',
+                  outline: msg.message_id === highlightId ? '2px solid var(--color-accent)' : undefined,
+                  lineHeight: 1.5,
+                  whiteSpace: msg.role === 'user' ? 'pre-wrap' : undefined,
+                }}
+              >
+                {editingIndex === i ? (
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault()
+                      resendEdited(i, editDraft)
+                    }}
+                    style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', minWidth: 280 }}
+                  >
+                    <textarea
+                      value={editDraft}
+                      onChange={(e) => setEditDraft(e.target.value)}
+                      aria-label={t('chat.editMessage')}
+                      rows={3}
+                      autoFocus
+                      style={{ resize: 'vertical', font: 'inherit' }}
+                    />
+                    <p style={{ fontSize: '0.75rem', margin: 0 }}>
+                      {t('chat.editNotice')}
+                    </p>
+                    <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+                      <button type="button" className="btn btn-ghost" onClick={() => setEditingIndex(null)}>
+                        {t('common.cancel')}
+                      </button>
+                      <button type="submit" className="btn btn-primary" disabled={!editDraft.trim()}>
+                        {t('chat.sendAsBranch')}
+                      </button>
+                    </div>
+                  </form>
+                ) : (
+                  <>
+                    {msg.attachments && msg.attachments.length > 0 && (
+                      <MessageAttachments attachments={msg.attachments} />
+                    )}
+                    {msg.role === 'assistant' ? <Markdown source={msg.content} /> : msg.content}
+                  </>
+                )}
+                {editingIndex !== i && !(isLoading && i === messages.length - 1) && (
+                  <div
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '0.5rem',
+                      justifyContent: msg.role === 'user' ? 'flex-end' : undefined,
+                      marginTop: '0.35rem',
+                      fontSize: '0.7rem',
+                      color: msg.role === 'user' ? undefined : 'var(--color-text-muted)',
+                    }}
+                  >
+                    {msg.content && <CopyButton text={msg.content} label={t('chat.copyTarget')} style={MESSAGE_ACTION_STYLE} />}
+                    {msg.role === 'user' && msg.message_id !== undefined && !isLoading && (
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setEditDraft(msg.content)
+                          setEditingIndex(i)
+                        }}
+                        style={MESSAGE_ACTION_STYLE}
+                      >
+                        {t('chat.edit')}
+                      </button>
+                    )}
+                    {msg.role === 'assistant' && msg.message_id !== undefined && !isLoading && (
+                      <button
+                        type="button"
+                        onClick={() => regenerateReply(i)}
+                        title={t('chat.regenerateTitle')}
+                        style={MESSAGE_ACTION_STYLE}
+                      >
+                        {t('chat.regenerate')}
+                      </button>
+                    )}
+                    {msg.message_id !== undefined && !isLoading && (
+                      <button type="button" onClick={() => deleteMessage(i)} style={MESSAGE_ACTION_STYLE}>
+                        {t('common.delete')}
+                      </button>
+                    )}
+                    {msg.role === 'assistant' && canSpeak && (
+                      <button
+                        type="button"
+                        onClick={() => toggleReadAloud(messageKey(msg, i), markdownToText(msg.content))}
+                        aria-label={speakingId === messageKey(msg, i) ? t('chat.stopReading') : t('chat.readAloud')}
+                        title={speakingId === messageKey(msg, i) ? t('chat.stopReading') : t('chat.readAloud')}
+                        style={{ padding: 0, background: 'none', color: 'inherit', fontSize: '0.85rem' }}
+                      >
+                        <span aria-hidden="true">{speakingId === messageKey(msg, i) ? '⏹' : '🔊'}</span>
+                      </button>
+                    )}
+                    {msg.meta && (
+                      <span
+                        title={msg.meta.usage
+                          ? t('chat.meta.usage', {
+                            prompt: msg.meta.usage.prompt_tokens,
+                            completion: msg.meta.usage.completion_tokens,
+                          })
+                          : undefined}
+                      >
+                        {describeMeta(msg.meta, t)}
+                      </span>
+                    )}
+                  </div>
+                )}
+              </div>
+            ) : null)}
+
+            {isLoading && !messages[messages.length - 1]?.content && (
+              <div
+                style={{
+                  alignSelf: 'flex-start',
+                  padding: '0.75rem 1rem',
+                  borderRadius: 'var(--radius-md)',
+                  backgroundColor: 'var(--color-surface)',
+                  border: '1px solid var(--color-border)',
+                  color: 'var(--color-text-muted)',
+                  fontStyle: 'italic',
+                }}
+              >
+                {t('chat.thinking')}
+              </div>
+            )}
+
+            {pending.map((entry) => (
+              <div
+                key={entry.id}
+                style={{
+                  alignSelf: 'flex-end',
+                  maxWidth: '75%',
+                  padding: '0.75rem 1rem',
+                  borderRadius: 'var(--radius-md)',
+                  backgroundColor: 'var(--color-accent-dark)',
+                  color: 'var(--color-on-accent)',
+                  opacity: 0.7,
+                  lineHeight: 1.5,
+                  whiteSpace: 'pre-wrap',
+                }}
+              >
+                {entry.content}
+                <div
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '0.5rem',
+                    marginTop: '0.35rem',
+                    fontSize: '0.7rem',
+                  }}
+                >
+                  <span title={entry.error ?? undefined}>
+                    {t(OUTBOX_STATUS_LABELS[entry.status])}
+                    {entry.status === 'failed' && entry.error && ` — ${entry.error}`}
+                  </span>
+                  {entry.status === 'failed' && (
+                    <button
+                      type="button"
+                      onClick={() => retry(entry.id)}
+                      style={{ padding: 0, background: 'none', color: 'inherit', textDecoration: 'underline' }}
+                    >
+                      {t('common.retry')}
+                    </button>
+                  )}
+                  {entry.status !== 'sending' && (
+                    <button
+                      type="button"
+                      onClick={() => discard(entry.id)}
+                      style={{ padding: 0, background: 'none', color: 'inherit', textDecoration: 'underline' }}
+                    >
+                      {t('chat.discard')}
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+
+            <div role="alert">
+              {error && <p className="form-error" style={{ textAlign: 'center' }}>{error}</p>}
             </div>
-          )}
 
-          {error && <p className="form-error" style={{ textAlign: 'center' }}>{error}</p>}
+            <div ref={bottomRef} />
+          </div>
+        </div>
 
-          <div ref={bottomRef} />
+        {/* Screen reader announcements: finished replies, then mic state. */}
+        <div className="sr-only" aria-live="polite" aria-atomic="true">{announcement}</div>
+        <div className="sr-only" aria-live="polite">
+          {isTranscribing ? t('chat.status.transcribing') : isListening ? t('chat.status.listening') : ''}
         </div>
-      </div>
 
-      {/* Input bar */}
-      <div style={{ borderTop: '1px solid var(--color-border)', padding: '1rem', backgroundColor: 'var(--color-bg)' }}>
-        <form
-          onSubmit={handleSubmit}
-          style={{ maxWidth: 720, margin: '0 auto', display: 'flex', gap: '0.5rem' }}
-        >
-          <input
-            type="text"
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            placeholder={isListening ? 'Listening…' : 'Type a message…'}
-            disabled={isLoading}
-            style={{ flex: 1 }}
-          />
-
-          {isSupported && (
+        {/* Input bar */}
+        <div style={{ borderTop: '1px solid var(--color-border)', padding: '1rem', backgroundColor: 'var(--color-bg)' }}>
+          {!isOnline && (
+            <p style={{ maxWidth: 720, margin: '0 auto 0.75rem', fontSize: '0.8rem', color: 'var(--color-text-muted)' }}>
+              {t('chat.offline')}
+            </p>
+          )}
+          {isSupported && canSpeak && (
+            <div style={{ maxWidth: 720, margin: '0 auto 0.75rem', display: 'flex', gap: '0.75rem', alignItems: 'flex-start' }}>
+              <button
+                type="button"
+                className="btn btn-ghost"
+                onClick={toggleVoiceMode}
+                aria-pressed={isVoiceMode}
+                title={t('chat.voiceChatTitle')}
+                style={{
+                  fontSize: '0.8rem',
+                  borderColor: isVoiceMode ? 'var(--color-accent)' : undefined,
+                  color: isVoiceMode ? 'var(--color-accent)' : undefined,
+                }}
+              >
+                {isVoiceMode ? t('chat.endVoiceChat') : t('chat.voiceChat')}
+              </button>
+              <details style={{ flex: 1, fontSize: '0.8rem' }}>
+                <summary style={{ cursor: 'pointer', color: 'var(--color-text-muted)', padding: '0.4rem 0' }}>
+                  {t('chat.voiceSettings')}
+                </summary>
+                <div style={{ marginTop: '0.5rem' }}>
+                  <VoiceSettings
+                    voices={voices}
+                    settings={voiceSettings}
+                    onChange={changeVoiceSettings}
+                    language={speechLanguage}
+                  />
+                </div>
+              </details>
+            </div>
+          )}
+          {(attachments.drafts.length > 0 || attachments.rejected) && (
+            <div style={{ maxWidth: 720, margin: '0 auto 0.5rem' }}>
+              {attachments.drafts.length > 0 && (
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem' }}>
+                  {attachments.drafts.map((draft) => (
+                    <AttachmentChip
+                      key={draft.id}
+                      draft={draft}
+                      onRetry={() => attachments.retry(draft.id)}
+                      onRemove={() => attachments.remove(draft.id)}
+                    />
+                  ))}
+                </div>
+              )}
+              {attachments.rejected && (
+                <p className="form-error" role="alert" style={{ marginTop: '0.35rem' }}>{attachments.rejected}</p>
+              )}
+            </div>
+          )}
+          <form
+            onSubmit={handleSubmit}
+            style={{ maxWidth: 720, margin: '0 auto', display: 'flex', gap: '0.5rem' }}
+          >
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={ATTACHMENT_ACCEPT}
+              onChange={(e) => {
+                attachments.add(Array.from(e.target.files ?? []))
+                e.target.value = ''   // so picking the same file again still fires
+              }}
+              hidden
+            />
             <button
               type="button"
               className="btn btn-ghost"
-              onClick={toggleMic}
-              title={isListening ? 'Stop recording' : 'Start voice input'}
-              style={{ borderColor: isListening ? 'var(--color-accent)' : undefined }}
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isLoading}
+              aria-label={t('chat.attach')}
+              title={t('chat.attachTitle')}
             >
-              {isListening ? '⏹' : '🎤'}
+              <span aria-hidden="true">📎</span>
             </button>
-          )}
+            <input
+              type="text"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onPaste={handlePaste}
+              placeholder={
+                isTranscribing ? t('chat.placeholder.transcribing')
+                  : isListening ? (isHandsFree ? t('chat.placeholder.handsFree') : t('chat.placeholder.listening'))
+                    : t('chat.placeholder.type')
+              }
+              aria-label={t('chat.messageLabel')}
+              disabled={isLoading}
+              style={{ flex: 1 }}
+            />
 
-          <button
-            type="submit"
-            className="btn btn-primary"
-            disabled={isLoading || !input.trim()}
-          >
-            Send
-          </button>
-        </form>
+            {isSupported && (
+              <>
+                <select
+                  value={speechLanguage}
+                  onChange={(e) => changeSpeechLanguage(e.target.value)}
+                  disabled={isListening}
+                  aria-label={t('chat.speechLanguage')}
+                  title={t('chat.speechLanguage')}
+                  style={{ width: 'auto', fontSize: '0.8rem' }}
+                >
+                  {!SPEECH_LANGUAGES.some((l) => l.code === speechLanguage) && (
+                    <option value={speechLanguage}>{speechLanguage}</option>
+                  )}
+                  {SPEECH_LANGUAGES.map((l) => (
+                    <option key={l.code} value={l.code}>{l.label}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  className="btn btn-ghost"
+                  onClick={() => setIsHandsFree((v) => !v)}
+                  disabled={isListening || isVoiceMode}
+                  aria-pressed={isHandsFree}
+                  title={t('chat.handsFreeTitle')}
+                  style={{
+                    fontSize: '0.8rem',
+                    borderColor: isHandsFree ? 'var(--color-accent)' : undefined,
+                    color: isHandsFree ? 'var(--color-accent)' : undefined,
+                  }}
+                >
+                  {t('chat.handsFree')}
+                </button>
+                <button
+                  type="button"
+                  className="btn btn-ghost"
+                  onClick={toggleMic}
+                  disabled={isTranscribing}
+                  aria-pressed={isListening}
+                  aria-label={isTranscribing
+                    ? t('chat.mic.transcribing')
+                    : isListening ? t('chat.mic.stop') : t('chat.mic.start')}
+                  title={isListening
+                    ? t('chat.mic.stopRecording')
+                    : engine === 'server' ? t('chat.mic.startServer') : t('chat.mic.start')}
+                  style={{ borderColor: isListening ? 'var(--color-accent)' : undefined }}
+                >
+                  <span aria-hidden="true">{isListening ? '⏹' : '🎤'}</span>
+                </button>
+              </>
+            )}
+
+            {isLoading ? (
+              <button type="button" className="btn btn-ghost" onClick={stopStreaming}>
+                {t('chat.stop')}
+              </button>
+            ) : (
+              <button
+                type="submit"
+                className="btn btn-primary"
+                disabled={(!input.trim() && !hasAttachments) || attachments.isUploading}
+                title={attachments.isUploading ? t('chat.waitingForUploads') : undefined}
+              >
+                {t('common.send')}
+              </button>
+            )}
+          </form>
+        </div>
       </div>
     </div>
   )
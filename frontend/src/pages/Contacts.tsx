@@ -1,8 +1,229 @@
+import { useState, useEffect } from 'react'
+import type { ReactNode } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useI18n } from '../hooks/useI18n'
+import { contactsApi, isApiError } from '../lib/api'
+import type { Contact, UserSearchResult } from '../lib/api'
+
+const SEARCH_DEBOUNCE_MS = 300
+
+const smallButton = { fontSize: '0.8rem', padding: '0.3rem 0.75rem' }
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function ContactRow({ username, detail, children }: {
+  username: string
+  detail?: string
+  children: ReactNode
+}) {
+  return (
+    <div
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '0.5rem',
+        padding: '0.6rem 0',
+        borderBottom: '1px solid var(--color-border)',
+      }}
+    >
+      <span style={{ flex: 1, fontWeight: 500 }}>
+        {username}
+        {detail && (
+          <span style={{ marginInlineStart: '0.5rem', fontSize: '0.8rem', color: 'var(--color-text-muted)' }}>
+            {detail}
+          </span>
+        )}
+      </span>
+      {children}
+    </div>
+  )
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <section className="card" style={{ marginBottom: '1.5rem' }}>
+      <h2 style={{ fontSize: '1rem', marginBottom: '0.5rem' }}>{title}</h2>
+      {children}
+    </section>
+  )
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
 export default function Contacts() {
+  const navigate = useNavigate()
+  const { t } = useI18n()
+  const [contacts, setContacts] = useState<Contact[]>([])
+  const [search, setSearch] = useState('')
+  const [results, setResults] = useState<UserSearchResult[]>([])
+  const [error, setError] = useState('')
+
+  function reload() {
+    contactsApi.list()
+      .then(setContacts)
+      .catch((err) => setError(isApiError(err) ? err.message : t('contacts.error.load')))
+  }
+
+  useEffect(reload, [t])
+
+  // Debounced username search.
+  useEffect(() => {
+    const q = search.trim()
+    let cancelled = false
+    const timer = setTimeout(() => {
+      if (!q) {
+        setResults([])
+        return
+      }
+      contactsApi.searchUsers(q)
+        .then((users) => { if (!cancelled) setResults(users) })
+        .catch((err) => { if (!cancelled) setError(isApiError(err) ? err.message : t('contacts.error.search')) })
+    }, SEARCH_DEBOUNCE_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [search, t])
+
+  /** Run a contact action, then refresh the list and any visible search results. */
+  async function run(action: () => Promise<unknown>) {
+    setError('')
+    try {
+      await action()
+      reload()
+      if (search.trim()) setResults(await contactsApi.searchUsers(search.trim()))
+    } catch (err) {
+      setError(isApiError(err) ? err.message : t('contacts.error.generic'))
+    }
+  }
+
+  async function openConversation(contact: Contact) {
+    try {
+      const conversation = await contactsApi.startConversation(contact.contact_id)
+      navigate(`/messages/${conversation.conversation_id}`)
+    } catch (err) {
+      setError(isApiError(err) ? err.message : t('contacts.error.openConversation'))
+    }
+  }
+
+  function confirmBlock(contact: Contact) {
+    if (window.confirm(t('contacts.confirmBlock', { username: contact.username }))) {
+      run(() => contactsApi.block(contact.contact_id))
+    }
+  }
+
+  const incoming = contacts.filter((c) => c.status === 'pending' && c.direction === 'incoming')
+  const outgoing = contacts.filter((c) => c.status === 'pending' && c.direction === 'outgoing')
+  const accepted = contacts.filter((c) => c.status === 'accepted')
+  const blocked = contacts.filter((c) => c.status === 'blocked')
+
   return (
     <div className="page">
-      <h1 style={{ marginBottom: '0.5rem' }}>Contacts</h1>
-      <p style={{ color: 'var(--color-text-muted)' }}>Your connections will appear here.</p>
+      <h1 style={{ marginBottom: '1.5rem' }}>{t('nav.contacts')}</h1>
+
+      <div className="form-group">
+        <label htmlFor="contact-search">{t('contacts.find')}</label>
+        <input
+          id="contact-search"
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder={t('contacts.searchPlaceholder')}
+        />
+      </div>
+
+      {error && <p className="form-error" style={{ marginBottom: '1rem' }}>{error}</p>}
+
+      {search.trim() && (
+        <Section title={t('contacts.searchResults')}>
+          {results.length === 0 && (
+            <p style={{ color: 'var(--color-text-muted)', fontSize: '0.9rem' }}>{t('contacts.noResults')}</p>
+          )}
+          {results.map((u) => (
+            <ContactRow key={u.user_id} username={u.username}>
+              {u.status === null && (
+                <button className="btn btn-primary" style={smallButton} onClick={() => run(() => contactsApi.request(u.username))}>
+                  {t('contacts.add')}
+                </button>
+              )}
+              {u.status === 'pending' && u.direction === 'incoming' && u.contact_id !== null && (
+                <button className="btn btn-primary" style={smallButton} onClick={() => run(() => contactsApi.accept(u.contact_id!))}>
+                  {t('contacts.acceptRequest')}
+                </button>
+              )}
+              {u.status === 'pending' && u.direction === 'outgoing' && (
+                <span style={{ fontSize: '0.8rem', color: 'var(--color-text-muted)' }}>{t('contacts.requestSent')}</span>
+              )}
+              {u.status === 'accepted' && (
+                <span style={{ fontSize: '0.8rem', color: 'var(--color-text-muted)' }}>{t('contacts.inContacts')}</span>
+              )}
+              {u.status === 'blocked' && (
+                <span style={{ fontSize: '0.8rem', color: 'var(--color-text-muted)' }}>{t('contacts.blocked')}</span>
+              )}
+            </ContactRow>
+          ))}
+        </Section>
+      )}
+
+      {incoming.length > 0 && (
+        <Section title={t('contacts.requests')}>
+          {incoming.map((c) => (
+            <ContactRow key={c.contact_id} username={c.username} detail={t('contacts.wantsToConnect')}>
+              <button className="btn btn-primary" style={smallButton} onClick={() => run(() => contactsApi.accept(c.contact_id))}>
+                {t('contacts.accept')}
+              </button>
+              <button className="btn btn-ghost" style={smallButton} onClick={() => run(() => contactsApi.remove(c.contact_id))}>
+                {t('contacts.decline')}
+              </button>
+            </ContactRow>
+          ))}
+        </Section>
+      )}
+
+      <Section title={t('contacts.yours')}>
+        {accepted.length === 0 && (
+          <p style={{ color: 'var(--color-text-muted)', fontSize: '0.9rem' }}>
+            {t('contacts.empty')}
+          </p>
+        )}
+        {accepted.map((c) => (
+          <ContactRow key={c.contact_id} username={c.username}>
+            <button className="btn btn-primary" style={smallButton} onClick={() => openConversation(c)}>
+              {t('contacts.message')}
+            </button>
+            <button className="btn btn-ghost" style={smallButton} onClick={() => run(() => contactsApi.remove(c.contact_id))}>
+              {t('common.remove')}
+            </button>
+            <button className="btn btn-ghost" style={smallButton} onClick={() => confirmBlock(c)}>
+              {t('contacts.block')}
+            </button>
+          </ContactRow>
+        ))}
+      </Section>
+
+      {outgoing.length > 0 && (
+        <Section title={t('contacts.pending')}>
+          {outgoing.map((c) => (
+            <ContactRow key={c.contact_id} username={c.username} detail={t('contacts.requestSentDetail')}>
+              <button className="btn btn-ghost" style={smallButton} onClick={() => run(() => contactsApi.remove(c.contact_id))}>
+                {t('common.cancel')}
+              </button>
+            </ContactRow>
+          ))}
+        </Section>
+      )}
+
+      {blocked.length > 0 && (
+        <Section title={t('contacts.blocked')}>
+          {blocked.map((c) => (
+            <ContactRow key={c.contact_id} username={c.username}>
+              <button className="btn btn-ghost" style={smallButton} onClick={() => run(() => contactsApi.remove(c.contact_id))}>
+                {t('contacts.unblock')}
+              </button>
+            </ContactRow>
+          ))}
+        </Section>
+      )}
     </div>
   )
 }
@@ -1,8 +1,193 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { Link } from 'react-router-dom'
+import { useI18n } from '../hooks/useI18n'
+import { historyApi, isApiError, HIGHLIGHT_START, HIGHLIGHT_STOP } from '../lib/api'
+import type { HistoryItem, HistoryQuery, HistoryType } from '../lib/api'
+
+const SEARCH_DEBOUNCE_MS = 300
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Render a server snippet, turning the highlight delimiters into <mark>s. */
+function Snippet({ text }: { text: string }) {
+  const parts = text.split(HIGHLIGHT_START)
+  return (
+    <>
+      {parts.map((part, i) => {
+        if (i === 0) return part
+        const [match, rest] = part.split(HIGHLIGHT_STOP)
+        return (
+          <span key={i}>
+            <mark style={{ backgroundColor: 'var(--color-accent-dark)', color: 'var(--color-on-accent)', borderRadius: 3 }}>
+              {match}
+            </mark>
+            {rest}
+          </span>
+        )
+      })}
+    </>
+  )
+}
+
+function resultLink(item: HistoryItem): string | null {
+  if (item.type !== 'conversation' || item.conversation_id === null) return null
+  const target = item.message_id !== null ? `?message=${item.message_id}` : ''
+  return `/chat/${item.conversation_id}${target}`
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
 export default function History() {
+  const { t, formatDate } = useI18n()
+  const [search, setSearch] = useState('')
+  const [filters, setFilters] = useState<HistoryQuery>({})
+  const [items, setItems] = useState<HistoryItem[]>([])
+  const [nextOffset, setNextOffset] = useState<number | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+  const sentinelRef = useRef<HTMLDivElement>(null)
+  // Incremented on every new query so stale pages are ignored.
+  const queryIdRef = useRef(0)
+
+  // Debounce the search box into the filters used for fetching.
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters((prev) => (prev.q === search.trim() ? prev : { ...prev, q: search.trim() }))
+    }, SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [search])
+
+  const loadPage = useCallback(async (query: HistoryQuery, offset: number) => {
+    const queryId = queryIdRef.current
+    setIsLoading(true)
+    setError('')
+    try {
+      const page = await historyApi.search({ ...query, offset })
+      if (queryId !== queryIdRef.current) return
+      setItems((prev) => (offset === 0 ? page.items : [...prev, ...page.items]))
+      setNextOffset(page.next_offset)
+    } catch (err) {
+      if (queryId === queryIdRef.current) {
+        setError(isApiError(err) ? err.message : t('history.error.load'))
+      }
+    } finally {
+      if (queryId === queryIdRef.current) setIsLoading(false)
+    }
+  }, [t])
+
+  // Restart from the first page whenever the filters change.
+  useEffect(() => {
+    queryIdRef.current += 1
+    setItems([])
+    setNextOffset(null)
+    loadPage(filters, 0)
+  }, [filters, loadPage])
+
+  // Infinite scroll: fetch the next page when the sentinel comes into view.
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || nextOffset === null || isLoading) return
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) loadPage(filters, nextOffset)
+    })
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [filters, nextOffset, isLoading, loadPage])
+
+  function updateFilter(key: 'type' | 'from' | 'to', value: string) {
+    setFilters((prev) => ({ ...prev, [key]: value || undefined }))
+  }
+
   return (
     <div className="page">
-      <h1 style={{ marginBottom: '0.5rem' }}>History</h1>
-      <p style={{ color: 'var(--color-text-muted)' }}>Your conversation history will appear here.</p>
+      <h1 style={{ marginBottom: '1.5rem' }}>{t('nav.history')}</h1>
+
+      {/* Filters */}
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.75rem', marginBottom: '1.5rem' }}>
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder={t('history.searchPlaceholder')}
+          aria-label={t('history.search')}
+          style={{ flex: '1 1 280px' }}
+        />
+        <select
+          value={filters.type ?? ''}
+          onChange={(e) => updateFilter('type', e.target.value as HistoryType | '')}
+          aria-label={t('history.type')}
+          style={{ width: 'auto' }}
+        >
+          <option value="">{t('history.type.all')}</option>
+          <option value="conversation">{t('history.type.conversation')}</option>
+          <option value="transcript">{t('history.type.transcript')}</option>
+        </select>
+        <input
+          type="date"
+          value={filters.from ?? ''}
+          max={filters.to}
+          onChange={(e) => updateFilter('from', e.target.value)}
+          aria-label={t('history.from')}
+          style={{ width: 'auto' }}
+        />
+        <input
+          type="date"
+          value={filters.to ?? ''}
+          min={filters.from}
+          onChange={(e) => updateFilter('to', e.target.value)}
+          aria-label={t('history.to')}
+          style={{ width: 'auto' }}
+        />
+      </div>
+
+      {/* Results */}
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+        {items.map((item) => {
+          const href = resultLink(item)
+          const body = (
+            <>
+              <div style={{ display: 'flex', justifyContent: 'space-between', gap: '1rem', marginBottom: '0.35rem' }}>
+                <span style={{ fontWeight: 600, color: 'var(--color-text)' }}>
+                  {item.type === 'transcript' ? t('history.voiceTranscript') : item.title ?? t('chat.newConversation')}
+                </span>
+                <span style={{ fontSize: '0.8rem', color: 'var(--color-text-muted)', whiteSpace: 'nowrap' }}>
+                  {formatDate(item.created_at)}
+                </span>
+              </div>
+              <p style={{ fontSize: '0.9rem', color: 'var(--color-text-muted)', whiteSpace: 'pre-wrap' }}>
+                <Snippet text={item.snippet} />
+              </p>
+            </>
+          )
+
+          return href ? (
+            <Link
+              key={`${item.type}-${item.id}`}
+              to={href}
+              className="card"
+              style={{ padding: '1rem', textDecoration: 'none' }}
+            >
+              {body}
+            </Link>
+          ) : (
+            <div key={`${item.type}-${item.id}`} className="card" style={{ padding: '1rem' }}>
+              {body}
+            </div>
+          )
+        })}
+
+        {!isLoading && !error && items.length === 0 && (
+          <p style={{ color: 'var(--color-text-muted)' }}>
+            {filters.q ? t('history.noMatches') : t('history.empty')}
+          </p>
+        )}
+
+        {isLoading && <p style={{ color: 'var(--color-text-muted)', textAlign: 'center' }}>{t('common.loading')}</p>}
+        {error && <p className="form-error">{error}</p>}
+
+        <div ref={sentinelRef} />
+      </div>
     </div>
   )
 }
@@ -0,0 +1,74 @@
+import { screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { Route } from 'react-router-dom'
+import { beforeEach, describe, expect, it } from 'vitest'
+import Login from './Login'
+import { ProtectedRoute } from '../components/ProtectedRoute'
+import { apiError, installMockApi } from '../test/mockApi'
+import type { MockApi } from '../test/mockApi'
+import { renderRoutes } from '../test/render'
+
+let server: MockApi
+
+beforeEach(() => {
+  server = installMockApi()
+  server.addUser({ username: 'ada', password: 'correct horse' })
+  server.addUser({ username: 'eve', password: 'apple', disabled: true })
+})
+
+function renderLogin(url = '/login') {
+  return renderRoutes(
+    <>
+      <Route path="/login" element={<Login />} />
+      <Route path="/chat" element={<ProtectedRoute><h1>Chat page</h1></ProtectedRoute>} />
+    </>,
+    url,
+  )
+}
+
+function currentLocation() {
+  return screen.getByLabelText('Current location').textContent
+}
+
+async function signIn(username: string, password: string) {
+  const user = userEvent.setup()
+  await user.type(await screen.findByLabelText('Username'), username)
+  await user.type(screen.getByLabelText('Password'), password)
+  await user.click(screen.getByRole('button', { name: 'Sign in' }))
+}
+
+describe('Login', () => {
+  it('shows why the server refused the sign-in', async () => {
+    renderLogin()
+    await signIn('ada', 'wrong')
+
+    expect(await screen.findByText('Invalid username or password')).toBeInTheDocument()
+    expect(currentLocation()).toBe('/login')
+  })
+
+  it('refuses a disabled account', async () => {
+    renderLogin()
+    await signIn('eve', 'apple')
+
+    expect(await screen.findByText('This account has been disabled')).toBeInTheDocument()
+  })
+
+  it('goes to /chat by default', async () => {
+    renderLogin()
+    await signIn('ada', 'correct horse')
+
+    expect(await screen.findByRole('heading', { name: 'Chat page' })).toBeInTheDocument()
+  })
+
+  it('explains that an expired session needs a new sign-in', async () => {
+    server.signIn('ada')
+    server.on('GET', '/api/sessions/current', () => {
+      server.expireSession()
+      return apiError(401, 'Unauthorized')
+    })
+    renderLogin('/chat')
+
+    expect(await screen.findByText('Your session has expired. Sign in again to continue.')).toBeInTheDocument()
+    expect(currentLocation()).toBe('/login')
+  })
+})
@@ -1,15 +1,20 @@
 import { useState } from 'react'
 import type { FormEvent } from 'react'
-import { Link, useNavigate } from 'react-router-dom'
+import { Link, useLocation, useNavigate } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
+import { useI18n } from '../hooks/useI18n'
 import { isApiError } from '../lib/api'
 
 export default function Login() {
-  const { login } = useAuth()
+  const { login, sessionExpired } = useAuth()
   const navigate = useNavigate()
+  const { t } = useI18n()
+  // Set by ProtectedRoute when it redirected here.
+  const from = (useLocation().state as { from?: string } | null)?.from ?? '/chat'
 
   const [username, setUsername] = useState('')
   const [password, setPassword] = useState('')
+  const [remember, setRemember] = useState(false)
   const [error, setError] = useState('')
   const [isSubmitting, setIsSubmitting] = useState(false)
 
@@ -18,10 +23,10 @@ export default function Login() {
     setError('')
     setIsSubmitting(true)
     try {
-      await login(username, password)
-      navigate('/chat')
+      await login(username, password, remember)
+      navigate(from, { replace: true })
     } catch (err) {
-      setError(isApiError(err) ? err.message : 'Login failed')
+      setError(isApiError(err) ? err.message : t('login.failed'))
     } finally {
       setIsSubmitting(false)
     }
@@ -30,24 +35,30 @@ export default function Login() {
   return (
     <div className="page-centered">
       <div className="card" style={{ width: '100%', maxWidth: 400 }}>
-        <h1 style={{ marginBottom: '1.5rem', fontSize: '1.5rem' }}>Sign in to Unify</h1>
+        <h1 style={{ marginBottom: '1.5rem', fontSize: '1.5rem' }}>{t('login.title')}</h1>
+
+        {sessionExpired && (
+          <p style={{ marginBottom: '1rem', fontSize: '0.9rem', color: 'var(--color-text-muted)' }}>
+            {t('login.sessionExpired')}
+          </p>
+        )}
 
         <form onSubmit={handleSubmit}>
           <div className="form-group">
-            <label htmlFor="username">Username</label>
+            <label htmlFor="username">{t('auth.username')}</label>
             <input
               id="username"
               type="text"
               value={username}
               onChange={(e) => setUsername(e.target.value)}
-              placeholder="your_username"
+              placeholder={t('auth.usernamePlaceholder')}
               autoComplete="username"
               required
             />
           </div>
 
           <div className="form-group">
-            <label htmlFor="password">Password</label>
+            <label htmlFor="password">{t('auth.password')}</label>
             <input
               id="password"
               type="password"
@@ -59,6 +70,18 @@ export default function Login() {
             />
           </div>
 
+          <div className="form-group">
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontWeight: 'normal' }}>
+              <input
+                type="checkbox"
+                checked={remember}
+                onChange={(e) => setRemember(e.target.checked)}
+                style={{ width: 'auto' }}
+              />
+              {t('login.remember')}
+            </label>
+          </div>
+
           {error && <p className="form-error">{error}</p>}
 
           <button
@@ -67,13 +90,13 @@ export default function Login() {
             disabled={isSubmitting}
             style={{ width: '100%', marginTop: '0.5rem' }}
           >
-            {isSubmitting ? 'Signing in…' : 'Sign in'}
+            {isSubmitting ? t('login.submitting') : t('login.submit')}
           </button>
         </form>
 
         <p style={{ marginTop: '1rem', fontSize: '0.875rem', color: 'var(--color-text-muted)' }}>
-          No account?{' '}
-          <Link to="/register">Create one</Link>
+          {t('login.noAccount')}{' '}
+          <Link to="/register">{t('login.createOne')}</Link>
         </p>
       </div>
     </div>
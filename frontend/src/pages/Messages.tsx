@@ -0,0 +1,332 @@
+import { useState, useRef, useEffect, useCallback } from 'react'
+import type { FormEvent } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { useAuth } from '../contexts/AuthContext'
+import { useRealtime, useRealtimeEvents } from '../hooks/useRealtime'
+import { useI18n } from '../hooks/useI18n'
+import { directApi, isApiError } from '../lib/api'
+import type { DirectConversation, DirectMessage } from '../lib/api'
+import type { MessageKey } from '../lib/i18n'
+
+const TYPING_IDLE_MS = 3_000      // stop "typing" after this long without keystrokes
+const TYPING_DISPLAY_MS = 6_000   // hide the other user's indicator if no update arrives
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** A message sent optimistically, shown until the server acks it. */
+interface PendingMessage {
+  client_id: string
+  content: string
+  failed: boolean
+}
+
+/** Merge messages by id, keeping chronological order. */
+function mergeMessages(existing: DirectMessage[], incoming: DirectMessage[]): DirectMessage[] {
+  const byId = new Map(existing.map((m) => [m.message_id, m]))
+  for (const m of incoming) byId.set(m.message_id, m)
+  return [...byId.values()].sort((a, b) => a.message_id - b.message_id)
+}
+
+function receiptLabel(msg: DirectMessage): MessageKey {
+  if (msg.read_at) return 'messages.receipt.read'
+  if (msg.delivered_at) return 'messages.receipt.delivered'
+  return 'messages.receipt.sent'
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+/** Live 1:1 conversation with a contact. Keyed so all state resets per conversation. */
+export default function Messages() {
+  const conversationId = Number(useParams().conversationId)
+  return <ConversationView key={conversationId} conversationId={conversationId} />
+}
+
+function ConversationView({ conversationId }: { conversationId: number }) {
+  const { user } = useAuth()
+  const { client, status } = useRealtime()
+  const { t } = useI18n()
+
+  const [conversation, setConversation] = useState<DirectConversation | null>(null)
+  const [messages, setMessages] = useState<DirectMessage[]>([])
+  const [pending, setPending] = useState<PendingMessage[]>([])
+  const [hasMore, setHasMore] = useState(false)
+  const [input, setInput] = useState('')
+  const [isOtherTyping, setIsOtherTyping] = useState(false)
+  const [error, setError] = useState('')
+  const bottomRef = useRef<HTMLDivElement>(null)
+  const typingTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined)
+  const otherTypingTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined)
+  const isTypingRef = useRef(false)
+
+  useEffect(() => {
+    let cancelled = false
+    directApi.get(conversationId)
+      .then((conv) => { if (!cancelled) setConversation(conv) })
+      .catch((err) => {
+        if (!cancelled) setError(isApiError(err) ? err.message : t('messages.error.loadConversation'))
+      })
+    return () => { cancelled = true }
+  }, [conversationId, t])
+
+  // (Re)load the latest page on open and after every reconnect, so messages
+  // that arrived while the socket was down are picked up.
+  useEffect(() => {
+    if (status !== 'open') return
+    let cancelled = false
+    directApi.messages(conversationId)
+      .then((page) => {
+        if (cancelled) return
+        setMessages((prev) => mergeMessages(prev, page.messages))
+        setHasMore((prev) => prev || page.has_more)
+      })
+      .catch((err) => {
+        if (!cancelled) setError(isApiError(err) ? err.message : t('messages.error.loadMessages'))
+      })
+    return () => { cancelled = true }
+  }, [conversationId, status, t])
+
+  // Mark the other user's messages as read while this page is visible.
+  const lastIncoming = [...messages].reverse().find((m) => m.sender_id !== user?.user_id)
+  const markRead = useCallback(() => {
+    if (!client || !lastIncoming || lastIncoming.read_at) return
+    if (document.visibilityState !== 'visible') return
+    client.send({ type: 'read', conversation_id: conversationId, message_id: lastIncoming.message_id })
+  }, [client, conversationId, lastIncoming])
+
+  useEffect(() => {
+    markRead()
+    document.addEventListener('visibilitychange', markRead)
+    return () => document.removeEventListener('visibilitychange', markRead)
+  }, [markRead])
+
+  useRealtimeEvents((event) => {
+    switch (event.type) {
+      case 'message':
+        if (event.message.conversation_id !== conversationId) return
+        setMessages((prev) => mergeMessages(prev, [event.message]))
+        setIsOtherTyping(false)
+        break
+      case 'ack':
+        setPending((prev) => prev.filter((p) => p.client_id !== event.client_id))
+        if (event.message.conversation_id === conversationId) {
+          setMessages((prev) => mergeMessages(prev, [event.message]))
+        }
+        break
+      case 'error':
+        if (event.client_id) {
+          setPending((prev) => prev.map((p) => (
+            p.client_id === event.client_id ? { ...p, failed: true } : p
+          )))
+        }
+        break
+      case 'typing':
+        if (event.conversation_id !== conversationId) return
+        clearTimeout(otherTypingTimerRef.current)
+        setIsOtherTyping(event.is_typing)
+        if (event.is_typing) {
+          otherTypingTimerRef.current = setTimeout(() => setIsOtherTyping(false), TYPING_DISPLAY_MS)
+        }
+        break
+      case 'receipt':
+        if (event.conversation_id !== conversationId) return
+        setMessages((prev) => prev.map((m) => {
+          if (m.sender_id !== user?.user_id || m.message_id > event.up_to) return m
+          return {
+            ...m,
+            delivered_at: m.delivered_at ?? event.at,
+            read_at: event.status === 'read' ? m.read_at ?? event.at : m.read_at,
+          }
+        }))
+        break
+    }
+  })
+
+  const lastMessage = messages[messages.length - 1]
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' })
+  }, [lastMessage, pending.length])
+
+  // Clear timers on unmount.
+  useEffect(() => () => {
+    clearTimeout(typingTimerRef.current)
+    clearTimeout(otherTypingTimerRef.current)
+  }, [])
+
+  function setTyping(isTyping: boolean) {
+    if (!client || isTypingRef.current === isTyping) return
+    isTypingRef.current = isTyping
+    client.send({ type: 'typing', conversation_id: conversationId, is_typing: isTyping })
+  }
+
+  function handleInputChange(value: string) {
+    setInput(value)
+    setTyping(value.trim() !== '')
+    clearTimeout(typingTimerRef.current)
+    typingTimerRef.current = setTimeout(() => setTyping(false), TYPING_IDLE_MS)
+  }
+
+  function sendPending(message: PendingMessage) {
+    client?.send({
+      type: 'send',
+      conversation_id: conversationId,
+      content: message.content,
+      client_id: message.client_id,
+    })
+  }
+
+  async function loadOlder() {
+    if (messages.length === 0) return
+    try {
+      const page = await directApi.messages(conversationId, messages[0].message_id)
+      setMessages((prev) => mergeMessages(prev, page.messages))
+      setHasMore(page.has_more)
+    } catch (err) {
+      setError(isApiError(err) ? err.message : t('messages.error.loadMessages'))
+    }
+  }
+
+  function handleSubmit(e: FormEvent) {
+    e.preventDefault()
+    const text = input.trim()
+    if (!text) return
+    setError('')
+    setTyping(false)
+    clearTimeout(typingTimerRef.current)
+
+    // Shown immediately; replaced by the stored message when the ack arrives.
+    const message: PendingMessage = { client_id: crypto.randomUUID(), content: text, failed: false }
+    setPending((prev) => [...prev, message])
+    setInput('')
+    sendPending(message)
+  }
+
+  function retry(message: PendingMessage) {
+    setPending((prev) => prev.map((p) => (
+      p.client_id === message.client_id ? { ...p, failed: false } : p
+    )))
+    sendPending(message)
+  }
+
+  function discard(message: PendingMessage) {
+    setPending((prev) => prev.filter((p) => p.client_id !== message.client_id))
+  }
+
+  const bubbleStyle = (isMine: boolean) => ({
+    alignSelf: isMine ? 'flex-end' : 'flex-start',
+    maxWidth: '75%',
+    padding: '0.6rem 1rem',
+    borderRadius: 'var(--radius-md)',
+    backgroundColor: isMine ? 'var(--color-accent-dark)' : 'var(--color-surface)',
+    border: isMine ? 'none' : '1px solid var(--color-border)',
+    lineHeight: 1.5,
+    whiteSpace: 'pre-wrap' as const,
+  })
+
+  const metaStyle = { alignSelf: 'flex-end', fontSize: '0.7rem', color: 'var(--color-text-muted)', marginTop: '-0.5rem' }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', height: 'calc(100vh - 60px)' }}>
+
+      {/* Header */}
+      <div style={{ borderBottom: '1px solid var(--color-border)', padding: '0.75rem 1rem' }}>
+        <div style={{ maxWidth: 720, margin: '0 auto', display: 'flex', gap: '1rem', alignItems: 'center' }}>
+          <Link to="/contacts" style={{ fontSize: '0.85rem' }}>{t('messages.back')}</Link>
+          <span style={{ fontWeight: 600, flex: 1 }}>{conversation?.user.username}</span>
+          {status !== 'open' && (
+            <span style={{ fontSize: '0.8rem', color: 'var(--color-text-muted)' }}>
+              {status === 'connecting' ? t('messages.connecting') : t('messages.offline')}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {/* Message list */}
+      <div style={{ flex: 1, overflowY: 'auto', padding: '1.5rem 1rem' }}>
+        <div style={{ maxWidth: 720, margin: '0 auto', display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+          {hasMore && (
+            <button
+              type="button"
+              className="btn btn-ghost"
+              onClick={loadOlder}
+              style={{ alignSelf: 'center', fontSize: '0.85rem' }}
+            >
+              {t('chat.loadEarlier')}
+            </button>
+          )}
+
+          {conversation && messages.length === 0 && pending.length === 0 && (
+            <p style={{ color: 'var(--color-text-muted)', textAlign: 'center', marginTop: '4rem' }}>
+              {t('messages.empty', { username: conversation.user.username })}
+            </p>
+          )}
+
+          {messages.map((msg, i) => {
+            const isMine = msg.sender_id === user?.user_id
+            // Receipts only under the last of a run of my messages.
+            const showReceipt = isMine && messages[i + 1]?.sender_id !== msg.sender_id
+            return (
+              <div key={msg.message_id} style={{ display: 'contents' }}>
+                <div style={bubbleStyle(isMine)}>{msg.content}</div>
+                {showReceipt && <span style={metaStyle}>{t(receiptLabel(msg))}</span>}
+              </div>
+            )
+          })}
+
+          {pending.map((msg) => (
+            <div key={msg.client_id} style={{ display: 'contents' }}>
+              <div style={{ ...bubbleStyle(true), opacity: 0.6 }}>{msg.content}</div>
+              {msg.failed ? (
+                <span style={{ ...metaStyle, color: 'var(--color-error)' }}>
+                  {t('messages.notSent')} ·{' '}
+                  <button type="button" className="btn btn-ghost" onClick={() => retry(msg)} style={{ padding: '0 0.4rem', fontSize: '0.7rem' }}>
+                    {t('common.retry')}
+                  </button>{' '}
+                  <button type="button" className="btn btn-ghost" onClick={() => discard(msg)} style={{ padding: '0 0.4rem', fontSize: '0.7rem' }}>
+                    {t('chat.discard')}
+                  </button>
+                </span>
+              ) : (
+                <span style={metaStyle}>{t('chat.outbox.sending')}</span>
+              )}
+            </div>
+          ))}
+
+          {isOtherTyping && conversation && (
+            <p style={{ color: 'var(--color-text-muted)', fontSize: '0.85rem', fontStyle: 'italic' }}>
+              {t('messages.typing', { username: conversation.user.username })}
+            </p>
+          )}
+
+          {error && <p className="form-error" style={{ textAlign: 'center' }}>{error}</p>}
+
+          <div ref={bottomRef} />
+        </div>
+      </div>
+
+      {/* Input bar */}
+      <div style={{ borderTop: '1px solid var(--color-border)', padding: '1rem', backgroundColor: 'var(--color-bg)' }}>
+        <form
+          onSubmit={handleSubmit}
+          style={{ maxWidth: 720, margin: '0 auto', display: 'flex', gap: '0.5rem' }}
+        >
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => handleInputChange(e.target.value)}
+            onBlur={() => setTyping(false)}
+            placeholder={t('chat.placeholder.type')}
+            disabled={!conversation}
+            style={{ flex: 1 }}
+          />
+          <button
+            type="submit"
+            className="btn btn-primary"
+            disabled={!input.trim()}
+          >
+            {t('common.send')}
+          </button>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -1,20 +1,669 @@
+import { useEffect, useRef, useState } from 'react'
+import type { FormEvent } from 'react'
+import { useNavigate } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
+import { call, endpoints, EXPORT_DATA_URL, isApiError, uploadAvatar } from '../lib/api'
+import type { Locale, NotificationCategory, NotificationChannels, SessionInfo, Theme, User } from '../lib/api'
+import Avatar from '../components/Avatar'
+import AvatarCropper from '../components/AvatarCropper'
+import PasswordStrengthMeter from '../components/PasswordStrengthMeter'
+import { meetsPasswordRules } from '../lib/password'
+import { describeUserAgent } from '../lib/format'
+import { LOCALE_OPTIONS } from '../lib/i18n'
+import type { MessageKey } from '../lib/i18n'
+import { browserPermission, NOTIFICATION_CATEGORIES, requestBrowserPermission } from '../lib/notifications'
+import type { BrowserPermission } from '../lib/notifications'
+import { THEME_OPTIONS } from '../lib/theme'
+import { useI18n } from '../hooks/useI18n'
+import { useTheme } from '../hooks/useTheme'
+
+const sectionTitleStyle = { fontSize: '1.1rem', marginBottom: '1rem' }
+const noticeStyle = { fontSize: '0.85rem', color: 'var(--color-text-muted)', marginTop: '0.25rem' }
+
+// ─── Profile details ──────────────────────────────────────────────────────────
+
+function ProfileSection({ user }: { user: User }) {
+  const { refreshUser } = useAuth()
+  const { t } = useI18n()
+  const [displayName, setDisplayName] = useState(user.display_name ?? '')
+  const [bio, setBio] = useState(user.bio ?? '')
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+  const [error, setError] = useState('')
+  const [saved, setSaved] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const [cropFile, setCropFile] = useState<File | null>(null)
+  const [avatarError, setAvatarError] = useState('')
+  const [isUploading, setIsUploading] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault()
+    setError('')
+    setFieldErrors({})
+    setSaved(false)
+    setIsSaving(true)
+    try {
+      const updated = await call(endpoints.updateProfile, { body: { display_name: displayName, bio } })
+      await refreshUser(updated)
+      setSaved(true)
+    } catch (err) {
+      setError(isApiError(err) ? err.message : t('profile.details.saveFailed'))
+      if (isApiError(err) && err.fieldErrors) setFieldErrors(err.fieldErrors)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  async function saveAvatar(image: Blob) {
+    setCropFile(null)
+    setAvatarError('')
+    setIsUploading(true)
+    try {
+      await refreshUser(await uploadAvatar(image))
+    } catch (err) {
+      setAvatarError(isApiError(err) ? err.message : t('profile.photo.uploadFailed'))
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  async function removeAvatar() {
+    setAvatarError('')
+    try {
+      await refreshUser(await call(endpoints.removeAvatar))
+    } catch (err) {
+      setAvatarError(isApiError(err) ? err.message : t('profile.photo.removeFailed'))
+    }
+  }
+
+  function chooseFile(file: File | undefined) {
+    if (fileInputRef.current) fileInputRef.current.value = ''   // allow picking the same file again
+    if (!file) return
+    if (!file.type.startsWith('image/')) {
+      setAvatarError(t('profile.photo.notImage'))
+      return
+    }
+    setAvatarError('')
+    setCropFile(file)
+  }
+
+  return (
+    <section className="card">
+      <h2 style={sectionTitleStyle}>{t('profile.details.title')}</h2>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: '1rem', marginBottom: '1.25rem' }}>
+        {cropFile ? (
+          <AvatarCropper file={cropFile} onCrop={saveAvatar} onCancel={() => setCropFile(null)} />
+        ) : (
+          <>
+            <Avatar user={user} size={72} />
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.4rem' }}>
+              <p style={{ fontWeight: 600 }}>@{user.username}</p>
+              <div style={{ display: 'flex', gap: '0.5rem' }}>
+                <button
+                  type="button"
+                  className="btn btn-ghost"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isUploading}
+                  style={{ fontSize: '0.85rem', padding: '0.3rem 0.9rem' }}
+                >
+                  {isUploading ? t('profile.photo.uploading') : t('profile.photo.change')}
+                </button>
+                {user.avatar_url && (
+                  <button
+                    type="button"
+                    className="btn btn-ghost"
+                    onClick={removeAvatar}
+                    disabled={isUploading}
+                    style={{ fontSize: '0.85rem', padding: '0.3rem 0.9rem' }}
+                  >
+                    {t('common.remove')}
+                  </button>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          onChange={(e) => chooseFile(e.target.files?.[0])}
+          hidden
+        />
+      </div>
+      {avatarError && <p className="form-error" style={{ marginBottom: '1rem' }}>{avatarError}</p>}
+
+      <form onSubmit={handleSubmit}>
+        <div className="form-group">
+          <label htmlFor="display-name">{t('profile.details.displayName')}</label>
+          <input
+            id="display-name"
+            type="text"
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            placeholder={user.username}
+            maxLength={50}
+            aria-invalid={Boolean(fieldErrors.display_name)}
+          />
+          {fieldErrors.display_name && <p className="form-error">{fieldErrors.display_name}</p>}
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="bio">{t('profile.details.bio')}</label>
+          <textarea
+            id="bio"
+            value={bio}
+            onChange={(e) => setBio(e.target.value)}
+            rows={3}
+            maxLength={500}
+            placeholder={t('profile.details.bioPlaceholder')}
+            aria-invalid={Boolean(fieldErrors.bio)}
+          />
+          {fieldErrors.bio && <p className="form-error">{fieldErrors.bio}</p>}
+        </div>
+
+        {error && !Object.keys(fieldErrors).length && <p className="form-error">{error}</p>}
+        {saved && <p style={noticeStyle}>{t('profile.details.saved')}</p>}
+
+        <button type="submit" className="btn btn-primary" disabled={isSaving} style={{ marginTop: '0.5rem' }}>
+          {isSaving ? t('common.saving') : t('profile.details.save')}
+        </button>
+      </form>
+    </section>
+  )
+}
+
+// ─── Password ─────────────────────────────────────────────────────────────────
+
+function PasswordSection({ username }: { username: string }) {
+  const { t } = useI18n()
+  const [current, setCurrent] = useState('')
+  const [next, setNext] = useState('')
+  const [confirm, setConfirm] = useState('')
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+  const [error, setError] = useState('')
+  const [changed, setChanged] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault()
+    setError('')
+    setFieldErrors({})
+    setChanged(false)
+
+    if (next !== confirm) {
+      setFieldErrors({ confirm: t('register.passwordMismatch') })
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      await call(endpoints.changePassword, { body: { current_password: current, new_password: next } })
+      setCurrent('')
+      setNext('')
+      setConfirm('')
+      setChanged(true)
+    } catch (err) {
+      setError(isApiError(err) ? err.message : t('profile.password.failed'))
+      if (isApiError(err) && err.fieldErrors) setFieldErrors(err.fieldErrors)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <section className="card">
+      <h2 style={sectionTitleStyle}>{t('profile.password.title')}</h2>
+      <form onSubmit={handleSubmit}>
+        <div className="form-group">
+          <label htmlFor="current-password">{t('profile.password.current')}</label>
+          <input
+            id="current-password"
+            type="password"
+            value={current}
+            onChange={(e) => setCurrent(e.target.value)}
+            autoComplete="current-password"
+            required
+            aria-invalid={Boolean(fieldErrors.current_password)}
+          />
+          {fieldErrors.current_password && <p className="form-error">{fieldErrors.current_password}</p>}
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="new-password">{t('profile.password.new')}</label>
+          <input
+            id="new-password"
+            type="password"
+            value={next}
+            onChange={(e) => setNext(e.target.value)}
+            autoComplete="new-password"
+            required
+            aria-invalid={Boolean(fieldErrors.new_password)}
+          />
+          {fieldErrors.new_password && <p className="form-error">{fieldErrors.new_password}</p>}
+          <PasswordStrengthMeter password={next} username={username} />
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="confirm-password">{t('profile.password.confirm')}</label>
+          <input
+            id="confirm-password"
+            type="password"
+            value={confirm}
+            onChange={(e) => setConfirm(e.target.value)}
+            autoComplete="new-password"
+            required
+            aria-invalid={Boolean(fieldErrors.confirm)}
+          />
+          {fieldErrors.confirm && <p className="form-error">{fieldErrors.confirm}</p>}
+        </div>
+
+        {error && !Object.keys(fieldErrors).length && <p className="form-error">{error}</p>}
+        {changed && <p style={noticeStyle}>{t('profile.password.changed')}</p>}
+
+        <button
+          type="submit"
+          className="btn btn-primary"
+          disabled={isSubmitting || !meetsPasswordRules(next, username)}
+          style={{ marginTop: '0.5rem' }}
+        >
+          {isSubmitting ? t('profile.password.changing') : t('profile.password.title')}
+        </button>
+      </form>
+    </section>
+  )
+}
+
+// ─── Appearance ───────────────────────────────────────────────────────────────
+
+function AppearanceSection() {
+  const { theme, setTheme } = useTheme()
+  const { t } = useI18n()
+  const [error, setError] = useState('')
+
+  function choose(value: Theme) {
+    setError('')
+    setTheme(value).catch((err) => setError(isApiError(err) ? err.message : t('profile.theme.saveFailed')))
+  }
+
+  return (
+    <section className="card">
+      <fieldset style={{ border: 'none' }}>
+        <legend style={sectionTitleStyle}>{t('profile.theme.title')}</legend>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '1rem' }}>
+          {THEME_OPTIONS.map((option) => (
+            <label
+              key={option.value}
+              style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', margin: 0, color: 'var(--color-text)' }}
+            >
+              <input
+                type="radio"
+                name="theme"
+                value={option.value}
+                checked={theme === option.value}
+                onChange={() => choose(option.value)}
+                style={{ width: 'auto' }}
+              />
+              {t(option.label)}
+            </label>
+          ))}
+        </div>
+        <p style={noticeStyle}>{t('profile.savedToAccount')}</p>
+        {error && <p className="form-error">{error}</p>}
+      </fieldset>
+    </section>
+  )
+}
+
+// ─── Language ─────────────────────────────────────────────────────────────────
+
+function LanguageSection() {
+  const { locale, setLocale, t } = useI18n()
+  const [error, setError] = useState('')
+
+  function choose(value: Locale) {
+    setError('')
+    setLocale(value).catch((err) => setError(isApiError(err) ? err.message : t('profile.language.saveFailed')))
+  }
+
+  return (
+    <section className="card">
+      <fieldset style={{ border: 'none' }}>
+        <legend style={sectionTitleStyle}>{t('profile.language.title')}</legend>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '1rem' }}>
+          {LOCALE_OPTIONS.map((option) => (
+            <label
+              key={option.value}
+              lang={option.value}
+              dir={option.dir}
+              style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', margin: 0, color: 'var(--color-text)' }}
+            >
+              <input
+                type="radio"
+                name="locale"
+                value={option.value}
+                checked={locale === option.value}
+                onChange={() => choose(option.value)}
+                style={{ width: 'auto' }}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+        <p style={noticeStyle}>{t('profile.language.notice')}</p>
+        {error && <p className="form-error">{error}</p>}
+      </fieldset>
+    </section>
+  )
+}
+
+// ─── Notifications ────────────────────────────────────────────────────────────
+
+const CHANNEL_LABELS: { value: keyof NotificationChannels; label: MessageKey }[] = [
+  { value: 'toast', label: 'notifications.channel.toast' },
+  { value: 'browser', label: 'notifications.channel.browser' },
+]
+
+const PERMISSION_NOTICES: Record<BrowserPermission, MessageKey> = {
+  default: 'notifications.permission.default',
+  granted: 'notifications.permission.granted',
+  denied: 'notifications.permission.denied',
+  unsupported: 'notifications.permission.unsupported',
+}
+
+function NotificationsSection({ user }: { user: User }) {
+  const { refreshUser } = useAuth()
+  const { t } = useI18n()
+  const [permission, setPermission] = useState(browserPermission)
+  const [error, setError] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const canUseBrowser = permission !== 'unsupported' && permission !== 'denied'
+
+  async function toggle(category: NotificationCategory, channel: keyof NotificationChannels, enabled: boolean) {
+    setError('')
+    setIsSaving(true)
+    try {
+      if (channel === 'browser' && enabled && permission === 'default') {
+        const answer = await requestBrowserPermission()
+        setPermission(answer)
+        if (answer !== 'granted') return
+      }
+      const channels = { ...user.notification_preferences[category], [channel]: enabled }
+      const updated = await call(endpoints.updateProfile, {
+        body: { notification_preferences: { [category]: channels } },
+      })
+      await refreshUser(updated)
+    } catch (err) {
+      setError(isApiError(err) ? err.message : t('notifications.saveFailed'))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <section id="notifications" className="card">
+      <h2 style={sectionTitleStyle}>{t('notifications.title')}</h2>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+        {NOTIFICATION_CATEGORIES.map((category) => (
+          <fieldset key={category.value} style={{ border: 'none' }}>
+            <legend style={{ fontWeight: 500 }}>{t(category.label)}</legend>
+            <p style={{ ...noticeStyle, marginTop: 0, marginBottom: '0.4rem' }}>{t(category.description)}</p>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '1rem' }}>
+              {CHANNEL_LABELS.map((channel) => (
+                <label
+                  key={channel.value}
+                  style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', margin: 0, color: 'var(--color-text)' }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={user.notification_preferences[category.value][channel.value]
+                      && (channel.value === 'toast' || permission === 'granted')}
+                    onChange={(e) => toggle(category.value, channel.value, e.target.checked)}
+                    disabled={isSaving || (channel.value === 'browser' && !canUseBrowser)}
+                    style={{ width: 'auto' }}
+                  />
+                  {t(channel.label)}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        ))}
+      </div>
+      <p style={noticeStyle}>{t(PERMISSION_NOTICES[permission])}</p>
+      {error && <p className="form-error">{error}</p>}
+    </section>
+  )
+}
+
+// ─── Sessions ─────────────────────────────────────────────────────────────────
+
+function SessionsSection() {
+  const { signOutEverywhere } = useAuth()
+  const navigate = useNavigate()
+  const { t, formatDate } = useI18n()
+  const [sessions, setSessions] = useState<SessionInfo[] | null>(null)
+  const [error, setError] = useState('')
+  const [busy, setBusy] = useState<number | 'others' | 'all' | null>(null)
+
+  useEffect(() => {
+    call(endpoints.sessions)
+      .then((data) => setSessions(data.sessions))
+      .catch((err) => setError(isApiError(err) ? err.message : t('profile.sessions.loadFailed')))
+  }, [t])
+
+  async function revoke(sessionId: number) {
+    setError('')
+    setBusy(sessionId)
+    try {
+      await call(endpoints.revokeSession, { params: [sessionId] })
+      setSessions((prev) => prev?.filter((s) => s.session_id !== sessionId) ?? null)
+    } catch (err) {
+      setError(isApiError(err) ? err.message : t('profile.sessions.revokeFailed'))
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  async function revokeAll(keepCurrent: boolean) {
+    setError('')
+    setBusy(keepCurrent ? 'others' : 'all')
+    try {
+      await signOutEverywhere(keepCurrent)
+      if (!keepCurrent) {
+        navigate('/login', { replace: true })
+        return
+      }
+      setSessions((prev) => prev?.filter((s) => s.current) ?? null)
+    } catch (err) {
+      setError(isApiError(err) ? err.message : t('profile.sessions.revokeAllFailed'))
+    }
+    setBusy(null)
+  }
+
+  const hasOthers = sessions?.some((s) => !s.current) ?? false
+
+  return (
+    <section className="card">
+      <h2 style={sectionTitleStyle}>{t('profile.sessions.title')}</h2>
+
+      {sessions === null && !error && <p style={noticeStyle}>{t('common.loading')}</p>}
+      {sessions && (
+        <ul style={{ listStyle: 'none', display: 'flex', flexDirection: 'column', gap: '0.75rem', marginBottom: '1rem' }}>
+          {sessions.map((s) => (
+            <li key={s.session_id} style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ fontWeight: 500 }}>
+                  {describeUserAgent(s.user_agent)}
+                  {s.current && (
+                    <span style={{ marginInlineStart: '0.5rem', fontSize: '0.8rem', color: 'var(--color-accent)' }}>
+                      {t('profile.sessions.thisDevice')}
+                    </span>
+                  )}
+                </div>
+                <div style={{ fontSize: '0.8rem', color: 'var(--color-text-muted)' }}>
+                  {s.ip_address ?? t('profile.sessions.unknownIp')}
+                  {' · '}{t('profile.sessions.lastSeen', { time: formatDate(s.last_seen_at) })}
+                  {s.remember && ` · ${t('profile.sessions.remembered')}`}
+                </div>
+              </div>
+              {!s.current && (
+                <button
+                  type="button"
+                  className="btn btn-ghost"
+                  onClick={() => revoke(s.session_id)}
+                  disabled={busy !== null}
+                >
+                  {busy === s.session_id ? t('profile.sessions.signingOut') : t('common.signOut')}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="form-error">{error}</p>}
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem' }}>
+        <button
+          type="button"
+          className="btn btn-ghost"
+          onClick={() => revokeAll(true)}
+          disabled={busy !== null || !hasOthers}
+        >
+          {busy === 'others' ? t('profile.sessions.signingOut') : t('profile.sessions.signOutOthers')}
+        </button>
+        <button type="button" className="btn btn-ghost" onClick={() => revokeAll(false)} disabled={busy !== null}>
+          {busy === 'all' ? t('profile.sessions.signingOut') : t('profile.sessions.signOutAll')}
+        </button>
+      </div>
+    </section>
+  )
+}
+
+// ─── Data and deletion ────────────────────────────────────────────────────────
+
+function DataSection() {
+  const { t } = useI18n()
+  return (
+    <section className="card">
+      <h2 style={sectionTitleStyle}>{t('profile.data.title')}</h2>
+      <p style={{ ...noticeStyle, marginBottom: '1rem' }}>
+        {t('profile.data.description')}
+      </p>
+      <a href={EXPORT_DATA_URL} download className="btn btn-ghost" style={{ textDecoration: 'none' }}>
+        {t('profile.data.export')}
+      </a>
+    </section>
+  )
+}
+
+function DeleteAccountSection() {
+  const { deleteAccount } = useAuth()
+  const navigate = useNavigate()
+  const { t } = useI18n()
+  const [isConfirming, setIsConfirming] = useState(false)
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState('')
+  const [isDeleting, setIsDeleting] = useState(false)
+  const passwordRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    if (isConfirming) passwordRef.current?.focus()
+  }, [isConfirming])
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault()
+    setError('')
+    setIsDeleting(true)
+    try {
+      await deleteAccount(password)
+      navigate('/login', { replace: true })
+    } catch (err) {
+      setError(isApiError(err) ? err.fieldErrors?.password ?? err.message : t('profile.delete.failed'))
+      setIsDeleting(false)
+    }
+  }
+
+  function cancel() {
+    setIsConfirming(false)
+    setPassword('')
+    setError('')
+  }
+
+  return (
+    <section className="card" style={{ borderColor: 'var(--color-error)' }}>
+      <h2 style={sectionTitleStyle}>{t('profile.delete.title')}</h2>
+      <p style={{ ...noticeStyle, marginBottom: '1rem' }}>
+        {t('profile.delete.description')}
+      </p>
+
+      {!isConfirming ? (
+        <button
+          type="button"
+          className="btn btn-ghost"
+          onClick={() => setIsConfirming(true)}
+          style={{ color: 'var(--color-error)', borderColor: 'var(--color-error)' }}
+        >
+          {t('profile.delete.start')}
+        </button>
+      ) : (
+        <form onSubmit={handleSubmit}>
+          <div className="form-group">
+            <label htmlFor="delete-password">{t('profile.delete.confirmPassword')}</label>
+            <input
+              ref={passwordRef}
+              id="delete-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="current-password"
+              required
+            />
+          </div>
+          {error && <p className="form-error">{error}</p>}
+          <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
+            <button
+              type="submit"
+              className="btn"
+              disabled={isDeleting || !password}
+              style={{ backgroundColor: 'var(--color-error)', color: '#fff' }}
+            >
+              {isDeleting ? t('profile.delete.deleting') : t('profile.delete.confirm')}
+            </button>
+            <button type="button" className="btn btn-ghost" onClick={cancel} disabled={isDeleting}>
+              {t('common.cancel')}
+            </button>
+          </div>
+        </form>
+      )}
+    </section>
+  )
+}
+
+// ─── Page ─────────────────────────────────────────────────────────────────────
 
 export default function Profile() {
   const { user } = useAuth()
+  const { t } = useI18n()
 
   return (
     <div className="page">
-      <h1 style={{ marginBottom: '1.5rem' }}>Profile</h1>
-      <div className="card" style={{ maxWidth: 480 }}>
-        <p style={{ color: 'var(--color-text-muted)', fontSize: '0.875rem', marginBottom: '0.5rem' }}>
-          Username
-        </p>
-        <p style={{ fontSize: '1.1rem', fontWeight: 600 }}>{user?.username}</p>
-      </div>
-      <p style={{ marginTop: '2rem', color: 'var(--color-text-muted)' }}>
-        More profile settings coming soon.
-      </p>
+      <h1 style={{ marginBottom: '1.5rem' }}>{t('profile.title')}</h1>
+      {user && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '1.5rem', maxWidth: 560 }}>
+          <ProfileSection user={user} />
+          <PasswordSection username={user.username} />
+          <AppearanceSection />
+          <LanguageSection />
+          <NotificationsSection user={user} />
+          <SessionsSection />
+          <DataSection />
+          <DeleteAccountSection />
+        </div>
+      )}
     </div>
   )
 }
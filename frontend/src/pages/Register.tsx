@@ -1,33 +1,121 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import type { FormEvent } from 'react'
 import { Link, useNavigate } from 'react-router-dom'
-import { api, isApiError } from '../lib/api'
+import { useAuth } from '../contexts/AuthContext'
+import { useI18n } from '../hooks/useI18n'
+import { call, endpoints, isApiError } from '../lib/api'
+import type { MessageKey, MessageParams } from '../lib/i18n'
+import { meetsPasswordRules, USERNAME_PATTERN } from '../lib/password'
+import PasswordStrengthMeter from '../components/PasswordStrengthMeter'
+
+// Wait for a pause in typing before asking the server about a username.
+const AVAILABILITY_DEBOUNCE_MS = 400
+
+type Availability =
+  | { state: 'idle' | 'checking' | 'available' }
+  | { state: 'unavailable'; message: string }
+
+/** The server's answer for one username; `available` is null if the check failed. */
+interface AvailabilityResult {
+  username: string
+  available: boolean | null
+  message: string | null
+}
+
+function describeAvailability(
+  username: string,
+  result: AvailabilityResult | null,
+  t: (key: MessageKey, params?: MessageParams) => string,
+): Availability {
+  if (!username) return { state: 'idle' }
+  if (!USERNAME_PATTERN.test(username)) {
+    return { state: 'unavailable', message: t('register.usernameRules') }
+  }
+  if (result?.username !== username) return { state: 'checking' }
+  if (result.available === null) return { state: 'idle' }   // leave it to the server on submit
+  return result.available
+    ? { state: 'available' }
+    : { state: 'unavailable', message: result.message ?? t('register.usernameTaken') }
+}
+
+/** Drop a server error once the user edits that field. */
+function withoutField(errors: Record<string, string>, field: string): Record<string, string> {
+  const next = { ...errors }
+  delete next[field]
+  return next
+}
 
 export default function Register() {
   const navigate = useNavigate()
+  const { register } = useAuth()
+  const { t } = useI18n()
 
   const [username, setUsername] = useState('')
   const [password, setPassword] = useState('')
   const [confirm, setConfirm] = useState('')
+  const [checked, setChecked] = useState<AvailabilityResult | null>(null)
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
   const [error, setError] = useState('')
   const [isSubmitting, setIsSubmitting] = useState(false)
 
+  const trimmed = username.trim()
+  const availability = describeAvailability(trimmed, checked, t)
+
+  // Live availability check. Malformed names are reported without a request.
+  useEffect(() => {
+    if (!USERNAME_PATTERN.test(trimmed)) return
+    const controller = new AbortController()
+    const timer = setTimeout(() => {
+      call(endpoints.usernameAvailable, { params: [trimmed], signal: controller.signal })
+        .then((result) => setChecked({ username: trimmed, available: result.available, message: result.error }))
+        .catch((err) => {
+          if (!(isApiError(err) && err.code === 'aborted')) {
+            setChecked({ username: trimmed, available: null, message: null })
+          }
+        })
+    }, AVAILABILITY_DEBOUNCE_MS)
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [trimmed])
+
+  const passwordOk = meetsPasswordRules(password, trimmed)
+  const confirmMismatch = confirm !== '' && password !== confirm
+  const usernameError = fieldErrors.username ??
+    (availability.state === 'unavailable' ? availability.message : undefined)
+  const canSubmit = !isSubmitting && passwordOk && availability.state !== 'unavailable'
+
+  function changeUsername(value: string) {
+    setUsername(value)
+    setFieldErrors((prev) => withoutField(prev, 'username'))
+  }
+
+  function changePassword(value: string) {
+    setPassword(value)
+    setFieldErrors((prev) => withoutField(prev, 'password'))
+  }
+
   async function handleSubmit(e: FormEvent) {
     e.preventDefault()
     setError('')
 
     if (password !== confirm) {
-      setError('Passwords do not match')
+      setFieldErrors({ confirm: t('register.passwordMismatch') })
       return
     }
 
+    setFieldErrors({})
     setIsSubmitting(true)
     try {
-      await api.post('/api/register', { username, password })
-      navigate('/login')
+      await register(trimmed, password)
+      navigate('/chat', { replace: true })
     } catch (err) {
-      setError(isApiError(err) ? err.message : 'Registration failed')
-    } finally {
+      if (isApiError(err) && err.fieldErrors) {
+        setFieldErrors(err.fieldErrors)
+      } else {
+        setError(isApiError(err) ? err.message : t('register.failed'))
+      }
       setIsSubmitting(false)
     }
   }
@@ -35,37 +123,52 @@ export default function Register() {
   return (
     <div className="page-centered">
       <div className="card" style={{ width: '100%', maxWidth: 400 }}>
-        <h1 style={{ marginBottom: '1.5rem', fontSize: '1.5rem' }}>Create your account</h1>
+        <h1 style={{ marginBottom: '1.5rem', fontSize: '1.5rem' }}>{t('register.title')}</h1>
 
-        <form onSubmit={handleSubmit}>
+        <form onSubmit={handleSubmit} noValidate>
           <div className="form-group">
-            <label htmlFor="username">Username</label>
+            <label htmlFor="username">{t('auth.username')}</label>
             <input
               id="username"
               type="text"
               value={username}
-              onChange={(e) => setUsername(e.target.value)}
-              placeholder="your_username"
+              onChange={(e) => changeUsername(e.target.value)}
+              placeholder={t('auth.usernamePlaceholder')}
               autoComplete="username"
               required
+              aria-invalid={Boolean(usernameError)}
+              aria-describedby="username-status"
             />
+            <p id="username-status" aria-live="polite" style={{ fontSize: '0.8rem', minHeight: '1.2em' }}>
+              {usernameError ? (
+                <span className="form-error">{usernameError}</span>
+              ) : availability.state === 'checking' ? (
+                <span style={{ color: 'var(--color-text-muted)' }}>{t('register.checking')}</span>
+              ) : availability.state === 'available' ? (
+                <span style={{ color: 'var(--color-success)' }}>{t('register.available')}</span>
+              ) : null}
+            </p>
           </div>
 
           <div className="form-group">
-            <label htmlFor="password">Password</label>
+            <label htmlFor="password">{t('auth.password')}</label>
             <input
               id="password"
               type="password"
               value={password}
-              onChange={(e) => setPassword(e.target.value)}
+              onChange={(e) => changePassword(e.target.value)}
               placeholder="••••••••"
               autoComplete="new-password"
               required
+              aria-invalid={Boolean(fieldErrors.password)}
+              aria-describedby="password-strength"
             />
+            {fieldErrors.password && <p className="form-error">{fieldErrors.password}</p>}
+            <PasswordStrengthMeter id="password-strength" password={password} username={trimmed} />
           </div>
 
           <div className="form-group">
-            <label htmlFor="confirm">Confirm password</label>
+            <label htmlFor="confirm">{t('register.confirmPassword')}</label>
             <input
               id="confirm"
               type="password"
@@ -74,7 +177,11 @@ export default function Register() {
               placeholder="••••••••"
               autoComplete="new-password"
               required
+              aria-invalid={confirmMismatch || Boolean(fieldErrors.confirm)}
             />
+            {(confirmMismatch || fieldErrors.confirm) && (
+              <p className="form-error">{fieldErrors.confirm ?? t('register.passwordMismatch')}</p>
+            )}
           </div>
 
           {error && <p className="form-error">{error}</p>}
@@ -82,16 +189,16 @@ export default function Register() {
           <button
             type="submit"
             className="btn btn-primary"
-            disabled={isSubmitting}
+            disabled={!canSubmit}
             style={{ width: '100%', marginTop: '0.5rem' }}
           >
-            {isSubmitting ? 'Creating account…' : 'Create account'}
+            {isSubmitting ? t('register.submitting') : t('register.submit')}
           </button>
         </form>
 
         <p style={{ marginTop: '1rem', fontSize: '0.875rem', color: 'var(--color-text-muted)' }}>
-          Already have an account?{' '}
-          <Link to="/login">Sign in</Link>
+          {t('register.haveAccount')}{' '}
+          <Link to="/login">{t('register.signIn')}</Link>
         </p>
       </div>
     </div>
@@ -1,8 +1,271 @@
+import { useState, useEffect, useRef } from 'react'
+import { useI18n } from '../hooks/useI18n'
+import { useMediaRecorder } from '../hooks/useMediaRecorder'
+import { contactsApi, videosApi, isApiError } from '../lib/api'
+import type { Contact } from '../lib/api'
+import { formatDuration } from '../lib/format'
+import { uploadChunked } from '../lib/upload'
+import VideoInbox from '../components/VideoInbox'
+
+const MAX_DURATION_MS = 5 * 60 * 1000
+const THUMBNAIL_WIDTH = 320
+
+type UploadState = 'idle' | 'uploading' | 'failed' | 'done'
+
+function extensionFor(mimeType: string): string {
+  return mimeType.startsWith('video/mp4') ? 'mp4' : 'webm'
+}
+
+/** Grab an early frame of a recording as a JPEG, or null if the browser can't. */
+function captureThumbnail(video: Blob): Promise<Blob | null> {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(video)
+    const el = document.createElement('video')
+    const done = (result: Blob | null) => {
+      URL.revokeObjectURL(url)
+      resolve(result)
+    }
+
+    el.muted = true
+    el.playsInline = true
+    el.onloadeddata = () => { el.currentTime = 0.1 }
+    el.onseeked = () => {
+      const canvas = document.createElement('canvas')
+      canvas.width = THUMBNAIL_WIDTH
+      canvas.height = Math.round(THUMBNAIL_WIDTH * (el.videoHeight / el.videoWidth || 9 / 16))
+      canvas.getContext('2d')?.drawImage(el, 0, 0, canvas.width, canvas.height)
+      canvas.toBlob(done, 'image/jpeg', 0.8)
+    }
+    el.onerror = () => done(null)
+    el.src = url
+  })
+}
+
 export default function Video() {
+  const {
+    status, stream, recording, recordingUrl, durationMs, isSupported, error,
+    startPreview, stopPreview, startRecording, pauseRecording, resumeRecording, stopRecording, retake,
+  } = useMediaRecorder({ maxDurationMs: MAX_DURATION_MS })
+  const { t, formatNumber } = useI18n()
+
+  const previewRef = useRef<HTMLVideoElement>(null)
+  const abortRef = useRef<AbortController | null>(null)
+  // Kept across attempts so a failed upload resumes instead of starting over.
+  const uploadIdRef = useRef<string | undefined>(undefined)
+  const [uploadState, setUploadState] = useState<UploadState>('idle')
+  const [progress, setProgress] = useState(0)
+  const [uploadError, setUploadError] = useState('')
+  const [contacts, setContacts] = useState<Contact[]>([])
+  const [recipient, setRecipient] = useState('')
+
+  useEffect(() => {
+    contactsApi.list()
+      .then((all) => setContacts(all.filter((c) => c.status === 'accepted')))
+      .catch((err) => console.error('Failed to load contacts:', err))
+  }, [])
+
+  // Attach the live camera stream to the preview element.
+  useEffect(() => {
+    if (previewRef.current) previewRef.current.srcObject = stream
+  }, [stream, status])
+
+  // Cancel an in-flight upload when leaving the page.
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  async function send() {
+    if (!recording || !recipient) return
+    const controller = new AbortController()
+    abortRef.current = controller
+    setUploadState('uploading')
+    setUploadError('')
+
+    try {
+      const video = await uploadChunked(
+        recording,
+        `recording-${Date.now()}.${extensionFor(recording.type)}`,
+        {
+          uploadId: uploadIdRef.current,
+          onSession: (session) => { uploadIdRef.current = session.upload_id },
+          onProgress: setProgress,
+          signal: controller.signal,
+        },
+      )
+
+      // The thumbnail is a nicety — send the video without one if it fails.
+      const thumbnail = await captureThumbnail(recording)
+      const thumbnailUpload = thumbnail
+        ? await uploadChunked(thumbnail, 'thumbnail.jpg', { signal: controller.signal }).catch(() => null)
+        : null
+
+      await videosApi.send({
+        upload_id: video.upload_id,
+        thumbnail_upload_id: thumbnailUpload?.upload_id,
+        recipient,
+        duration_ms: Math.round(durationMs),
+      })
+      setUploadState('done')
+      uploadIdRef.current = undefined
+    } catch (err) {
+      if (controller.signal.aborted) return
+      setUploadError(isApiError(err) ? err.message : t('video.error.interrupted'))
+      setUploadState('failed')
+    }
+  }
+
+  // Resume automatically when the browser comes back online.
+  useEffect(() => {
+    if (uploadState !== 'failed') return
+    const resume = () => send()
+    window.addEventListener('online', resume)
+    return () => window.removeEventListener('online', resume)
+  })
+
+  function handleRetake() {
+    abortRef.current?.abort()
+    uploadIdRef.current = undefined
+    setUploadState('idle')
+    setProgress(0)
+    setUploadError('')
+    retake()
+  }
+
+  if (!isSupported) {
+    return (
+      <div className="page">
+        <h1 style={{ marginBottom: '0.5rem' }}>{t('nav.video')}</h1>
+        <p style={{ color: 'var(--color-text-muted)' }}>
+          {t('video.unsupported')}
+        </p>
+      </div>
+    )
+  }
+
+  const isCapturing = status === 'recording' || status === 'paused'
+
   return (
     <div className="page">
-      <h1 style={{ marginBottom: '0.5rem' }}>Video</h1>
-      <p style={{ color: 'var(--color-text-muted)' }}>Video recording and inbox coming soon.</p>
+      <h1 style={{ marginBottom: '1.5rem' }}>{t('nav.video')}</h1>
+
+      <div className="card" style={{ maxWidth: 720 }}>
+        <div
+          style={{
+            position: 'relative',
+            aspectRatio: '16 / 9',
+            backgroundColor: '#000',
+            borderRadius: 'var(--radius-sm)',
+            overflow: 'hidden',
+            marginBottom: '1rem',
+          }}
+        >
+          {status === 'stopped' && recordingUrl ? (
+            <video src={recordingUrl} controls playsInline style={{ width: '100%', height: '100%' }} />
+          ) : (
+            <video ref={previewRef} autoPlay muted playsInline style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
+          )}
+
+          {status === 'idle' && (
+            <div style={{ position: 'absolute', inset: 0, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+              <button className="btn btn-primary" onClick={startPreview}>{t('video.cameraOn')}</button>
+            </div>
+          )}
+
+          {isCapturing && (
+            <span
+              style={{
+                position: 'absolute',
+                top: '0.75rem',
+                insetInlineStart: '0.75rem',
+                padding: '0.15rem 0.6rem',
+                borderRadius: 'var(--radius-sm)',
+                backgroundColor: 'rgba(0, 0, 0, 0.6)',
+                color: status === 'recording' ? 'var(--color-error)' : 'var(--color-text-muted)',
+                fontSize: '0.85rem',
+                fontFamily: 'var(--font-mono)',
+              }}
+            >
+              {status === 'recording' ? `● ${t('video.rec')}` : `❚❚ ${t('video.paused')}`} {formatDuration(durationMs)} / {formatDuration(MAX_DURATION_MS)}
+            </span>
+          )}
+        </div>
+
+        {/* Controls */}
+        <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+          {status === 'previewing' && (
+            <>
+              <button className="btn btn-primary" onClick={startRecording}>{t('video.record')}</button>
+              <button className="btn btn-ghost" onClick={stopPreview}>{t('video.cameraOff')}</button>
+            </>
+          )}
+          {status === 'recording' && (
+            <button className="btn btn-ghost" onClick={pauseRecording}>{t('video.pause')}</button>
+          )}
+          {status === 'paused' && (
+            <button className="btn btn-ghost" onClick={resumeRecording}>{t('video.resume')}</button>
+          )}
+          {isCapturing && (
+            <button className="btn btn-primary" onClick={stopRecording}>{t('video.stop')}</button>
+          )}
+          {status === 'stopped' && (
+            <>
+              {(uploadState === 'idle' || uploadState === 'failed') && (
+                <>
+                  <select
+                    value={recipient}
+                    onChange={(e) => setRecipient(e.target.value)}
+                    aria-label={t('video.sendTo')}
+                    style={{ width: 'auto' }}
+                  >
+                    <option value="">{t('video.sendToPlaceholder')}</option>
+                    {contacts.map((c) => (
+                      <option key={c.contact_id} value={c.username}>{c.username}</option>
+                    ))}
+                  </select>
+                  <button className="btn btn-primary" onClick={send} disabled={!recipient}>
+                    {uploadState === 'failed' ? t('video.resumeSending') : t('common.send')}
+                  </button>
+                </>
+              )}
+              <button className="btn btn-ghost" onClick={handleRetake} disabled={uploadState === 'uploading'}>
+                {t('video.retake')}
+              </button>
+              <span style={{ alignSelf: 'center', fontSize: '0.85rem', color: 'var(--color-text-muted)' }}>
+                {formatDuration(durationMs)}
+              </span>
+            </>
+          )}
+        </div>
+
+        {/* Upload progress */}
+        {status === 'stopped' && uploadState !== 'idle' && (
+          <div style={{ marginTop: '1rem' }}>
+            <div
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(progress * 100)}
+              aria-label={t('video.uploadProgress')}
+              style={{ height: 8, borderRadius: 4, backgroundColor: 'var(--color-border)', overflow: 'hidden' }}
+            >
+              <div
+                style={{
+                  width: `${progress * 100}%`,
+                  height: '100%',
+                  backgroundColor: uploadState === 'failed' ? 'var(--color-error)' : 'var(--color-accent)',
+                  transition: 'width 0.2s',
+                }}
+              />
+            </div>
+            <p style={{ marginTop: '0.35rem', fontSize: '0.85rem', color: 'var(--color-text-muted)' }}>
+              {uploadState === 'uploading' && t('video.uploading', { percent: formatNumber(progress, { style: 'percent' }) })}
+              {uploadState === 'done' && t('video.sent', { recipient })}
+            </p>
+          </div>
+        )}
+
+        {(error || uploadError) && <p className="form-error">{error || uploadError}</p>}
+      </div>
+
+      <VideoInbox />
     </div>
   )
 }
@@ -0,0 +1,7 @@
+import { useLocation } from 'react-router-dom'
+
+/** The router's current path and query, for tests to check where navigation ended up. */
+export default function CurrentLocation() {
+  const { pathname, search } = useLocation()
+  return <output aria-label="Current location">{pathname + search}</output>
+}
@@ -0,0 +1,124 @@
+/**
+ * fakeSpeechRecognition.ts — a scriptable Web Speech API for tests.
+ *
+ * installFakeSpeechRecognition() puts a fake recognizer on window as
+ * both SpeechRecognition and webkitSpeechRecognition. Nothing is heard
+ * until a test says so: `hear()` delivers interim and final results the
+ * way Chrome does (every result of the session so far, final ones first),
+ * `fail()` reports an error, and `end()` ends the session as the browser
+ * would after a pause. Like the real thing, start() while already started
+ * throws InvalidStateError.
+ */
+
+import { vi } from 'vitest'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface HeardResult {
+  transcript: string
+  isFinal: boolean
+}
+
+export interface FakeSpeechRecognition extends SpeechRecognition {
+  readonly isStarted: boolean
+  /** Times start() has been called, including restarts after `end()`. */
+  readonly startCount: number
+  /** Deliver results for the current session; earlier final ones are kept, as in Chrome. */
+  hear: (...results: HeardResult[]) => void
+  /** Report an error, then end the session as the browser does. */
+  fail: (error: string) => void
+  /** End the session as the browser does after silence or a time limit. */
+  end: () => void
+}
+
+// ─── Result lists ─────────────────────────────────────────────────────────────
+
+function resultList(results: HeardResult[]): SpeechRecognitionResultList {
+  const list = results.map(({ transcript, isFinal }) => {
+    const alternative = { transcript, confidence: 1 }
+    return Object.assign([alternative], {
+      isFinal,
+      item: (index: number) => [alternative][index],
+    })
+  })
+  return Object.assign(list, {
+    item: (index: number) => list[index],
+  }) as unknown as SpeechRecognitionResultList
+}
+
+// ─── Fake ─────────────────────────────────────────────────────────────────────
+
+/** Every instance created since installFakeSpeechRecognition(), oldest first. */
+export const recognitions: FakeSpeechRecognition[] = []
+
+class FakeRecognition extends EventTarget implements FakeSpeechRecognition {
+  continuous = false
+  interimResults = false
+  lang = ''
+  onresult: ((event: SpeechRecognitionEvent) => void) | null = null
+  onerror: ((event: SpeechRecognitionErrorEvent) => void) | null = null
+  onend: (() => void) | null = null
+  isStarted = false
+  startCount = 0
+  // Final results of the current session.
+  private finals: HeardResult[] = []
+
+  constructor() {
+    super()
+    recognitions.push(this)
+  }
+
+  start() {
+    if (this.isStarted) throw new DOMException('recognition has already started', 'InvalidStateError')
+    this.isStarted = true
+    this.startCount += 1
+    this.finals = []
+  }
+
+  stop() {
+    this.end()
+  }
+
+  abort() {
+    if (!this.isStarted) return
+    this.fail('aborted')
+  }
+
+  hear(...results: HeardResult[]) {
+    if (!this.isStarted) throw new Error('hear() called while recognition is not started')
+    const heard = results.filter((r) => this.interimResults || r.isFinal)
+    const all = [...this.finals, ...heard]
+    const event = Object.assign(new Event('result'), {
+      resultIndex: this.finals.length,
+      results: resultList(all),
+    })
+    this.finals = all.filter((r) => r.isFinal)
+    this.onresult?.(event)
+  }
+
+  fail(error: string) {
+    if (!this.isStarted) return
+    this.onerror?.(Object.assign(new Event('error'), { error, message: '' }))
+    this.end()
+  }
+
+  end() {
+    if (!this.isStarted) return
+    this.isStarted = false
+    this.onend?.()
+  }
+}
+
+/** Make the Web Speech API available until the test ends (setup.ts removes it). */
+export function installFakeSpeechRecognition(): void {
+  recognitions.length = 0
+  vi.stubGlobal('SpeechRecognition', FakeRecognition)
+  vi.stubGlobal('webkitSpeechRecognition', FakeRecognition)
+}
+
+/** The most recently created recognition, e.g. the one a hook just set up. */
+export function lastRecognition(): FakeSpeechRecognition {
+  const recognition = recognitions.at(-1)
+  if (!recognition) throw new Error('No SpeechRecognition has been created')
+  return recognition
+}
@@ -0,0 +1,454 @@
+/**
+ * mockApi.ts — an in-memory stand-in for the Flask API, for tests.
+ *
+ * installMockApi() swaps fetch and WebSocket for fakes that answer the way
+ * app.py does: the same JSON shapes, `{ error }` bodies and status codes, a
+ * session "cookie" set by /api/login, and SSE replies from /api/chat. Seed
+ * it with users and conversations, override a route with `on()` to inject
+ * a failure, and read `requests` to see what the app sent. A request that
+ * nothing answers fails loudly with "No mock for …" rather than hanging.
+ */
+
+import { vi } from 'vitest'
+import type { ChatMessage, ChatResponseMeta, Conversation, SessionInfo, User } from '../lib/api'
+import type { ServerEvent } from '../lib/realtime'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface MockRequest {
+  method: string
+  /** Without the query string. */
+  path: string
+  query: URLSearchParams
+  /** `:name` segments of the matched route, e.g. `id` in /api/conversations/:id. */
+  params: Record<string, string>
+  headers: Headers
+  /** The parsed JSON body, or undefined if there was none. */
+  body: unknown
+}
+
+export type MockHandler = (req: MockRequest) => Response | Promise<Response>
+
+export interface MockUserOptions extends Partial<User> {
+  password?: string
+  /** Sign-ins are refused with 403, as for an account an admin disabled. */
+  disabled?: boolean
+}
+
+export interface MockApi {
+  /** Every request the app made, oldest first. */
+  readonly requests: MockRequest[]
+  /** The signed-in user, if any. */
+  readonly currentUser: User | null
+  /** Create an account; its password defaults to "password". */
+  addUser: (options?: MockUserOptions) => User
+  /** Start signed in as `username`, as if the session cookie were already set. */
+  signIn: (username: string) => void
+  /** End the session on the server's side, as an expiry or a sign-out elsewhere would. */
+  expireSession: () => void
+  /** Every assistant thread, oldest first. */
+  readonly conversations: Conversation[]
+  /** Create an assistant thread for the signed-in user, with earlier messages if given. */
+  addConversation: (
+    overrides?: Partial<Conversation>,
+    messages?: Pick<ChatMessage, 'role' | 'content'>[],
+  ) => Conversation
+  /** Messages saved in a thread, oldest first. */
+  messagesIn: (conversationId: number) => ChatMessage[]
+  /** The text fragments the assistant streams back from /api/chat. */
+  setReply: (chunks: string[]) => void
+  /**
+   * Answer `method path` with `handler`, ahead of the built-in routes.
+   * `:name` segments match any one segment and are passed in `params`.
+   */
+  on: (method: string, path: string, handler: MockHandler) => void
+  /** Requests made to `path`, optionally only with `method`. */
+  calls: (path: string, method?: string) => MockRequest[]
+  /** Send a realtime event to every open socket. */
+  push: (event: ServerEvent) => void
+}
+
+interface Route {
+  method: string
+  segments: string[]
+  handler: MockHandler
+}
+
+interface StoredUser {
+  user: User
+  password: string
+  disabled: boolean
+}
+
+// ─── Responses ────────────────────────────────────────────────────────────────
+
+export function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+}
+
+/** An error as app.py sends it: `{ error }`, plus `fields` for validation errors. */
+export function apiError(status: number, error: string, fields?: Record<string, string>): Response {
+  return json(fields ? { error, fields } : { error }, status)
+}
+
+export function noContent(): Response {
+  return new Response(null, { status: 204 })
+}
+
+function sseEvent(data: unknown, event?: string): string {
+  return `${event ? `event: ${event}\n` : ''}data: ${JSON.stringify(data)}\n\n`
+}
+
+/**
+ * A streamed reply as app.py's sse_response sends it: a `{ delta }` event per
+ * chunk, then `done` with `end.done` — or an `error` event with `end.error`,
+ * as when the model fails mid-stream after the 200 has gone out.
+ */
+export function sse(chunks: string[], end: { done: object } | { error: string }): Response {
+  const body = chunks.map((delta) => sseEvent({ delta })).join('') +
+    ('error' in end ? sseEvent({ error: end.error }, 'error') : sseEvent(end.done, 'done'))
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } })
+}
+
+const UNAUTHORIZED = () => apiError(401, 'Unauthorized')
+
+// ─── Server ───────────────────────────────────────────────────────────────────
+
+const DEFAULT_CHANNELS = { toast: true, browser: false }
+const SESSION_LIFETIME_MS = 24 * 60 * 60_000
+const MODEL = 'mock-model'
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(Boolean)
+}
+
+function match(route: Route, method: string, segments: string[]): Record<string, string> | null {
+  if (route.method !== method || route.segments.length !== segments.length) return null
+  const params: Record<string, string> = {}
+  for (let i = 0; i < segments.length; i++) {
+    const expected = route.segments[i]
+    if (expected.startsWith(':')) params[expected.slice(1)] = decodeURIComponent(segments[i])
+    else if (expected !== segments[i]) return null
+  }
+  return params
+}
+
+/** A fresh server with no users, no session and no overrides. */
+export function createMockApi(): MockApi & {
+  fetch: (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>
+  WebSocket: unknown
+} {
+  const users: StoredUser[] = []
+  const conversations: Conversation[] = []
+  const messages: ChatMessage[] = []
+  const requests: MockRequest[] = []
+  const overrides: Route[] = []
+  const builtIn: Route[] = []
+  const sockets = new Set<MockSocket>()
+  let signedIn: { userId: number; session: SessionInfo } | null = null
+  let reply = ['Hello', ' there!']
+  let nextId = 1
+
+  const now = () => new Date().toISOString()
+
+  function currentUser(): User | null {
+    return users.find((u) => u.user.user_id === signedIn?.userId)?.user ?? null
+  }
+
+  function startSession(userId: number, remember: boolean) {
+    const created = now()
+    signedIn = {
+      userId,
+      session: {
+        session_id: nextId++,
+        remember,
+        user_agent: navigator.userAgent,
+        ip_address: '127.0.0.1',
+        created_at: created,
+        last_seen_at: created,
+        expires_at: new Date(Date.now() + SESSION_LIFETIME_MS).toISOString(),
+        current: true,
+      },
+    }
+  }
+
+  function addUser({ password = 'password', disabled = false, ...overrides }: MockUserOptions = {}): User {
+    const userId = overrides.user_id ?? nextId++
+    const user: User = {
+      user_id: userId,
+      username: `user${userId}`,
+      display_name: null,
+      bio: null,
+      avatar_url: null,
+      role: 'user',
+      theme: 'system',
+      notification_preferences: { message: DEFAULT_CHANNELS, video: DEFAULT_CHANNELS, contact: DEFAULT_CHANNELS },
+      locale: null,
+      ...overrides,
+    }
+    users.push({ user, password, disabled })
+    return user
+  }
+
+  function saveMessage(conversationId: number, role: ChatMessage['role'], content: string): ChatMessage {
+    const message: ChatMessage = {
+      message_id: nextId++,
+      conversation_id: conversationId,
+      role,
+      content,
+      created_at: now(),
+      attachments: [],
+    }
+    messages.push(message)
+    const conversation = conversations.find((c) => c.conversation_id === conversationId)
+    if (conversation) {
+      conversation.last_message_at = message.created_at
+      // Like app.py, a thread is titled after its first user message.
+      if (role === 'user' && conversation.title === null) conversation.title = content.slice(0, 60)
+    }
+    return message
+  }
+
+  function addConversation(
+    overrides: Partial<Conversation> = {},
+    earlier: Pick<ChatMessage, 'role' | 'content'>[] = [],
+  ): Conversation {
+    const conversation: Conversation = {
+      conversation_id: nextId++,
+      title: null,
+      started_at: now(),
+      last_message_at: null,
+      branched_from_id: null,
+      ...overrides,
+    }
+    conversations.push(conversation)
+    for (const { role, content } of earlier) saveMessage(conversation.conversation_id, role, content)
+    return conversation
+  }
+
+  /** Wrap a handler like app.py's @login_required. */
+  function signedInOnly(handler: (req: MockRequest, user: User) => Response | Promise<Response>): MockHandler {
+    return (req) => {
+      const user = currentUser()
+      return user ? handler(req, user) : UNAUTHORIZED()
+    }
+  }
+
+  function route(method: string, path: string, handler: MockHandler) {
+    builtIn.push({ method, segments: splitPath(path), handler })
+  }
+
+  // ─── Built-in routes ────────────────────────────────────────────────────────
+
+  route('GET', '/api/me', signedInOnly((_req, user) => json(user)))
+
+  route('POST', '/api/login', (req) => {
+    const { username = '', password = '', remember = false } =
+      (req.body ?? {}) as { username?: string; password?: string; remember?: boolean }
+    if (!username.trim() || !password) return apiError(400, 'Username and password are required')
+    const account = users.find((u) => u.user.username === username.trim())
+    if (!account || account.password !== password) return apiError(401, 'Invalid username or password')
+    if (account.disabled) return apiError(403, 'This account has been disabled')
+    startSession(account.user.user_id, remember)
+    return json(account.user)
+  })
+
+  route('POST', '/api/register', (req) => {
+    const { username = '', password = '' } = (req.body ?? {}) as { username?: string; password?: string }
+    if (!username.trim() || !password) return apiError(400, 'Username and password are required')
+    if (users.some((u) => u.user.username === username.trim())) {
+      return apiError(409, 'Username already taken', { username: 'Username already taken' })
+    }
+    const user = addUser({ username: username.trim(), password })
+    startSession(user.user_id, false)
+    return json(user, 201)
+  })
+
+  route('POST', '/api/logout', () => {
+    signedIn = null
+    return json({ ok: true })
+  })
+
+  route('GET', '/api/sessions', signedInOnly(() => json({ sessions: [signedIn!.session] })))
+  route('GET', '/api/sessions/current', signedInOnly(() => json(signedIn!.session)))
+  route('POST', '/api/sessions/current/refresh', signedInOnly(() => {
+    signedIn!.session.expires_at = new Date(Date.now() + SESSION_LIFETIME_MS).toISOString()
+    return json(signedIn!.session)
+  }))
+
+  route('GET', '/api/notifications', signedInOnly(() => json({ notifications: [], unread: 0 })))
+  route('POST', '/api/notifications/read-all', signedInOnly(() => noContent()))
+  route('POST', '/api/notifications/:id/read', signedInOnly(() => noContent()))
+
+  route('GET', '/api/conversations', signedInOnly(() => json({
+    // Most recently active first, as app.py lists them.
+    conversations: [...conversations].sort((a, b) =>
+      (b.last_message_at ?? b.started_at).localeCompare(a.last_message_at ?? a.started_at)),
+  })))
+
+  route('POST', '/api/conversations', signedInOnly((req) => {
+    const { title } = (req.body ?? {}) as { title?: string }
+    return json(addConversation({ title: title?.trim() || null }), 201)
+  }))
+
+  route('GET', '/api/conversations/:id/messages', signedInOnly((req) => {
+    const id = Number(req.params.id)
+    if (!conversations.some((c) => c.conversation_id === id)) return apiError(404, 'Conversation not found')
+    const before = Number(req.query.get('before')) || Infinity
+    const thread = messages.filter((m) => m.conversation_id === id && m.message_id < before)
+    return json({ messages: thread.slice(-50), has_more: thread.length > 50 })
+  }))
+
+  route('POST', '/api/chat', signedInOnly((req) => {
+    const { message = '', conversation_id: conversationId = null } =
+      (req.body ?? {}) as { message?: string; conversation_id?: number | null }
+    if (!message.trim()) return apiError(400, 'Message is required')
+    if (conversationId !== null && !conversations.some((c) => c.conversation_id === conversationId)) {
+      return apiError(404, 'Conversation not found')
+    }
+
+    const text = reply.join('')
+    const saved = conversationId === null
+      ? { user_message_id: null, message_id: null }
+      : {
+          user_message_id: saveMessage(conversationId, 'user', message.trim()).message_id,
+          message_id: saveMessage(conversationId, 'assistant', text).message_id,
+        }
+    const meta: ChatResponseMeta = { model: MODEL, usage: null, finish_reason: 'stop', ...saved }
+    if (req.headers.get('Accept')?.includes('text/event-stream')) return sse(reply, { done: meta })
+    return json({ response: text, ...meta })
+  }))
+
+  route('POST', '/api/transcribe', signedInOnly((req) => {
+    const { transcript = '' } = (req.body ?? {}) as { transcript?: string }
+    if (!transcript.trim()) return apiError(400, 'Transcript is required')
+    return json({ ok: true, transcript_id: nextId++, transcript: transcript.trim() })
+  }))
+
+  // ─── fetch ──────────────────────────────────────────────────────────────────
+
+  async function mockFetch(input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> {
+    const url = new URL(input instanceof Request ? input.url : String(input), window.location.origin)
+    const method = (init.method ?? 'GET').toUpperCase()
+    const segments = splitPath(url.pathname)
+    const signal = init.signal
+
+    if (signal?.aborted) throw new DOMException('The operation was aborted.', 'AbortError')
+
+    let body: unknown
+    if (typeof init.body === 'string') body = JSON.parse(init.body)
+
+    for (const candidate of [...overrides, ...builtIn]) {
+      const params = match(candidate, method, segments)
+      if (!params) continue
+      const req: MockRequest = {
+        method,
+        path: url.pathname,
+        query: url.searchParams,
+        params,
+        headers: new Headers(init.headers),
+        body,
+      }
+      requests.push(req)
+      const response = await candidate.handler(req)
+      if (signal?.aborted) throw new DOMException('The operation was aborted.', 'AbortError')
+      return response
+    }
+    throw new Error(`No mock for ${method} ${url.pathname}`)
+  }
+
+  // ─── WebSocket ──────────────────────────────────────────────────────────────
+
+  /** Opens when signed in; without a session it closes with 4401 like app.py's /api/ws. */
+  class MockSocket {
+    static readonly CONNECTING = 0
+    static readonly OPEN = 1
+    static readonly CLOSING = 2
+    static readonly CLOSED = 3
+
+    readyState = MockSocket.CONNECTING
+    onopen: ((event: Event) => void) | null = null
+    onmessage: ((event: MessageEvent<string>) => void) | null = null
+    onclose: ((event: CloseEvent) => void) | null = null
+    /** Frames the app sent, parsed. */
+    readonly sent: unknown[] = []
+    readonly url: string
+
+    constructor(url: string) {
+      this.url = url
+      sockets.add(this)
+      setTimeout(() => {
+        if (this.readyState !== MockSocket.CONNECTING) return
+        if (!currentUser()) {
+          this.finish(4401)
+          return
+        }
+        this.readyState = MockSocket.OPEN
+        this.onopen?.(new Event('open'))
+      })
+    }
+
+    send(data: string) {
+      this.sent.push(JSON.parse(data))
+    }
+
+    close() {
+      this.finish(1000)
+    }
+
+    deliver(event: ServerEvent) {
+      if (this.readyState === MockSocket.OPEN) {
+        this.onmessage?.(new MessageEvent('message', { data: JSON.stringify(event) }))
+      }
+    }
+
+    private finish(code: number) {
+      if (this.readyState === MockSocket.CLOSED) return
+      this.readyState = MockSocket.CLOSED
+      sockets.delete(this)
+      this.onclose?.(new CloseEvent('close', { code }))
+    }
+  }
+
+  return {
+    requests,
+    get currentUser() {
+      return currentUser()
+    },
+    addUser,
+    signIn(username) {
+      const account = users.find((u) => u.user.username === username)
+      if (!account) throw new Error(`No mock user named ${username}`)
+      startSession(account.user.user_id, false)
+    },
+    expireSession() {
+      signedIn = null
+    },
+    conversations,
+    addConversation,
+    messagesIn: (conversationId) => messages.filter((m) => m.conversation_id === conversationId),
+    setReply(chunks) {
+      reply = chunks
+    },
+    on(method, path, handler) {
+      overrides.unshift({ method: method.toUpperCase(), segments: splitPath(path), handler })
+    },
+    calls: (path, method) => requests.filter((r) => r.path === path && (!method || r.method === method)),
+    push(event) {
+      sockets.forEach((socket) => socket.deliver(event))
+    },
+    fetch: mockFetch,
+    WebSocket: MockSocket,
+  }
+}
+
+/**
+ * Create a server and make it the one fetch and WebSocket talk to until the
+ * test ends (setup.ts restores the originals after each test).
+ */
+export function installMockApi(): MockApi {
+  const server = createMockApi()
+  vi.stubGlobal('fetch', server.fetch)
+  vi.stubGlobal('WebSocket', server.WebSocket)
+  return server
+}
@@ -0,0 +1,25 @@
+/**
+ * render.tsx — render routes inside the app's providers, starting at a URL.
+ *
+ * Pages get what App gives them (AuthProvider and a router) without the
+ * navbar or the realtime socket. The current location is rendered in an
+ * <output> so tests can see where redirects and navigation ended up.
+ */
+
+import { render } from '@testing-library/react'
+import type { ReactNode } from 'react'
+import { MemoryRouter, Routes } from 'react-router-dom'
+import CurrentLocation from './CurrentLocation'
+import { AuthProvider } from '../contexts/AuthContext'
+
+/** Render `<Route>` elements at `url`, inside AuthProvider. */
+export function renderRoutes(routes: ReactNode, url = '/') {
+  return render(
+    <AuthProvider>
+      <MemoryRouter initialEntries={[url]}>
+        <Routes>{routes}</Routes>
+        <CurrentLocation />
+      </MemoryRouter>
+    </AuthProvider>,
+  )
+}
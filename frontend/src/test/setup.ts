@@ -0,0 +1,52 @@
+/**
+ * setup.ts — runs before every test file (see `test.setupFiles` in vite.config.ts).
+ *
+ * Fills in the browser APIs jsdom lacks and the app uses unconditionally,
+ * adds the jest-dom matchers, and resets shared state after each test so
+ * tests can't leak into one another.
+ */
+
+import '@testing-library/jest-dom/vitest'
+import 'fake-indexeddb/auto'
+import { cleanup } from '@testing-library/react'
+import { afterEach, vi } from 'vitest'
+
+// ─── Missing browser APIs ─────────────────────────────────────────────────────
+
+// lib/theme.ts reads these at import time. Nothing matches: no OS preference.
+Object.defineProperty(window, 'matchMedia', {
+  configurable: true,
+  value: (query: string): MediaQueryList => Object.assign(new EventTarget(), {
+    matches: false,
+    media: query,
+    onchange: null,
+    addListener: () => {},
+    removeListener: () => {},
+  }),
+})
+
+// Used to keep the newest chat message in view.
+Element.prototype.scrollIntoView = () => {}
+
+// History loads the next page when its sentinel scrolls into view; in tests it never does.
+class NeverIntersecting implements IntersectionObserver {
+  readonly root = null
+  readonly rootMargin = '0px'
+  readonly thresholds = [0]
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+  takeRecords(): IntersectionObserverEntry[] {
+    return []
+  }
+}
+Object.defineProperty(window, 'IntersectionObserver', { configurable: true, value: NeverIntersecting })
+
+// ─── Between tests ────────────────────────────────────────────────────────────
+
+afterEach(() => {
+  cleanup()
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+  localStorage.clear()
+})
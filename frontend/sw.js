@@ -0,0 +1,79 @@
+/**
+ * sw.js — service worker that lets the app open offline.
+ *
+ * Not served as-is: the build (see serviceWorker() in vite.config.ts) fills
+ * in the placeholders below with the app shell's files and a hash of them,
+ * then writes the result to dist/sw.js.
+ *
+ * - The app shell is precached; page loads fall back to index.html offline.
+ * - Hashed /assets/* files are served from the cache first.
+ * - Conversations, messages, history and /api/me are fetched from the network
+ *   and the last good response is kept, so /chat and /history still show the
+ *   last-synced data offline.
+ */
+
+const PRECACHE = __PRECACHE__
+const SHELL_CACHE = 'unify-shell-' + __CACHE_VERSION__
+const API_CACHE = 'unify-api-v1'
+
+// GET endpoints whose last response is kept for offline use.
+const CACHED_API = [/^\/api\/me$/, /^\/api\/conversations(\/|$)/, /^\/api\/history$/]
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(PRECACHE))
+      .then(() => self.skipWaiting()),
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith('unify-shell-') && key !== SHELL_CACHE)
+          .map((key) => caches.delete(key)),
+      ))
+      .then(() => self.clients.claim()),
+  )
+})
+
+// Page loads pass key '/index.html': every route returns the same document.
+async function networkFirst(request, cacheName, key = request) {
+  const cache = await caches.open(cacheName)
+  try {
+    const response = await fetch(request)
+    if (response.ok) cache.put(key, response.clone())
+    return response
+  } catch (err) {
+    const cached = await cache.match(key)
+    if (cached) return cached
+    throw err
+  }
+}
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request)
+  if (cached) return cached
+  const response = await fetch(request)
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE)
+    cache.put(request, response.clone())
+  }
+  return response
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  const url = new URL(request.url)
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, SHELL_CACHE, '/index.html'))
+  } else if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request))
+  } else if (CACHED_API.some((pattern) => pattern.test(url.pathname))) {
+    event.respondWith(networkFirst(request, API_CACHE))
+  }
+})
@@ -1,9 +1,32 @@
-import { defineConfig } from 'vite'
+import { createHash } from 'node:crypto'
+import { readFileSync } from 'node:fs'
+import type { Plugin } from 'vite'
+import { defineConfig } from 'vitest/config'
 import react from '@vitejs/plugin-react'
 
+/**
+ * Emit dist/sw.js from sw.js, with the list of built files to precache and a
+ * cache version that changes whenever any of them does.
+ */
+function serviceWorker(): Plugin {
+  return {
+    name: 'unify-service-worker',
+    apply: 'build',
+    generateBundle(_options, bundle) {
+      const files = Object.keys(bundle).filter((file) => file !== 'index.html' && !file.endsWith('.map'))
+      const precache = ['/', '/index.html', ...files.map((file) => `/${file}`)]
+      const version = createHash('sha256').update(files.sort().join('\n')).digest('hex').slice(0, 12)
+      const source = readFileSync(new URL('./sw.js', import.meta.url), 'utf8')
+        .replaceAll('__PRECACHE__', JSON.stringify(precache))
+        .replaceAll('__CACHE_VERSION__', JSON.stringify(version))
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source })
+    },
+  }
+}
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
   server: {
     port: 5173,
     proxy: {
@@ -12,6 +35,7 @@ export default defineConfig({
       '/api': {
         target: 'http://localhost:5000',
         changeOrigin: true,
+        ws: true, // live messaging socket at /api/ws
       },
     },
   },
@@ -19,4 +43,9 @@ export default defineConfig({
     // Output goes into frontend/dist/ — Flask serves this in production.
     outDir: 'dist',
   },
+  test: {
+    // Tests live next to the code as *.test.ts(x); helpers are in src/test/.
+    environment: 'jsdom',
+    setupFiles: ['./src/test/setup.ts'],
+  },
 })
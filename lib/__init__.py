@@ -0,0 +1 @@
+"""Backend modules used by app.py."""
@@ -0,0 +1,239 @@
+"""
+llm_service.py — provider-agnostic chat completions for /api/chat.
+
+Configuration comes from the environment (see .env.example):
+
+    LLM_PROVIDER        mock (default) | openai
+    LLM_MODEL           model name passed to the provider
+    LLM_SYSTEM_PROMPT   system prompt prepended to every conversation
+    LLM_TEMPERATURE     sampling temperature (default 0.7)
+    LLM_MAX_TOKENS      completion token limit (default 512)
+
+The `mock` provider is deterministic and makes no network calls, so the app
+and its tests run offline. Additional providers subclass `LLMProvider` and
+are added with `register_provider()`.
+"""
+
+import json
+import os
+import re
+import urllib.request
+from abc import ABC, abstractmethod
+from dataclasses import dataclass, field, asdict
+from typing import Iterator
+
+DEFAULT_SYSTEM_PROMPT = (
+    'You are Unify, a warm and concise assistant that helps people communicate '
+    'better with the people in their lives.'
+)
+
+
+# ─── Types ────────────────────────────────────────────────────────────────────
+
+@dataclass
+class LLMConfig:
+    provider: str = 'mock'
+    model: str = 'mock-echo'
+    system_prompt: str = DEFAULT_SYSTEM_PROMPT
+    temperature: float = 0.7
+    max_tokens: int = 512
+
+    @classmethod
+    def from_env(cls) -> 'LLMConfig':
+        provider = os.environ.get('LLM_PROVIDER') or 'mock'
+        return cls(
+            provider=provider,
+            model=os.environ.get('LLM_MODEL') or getattr(PROVIDERS.get(provider), 'default_model', ''),
+            system_prompt=os.environ.get('LLM_SYSTEM_PROMPT') or DEFAULT_SYSTEM_PROMPT,
+            temperature=float(os.environ.get('LLM_TEMPERATURE') or 0.7),
+            max_tokens=int(os.environ.get('LLM_MAX_TOKENS') or 512),
+        )
+
+
+@dataclass
+class Message:
+    role: str       # system | user | assistant
+    content: str
+
+
+@dataclass
+class Usage:
+    prompt_tokens: int = 0
+    completion_tokens: int = 0
+
+    @property
+    def total_tokens(self) -> int:
+        return self.prompt_tokens + self.completion_tokens
+
+    def to_json(self) -> dict:
+        return {**asdict(self), 'total_tokens': self.total_tokens}
+
+
+@dataclass
+class ChatResult:
+    content: str
+    model: str
+    usage: Usage | None = None
+    finish_reason: str = 'stop'     # stop | length | error
+
+    def meta_json(self) -> dict:
+        """Everything except the text, as sent alongside it to the client."""
+        return {
+            'model': self.model,
+            'usage': self.usage.to_json() if self.usage else None,
+            'finish_reason': self.finish_reason,
+        }
+
+
+class ChatStream:
+    """
+    Iterate for text deltas. Once exhausted, `result` holds the ChatResult
+    (the provider's generator returns it).
+    """
+
+    def __init__(self, deltas):
+        self._deltas = deltas
+        self.result: ChatResult | None = None
+
+    def __iter__(self) -> Iterator[str]:
+        self.result = yield from self._deltas
+
+
+# ─── Providers ────────────────────────────────────────────────────────────────
+
+class LLMProvider(ABC):
+    default_model = ''
+
+    @abstractmethod
+    def stream(self, messages: list[Message], config: LLMConfig):
+        """Generator yielding text deltas and returning a ChatResult."""
+
+    def complete(self, messages: list[Message], config: LLMConfig) -> ChatResult:
+        chat_stream = ChatStream(self.stream(messages, config))
+        for _ in chat_stream:
+            pass
+        return chat_stream.result
+
+
+def count_tokens(text: str) -> int:
+    """Rough token estimate (words and punctuation) for providers that don't report usage."""
+    return len(re.findall(r'\w+|[^\w\s]', text))
+
+
+class MockProvider(LLMProvider):
+    """Echoes the latest user message. Deterministic and offline."""
+
+    default_model = 'mock-echo'
+
+    def stream(self, messages, config):
+        user_turns = [m for m in messages if m.role == 'user']
+        latest = user_turns[-1].content if user_turns else ''
+        reply = f'(mock) You said: {latest}'
+        if len(user_turns) > 1:
+            reply += f' [{len(user_turns) - 1} earlier message(s) in context]'
+
+        words = re.findall(r'\S+\s*', reply)
+        finish_reason = 'stop'
+        if len(words) > config.max_tokens:
+            words, finish_reason = words[:config.max_tokens], 'length'
+
+        for word in words:
+            yield word
+        return ChatResult(
+            content=''.join(words),
+            model=config.model,
+            usage=Usage(
+                prompt_tokens=sum(count_tokens(m.content) for m in messages),
+                completion_tokens=len(words),
+            ),
+            finish_reason=finish_reason,
+        )
+
+
+class OpenAIProvider(LLMProvider):
+    """
+    Any OpenAI-compatible /chat/completions endpoint. Reads OPENAI_API_KEY and
+    optionally OPENAI_BASE_URL (for local servers such as Ollama or vLLM).
+    """
+
+    default_model = 'gpt-4o-mini'
+
+    def stream(self, messages, config):
+        base_url = os.environ.get('OPENAI_BASE_URL', 'https://api.openai.com/v1').rstrip('/')
+        req = urllib.request.Request(
+            f'{base_url}/chat/completions',
+            data=json.dumps({
+                'model': config.model,
+                'messages': [asdict(m) for m in messages],
+                'temperature': config.temperature,
+                'max_tokens': config.max_tokens,
+                'stream': True,
+                'stream_options': {'include_usage': True},
+            }).encode(),
+            headers={
+                'Content-Type': 'application/json',
+                'Authorization': f"Bearer {os.environ.get('OPENAI_API_KEY', '')}",
+            },
+        )
+
+        parts, usage, finish_reason, model = [], None, 'stop', config.model
+        with urllib.request.urlopen(req, timeout=60) as res:
+            for raw in res:
+                line = raw.decode().strip()
+                if not line.startswith('data:'):
+                    continue
+                data = line[5:].strip()
+                if data == '[DONE]':
+                    break
+                event = json.loads(data)
+                model = event.get('model', model)
+                if event.get('usage'):
+                    usage = Usage(event['usage']['prompt_tokens'], event['usage']['completion_tokens'])
+                for choice in event.get('choices', []):
+                    delta = choice.get('delta', {}).get('content')
+                    if delta:
+                        parts.append(delta)
+                        yield delta
+                    finish_reason = choice.get('finish_reason') or finish_reason
+
+        return ChatResult(''.join(parts), model, usage, finish_reason)
+
+
+PROVIDERS: dict[str, type[LLMProvider]] = {
+    'mock': MockProvider,
+    'openai': OpenAIProvider,
+}
+
+
+def register_provider(name: str, provider: type[LLMProvider]) -> None:
+    PROVIDERS[name] = provider
+
+
+# ─── Service ──────────────────────────────────────────────────────────────────
+
+class LLMService:
+    """Builds the prompt from conversation context and calls the configured provider."""
+
+    _instance: 'LLMService | None' = None
+
+    def __init__(self, config: LLMConfig, provider: LLMProvider | None = None):
+        if provider is None and config.provider not in PROVIDERS:
+            raise ValueError(f'Unknown LLM provider: {config.provider}')
+        self.config = config
+        self.provider = provider or PROVIDERS[config.provider]()
+
+    @classmethod
+    def instance(cls) -> 'LLMService':
+        """Process-wide service configured from the environment (created on first use)."""
+        if cls._instance is None:
+            cls._instance = cls(LLMConfig.from_env())
+        return cls._instance
+
+    def build_messages(self, history: list[Message], message: str) -> list[Message]:
+        return [Message('system', self.config.system_prompt), *history, Message('user', message)]
+
+    def chat(self, history: list[Message], message: str) -> ChatResult:
+        return self.provider.complete(self.build_messages(history, message), self.config)
+
+    def stream(self, history: list[Message], message: str) -> ChatStream:
+        return ChatStream(self.provider.stream(self.build_messages(history, message), self.config))
@@ -0,0 +1,93 @@
+"""
+stt_service.py — server-side speech-to-text for /api/transcribe.
+
+Used when the browser has no Web Speech API (Firefox, older Safari): the
+client records audio and uploads it here. Configuration:
+
+    STT_PROVIDER        stub (default) | whisper
+    STT_MODEL           whisper model size (default "base")
+
+The `stub` recognizer returns a fixed, deterministic transcript so the
+upload path can be developed and tested without a model. Additional
+recognizers subclass `Recognizer` and are added with `register_recognizer()`.
+"""
+
+import os
+import tempfile
+from abc import ABC, abstractmethod
+from dataclasses import dataclass
+
+
+@dataclass
+class Transcription:
+    text: str
+    language: str | None = None
+
+
+# ─── Recognizers ──────────────────────────────────────────────────────────────
+
+class Recognizer(ABC):
+    @abstractmethod
+    def transcribe(self, audio: bytes, mime_type: str, language: str | None) -> Transcription:
+        """Transcribe one recording. `language` is a BCP 47 tag such as 'en-US', or None."""
+
+
+class StubRecognizer(Recognizer):
+    """Describes the audio instead of transcribing it. Deterministic and offline."""
+
+    def transcribe(self, audio, mime_type, language):
+        return Transcription(f'(stub transcript of {len(audio)} bytes of {mime_type})', language)
+
+
+class WhisperRecognizer(Recognizer):
+    """Local openai-whisper model, loaded on first use (it is slow to load)."""
+
+    def __init__(self):
+        self._model = None
+
+    def transcribe(self, audio, mime_type, language):
+        import whisper
+
+        if self._model is None:
+            self._model = whisper.load_model(os.environ.get('STT_MODEL') or 'base')
+
+        # Whisper reads files via ffmpeg, which sniffs the container itself.
+        with tempfile.NamedTemporaryFile(suffix='.audio') as f:
+            f.write(audio)
+            f.flush()
+            # Whisper wants the bare language code ('en', not 'en-US').
+            code = language.split('-')[0].lower() if language else None
+            result = self._model.transcribe(f.name, language=code, fp16=False)
+        return Transcription(result['text'].strip(), result.get('language', code))
+
+
+RECOGNIZERS: dict[str, type[Recognizer]] = {
+    'stub': StubRecognizer,
+    'whisper': WhisperRecognizer,
+}
+
+
+def register_recognizer(name: str, recognizer: type[Recognizer]) -> None:
+    RECOGNIZERS[name] = recognizer
+
+
+# ─── Service ──────────────────────────────────────────────────────────────────
+
+class STTService:
+    _instance: 'STTService | None' = None
+
+    def __init__(self, recognizer: Recognizer):
+        self.recognizer = recognizer
+
+    @classmethod
+    def instance(cls) -> 'STTService':
+        """Process-wide service configured from the environment (created on first use)."""
+        if cls._instance is None:
+            name = os.environ.get('STT_PROVIDER') or 'stub'
+            if name not in RECOGNIZERS:
+                raise ValueError(f'Unknown STT provider: {name}')
+            cls._instance = cls(RECOGNIZERS[name]())
+        return cls._instance
+
+    def transcribe(self, audio: bytes, mime_type: str, language: str | None = None) -> Transcription:
+        return self.recognizer.transcribe(audio, mime_type, language)